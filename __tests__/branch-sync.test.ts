@@ -0,0 +1,108 @@
+/**
+ * Branch Sync Tests
+ *
+ * Validates the resumable per-branch walk used to page through commit history.
+ */
+
+import * as fc from 'fast-check';
+import {
+    advanceBranchWalk,
+    branchFromRef,
+    startBranchWalk,
+    type BranchSyncCursor,
+} from '@/lib/branch-sync';
+
+const idle: BranchSyncCursor = {
+    syncedHeadSha: null,
+    lastCommittedAt: null,
+    cursorSha: null,
+    cursorPage: 1,
+    cursorSince: null,
+};
+
+describe('Branch Sync', () => {
+    describe('branchFromRef', () => {
+        test('extracts branch names from heads refs', () => {
+            expect(branchFromRef('refs/heads/main')).toBe('main');
+            expect(branchFromRef('refs/heads/feature/billing')).toBe('feature/billing');
+        });
+
+        test('ignores tags and missing refs', () => {
+            expect(branchFromRef('refs/tags/v1.0.0')).toBeNull();
+            expect(branchFromRef(undefined)).toBeNull();
+        });
+    });
+
+    describe('startBranchWalk', () => {
+        test('a new branch starts a full backfill from its head', () => {
+            expect(startBranchWalk(idle, 'abc')).toEqual({
+                ...idle,
+                cursorSha: 'abc',
+                cursorPage: 1,
+                cursorSince: null,
+            });
+        });
+
+        test('an unchanged head needs no walk', () => {
+            expect(startBranchWalk({ ...idle, syncedHeadSha: 'abc' }, 'abc')).toBeNull();
+        });
+
+        test('a moved head only walks commits since the last one seen', () => {
+            const lastCommittedAt = new Date('2026-01-01T00:00:00Z');
+            const cursor = startBranchWalk({ ...idle, syncedHeadSha: 'abc', lastCommittedAt }, 'def');
+
+            expect(cursor?.cursorSha).toBe('def');
+            expect(cursor?.cursorSince).toEqual(lastCommittedAt);
+        });
+
+        test('an interrupted walk resumes from its pinned head and page', () => {
+            const inProgress = { ...idle, cursorSha: 'abc', cursorPage: 4 };
+
+            expect(startBranchWalk(inProgress, 'newer-head')).toEqual(inProgress);
+        });
+    });
+
+    describe('advanceBranchWalk', () => {
+        test('moves to the next page while there are more commits', () => {
+            const cursor = advanceBranchWalk(
+                { ...idle, cursorSha: 'abc', cursorPage: 2 },
+                { committedAt: [new Date('2026-01-02T00:00:00Z')], hasMore: true }
+            );
+
+            expect(cursor.cursorSha).toBe('abc');
+            expect(cursor.cursorPage).toBe(3);
+        });
+
+        test('completes the walk on the last page and records the synced head', () => {
+            const cursor = advanceBranchWalk(
+                { ...idle, cursorSha: 'abc', cursorPage: 3 },
+                { committedAt: [], hasMore: false }
+            );
+
+            expect(cursor).toEqual({ ...idle, syncedHeadSha: 'abc' });
+        });
+
+        test('property-based: a walk over N pages completes after exactly N steps', () => {
+            fc.assert(
+                fc.property(fc.integer({ min: 1, max: 50 }), (pageCount) => {
+                    let cursor = startBranchWalk(idle, 'head')!;
+                    let steps = 0;
+
+                    while (cursor.cursorSha) {
+                        steps++;
+                        cursor = advanceBranchWalk(cursor, {
+                            committedAt: [new Date(Date.UTC(2026, 0, 1) + steps * 1000)],
+                            hasMore: steps < pageCount,
+                        });
+                    }
+
+                    expect(steps).toBe(pageCount);
+                    expect(cursor.syncedHeadSha).toBe('head');
+                    expect(cursor.lastCommittedAt).toEqual(new Date(Date.UTC(2026, 0, 1) + pageCount * 1000));
+                    expect(startBranchWalk(cursor, 'head')).toBeNull();
+                }),
+                { numRuns: 50 }
+            );
+        });
+    });
+});
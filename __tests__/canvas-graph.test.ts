@@ -0,0 +1,182 @@
+/**
+ * Canvas Graph Builder Tests
+ *
+ * Validates that component coupling is derived from the dependency/dataflow
+ * arrows actually bound between shapes on the Architecture Map.
+ */
+
+import * as fc from 'fast-check';
+import {
+    buildComponentGraph,
+    extractCanvasEdges,
+    getCouplingScore,
+} from '@/lib/canvas-graph';
+
+function tldrawArrow(id: string, start?: string, end?: string) {
+    const records: any[] = [
+        { id, typeName: 'shape', type: 'arrow', props: { text: '' } },
+    ];
+    if (start) {
+        records.push({
+            id: `binding:${id}-start`,
+            typeName: 'binding',
+            type: 'arrow',
+            fromId: id,
+            toId: start,
+            props: { terminal: 'start' },
+        });
+    }
+    if (end) {
+        records.push({
+            id: `binding:${id}-end`,
+            typeName: 'binding',
+            type: 'arrow',
+            fromId: id,
+            toId: end,
+            props: { terminal: 'end' },
+        });
+    }
+    return records;
+}
+
+function tldrawSnapshot(records: any[]) {
+    const store: Record<string, any> = {};
+    records.forEach((record) => {
+        store[record.id] = record;
+    });
+    return { store, schema: {} };
+}
+
+describe('Canvas Graph Builder', () => {
+    describe('extractCanvasEdges', () => {
+        test('reads arrow bindings from a tldraw snapshot', () => {
+            const state = tldrawSnapshot([
+                { id: 'shape:a', typeName: 'shape', type: 'geo' },
+                { id: 'shape:b', typeName: 'shape', type: 'geo' },
+                ...tldrawArrow('shape:arrow1', 'shape:a', 'shape:b'),
+            ]);
+
+            expect(extractCanvasEdges(state)).toEqual([
+                {
+                    shapeId: 'shape:arrow1',
+                    fromShapeId: 'shape:a',
+                    toShapeId: 'shape:b',
+                    kind: 'dependency',
+                    label: undefined,
+                },
+            ]);
+        });
+
+        test('supports inline bindings from older tldraw snapshots', () => {
+            const state = tldrawSnapshot([
+                {
+                    id: 'shape:arrow1',
+                    typeName: 'shape',
+                    type: 'arrow',
+                    props: {
+                        start: { boundShapeId: 'shape:a' },
+                        end: { boundShapeId: 'shape:b' },
+                        text: 'REST',
+                    },
+                },
+            ]);
+
+            const edges = extractCanvasEdges(state);
+            expect(edges).toHaveLength(1);
+            expect(edges[0].label).toBe('REST');
+        });
+
+        test('reads start/end bindings from Excalidraw elements', () => {
+            const state = {
+                elements: [
+                    { id: 'a', type: 'rectangle' },
+                    { id: 'b', type: 'rectangle' },
+                    { id: 'flow', type: 'line', startBinding: { elementId: 'a' }, endBinding: { elementId: 'b' } },
+                    { id: 'gone', type: 'arrow', isDeleted: true, startBinding: { elementId: 'a' }, endBinding: { elementId: 'b' } },
+                ],
+            };
+
+            expect(extractCanvasEdges(state)).toEqual([
+                { shapeId: 'flow', fromShapeId: 'a', toShapeId: 'b', kind: 'dataflow' },
+            ]);
+        });
+
+        test('ignores arrows that are not bound on both ends', () => {
+            const state = tldrawSnapshot([
+                ...tldrawArrow('shape:dangling', 'shape:a'),
+                ...tldrawArrow('shape:loose'),
+            ]);
+
+            expect(extractCanvasEdges(state)).toEqual([]);
+        });
+
+        test('returns no edges for empty or malformed state', () => {
+            expect(extractCanvasEdges(null)).toEqual([]);
+            expect(extractCanvasEdges({})).toEqual([]);
+            expect(extractCanvasEdges('not a canvas')).toEqual([]);
+        });
+    });
+
+    describe('buildComponentGraph', () => {
+        const shapeToComponent = new Map([
+            ['shape:a', 'COMP-A'],
+            ['shape:b', 'COMP-B'],
+            ['shape:c', 'COMP-C'],
+        ]);
+
+        test('computes fan-in and fan-out per component', () => {
+            const state = tldrawSnapshot([
+                ...tldrawArrow('shape:1', 'shape:a', 'shape:b'),
+                ...tldrawArrow('shape:2', 'shape:a', 'shape:c'),
+                ...tldrawArrow('shape:3', 'shape:c', 'shape:b'),
+            ]);
+
+            const graph = buildComponentGraph(extractCanvasEdges(state), shapeToComponent);
+
+            expect(graph.coupling.get('COMP-A')).toEqual({ fanIn: 0, fanOut: 2 });
+            expect(graph.coupling.get('COMP-B')).toEqual({ fanIn: 2, fanOut: 0 });
+            expect(graph.coupling.get('COMP-C')).toEqual({ fanIn: 1, fanOut: 1 });
+            expect(getCouplingScore(graph.coupling.get('COMP-C'))).toBe(2);
+        });
+
+        test('ignores edges to shapes that are not mapped to components', () => {
+            const state = tldrawSnapshot([
+                ...tldrawArrow('shape:1', 'shape:a', 'shape:note'),
+            ]);
+
+            const graph = buildComponentGraph(extractCanvasEdges(state), shapeToComponent);
+
+            expect(graph.edges).toEqual([]);
+            expect(getCouplingScore(graph.coupling.get('COMP-A'))).toBe(0);
+        });
+
+        test('property-based: duplicate arrows never inflate coupling', () => {
+            const shapeIds = Array.from(shapeToComponent.keys());
+
+            fc.assert(
+                fc.property(
+                    fc.array(
+                        fc.tuple(fc.constantFrom(...shapeIds), fc.constantFrom(...shapeIds)),
+                        { maxLength: 30 }
+                    ),
+                    (pairs) => {
+                        const records = pairs.flatMap(([from, to], i) =>
+                            tldrawArrow(`shape:arrow${i}`, from, to)
+                        );
+                        const graph = buildComponentGraph(
+                            extractCanvasEdges(tldrawSnapshot(records)),
+                            shapeToComponent
+                        );
+
+                        graph.coupling.forEach((coupling) => {
+                            // At most every other component in each direction
+                            expect(coupling.fanIn).toBeLessThanOrEqual(shapeToComponent.size - 1);
+                            expect(coupling.fanOut).toBeLessThanOrEqual(shapeToComponent.size - 1);
+                        });
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+    });
+});
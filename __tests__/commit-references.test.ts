@@ -0,0 +1,156 @@
+/**
+ * Commit Reference Parsing Tests
+ *
+ * Validates that commit messages are parsed for Component IDs, task and
+ * decision references, and closing keywords, and that closing references
+ * leave blocked tasks open and only count on the default branch.
+ */
+
+import { commitClosesTasks, parseCommitReferences, planTaskClosures } from '@/lib/commit-references';
+import { DEFAULT_WORKFLOW } from '@/lib/task-workflow';
+import { generateComponentId } from '@/lib/architecture-service';
+
+const targets = {
+    tasks: [
+        { id: 'ckx1task0001', title: 'Add invoice export' },
+        { id: 'ckx1task0002', title: 'Fix' },
+    ],
+    decisions: [
+        { id: 'ckx1dec0001', title: 'Use PostgreSQL for billing' },
+    ],
+};
+
+describe('parseCommitReferences', () => {
+    test('extracts Component IDs generated by generateComponentId', () => {
+        const componentId = generateComponentId();
+        const references = parseCommitReferences(`Refactor ${componentId.toLowerCase()} handlers`, targets);
+
+        expect(references.componentIds).toEqual([componentId]);
+    });
+
+    test('deduplicates repeated Component IDs', () => {
+        const references = parseCommitReferences('COMP-ABC-123 and COMP-ABC-123 again', targets);
+
+        expect(references.componentIds).toEqual(['COMP-ABC-123']);
+    });
+
+    test('resolves explicit task and decision IDs', () => {
+        const references = parseCommitReferences(
+            'Wire up export (task:ckx1task0001, ADR: ckx1dec0001)',
+            targets
+        );
+
+        expect(references.tasks).toEqual([{ taskId: 'ckx1task0001', closes: false }]);
+        expect(references.decisionIds).toEqual(['ckx1dec0001']);
+    });
+
+    test('ignores IDs that do not belong to the project', () => {
+        const references = parseCommitReferences('task:unknown decision:other', targets);
+
+        expect(references.tasks).toEqual([]);
+        expect(references.decisionIds).toEqual([]);
+    });
+
+    test('matches task and decision titles as whole phrases', () => {
+        const references = parseCommitReferences(
+            'Add invoice export per "Use PostgreSQL for billing"',
+            targets
+        );
+
+        expect(references.tasks).toEqual([{ taskId: 'ckx1task0001', closes: false }]);
+        expect(references.decisionIds).toEqual(['ckx1dec0001']);
+        expect(parseCommitReferences('Add invoice exports', targets).tasks).toEqual([]);
+    });
+
+    test('does not match titles that are too short to be meaningful', () => {
+        expect(parseCommitReferences('Fix typo', targets).tasks).toEqual([]);
+    });
+
+    test('marks tasks referenced with a closing keyword', () => {
+        expect(parseCommitReferences('Closes task #ckx1task0001', targets).tasks)
+            .toEqual([{ taskId: 'ckx1task0001', closes: true }]);
+        expect(parseCommitReferences('fixes: "Add invoice export"', targets).tasks)
+            .toEqual([{ taskId: 'ckx1task0001', closes: true }]);
+        expect(parseCommitReferences('Resolved Add invoice export', targets).tasks)
+            .toEqual([{ taskId: 'ckx1task0001', closes: true }]);
+    });
+
+    test('closing keywords on another line do not close the task', () => {
+        const references = parseCommitReferences('Closes the modal on save\n\nPart of Add invoice export', targets);
+
+        expect(references.tasks).toEqual([{ taskId: 'ckx1task0001', closes: false }]);
+    });
+});
+
+describe('planTaskClosures', () => {
+    const tasks = [
+        { id: 'ckx1task0001', title: 'Add invoice export', status: 'IN_PROGRESS' },
+        { id: 'ckx1task0003', title: 'Design invoice layout', status: 'TODO' },
+        { id: 'ckx1task0004', title: 'Ship billing page', status: 'DONE' },
+    ];
+    const blocker = { id: 'ckx1task0003', title: 'Design invoice layout', status: 'TODO' };
+    const blockersByTask = new Map([['ckx1task0001', [blocker]]]);
+
+    test('leaves a blocked task referenced with "closes" open', () => {
+        const references = parseCommitReferences('Closes task:ckx1task0001', { tasks, decisions: [] });
+        const plan = planTaskClosures(references.tasks, tasks, DEFAULT_WORKFLOW, blockersByTask);
+
+        expect(plan.complete).toEqual([]);
+        expect(plan.blocked).toEqual([{ task: tasks[0], blockers: [blocker] }]);
+    });
+
+    test('completes a blocked task when the same commit closes its blockers', () => {
+        const references = parseCommitReferences('Closes task:ckx1task0001, closes task:ckx1task0003', {
+            tasks,
+            decisions: [],
+        });
+        const plan = planTaskClosures(references.tasks, tasks, DEFAULT_WORKFLOW, blockersByTask);
+
+        expect(plan.complete.map((task) => task.id).sort()).toEqual(['ckx1task0001', 'ckx1task0003']);
+        expect(plan.blocked).toEqual([]);
+    });
+
+    test('completes unblocked tasks and skips those already done', () => {
+        const references = parseCommitReferences('Fixes task:ckx1task0003 and closes task:ckx1task0004', {
+            tasks,
+            decisions: [],
+        });
+        const plan = planTaskClosures(references.tasks, tasks, DEFAULT_WORKFLOW, blockersByTask);
+
+        expect(plan.complete).toEqual([tasks[1]]);
+        expect(plan.blocked).toEqual([]);
+    });
+
+    test('ignores blockers that are already done', () => {
+        const references = parseCommitReferences('Closes task:ckx1task0001', { tasks, decisions: [] });
+        const plan = planTaskClosures(references.tasks, tasks, DEFAULT_WORKFLOW, new Map([
+            ['ckx1task0001', [{ ...blocker, status: 'DONE' }]],
+        ]));
+
+        expect(plan.complete).toEqual([tasks[0]]);
+    });
+});
+
+describe('commitClosesTasks', () => {
+    const settings = { defaultBranch: 'main', enabledAt: new Date('2026-03-01T00:00:00Z') };
+    const recent = { committedAt: new Date('2026-03-02T00:00:00Z') };
+
+    test('closes tasks from default branch commits made after closing was turned on', () => {
+        expect(commitClosesTasks(settings, recent, 'main')).toBe(true);
+    });
+
+    test('leaves tasks open for commits on other branches until they are merged', () => {
+        expect(commitClosesTasks(settings, recent, 'feature/invoices')).toBe(false);
+        expect(commitClosesTasks(settings, recent, undefined)).toBe(false);
+    });
+
+    test('leaves tasks open for history made before closing was turned on', () => {
+        const backfilled = { committedAt: new Date('2025-11-20T00:00:00Z') };
+
+        expect(commitClosesTasks(settings, backfilled, 'main')).toBe(false);
+    });
+
+    test('closes nothing until a sync learned the default branch', () => {
+        expect(commitClosesTasks({ ...settings, defaultBranch: null }, recent, 'main')).toBe(false);
+    });
+});
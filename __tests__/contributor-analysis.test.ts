@@ -0,0 +1,117 @@
+/**
+ * Contributor Analysis Tests
+ *
+ * Covers grouping commit authors into ownership shares, the bus factor, and
+ * the low bus factor risk it raises.
+ */
+
+import * as fc from 'fast-check';
+import {
+    BUS_FACTOR_MIN_COMMITS,
+    computeBusFactor,
+    computeOwnership,
+    type CommitAuthorship,
+} from '@/lib/contributor-analysis';
+import { assessComponentRisk } from '@/lib/risk-engine';
+import { DEFAULT_RISK_POLICY, type RiskPolicy } from '@/lib/risk-policy';
+
+function commit(author: string, authorEmail: string, day: number): CommitAuthorship {
+    return { author, authorEmail, committedAt: new Date(Date.UTC(2026, 0, day)) };
+}
+
+describe('Contributor Analysis', () => {
+    describe('computeBusFactor', () => {
+        test('is null with too little history', () => {
+            expect(computeBusFactor([2, 2])).toBeNull();
+        });
+
+        test('is one when a single person wrote most commits', () => {
+            expect(computeBusFactor([1, 6, 2])).toBe(1);
+        });
+
+        test('needs more than half of the commits covered', () => {
+            expect(computeBusFactor([3, 3])).toBe(2);
+            expect(computeBusFactor([2, 2, 2, 2])).toBe(3);
+        });
+
+        test('property-based: the busiest contributors it counts cover more than half', () => {
+            fc.assert(
+                fc.property(fc.array(fc.integer({ min: 1, max: 30 }), { minLength: 1, maxLength: 12 }), (counts) => {
+                    const busFactor = computeBusFactor(counts);
+                    const total = counts.reduce((sum, count) => sum + count, 0);
+
+                    if (total < BUS_FACTOR_MIN_COMMITS) {
+                        expect(busFactor).toBeNull();
+                        return;
+                    }
+
+                    const sorted = [...counts].sort((a, b) => b - a);
+                    const covered = (n: number) => sorted.slice(0, n).reduce((sum, count) => sum + count, 0);
+                    expect(covered(busFactor!)).toBeGreaterThan(total / 2);
+                    expect(covered(busFactor! - 1)).toBeLessThanOrEqual(total / 2);
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    describe('computeOwnership', () => {
+        test('groups commits by email and orders contributors by commit count', () => {
+            const ownership = computeOwnership([
+                commit('Ada', 'ada@example.com', 1),
+                commit('Grace', 'grace@example.com', 2),
+                commit('Ada L.', 'ADA@example.com', 3),
+                commit('Ada', 'ada@example.com', 4),
+            ]);
+
+            expect(ownership.totalCommits).toBe(4);
+            expect(ownership.busFactor).toBeNull();
+            expect(ownership.contributors.map((c) => [c.name, c.commitCount, c.share])).toEqual([
+                ['Ada', 3, 0.75],
+                ['Grace', 1, 0.25],
+            ]);
+            expect(ownership.contributors[0].lastCommitAt).toEqual(new Date(Date.UTC(2026, 0, 4)));
+        });
+
+        test('prefers the project member name for matched emails', () => {
+            const user = { id: 'u1', name: 'Grace Hopper', email: 'Grace@example.com', image: null };
+            const ownership = computeOwnership(
+                [commit('ghopper', 'grace@example.com', 1), commit('someone', 'someone@example.com', 2)],
+                new Map([['grace@example.com', user]])
+            );
+
+            const grace = ownership.contributors.find((c) => c.email === 'grace@example.com');
+            const someone = ownership.contributors.find((c) => c.email === 'someone@example.com');
+            expect(grace?.name).toBe('Grace Hopper');
+            expect(grace?.user).toBe(user);
+            expect(someone?.user).toBeNull();
+        });
+
+        test('returns no contributors without commits', () => {
+            expect(computeOwnership([])).toEqual({ totalCommits: 0, busFactor: null, contributors: [] });
+        });
+    });
+
+    describe('low bus factor risk', () => {
+        const component = { componentId: 'COMP-A', name: 'A' };
+        const inputs = { churnRate: 0, decisionCount: 5, couplingScore: 0 };
+
+        test('raises a risk factor without changing the score', () => {
+            const withBusFactor = assessComponentRisk(component, { ...inputs, busFactor: 1 }, DEFAULT_RISK_POLICY);
+            const without = assessComponentRisk(component, inputs, DEFAULT_RISK_POLICY);
+
+            expect(withBusFactor.riskFactors).toEqual([
+                expect.objectContaining({ type: 'low_bus_factor', metric: 1, severity: 'high' }),
+            ]);
+            expect(withBusFactor.riskScore).toBe(without.riskScore);
+            expect(without.busFactor).toBeNull();
+        });
+
+        test('is skipped when disabled or when enough people share the work', () => {
+            const disabled: RiskPolicy = { ...DEFAULT_RISK_POLICY, enabledFactors: ['churn', 'decisions', 'coupling'] };
+
+            expect(assessComponentRisk(component, { ...inputs, busFactor: 1 }, disabled).riskFactors).toEqual([]);
+            expect(assessComponentRisk(component, { ...inputs, busFactor: 3 }, DEFAULT_RISK_POLICY).riskFactors).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,93 @@
+/**
+ * Unified Diff Parsing Tests
+ *
+ * Covers splitting raw `git diff` output into per-file changes and numbering
+ * hunk lines for the commit diff viewer.
+ */
+
+import { countPatchLines, parseHunks, parseUnifiedDiff } from '@/lib/diff';
+
+const RAW_DIFF = [
+    'diff --git a/services/billing/index.ts b/services/billing/index.ts',
+    'index 1111111..2222222 100644',
+    '--- a/services/billing/index.ts',
+    '+++ b/services/billing/index.ts',
+    '@@ -1,3 +1,3 @@ export function charge()',
+    ' const a = 1;',
+    '-const b = 2;',
+    '+const b = 3;',
+    ' const c = 4;',
+    'diff --git a/docs/old.md b/docs/new.md',
+    'similarity index 100%',
+    'rename from docs/old.md',
+    'rename to docs/new.md',
+    'diff --git a/logo.png b/logo.png',
+    'new file mode 100644',
+    'index 0000000..3333333',
+    'Binary files /dev/null and b/logo.png differ',
+    'diff --git a/schema.sql b/schema.sql',
+    'deleted file mode 100644',
+    'index 4444444..0000000',
+    '--- a/schema.sql',
+    '+++ /dev/null',
+    '@@ -1,2 +0,0 @@',
+    '--- drop everything',
+    '-DROP TABLE users;',
+    '',
+].join('\n');
+
+describe('parseUnifiedDiff', () => {
+    test('splits files with their status and line counts', () => {
+        const files = parseUnifiedDiff(RAW_DIFF);
+
+        expect(files.map(({ patch, ...file }) => file)).toEqual([
+            { path: 'services/billing/index.ts', previousPath: null, status: 'modified', additions: 1, deletions: 1 },
+            { path: 'docs/new.md', previousPath: 'docs/old.md', status: 'renamed', additions: 0, deletions: 0 },
+            { path: 'logo.png', previousPath: null, status: 'added', additions: 0, deletions: 0 },
+            { path: 'schema.sql', previousPath: null, status: 'removed', additions: 0, deletions: 2 },
+        ]);
+    });
+
+    test('keeps hunks as the patch and drops binary content', () => {
+        const [modified, renamed, binary] = parseUnifiedDiff(RAW_DIFF);
+
+        expect(modified.patch).toBe([
+            '@@ -1,3 +1,3 @@ export function charge()',
+            ' const a = 1;',
+            '-const b = 2;',
+            '+const b = 3;',
+            ' const c = 4;',
+        ].join('\n'));
+        expect(renamed.patch).toBeNull();
+        expect(binary.patch).toBeNull();
+    });
+});
+
+describe('parseHunks', () => {
+    test('numbers lines on both sides of each hunk', () => {
+        const hunks = parseHunks([
+            '@@ -10,2 +10,3 @@',
+            ' keep',
+            '-old',
+            '+new',
+            '+extra',
+            '\\ No newline at end of file',
+            '@@ -40 +41 @@',
+            '-x',
+            '+y',
+        ].join('\n'));
+
+        expect(hunks).toHaveLength(2);
+        expect(hunks[0].lines).toEqual([
+            { type: 'context', content: 'keep', oldLine: 10, newLine: 10 },
+            { type: 'delete', content: 'old', oldLine: 11, newLine: null },
+            { type: 'add', content: 'new', oldLine: null, newLine: 11 },
+            { type: 'add', content: 'extra', oldLine: null, newLine: 12 },
+        ]);
+        expect(hunks[1].lines.map((line) => [line.oldLine, line.newLine])).toEqual([[40, null], [null, 41]]);
+    });
+
+    test('counts removed lines that look like file headers', () => {
+        expect(countPatchLines('@@ -1,2 +1 @@\n--- a comment\n+++ bold\n-x')).toEqual({ additions: 1, deletions: 2 });
+    });
+});
@@ -0,0 +1,132 @@
+/**
+ * Flow Metrics Tests
+ *
+ * Covers lead time, cycle time and time-in-column computed from task status
+ * transitions against a configurable workflow.
+ */
+
+import { computeFlowMetrics, durationBuckets, durationStats, type TaskFlowHistory } from '@/lib/flow-metrics';
+import { DEFAULT_WORKFLOW } from '@/lib/task-workflow';
+
+const NOW = new Date(Date.UTC(2026, 5, 30));
+
+function day(n: number): Date {
+    return new Date(Date.UTC(2026, 5, n));
+}
+
+function task(status: string, createdDay: number, moves: Array<[string | null, string, number]>): TaskFlowHistory {
+    return {
+        createdAt: day(createdDay),
+        status,
+        transitions: moves.map(([fromStatus, toStatus, changedDay]) => ({
+            fromStatus,
+            toStatus,
+            changedAt: day(changedDay),
+        })),
+    };
+}
+
+describe('Flow Metrics', () => {
+    describe('durationStats', () => {
+        test('reports average, median and 85th percentile', () => {
+            expect(durationStats([1, 2, 3, 4, 10])).toEqual({
+                count: 5,
+                averageDays: 4,
+                medianDays: 3,
+                p85Days: 6.4,
+            });
+        });
+
+        test('is all zeros without durations', () => {
+            expect(durationStats([])).toEqual({ count: 0, averageDays: 0, medianDays: 0, p85Days: 0 });
+        });
+    });
+
+    test('durationBuckets puts boundary values in the longer bucket', () => {
+        const buckets = durationBuckets([0.5, 1, 3, 40]);
+
+        expect(buckets.map((b) => b.count)).toEqual([1, 1, 1, 0, 0, 1]);
+    });
+
+    describe('computeFlowMetrics', () => {
+        test('measures lead time from creation and cycle time from the first move', () => {
+            const metrics = computeFlowMetrics(
+                [
+                    task('DONE', 1, [
+                        [null, 'TODO', 1],
+                        ['TODO', 'IN_PROGRESS', 3],
+                        ['IN_PROGRESS', 'UNDER_REVIEW', 6],
+                        ['UNDER_REVIEW', 'DONE', 8],
+                    ]),
+                ],
+                DEFAULT_WORKFLOW,
+                NOW
+            );
+
+            expect(metrics.leadTime.medianDays).toBe(7);
+            expect(metrics.cycleTime.medianDays).toBe(5);
+            expect(metrics.timeInColumn.map((c) => [c.key, c.medianDays])).toEqual([
+                ['TODO', 2],
+                ['IN_PROGRESS', 3],
+                ['UNDER_REVIEW', 2],
+            ]);
+        });
+
+        test('counts time until now for tasks still on the board', () => {
+            const metrics = computeFlowMetrics(
+                [task('IN_PROGRESS', 20, [[null, 'TODO', 20], ['TODO', 'IN_PROGRESS', 25]])],
+                DEFAULT_WORKFLOW,
+                NOW
+            );
+
+            expect(metrics.leadTime.count).toBe(0);
+            expect(metrics.timeInColumn.find((c) => c.key === 'IN_PROGRESS')?.medianDays).toBe(5);
+        });
+
+        test('infers the starting column of tasks created before history was recorded', () => {
+            const metrics = computeFlowMetrics(
+                [task('DONE', 2, [['TODO', 'DONE', 6]])],
+                DEFAULT_WORKFLOW,
+                NOW
+            );
+
+            expect(metrics.leadTime.medianDays).toBe(4);
+            expect(metrics.cycleTime.medianDays).toBe(0);
+            expect(metrics.timeInColumn.find((c) => c.key === 'TODO')?.medianDays).toBe(4);
+        });
+
+        test('uses the last completion of reopened tasks and skips tasks without history', () => {
+            const metrics = computeFlowMetrics(
+                [
+                    task('DONE', 1, [
+                        [null, 'TODO', 1],
+                        ['TODO', 'DONE', 2],
+                        ['DONE', 'IN_PROGRESS', 4],
+                        ['IN_PROGRESS', 'DONE', 10],
+                    ]),
+                    task('DONE', 1, []),
+                ],
+                DEFAULT_WORKFLOW,
+                NOW
+            );
+
+            expect(metrics.leadTime).toMatchObject({ count: 1, medianDays: 9 });
+            expect(metrics.cycleTime.medianDays).toBe(8);
+        });
+
+        test('follows custom done columns', () => {
+            const workflow = [
+                { key: 'BACKLOG', name: 'Backlog', color: '#000000', isDone: false, wipLimit: null },
+                { key: 'SHIPPED', name: 'Shipped', color: '#000000', isDone: true, wipLimit: null },
+            ];
+            const metrics = computeFlowMetrics(
+                [task('SHIPPED', 1, [[null, 'BACKLOG', 1], ['BACKLOG', 'SHIPPED', 4]])],
+                workflow,
+                NOW
+            );
+
+            expect(metrics.leadTime.medianDays).toBe(3);
+            expect(metrics.timeInColumn.map((c) => c.key)).toEqual(['BACKLOG']);
+        });
+    });
+});
@@ -0,0 +1,279 @@
+/**
+ * Git Provider Tests
+ *
+ * Runs the GitHub, GitLab and Gitea clients against a local HTTP fake that
+ * serves recorded-shape API responses, and checks they all map onto the same
+ * provider-neutral types.
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { GitHubClient } from '@/lib/github-client';
+import { GitLabClient } from '@/lib/gitlab-client';
+import { GiteaClient } from '@/lib/gitea-client';
+import { GitProviderRequestError } from '@/lib/git-http';
+
+type Handler = (url: URL) => unknown;
+
+const routes = new Map<string, Handler>();
+const requests: Array<{ path: string; authorization?: string }> = [];
+
+const server = http.createServer((req, res) => {
+    const url = new URL(req.url!, 'http://localhost');
+    requests.push({ path: url.pathname, authorization: req.headers.authorization });
+
+    const handler = routes.get(url.pathname);
+    if (!handler) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: 'Not Found' }));
+        return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(handler(url)));
+});
+
+let baseUrl: string;
+
+beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+    routes.clear();
+    requests.length = 0;
+});
+
+describe('Git Providers', () => {
+    describe('GitHubClient', () => {
+        test('maps commits and authenticates with the token', async () => {
+            routes.set('/repos/octo/app/commits', () => [{
+                sha: 'abc123',
+                html_url: 'https://github.com/octo/app/commit/abc123',
+                commit: {
+                    message: 'Add billing export',
+                    author: { name: 'Mona', email: 'mona@example.com', date: '2026-01-02T03:04:05Z' },
+                },
+            }]);
+
+            const client = new GitHubClient('gh-token', baseUrl);
+            const { commits, hasMore } = await client.getCommits('octo', 'app', { perPage: 30 });
+
+            expect(commits).toEqual([{
+                sha: 'abc123',
+                message: 'Add billing export',
+                author: 'Mona',
+                authorEmail: 'mona@example.com',
+                committedAt: new Date('2026-01-02T03:04:05Z'),
+                url: 'https://github.com/octo/app/commit/abc123',
+            }]);
+            expect(hasMore).toBe(false);
+            expect(requests[0].authorization).toBe('token gh-token');
+        });
+
+        test('collects reviews, files and commits of a pull request', async () => {
+            routes.set('/repos/octo/app/pulls/7', () => ({
+                number: 7,
+                title: 'Split billing',
+                body: null,
+                state: 'closed',
+                draft: false,
+                merged: true,
+                user: { login: 'mona' },
+                html_url: 'https://github.com/octo/app/pull/7',
+                head: { ref: 'feature/billing' },
+                base: { ref: 'main' },
+                merge_commit_sha: 'merge1',
+                created_at: '2026-01-01T00:00:00Z',
+                updated_at: '2026-01-03T00:00:00Z',
+                merged_at: '2026-01-03T00:00:00Z',
+                closed_at: '2026-01-03T00:00:00Z',
+                requested_reviewers: [],
+            }));
+            routes.set('/repos/octo/app/pulls/7/reviews', () => [
+                { user: { login: 'hubot' }, state: 'APPROVED', submitted_at: '2026-01-02T00:00:00Z' },
+            ]);
+            routes.set('/repos/octo/app/pulls/7/files', () => [
+                { filename: 'services/billing/index.ts' },
+                { filename: 'services/invoices/index.ts', previous_filename: 'services/billing/invoices.ts' },
+            ]);
+            routes.set('/repos/octo/app/pulls/7/commits', () => [{ sha: 'c1' }, { sha: 'c2' }]);
+
+            const details = await new GitHubClient('gh-token', baseUrl).getPullRequestDetails('octo', 'app', 7);
+
+            expect(details.merged).toBe(true);
+            expect(details.mergeCommitSha).toBe('merge1');
+            expect(details.reviews).toEqual([
+                { login: 'hubot', state: 'APPROVED', submittedAt: new Date('2026-01-02T00:00:00Z') },
+            ]);
+            expect(details.changedFiles).toEqual([
+                'services/billing/index.ts',
+                'services/invoices/index.ts',
+                'services/billing/invoices.ts',
+            ]);
+            expect(details.commitShas).toEqual(['c1', 'c2']);
+        });
+    });
+
+    describe('GitLabClient', () => {
+        test('reads commit diffs with per-file status and counts', async () => {
+            routes.set('/api/v4/projects/octo%2Fapp/repository/commits/abc123/diff', () => [
+                { old_path: 'a.ts', new_path: 'a.ts', new_file: false, deleted_file: false, renamed_file: false, diff: '@@ -1 +1,2 @@\n-x\n+y\n+z\n' },
+                { old_path: 'old.ts', new_path: 'new.ts', new_file: false, deleted_file: false, renamed_file: true, diff: '' },
+                { old_path: 'gone.ts', new_path: 'gone.ts', new_file: false, deleted_file: true, renamed_file: false, diff: '@@ -1 +0,0 @@\n-x\n' },
+            ]);
+
+            const client = new GitLabClient('gl-token', baseUrl);
+            const files = await client.getCommitDiff('octo', 'app', 'abc123');
+
+            expect(files.map(({ patch, ...file }) => file)).toEqual([
+                { path: 'a.ts', previousPath: null, status: 'modified', additions: 2, deletions: 1 },
+                { path: 'new.ts', previousPath: 'old.ts', status: 'renamed', additions: 0, deletions: 0 },
+                { path: 'gone.ts', previousPath: null, status: 'removed', additions: 0, deletions: 1 },
+            ]);
+            expect(files[1].patch).toBeNull();
+        });
+
+        test('addresses projects in nested groups by their encoded path', async () => {
+            routes.set('/api/v4/projects/platform%2Fcore%2Fapp/repository/branches', () => [
+                { name: 'main', protected: true, commit: { id: 'abc123' } },
+            ]);
+
+            const client = new GitLabClient('gl-token', baseUrl);
+            const { branches } = await client.getBranches('platform/core', 'app');
+
+            expect(branches).toEqual([{ name: 'main', sha: 'abc123', protected: true }]);
+            expect(requests[0].authorization).toBe('Bearer gl-token');
+        });
+
+        test('maps merge requests onto pull requests', async () => {
+            routes.set('/api/v4/projects/octo%2Fapp/merge_requests', () => [
+                { iid: 3, title: 'Open MR', state: 'opened', author: { username: 'mona' }, created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-02T00:00:00Z', web_url: 'u3' },
+                { iid: 2, title: 'Merged MR', state: 'merged', author: { username: 'mona' }, created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-02T00:00:00Z', web_url: 'u2' },
+            ]);
+
+            const client = new GitLabClient('gl-token', baseUrl);
+            const { pullRequests } = await client.getPullRequests('octo', 'app', { state: 'closed' });
+
+            expect(pullRequests.map((pr) => [pr.number, pr.state, pr.merged])).toEqual([[2, 'closed', true]]);
+        });
+
+        test('turns approvals into reviews and keeps pending reviewers requested', async () => {
+            const mr = '/api/v4/projects/octo%2Fapp/merge_requests/5';
+            routes.set(mr, () => ({
+                iid: 5,
+                title: 'Extract invoices',
+                description: 'Per ADR: ckx1dec0001',
+                state: 'opened',
+                draft: false,
+                author: { username: 'mona' },
+                web_url: 'https://gitlab.example.com/octo/app/-/merge_requests/5',
+                source_branch: 'feature/invoices',
+                target_branch: 'main',
+                merge_commit_sha: null,
+                created_at: '2026-01-01T00:00:00Z',
+                updated_at: '2026-01-02T00:00:00Z',
+                reviewers: [{ username: 'hubot' }, { username: 'octocat' }],
+            }));
+            routes.set(`${mr}/approvals`, () => ({
+                updated_at: '2026-01-02T00:00:00Z',
+                approved_by: [{ user: { username: 'hubot' } }],
+            }));
+            routes.set(`${mr}/diffs`, () => [
+                { new_path: 'services/invoices/index.ts', old_path: 'services/billing/invoices.ts', renamed_file: true },
+            ]);
+            routes.set(`${mr}/commits`, () => [{ id: 'c1' }]);
+
+            const details = await new GitLabClient('gl-token', baseUrl).getPullRequestDetails('octo', 'app', 5);
+
+            expect(details.state).toBe('open');
+            expect(details.body).toBe('Per ADR: ckx1dec0001');
+            expect(details.reviews.map((r) => [r.login, r.state])).toEqual([['hubot', 'APPROVED']]);
+            expect(details.requestedReviewers).toEqual(['octocat']);
+            expect(details.changedFiles).toEqual(['services/invoices/index.ts', 'services/billing/invoices.ts']);
+            expect(details.commitShas).toEqual(['c1']);
+        });
+
+        test('lists projects with their namespace as owner', async () => {
+            routes.set('/api/v4/projects', (url) => {
+                expect(url.searchParams.get('membership')).toBe('true');
+                return [{
+                    id: 42,
+                    path: 'app',
+                    path_with_namespace: 'platform/core/app',
+                    namespace: { full_path: 'platform/core' },
+                    description: null,
+                    visibility: 'internal',
+                    web_url: 'https://gitlab.example.com/platform/core/app',
+                }];
+            });
+
+            const { repositories } = await new GitLabClient('gl-token', baseUrl).listUserRepositories();
+
+            expect(repositories[0]).toMatchObject({ id: '42', owner: 'platform/core', name: 'app', private: true });
+        });
+    });
+
+    describe('GiteaClient', () => {
+        test('maps review states onto GitHub review states', async () => {
+            const pull = '/api/v1/repos/octo/app/pulls/9';
+            routes.set(pull, () => ({
+                number: 9,
+                title: 'Cache invoices',
+                body: '',
+                state: 'open',
+                merged: false,
+                user: { login: 'mona' },
+                html_url: 'https://gitea.example.com/octo/app/pulls/9',
+                head: { ref: 'cache' },
+                base: { ref: 'main' },
+                merge_commit_sha: null,
+                created_at: '2026-01-01T00:00:00Z',
+                updated_at: '2026-01-02T00:00:00Z',
+                requested_reviewers: [{ login: 'octocat' }],
+            }));
+            routes.set(`${pull}/reviews`, () => [
+                { user: { login: 'hubot' }, state: 'REQUEST_CHANGES', submitted_at: '2026-01-02T00:00:00Z' },
+                { user: { login: 'mona' }, state: 'COMMENT', submitted_at: '2026-01-02T00:00:00Z' },
+                { user: { login: 'stale' }, state: 'APPROVED', submitted_at: '2026-01-01T00:00:00Z', dismissed: true },
+            ]);
+            routes.set(`${pull}/files`, () => [{ filename: 'services/invoices/cache.ts' }]);
+            routes.set(`${pull}/commits`, () => [{ sha: 'c1' }]);
+
+            const client = new GiteaClient('gt-token', baseUrl);
+            const details = await client.getPullRequestDetails('octo', 'app', 9);
+
+            expect(details.body).toBeNull();
+            expect(details.reviews.map((r) => [r.login, r.state])).toEqual([
+                ['hubot', 'CHANGES_REQUESTED'],
+                ['mona', 'COMMENTED'],
+            ]);
+            expect(details.requestedReviewers).toEqual(['octocat']);
+            expect(requests[0].authorization).toBe('token gt-token');
+        });
+
+        test('reads the files a commit touched', async () => {
+            routes.set('/api/v1/repos/octo/app/git/commits/abc123', () => ({
+                sha: 'abc123',
+                files: [{ filename: 'README.md', status: 'modified' }],
+            }));
+
+            expect(await new GiteaClient('gt-token', baseUrl).getCommitFiles('octo', 'app', 'abc123'))
+                .toEqual(['README.md']);
+        });
+
+        test('surfaces API errors with their HTTP status', async () => {
+            const client = new GiteaClient('gt-token', baseUrl);
+            const error = await client.getBranches('octo', 'missing').catch((e) => e);
+
+            expect(error).toBeInstanceOf(GitProviderRequestError);
+            expect(error.status).toBe(404);
+            expect(error.message).toBe('Not Found');
+        });
+    });
+});
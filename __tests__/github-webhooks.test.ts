@@ -0,0 +1,66 @@
+/**
+ * GitHub Webhook Tests
+ *
+ * Replays the recorded payloads in scripts/fixtures/github-webhooks through
+ * signature verification and push parsing.
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+    generateWebhookSecret,
+    parsePushCommits,
+    signWebhookPayload,
+    verifyWebhookSignature,
+} from '@/lib/github-webhooks';
+
+function loadFixture(event: string): string {
+    return readFileSync(join(__dirname, '..', 'scripts', 'fixtures', 'github-webhooks', `${event}.json`), 'utf8');
+}
+
+describe('GitHub Webhooks', () => {
+    describe('verifyWebhookSignature', () => {
+        const secret = generateWebhookSecret();
+        const body = loadFixture('push');
+
+        test('accepts a delivery signed with the repository secret', () => {
+            expect(verifyWebhookSignature(body, signWebhookPayload(body, secret), secret)).toBe(true);
+        });
+
+        test('rejects a missing signature', () => {
+            expect(verifyWebhookSignature(body, null, secret)).toBe(false);
+        });
+
+        test('rejects a delivery signed with another secret', () => {
+            const signature = signWebhookPayload(body, generateWebhookSecret());
+
+            expect(verifyWebhookSignature(body, signature, secret)).toBe(false);
+        });
+
+        test('rejects a tampered payload', () => {
+            const signature = signWebhookPayload(body, secret);
+
+            expect(verifyWebhookSignature(body.replace('main', 'evil'), signature, secret)).toBe(false);
+        });
+    });
+
+    describe('parsePushCommits', () => {
+        test('converts recorded push commits including changed files', () => {
+            const [commit] = parsePushCommits(JSON.parse(loadFixture('push')));
+
+            expect(commit.sha).toBe('0d1a26e67d8f5eaf1f6ba5c57fc3c7d91ac0fd1c');
+            expect(commit.author).toBe('The Octocat');
+            expect(commit.authorEmail).toBe('octocat@github.com');
+            expect(commit.committedAt.toISOString()).toBe('2026-01-15T10:12:31.000Z');
+            expect(commit.files).toEqual([
+                'services/billing/export.ts',
+                'services/billing/index.ts',
+                'README.md',
+            ]);
+        });
+
+        test('returns no commits for payloads without commits', () => {
+            expect(parsePushCommits(JSON.parse(loadFixture('create')))).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,184 @@
+/**
+ * Local Git Client Tests
+ *
+ * Builds throwaway repositories with the git CLI and reads them back through
+ * LocalGitClient, the source used for air-gapped projects.
+ */
+
+import { execFileSync } from 'child_process';
+import { mkdtempSync, mkdirSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LocalGitClient, isWithinLocalGitRoots, parseNameStatus } from '@/lib/local-git-client';
+
+let root: string;
+let workPath: string;
+let barePath: string;
+
+function git(cwd: string, args: string[], date?: string) {
+    return execFileSync('git', args, {
+        cwd,
+        env: {
+            ...process.env,
+            GIT_AUTHOR_NAME: 'Mona',
+            GIT_AUTHOR_EMAIL: 'mona@example.com',
+            GIT_COMMITTER_NAME: 'Mona',
+            GIT_COMMITTER_EMAIL: 'mona@example.com',
+            ...(date && { GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date }),
+        },
+    }).toString();
+}
+
+function commitFile(file: string, content: string, message: string, date: string) {
+    mkdirSync(join(workPath, file, '..'), { recursive: true });
+    writeFileSync(join(workPath, file), content);
+    git(workPath, ['add', '-A']);
+    git(workPath, ['commit', '-q', '-m', message], date);
+}
+
+beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'local-git-'));
+    workPath = join(root, 'app');
+    barePath = join(root, 'app-mirror.git');
+    mkdirSync(workPath);
+    mkdirSync(join(root, 'not-a-repo'));
+
+    git(workPath, ['init', '-q', '-b', 'main']);
+    commitFile('services/billing/index.ts', 'export {};\n', 'Add billing service', '2026-01-01T10:00:00Z');
+    commitFile('services/billing/export.ts', 'export const a = 1;\n', 'Add export\n\nCloses task:ckx1task0001', '2026-01-02T10:00:00Z');
+    mkdirSync(join(workPath, 'services', 'invoices'));
+    git(workPath, ['mv', 'services/billing/export.ts', 'services/invoices/export.ts']);
+    git(workPath, ['commit', '-q', '-m', 'Move export to invoices'], '2026-01-03T10:00:00Z');
+    git(workPath, ['branch', 'feature/cache']);
+
+    git(root, ['clone', '-q', '--bare', workPath, barePath]);
+});
+
+afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+});
+
+describe('LocalGitClient', () => {
+    test('refuses repositories outside the configured roots', () => {
+        expect(() => new LocalGitClient('/etc', [root])).toThrow('LOCAL_GIT_ROOTS');
+        expect(isWithinLocalGitRoots(join(root, '..', 'elsewhere'), [root])).toBe(false);
+        expect(isWithinLocalGitRoots(barePath, [root])).toBe(true);
+    });
+
+    test('refuses symlinks inside a root that point outside of it', () => {
+        const outside = mkdtempSync(join(tmpdir(), 'local-git-outside-'));
+        try {
+            git(outside, ['init', '-q', '--bare']);
+            symlinkSync(outside, join(root, 'escape.git'));
+            symlinkSync(barePath, join(root, 'alias.git'));
+
+            expect(isWithinLocalGitRoots(join(root, 'escape.git'), [root])).toBe(false);
+            expect(() => new LocalGitClient(join(root, 'escape.git'), [root])).toThrow('LOCAL_GIT_ROOTS');
+            expect(isWithinLocalGitRoots(join(root, 'alias.git'), [root])).toBe(true);
+        } finally {
+            rmSync(outside, { recursive: true, force: true });
+        }
+    });
+
+    test('reads commits newest first with paging', async () => {
+        const client = new LocalGitClient(barePath, [root]);
+
+        const first = await client.getCommits('', '', { perPage: 2 });
+        expect(first.commits.map((c) => c.message)).toEqual([
+            'Move export to invoices',
+            'Add export\n\nCloses task:ckx1task0001',
+        ]);
+        expect(first.commits[0]).toMatchObject({
+            author: 'Mona',
+            authorEmail: 'mona@example.com',
+            committedAt: new Date('2026-01-03T10:00:00Z'),
+            url: '',
+        });
+        expect(first.hasMore).toBe(true);
+
+        const second = await client.getCommits('', '', { perPage: 2, page: 2 });
+        expect(second.commits.map((c) => c.message)).toEqual(['Add billing service']);
+        expect(second.hasMore).toBe(false);
+    });
+
+    test('walks a pinned head and honours since', async () => {
+        const client = new LocalGitClient(barePath, [root]);
+        const { branches } = await client.getBranches('', '');
+        const main = branches.find((b) => b.name === 'main')!;
+
+        const { commits } = await client.getCommits('', '', {
+            sha: main.sha,
+            since: new Date('2026-01-02T00:00:00Z'),
+        });
+
+        expect(commits).toHaveLength(2);
+        expect(branches.map((b) => b.name)).toEqual(['feature/cache', 'main']);
+    });
+
+    test('reports both sides of a rename as changed files', async () => {
+        const client = new LocalGitClient(workPath, [root]);
+        const { commits } = await client.getCommits('', '', { perPage: 3 });
+
+        expect(await client.getCommitFiles('', '', commits[0].sha)).toEqual([
+            'services/invoices/export.ts',
+            'services/billing/export.ts',
+        ]);
+        expect(await client.getCommitFiles('', '', commits[2].sha)).toEqual(['services/billing/index.ts']);
+    });
+
+    test('reads a commit diff with patches', async () => {
+        const client = new LocalGitClient(barePath, [root]);
+        const { commits } = await client.getCommits('', '', { perPage: 3 });
+
+        const [added] = await client.getCommitDiff('', '', commits[1].sha);
+        expect(added).toMatchObject({
+            path: 'services/billing/export.ts',
+            status: 'added',
+            additions: 1,
+            deletions: 0,
+        });
+        expect(added.patch).toContain('+export const a = 1;');
+
+        expect(await client.getCommitDiff('', '', commits[0].sha)).toEqual([
+            {
+                path: 'services/invoices/export.ts',
+                previousPath: 'services/billing/export.ts',
+                status: 'renamed',
+                additions: 0,
+                deletions: 0,
+                patch: null,
+            },
+        ]);
+    });
+
+    test('rejects revisions that look like options', async () => {
+        const client = new LocalGitClient(barePath, [root]);
+
+        await expect(client.getCommits('', '', { sha: '--all' })).rejects.toThrow('Invalid revision');
+    });
+
+    test('lists repositories directly inside the roots', async () => {
+        const { repositories } = await new LocalGitClient(null, [root]).listUserRepositories();
+
+        expect(repositories.map((r) => r.name).sort()).toEqual(['app', 'app-mirror']);
+        expect(repositories.find((r) => r.name === 'app-mirror')?.fullName).toBe(barePath);
+    });
+
+    test('has no pull requests', async () => {
+        const client = new LocalGitClient(barePath, [root]);
+
+        expect(await client.getPullRequests()).toEqual({ pullRequests: [], hasMore: false });
+    });
+
+    describe('parseNameStatus', () => {
+        test('expands renames and copies to both paths', () => {
+            expect(parseNameStatus('M\ta.ts\nR087\told.ts\tnew.ts\nC100\tsrc.ts\tcopy.ts\n')).toEqual([
+                'a.ts',
+                'new.ts',
+                'old.ts',
+                'copy.ts',
+                'src.ts',
+            ]);
+        });
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * Notification Rules Tests
+ *
+ * Covers when assignees are reminded of due dates, when overdue HIGH-priority
+ * tasks are escalated to project owners, and how preferences and dedupe keys
+ * shape the notifications a scheduler run sends.
+ */
+
+import {
+    DEFAULT_NOTIFICATION_PREFERENCES,
+    notificationPreferencesSchema,
+    planDueReminders,
+    planOverdueEscalations,
+    type DueTask,
+    type NotificationPreferences,
+} from '@/lib/notification-rules';
+
+const now = new Date('2026-03-04T12:00:00Z');
+
+function task(overrides: Partial<DueTask> = {}): DueTask {
+    return {
+        id: 't1',
+        title: 'Ship release',
+        priority: 'MEDIUM',
+        dueDate: new Date('2026-03-05T06:00:00Z'),
+        assigneeId: 'alice',
+        projectId: 'p1',
+        projectName: 'Apollo',
+        done: false,
+        ...overrides,
+    };
+}
+
+const defaults = () => DEFAULT_NOTIFICATION_PREFERENCES;
+
+describe('Notification Rules', () => {
+    describe('planDueReminders', () => {
+        test('reminds the assignee of a task due within the lead time', () => {
+            const [reminder] = planDueReminders([task()], defaults, now);
+
+            expect(reminder).toMatchObject({
+                userId: 'alice',
+                type: 'TASK_DUE_SOON',
+                message: 'Due in 18 hours in Apollo',
+                link: '/projects/p1/kanban',
+                taskId: 't1',
+                dedupeKey: 'due:t1:2026-03-05T06:00:00.000Z',
+            });
+        });
+
+        test('waits until the due date is within the assignee\'s lead time', () => {
+            const later = task({ dueDate: new Date('2026-03-06T12:00:00Z') });
+            const longLead = (): NotificationPreferences => ({ ...DEFAULT_NOTIFICATION_PREFERENCES, reminderLeadHours: 72 });
+
+            expect(planDueReminders([later], defaults, now)).toHaveLength(0);
+            expect(planDueReminders([later], longLead, now)).toHaveLength(1);
+        });
+
+        test('skips done, unassigned and already overdue tasks', () => {
+            const tasks = [
+                task({ done: true }),
+                task({ assigneeId: null }),
+                task({ dueDate: new Date('2026-03-04T11:00:00Z') }),
+            ];
+
+            expect(planDueReminders(tasks, defaults, now)).toHaveLength(0);
+        });
+
+        test('respects assignees who turned reminders off', () => {
+            const optedOut = (userId: string): NotificationPreferences =>
+                userId === 'alice' ? { ...DEFAULT_NOTIFICATION_PREFERENCES, dueReminders: false } : DEFAULT_NOTIFICATION_PREFERENCES;
+
+            const reminders = planDueReminders([task(), task({ id: 't2', assigneeId: 'bob' })], optedOut, now);
+
+            expect(reminders.map((r) => r.userId)).toEqual(['bob']);
+        });
+
+        test('treats a moved due date as a new event', () => {
+            const [before] = planDueReminders([task()], defaults, now);
+            const [after] = planDueReminders([task({ dueDate: new Date('2026-03-05T09:00:00Z') })], defaults, now);
+
+            expect(before.dedupeKey).not.toBe(after.dedupeKey);
+        });
+    });
+
+    describe('planOverdueEscalations', () => {
+        const overdue = task({ priority: 'HIGH', dueDate: new Date('2026-03-02T12:00:00Z') });
+        const owners = () => ['owner1', 'owner2'];
+
+        test('escalates overdue HIGH-priority tasks to every project owner', () => {
+            const escalations = planOverdueEscalations([overdue], owners, defaults, now);
+
+            expect(escalations.map((e) => e.userId)).toEqual(['owner1', 'owner2']);
+            expect(escalations[0]).toMatchObject({
+                type: 'TASK_OVERDUE_ESCALATION',
+                message: 'Was due 2 days ago in Apollo',
+                dedupeKey: 'overdue:t1:2026-03-02T12:00:00.000Z',
+            });
+        });
+
+        test('ignores other priorities, done tasks and tasks not yet due', () => {
+            const tasks = [
+                { ...overdue, priority: 'MEDIUM' as const },
+                { ...overdue, done: true },
+                task({ priority: 'HIGH' }),
+            ];
+
+            expect(planOverdueEscalations(tasks, owners, defaults, now)).toHaveLength(0);
+        });
+
+        test('stops escalating tasks overdue for longer than a week', () => {
+            const lastDay = task({ priority: 'HIGH', dueDate: new Date('2026-02-25T13:00:00Z') });
+            const stale = task({ priority: 'HIGH', dueDate: new Date('2026-02-25T11:00:00Z') });
+
+            expect(planOverdueEscalations([lastDay], owners, defaults, now)).toHaveLength(2);
+            expect(planOverdueEscalations([stale], owners, defaults, now)).toHaveLength(0);
+        });
+
+        test('skips owners who turned escalations off', () => {
+            const preferences = (userId: string): NotificationPreferences =>
+                userId === 'owner1' ? { ...DEFAULT_NOTIFICATION_PREFERENCES, overdueEscalations: false } : DEFAULT_NOTIFICATION_PREFERENCES;
+
+            const escalations = planOverdueEscalations([overdue], owners, preferences, now);
+
+            expect(escalations.map((e) => e.userId)).toEqual(['owner2']);
+        });
+    });
+
+    describe('notificationPreferencesSchema', () => {
+        test('limits the reminder lead time to a week', () => {
+            expect(notificationPreferencesSchema.safeParse({ ...DEFAULT_NOTIFICATION_PREFERENCES, reminderLeadHours: 168 }).success).toBe(true);
+            expect(notificationPreferencesSchema.safeParse({ ...DEFAULT_NOTIFICATION_PREFERENCES, reminderLeadHours: 169 }).success).toBe(false);
+            expect(notificationPreferencesSchema.safeParse({ ...DEFAULT_NOTIFICATION_PREFERENCES, reminderLeadHours: 0 }).success).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,64 @@
+/**
+ * Path Ownership Tests
+ *
+ * Validates glob matching of changed files against component path rules
+ * used to auto-tag commits during repository sync.
+ */
+
+import { findOwningComponents, globToRegExp } from '@/lib/path-ownership';
+
+describe('Path Ownership', () => {
+    describe('globToRegExp', () => {
+        test('** matches files at any depth below a directory', () => {
+            const regexp = globToRegExp('services/billing/**');
+
+            expect(regexp.test('services/billing/index.ts')).toBe(true);
+            expect(regexp.test('services/billing/api/invoices.ts')).toBe(true);
+            expect(regexp.test('services/billing-v2/index.ts')).toBe(false);
+        });
+
+        test('* stays within a single path segment', () => {
+            const regexp = globToRegExp('lib/*.ts');
+
+            expect(regexp.test('lib/prisma.ts')).toBe(true);
+            expect(regexp.test('lib/nested/prisma.ts')).toBe(false);
+            expect(regexp.test('lib/prisma.tsx')).toBe(false);
+        });
+
+        test('**/ matches zero or more directories', () => {
+            const regexp = globToRegExp('**/schema.prisma');
+
+            expect(regexp.test('schema.prisma')).toBe(true);
+            expect(regexp.test('prisma/schema.prisma')).toBe(true);
+        });
+
+        test('a trailing slash owns the whole directory', () => {
+            expect(globToRegExp('docs/').test('docs/guide/intro.md')).toBe(true);
+        });
+
+        test('regex metacharacters are matched literally', () => {
+            const regexp = globToRegExp('app/api/[id]/route.ts');
+
+            expect(regexp.test('app/api/[id]/route.ts')).toBe(true);
+            expect(regexp.test('app/api/i/route.ts')).toBe(false);
+        });
+    });
+
+    describe('findOwningComponents', () => {
+        const owners = [
+            { id: 'billing', pathPatterns: ['services/billing/**'] },
+            { id: 'web', pathPatterns: ['app/**', 'components/**'] },
+            { id: 'unowned', pathPatterns: [] },
+        ];
+
+        test('returns every component touched by the changed files', () => {
+            expect(
+                findOwningComponents(['services/billing/index.ts', 'components/button.tsx'], owners)
+            ).toEqual(['billing', 'web']);
+        });
+
+        test('returns nothing when no pattern matches', () => {
+            expect(findOwningComponents(['README.md'], owners)).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,81 @@
+/**
+ * Pull Request Review Tests
+ *
+ * Validates how stored pull requests derive their state and overall review
+ * verdict from GitHub's review history.
+ */
+
+import { pullRequestState, summarizeReviews } from '@/lib/pull-requests';
+
+function review(login: string, state: string, minute: number) {
+    return { login, state, submittedAt: new Date(Date.UTC(2026, 0, 1, 12, minute)) };
+}
+
+describe('Pull Requests', () => {
+    describe('pullRequestState', () => {
+        test('merged takes precedence over closed', () => {
+            expect(pullRequestState({ state: 'closed', merged: true })).toBe('merged');
+            expect(pullRequestState({ state: 'closed', merged: false })).toBe('closed');
+            expect(pullRequestState({ state: 'open', merged: false })).toBe('open');
+        });
+    });
+
+    describe('summarizeReviews', () => {
+        test('no reviews and no requested reviewers has no review state', () => {
+            expect(summarizeReviews([], [])).toEqual({ reviewState: null, reviewers: [] });
+        });
+
+        test('requested reviewers without reviews require review', () => {
+            expect(summarizeReviews([], ['octocat']).reviewState).toBe('review_required');
+        });
+
+        test('keeps only the latest verdict per reviewer', () => {
+            const summary = summarizeReviews(
+                [review('octocat', 'APPROVED', 5), review('octocat', 'CHANGES_REQUESTED', 1)],
+                []
+            );
+
+            expect(summary.reviewState).toBe('approved');
+            expect(summary.reviewers).toEqual([
+                { login: 'octocat', state: 'approved', submittedAt: '2026-01-01T12:05:00.000Z' },
+            ]);
+        });
+
+        test('a later comment does not replace an approval', () => {
+            const summary = summarizeReviews(
+                [review('octocat', 'APPROVED', 1), review('octocat', 'COMMENTED', 2)],
+                []
+            );
+
+            expect(summary.reviewers[0].state).toBe('approved');
+        });
+
+        test('one change request blocks other approvals', () => {
+            const summary = summarizeReviews(
+                [review('octocat', 'APPROVED', 1), review('hubot', 'CHANGES_REQUESTED', 2)],
+                []
+            );
+
+            expect(summary.reviewState).toBe('changes_requested');
+        });
+
+        test('a re-requested reviewer no longer blocks the pull request', () => {
+            const summary = summarizeReviews(
+                [review('octocat', 'APPROVED', 1), review('hubot', 'CHANGES_REQUESTED', 2)],
+                ['hubot']
+            );
+
+            expect(summary.reviewState).toBe('review_required');
+        });
+
+        test('dismissed reviews and pending drafts do not count', () => {
+            const summary = summarizeReviews(
+                [review('octocat', 'CHANGES_REQUESTED', 1), review('octocat', 'DISMISSED', 2), review('hubot', 'PENDING', 3)],
+                []
+            );
+
+            expect(summary.reviewState).toBeNull();
+            expect(summary.reviewers.map((r) => r.login)).toEqual(['octocat']);
+        });
+    });
+});
@@ -0,0 +1,107 @@
+/**
+ * Relationship Service Tests
+ *
+ * Covers how saving an Architecture Map keeps canvas-drawn relationships in
+ * sync with its arrows, while relationships created through the API stay.
+ */
+
+import { planCanvasRelationshipSync, type CanvasRelationshipRecord } from '@/lib/relationship-service';
+
+const shapeToComponent = new Map([
+    ['shape:api', 'c-api'],
+    ['shape:db', 'c-db'],
+    ['shape:queue', 'c-queue'],
+]);
+
+function tldrawArrow(id: string, start: string, end: string, options: { type?: string; text?: string } = {}) {
+    return [
+        { id, typeName: 'shape', type: options.type ?? 'arrow', props: { text: options.text ?? '' } },
+        { id: `binding:${id}-start`, typeName: 'binding', type: 'arrow', fromId: id, toId: start, props: { terminal: 'start' } },
+        { id: `binding:${id}-end`, typeName: 'binding', type: 'arrow', fromId: id, toId: end, props: { terminal: 'end' } },
+    ];
+}
+
+function tldrawSnapshot(records: any[]) {
+    const store: Record<string, any> = {};
+    records.forEach((record) => {
+        store[record.id] = record;
+    });
+    return { store, schema: {} };
+}
+
+function relationship(overrides: Partial<CanvasRelationshipRecord> = {}): CanvasRelationshipRecord {
+    return {
+        id: 'r1',
+        sourceComponentId: 'c-api',
+        targetComponentId: 'c-db',
+        kind: 'DEPENDENCY',
+        label: null,
+        shapeId: 'shape:arrow1',
+        ...overrides,
+    };
+}
+
+describe('Relationship Service', () => {
+    describe('planCanvasRelationshipSync', () => {
+        test('creates a relationship for a new arrow between components', () => {
+            const state = tldrawSnapshot(tldrawArrow('shape:arrow1', 'shape:api', 'shape:db', { text: 'reads' }));
+
+            const plan = planCanvasRelationshipSync(state, shapeToComponent, []);
+
+            expect(plan.created).toEqual([
+                {
+                    sourceComponentId: 'c-api',
+                    targetComponentId: 'c-db',
+                    kind: 'DEPENDENCY',
+                    shapeId: 'shape:arrow1',
+                    label: 'reads',
+                },
+            ]);
+            expect(plan.staleIds).toEqual([]);
+            expect(plan.labelUpdates).toEqual([]);
+        });
+
+        test('removes the relationship of a deleted arrow', () => {
+            const plan = planCanvasRelationshipSync(tldrawSnapshot([]), shapeToComponent, [relationship()]);
+
+            expect(plan.staleIds).toEqual(['r1']);
+            expect(plan.created).toEqual([]);
+        });
+
+        test('updates the label of a relabeled arrow', () => {
+            const state = tldrawSnapshot(tldrawArrow('shape:arrow1', 'shape:api', 'shape:db', { text: 'writes' }));
+
+            const plan = planCanvasRelationshipSync(state, shapeToComponent, [relationship({ label: 'reads' })]);
+
+            expect(plan.labelUpdates).toEqual([{ id: 'r1', label: 'writes' }]);
+            expect(plan.created).toEqual([]);
+            expect(plan.staleIds).toEqual([]);
+        });
+
+        test('replaces the relationship of an arrow whose kind changed', () => {
+            const state = tldrawSnapshot(tldrawArrow('shape:arrow1', 'shape:api', 'shape:db', { type: 'line' }));
+
+            const plan = planCanvasRelationshipSync(state, shapeToComponent, [relationship()]);
+
+            expect(plan.staleIds).toEqual(['r1']);
+            expect(plan.created).toMatchObject([{ kind: 'DATAFLOW', shapeId: 'shape:arrow1' }]);
+        });
+
+        test('leaves relationships created through the API alone', () => {
+            const apiCreated = relationship({ id: 'r2', targetComponentId: 'c-queue', label: 'publishes', shapeId: null });
+            const state = tldrawSnapshot(tldrawArrow('shape:arrow2', 'shape:api', 'shape:queue', { text: 'enqueues' }));
+
+            expect(planCanvasRelationshipSync(tldrawSnapshot([]), shapeToComponent, [apiCreated])).toEqual({
+                created: [],
+                staleIds: [],
+                labelUpdates: [],
+            });
+            // An arrow drawn over it does not duplicate or relabel it
+            expect(planCanvasRelationshipSync(state, shapeToComponent, [apiCreated])).toEqual({
+                created: [],
+                staleIds: [],
+                labelUpdates: [],
+            });
+        });
+    });
+});
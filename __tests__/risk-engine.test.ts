@@ -0,0 +1,163 @@
+/**
+ * Risk Engine Tests
+ *
+ * Validates that batch project risk computation produces exactly the same
+ * metrics as scoring each component on its own.
+ */
+
+import * as fc from 'fast-check';
+import { DEFAULT_RISK_POLICY, type RiskPolicy } from '@/lib/risk-policy';
+import { getCouplingScore } from '@/lib/canvas-graph';
+import { countComponentCoupling } from '@/lib/relationship-service';
+import {
+    assessComponentRisk,
+    computeCouplingMap,
+    computeProjectRisks,
+} from '@/lib/risk-engine';
+
+describe('Risk Engine', () => {
+    describe('computeCouplingMap', () => {
+        test('counts distinct dependents and dependencies', () => {
+            const coupling = computeCouplingMap(['a', 'b', 'c'], [
+                { sourceComponentId: 'a', targetComponentId: 'b' },
+                { sourceComponentId: 'a', targetComponentId: 'b' },
+                { sourceComponentId: 'c', targetComponentId: 'b' },
+            ]);
+
+            expect(coupling.get('a')).toEqual({ fanIn: 0, fanOut: 1 });
+            expect(coupling.get('b')).toEqual({ fanIn: 2, fanOut: 0 });
+            expect(coupling.get('c')).toEqual({ fanIn: 0, fanOut: 1 });
+        });
+
+        test('gives unconnected components zero coupling', () => {
+            const coupling = computeCouplingMap(['a'], []);
+
+            expect(coupling.get('a')).toEqual({ fanIn: 0, fanOut: 0 });
+        });
+    });
+
+    describe('assessComponentRisk', () => {
+        const component = { id: 'a', componentId: 'COMP-A', name: 'A' };
+        const inputs = { churnRate: 0, decisionCount: 2, couplingScore: 0 };
+
+        test('raises a risk factor for open high-priority tasks without changing the score', () => {
+            const quiet = assessComponentRisk(component, inputs, DEFAULT_RISK_POLICY);
+            const busy = assessComponentRisk(
+                component,
+                { ...inputs, openHighPriorityTasks: 4 },
+                DEFAULT_RISK_POLICY
+            );
+
+            expect(busy.openHighPriorityTasks).toBe(4);
+            expect(busy.riskScore).toBe(quiet.riskScore);
+            expect(busy.riskFactors).toContainEqual(
+                expect.objectContaining({ type: 'open_high_priority_tasks', metric: 4, severity: 'high' })
+            );
+        });
+
+        test('ignores open tasks when the factor is disabled', () => {
+            const risk = assessComponentRisk(
+                component,
+                { ...inputs, openHighPriorityTasks: 10 },
+                { ...DEFAULT_RISK_POLICY, enabledFactors: ['churn', 'decisions', 'coupling'] }
+            );
+
+            expect(risk.riskFactors.map((f) => f.type)).not.toContain('open_high_priority_tasks');
+        });
+    });
+
+    describe('computeProjectRisks', () => {
+        test('returns an empty list for a project without components', () => {
+            const risks = computeProjectRisks(
+                { components: [], churnCounts: new Map(), decisionCounts: new Map(), relationships: [] },
+                DEFAULT_RISK_POLICY
+            );
+
+            expect(risks).toEqual([]);
+        });
+
+        test('treats components missing from the counts as zero', () => {
+            const [risk] = computeProjectRisks(
+                {
+                    components: [{ id: 'a', componentId: 'COMP-A', name: 'A' }],
+                    churnCounts: new Map(),
+                    decisionCounts: new Map(),
+                    relationships: [],
+                },
+                DEFAULT_RISK_POLICY
+            );
+
+            expect(risk.componentId).toBe('COMP-A');
+            expect(risk.churnRate).toBe(0);
+            expect(risk.decisionCount).toBe(0);
+            expect(risk.couplingScore).toBe(0);
+        });
+
+        test('property-based: batch results match per-component assessment', () => {
+            const ids = ['a', 'b', 'c', 'd', 'e', 'f'];
+
+            fc.assert(
+                fc.property(
+                    fc.uniqueArray(fc.constantFrom(...ids), { minLength: 1 }),
+                    fc.array(
+                        fc.record({
+                            sourceComponentId: fc.constantFrom(...ids),
+                            targetComponentId: fc.constantFrom(...ids),
+                        }),
+                        { maxLength: 20 }
+                    ),
+                    fc.dictionary(fc.constantFrom(...ids), fc.nat(40)),
+                    fc.dictionary(fc.constantFrom(...ids), fc.nat(6)),
+                    fc.dictionary(fc.constantFrom(...ids), fc.option(fc.integer({ min: 1, max: 5 }))),
+                    fc.dictionary(fc.constantFrom(...ids), fc.nat(8)),
+                    fc.subarray(['churn', 'decisions', 'coupling', 'busFactor', 'openTasks'] as const),
+                    (componentIds, allRelationships, churn, decisions, busFactors, openTasks, enabledFactors) => {
+                        const policy: RiskPolicy = { ...DEFAULT_RISK_POLICY, enabledFactors };
+                        const components = componentIds.map((id) => ({
+                            id,
+                            componentId: `COMP-${id.toUpperCase()}`,
+                            name: id,
+                        }));
+                        // Relationships only ever connect components on the same canvas
+                        const relationships = allRelationships.filter(
+                            (r) =>
+                                r.sourceComponentId !== r.targetComponentId &&
+                                componentIds.includes(r.sourceComponentId) &&
+                                componentIds.includes(r.targetComponentId)
+                        );
+
+                        const batch = computeProjectRisks(
+                            {
+                                components,
+                                churnCounts: new Map(Object.entries(churn)),
+                                decisionCounts: new Map(Object.entries(decisions)),
+                                relationships,
+                                busFactors: new Map(Object.entries(busFactors)),
+                                openHighPriorityTaskCounts: new Map(Object.entries(openTasks)),
+                            },
+                            policy
+                        );
+
+                        // What calculateComponentRisk's queries would load for each component
+                        const individual = components.map((component) =>
+                            assessComponentRisk(
+                                component,
+                                {
+                                    churnRate: churn[component.id] || 0,
+                                    decisionCount: decisions[component.id] || 0,
+                                    couplingScore: getCouplingScore(countComponentCoupling(component.id, relationships)),
+                                    busFactor: busFactors[component.id] ?? null,
+                                    openHighPriorityTasks: openTasks[component.id] ?? 0,
+                                },
+                                policy
+                            )
+                        );
+
+                        expect(batch).toEqual(individual);
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+    });
+});
@@ -0,0 +1,98 @@
+/**
+ * Risk Policy Tests
+ *
+ * Validates per-project risk thresholds, weights and enabled factors, and
+ * that the default policy reproduces the original hardcoded risk scores.
+ */
+
+import * as fc from 'fast-check';
+import {
+    DEFAULT_RISK_POLICY,
+    resolveRiskPolicy,
+    riskPolicySchema,
+} from '@/lib/risk-policy';
+import { calculateRiskScore } from '@/lib/risk-engine';
+
+describe('Risk Policy', () => {
+    describe('resolveRiskPolicy', () => {
+        test('returns the defaults when no policy is stored', () => {
+            expect(resolveRiskPolicy(null)).toEqual(DEFAULT_RISK_POLICY);
+        });
+
+        test('merges a partial policy over the defaults', () => {
+            const policy = resolveRiskPolicy({ churnWindowDays: 7 });
+
+            expect(policy.churnWindowDays).toBe(7);
+            expect(policy.thresholds).toEqual(DEFAULT_RISK_POLICY.thresholds);
+            expect(policy.enabledFactors).toEqual(DEFAULT_RISK_POLICY.enabledFactors);
+        });
+    });
+
+    describe('riskPolicySchema', () => {
+        test('accepts the default policy', () => {
+            expect(riskPolicySchema.safeParse(DEFAULT_RISK_POLICY).success).toBe(true);
+        });
+
+        test('rejects thresholds that are out of order', () => {
+            const result = riskPolicySchema.safeParse({
+                ...DEFAULT_RISK_POLICY,
+                thresholds: {
+                    ...DEFAULT_RISK_POLICY.thresholds,
+                    churn: { low: 20, medium: 10, high: 5 },
+                },
+            });
+
+            expect(result.success).toBe(false);
+        });
+
+        test('rejects an invalid churn window', () => {
+            expect(riskPolicySchema.safeParse({ ...DEFAULT_RISK_POLICY, churnWindowDays: 0 }).success).toBe(false);
+            expect(riskPolicySchema.safeParse({ ...DEFAULT_RISK_POLICY, churnWindowDays: 1.5 }).success).toBe(false);
+        });
+    });
+
+    describe('calculateRiskScore', () => {
+        test('default policy matches the original 0.4/0.4/0.2 weighting', () => {
+            // churn 10/20 -> 50, decisions 0 -> 100, coupling 5/10 -> 50
+            expect(calculateRiskScore(10, 0, 5, DEFAULT_RISK_POLICY)).toBe(Math.round(50 * 0.4 + 100 * 0.4 + 50 * 0.2));
+        });
+
+        test('disabled factors do not contribute to the score', () => {
+            const policy = { ...DEFAULT_RISK_POLICY, enabledFactors: ['churn' as const] };
+
+            expect(calculateRiskScore(20, 0, 100, policy)).toBe(100);
+            expect(calculateRiskScore(0, 0, 100, policy)).toBe(0);
+        });
+
+        test('scores zero when every factor is disabled', () => {
+            const policy = { ...DEFAULT_RISK_POLICY, enabledFactors: [] };
+
+            expect(calculateRiskScore(100, 0, 100, policy)).toBe(0);
+        });
+
+        test('property-based: score stays within 0-100 for any weights', () => {
+            fc.assert(
+                fc.property(
+                    fc.nat(1000),
+                    fc.nat(50),
+                    fc.nat(100),
+                    fc.record({
+                        churn: fc.double({ min: 0, max: 10, noNaN: true }),
+                        decisions: fc.double({ min: 0, max: 10, noNaN: true }),
+                        coupling: fc.double({ min: 0, max: 10, noNaN: true }),
+                    }),
+                    (churn, decisions, coupling, weights) => {
+                        const score = calculateRiskScore(churn, decisions, coupling, {
+                            ...DEFAULT_RISK_POLICY,
+                            weights,
+                        });
+
+                        expect(score).toBeGreaterThanOrEqual(0);
+                        expect(score).toBeLessThanOrEqual(100);
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+    });
+});
@@ -0,0 +1,66 @@
+/**
+ * Risk Trend Tests
+ *
+ * Validates that stored risk snapshots are grouped into per-component series
+ * and a daily project-wide average.
+ */
+
+import { buildRiskTrend, type RiskSnapshotRow } from '@/lib/risk-snapshots';
+
+function snapshot(componentId: string, riskScore: number, capturedAt: string): RiskSnapshotRow {
+    return {
+        riskScore,
+        overallSeverity: riskScore >= 70 ? 'critical' : 'medium',
+        capturedAt: new Date(capturedAt),
+        component: { componentId, name: componentId.toLowerCase() },
+    };
+}
+
+describe('buildRiskTrend', () => {
+    test('returns empty series when there are no snapshots', () => {
+        expect(buildRiskTrend([])).toEqual({ components: [], project: [] });
+    });
+
+    test('groups snapshots per component in capture order', () => {
+        const trend = buildRiskTrend([
+            snapshot('COMP-A', 80, '2026-01-01T00:00:00Z'),
+            snapshot('COMP-B', 40, '2026-01-01T00:00:00Z'),
+            snapshot('COMP-A', 60, '2026-01-02T00:00:00Z'),
+        ]);
+
+        const a = trend.components.find((c) => c.componentId === 'COMP-A')!;
+        expect(a.componentName).toBe('comp-a');
+        expect(a.points.map((p) => p.riskScore)).toEqual([80, 60]);
+        expect(a.change).toBe(-20);
+
+        const b = trend.components.find((c) => c.componentId === 'COMP-B')!;
+        expect(b.points).toHaveLength(1);
+        expect(b.change).toBe(0);
+    });
+
+    test('averages risk scores per day for the project series', () => {
+        const trend = buildRiskTrend([
+            snapshot('COMP-A', 80, '2026-01-01T00:00:00Z'),
+            snapshot('COMP-B', 41, '2026-01-01T00:00:00Z'),
+            snapshot('COMP-A', 60, '2026-01-02T00:00:00Z'),
+            snapshot('COMP-B', 20, '2026-01-02T00:00:00Z'),
+        ]);
+
+        expect(trend.project).toEqual([
+            { date: '2026-01-01', averageRiskScore: 61, componentCount: 2 },
+            { date: '2026-01-02', averageRiskScore: 40, componentCount: 2 },
+        ]);
+    });
+
+    test('uses only the latest snapshot of a component captured several times a day', () => {
+        const trend = buildRiskTrend([
+            snapshot('COMP-A', 90, '2026-01-01T00:00:00Z'),
+            snapshot('COMP-A', 90, '2026-01-01T06:00:00Z'),
+            snapshot('COMP-B', 20, '2026-01-01T08:00:00Z'),
+            snapshot('COMP-A', 70, '2026-01-01T12:00:00Z'),
+        ]);
+
+        expect(trend.project).toEqual([{ date: '2026-01-01', averageRiskScore: 45, componentCount: 2 }]);
+        expect(trend.components.find((c) => c.componentId === 'COMP-A')!.points).toHaveLength(3);
+    });
+});
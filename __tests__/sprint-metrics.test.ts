@@ -0,0 +1,169 @@
+/**
+ * Sprint Metrics Tests
+ *
+ * Covers reconstructing a task's column at a point in time, burning down the
+ * story points of a sprint day by day, and velocity across closed sprints.
+ */
+
+import {
+    computeBurndown,
+    computeVelocity,
+    sprintDays,
+    statusAt,
+    type SprintTaskHistory,
+    type SprintWindow,
+} from '@/lib/sprint-metrics';
+import { DEFAULT_WORKFLOW } from '@/lib/task-workflow';
+
+function sprint(overrides: Partial<SprintWindow> = {}): SprintWindow {
+    return {
+        id: 's1',
+        name: 'Sprint 1',
+        startDate: new Date('2026-03-02T00:00:00Z'),
+        endDate: new Date('2026-03-06T00:00:00Z'),
+        status: 'ACTIVE',
+        committedPoints: null,
+        completedPoints: null,
+        closedAt: null,
+        ...overrides,
+    };
+}
+
+function doneOn(day: string, storyPoints: number | null): SprintTaskHistory {
+    return {
+        storyPoints,
+        status: 'DONE',
+        transitions: [
+            { fromStatus: null, toStatus: 'TODO', changedAt: new Date('2026-03-01T09:00:00Z') },
+            { fromStatus: 'TODO', toStatus: 'DONE', changedAt: new Date(`${day}T15:00:00Z`) },
+        ],
+    };
+}
+
+function open(storyPoints: number | null): SprintTaskHistory {
+    return {
+        storyPoints,
+        status: 'IN_PROGRESS',
+        transitions: [{ fromStatus: null, toStatus: 'TODO', changedAt: new Date('2026-03-01T09:00:00Z') }],
+    };
+}
+
+describe('Sprint Metrics', () => {
+    describe('statusAt', () => {
+        const task: SprintTaskHistory = {
+            storyPoints: 3,
+            status: 'TODO',
+            transitions: [
+                { fromStatus: 'TODO', toStatus: 'DONE', changedAt: new Date('2026-03-03T10:00:00Z') },
+                { fromStatus: 'DONE', toStatus: 'TODO', changedAt: new Date('2026-03-04T10:00:00Z') },
+            ],
+        };
+
+        test('uses the column the task started in before its first move', () => {
+            expect(statusAt(task, new Date('2026-03-02T00:00:00Z'))).toBe('TODO');
+        });
+
+        test('follows reopened tasks back out of the done column', () => {
+            expect(statusAt(task, new Date('2026-03-03T12:00:00Z'))).toBe('DONE');
+            expect(statusAt(task, new Date('2026-03-05T00:00:00Z'))).toBe('TODO');
+        });
+
+        test('falls back to the current status for tasks without history', () => {
+            expect(statusAt({ storyPoints: null, status: 'IN_PROGRESS', transitions: [] }, new Date())).toBe('IN_PROGRESS');
+        });
+    });
+
+    describe('sprintDays', () => {
+        test('includes the start and end days', () => {
+            const days = sprintDays(new Date('2026-03-02T08:00:00Z'), new Date('2026-03-06T20:00:00Z'));
+
+            expect(days.map((d) => d.toISOString().slice(0, 10))).toEqual([
+                '2026-03-02',
+                '2026-03-03',
+                '2026-03-04',
+                '2026-03-05',
+                '2026-03-06',
+            ]);
+        });
+    });
+
+    describe('computeBurndown', () => {
+        test('burns down points as tasks reach a done column', () => {
+            const burndown = computeBurndown(
+                sprint(),
+                [doneOn('2026-03-03', 3), doneOn('2026-03-05', 2), open(5)],
+                DEFAULT_WORKFLOW,
+                new Date('2026-03-06T12:00:00Z')
+            );
+
+            expect(burndown.scope).toBe(10);
+            expect(burndown.points.map((p) => p.remaining)).toEqual([10, 7, 7, 5, 5]);
+            expect(burndown.points.map((p) => p.ideal)).toEqual([10, 7.5, 5, 2.5, 0]);
+        });
+
+        test('leaves days that have not ended yet without a remaining value', () => {
+            const burndown = computeBurndown(
+                sprint(),
+                [doneOn('2026-03-03', 3), open(5)],
+                DEFAULT_WORKFLOW,
+                new Date('2026-03-03T18:00:00Z')
+            );
+
+            expect(burndown.points.map((p) => p.remaining)).toEqual([8, 5, null, null, null]);
+        });
+
+        test('counts unestimated tasks as zero points', () => {
+            const burndown = computeBurndown(sprint(), [open(null), open(4)], DEFAULT_WORKFLOW);
+
+            expect(burndown.scope).toBe(4);
+        });
+
+        test('keeps the committed scope of a closed sprint after carry-over', () => {
+            // The unfinished 5-point task was carried over, so only the completed task is still in the sprint
+            const burndown = computeBurndown(
+                sprint({
+                    status: 'CLOSED',
+                    committedPoints: 8,
+                    completedPoints: 3,
+                    closedAt: new Date('2026-03-06T17:00:00Z'),
+                }),
+                [doneOn('2026-03-04', 3)],
+                DEFAULT_WORKFLOW,
+                new Date('2026-03-20T00:00:00Z')
+            );
+
+            expect(burndown.scope).toBe(8);
+            expect(burndown.points.map((p) => p.remaining)).toEqual([8, 8, 5, 5, 5]);
+        });
+    });
+
+    describe('computeVelocity', () => {
+        test('lists closed sprints oldest first and averages the most recent ones', () => {
+            const closed = (id: string, end: string, committed: number, completed: number) =>
+                sprint({
+                    id,
+                    name: id,
+                    endDate: new Date(end),
+                    status: 'CLOSED',
+                    committedPoints: committed,
+                    completedPoints: completed,
+                });
+
+            const velocity = computeVelocity([
+                closed('S4', '2026-04-10', 20, 18),
+                closed('S1', '2026-01-10', 10, 4),
+                sprint({ id: 'S5', status: 'ACTIVE' }),
+                closed('S3', '2026-03-10', 15, 12),
+                closed('S2', '2026-02-10', 12, 9),
+            ]);
+
+            expect(velocity.sprints.map((s) => s.sprintId)).toEqual(['S1', 'S2', 'S3', 'S4']);
+            expect(velocity.sprints[0]).toEqual({ sprintId: 'S1', name: 'S1', committed: 10, completed: 4 });
+            expect(velocity.averageVelocity).toBe(13);
+        });
+
+        test('is zero without closed sprints', () => {
+            expect(computeVelocity([sprint()])).toEqual({ sprints: [], averageVelocity: 0 });
+        });
+    });
+});
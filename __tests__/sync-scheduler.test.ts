@@ -0,0 +1,149 @@
+/**
+ * Sync Scheduler Tests
+ *
+ * Covers backoff timing, rate limit detection across providers and the
+ * per-token job queue that defers work once a quota runs low.
+ */
+
+import {
+    BACKOFF_BASE,
+    BACKOFF_MAX,
+    classifySyncError,
+    nextAttemptAt,
+    runSyncQueue,
+} from '@/lib/sync-scheduler';
+import { parseRateLimit } from '@/lib/git-http';
+
+const now = new Date('2026-03-01T12:00:00Z');
+
+describe('nextAttemptAt', () => {
+    test('doubles the delay per consecutive failure up to the cap', () => {
+        expect(nextAttemptAt(1, now).getTime() - now.getTime()).toBe(BACKOFF_BASE);
+        expect(nextAttemptAt(3, now).getTime() - now.getTime()).toBe(BACKOFF_BASE * 4);
+        expect(nextAttemptAt(30, now).getTime() - now.getTime()).toBe(BACKOFF_MAX);
+    });
+
+    test('waits for a later rate limit reset', () => {
+        const reset = new Date('2026-03-01T13:00:00Z');
+
+        expect(nextAttemptAt(1, now, reset)).toEqual(reset);
+        expect(nextAttemptAt(1, now, new Date('2026-03-01T12:01:00Z')).getTime() - now.getTime()).toBe(BACKOFF_BASE);
+    });
+});
+
+describe('parseRateLimit', () => {
+    test('reads GitHub and GitLab header names', () => {
+        expect(parseRateLimit({ 'x-ratelimit-remaining': '12', 'x-ratelimit-limit': '5000', 'x-ratelimit-reset': '1772370000' })).toEqual({
+            remaining: 12,
+            limit: 5000,
+            resetAt: new Date(1772370000 * 1000),
+        });
+        expect(parseRateLimit({ 'ratelimit-remaining': '0' })).toEqual({ remaining: 0, limit: null, resetAt: null });
+        expect(parseRateLimit({})).toBeNull();
+    });
+});
+
+describe('classifySyncError', () => {
+    test('detects exhausted quotas and secondary limits', () => {
+        const exhausted = {
+            status: 403,
+            message: 'API rate limit exceeded',
+            response: { headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1772373600' } },
+        };
+        expect(classifySyncError(exhausted, now)).toEqual({
+            rateLimited: true,
+            retryAt: new Date(1772373600 * 1000),
+        });
+
+        const secondary = { status: 429, response: { headers: { 'retry-after': '60' } } };
+        expect(classifySyncError(secondary, now)).toEqual({
+            rateLimited: true,
+            retryAt: new Date(now.getTime() + 60_000),
+        });
+    });
+
+    test('leaves other failures to plain backoff', () => {
+        expect(classifySyncError({ status: 403, message: 'Resource not accessible' }, now)).toEqual({ rateLimited: false, retryAt: null });
+        expect(classifySyncError(new Error('connect ECONNREFUSED'), now)).toEqual({ rateLimited: false, retryAt: null });
+    });
+});
+
+describe('runSyncQueue', () => {
+    test('counts reported failures, not only thrown ones', async () => {
+        const result = await runSyncQueue(
+            [
+                { id: 'a', key: 't1' },
+                { id: 'b', key: 't1' },
+                { id: 'c', key: 't2' },
+            ],
+            async (job) => {
+                if (job.id === 'c') {
+                    throw new Error('boom');
+                }
+                return { success: job.id === 'a' };
+            }
+        );
+
+        expect(result).toMatchObject({ successful: 1, failed: 2, deferred: [] });
+    });
+
+    test('limits concurrency per token', async () => {
+        let running = 0;
+        let peak = 0;
+        const jobs = Array.from({ length: 5 }, (_, i) => ({ id: `r${i}`, key: 'shared' }));
+
+        await runSyncQueue(jobs, async () => {
+            running++;
+            peak = Math.max(peak, running);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            running--;
+            return { success: true };
+        }, { concurrency: 2 });
+
+        expect(peak).toBe(2);
+    });
+
+    test('defers the rest of a token once its quota runs low', async () => {
+        const resetAt = new Date('2026-03-01T13:00:00Z');
+        const started: string[] = [];
+
+        const result = await runSyncQueue(
+            [
+                { id: 'a', key: 't1' },
+                { id: 'b', key: 't1' },
+                { id: 'c', key: 't1' },
+                { id: 'd', key: 't2' },
+            ],
+            async (job) => {
+                started.push(job.id);
+                return {
+                    success: true,
+                    rateLimit: job.key === 't1' ? { remaining: 3, limit: 5000, resetAt } : null,
+                };
+            },
+            { concurrency: 1, now: () => now }
+        );
+
+        expect(started).toEqual(['a', 'd']);
+        expect(result.deferred.map((d) => [d.job.id, d.until])).toEqual([
+            ['b', resetAt],
+            ['c', resetAt],
+        ]);
+    });
+
+    test('pauses a token after a rate limited failure', async () => {
+        const retryAt = new Date('2026-03-01T12:30:00Z');
+
+        const result = await runSyncQueue(
+            [
+                { id: 'a', key: 't1' },
+                { id: 'b', key: 't1' },
+            ],
+            async () => ({ success: false, rateLimited: true, retryAt }),
+            { concurrency: 1 }
+        );
+
+        expect(result).toMatchObject({ successful: 0, failed: 1 });
+        expect(result.deferred).toEqual([{ job: { id: 'b', key: 't1' }, until: retryAt }]);
+    });
+});
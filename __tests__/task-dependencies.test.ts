@@ -0,0 +1,73 @@
+/**
+ * Task Dependency Tests
+ *
+ * Covers following "blocks" links between tasks, rejecting links that would
+ * form a cycle, and which blockers still hold a task back.
+ */
+
+import {
+    completionBlockers,
+    findBlockingChain,
+    findDependencyCycle,
+    openBlockers,
+    type DependencyEdge,
+} from '@/lib/task-dependencies';
+import { DEFAULT_WORKFLOW } from '@/lib/task-workflow';
+
+function edge(blockingTaskId: string, blockedTaskId: string): DependencyEdge {
+    return { blockingTaskId, blockedTaskId };
+}
+
+describe('Task Dependencies', () => {
+    describe('findBlockingChain', () => {
+        test('follows links from blocking to blocked tasks', () => {
+            const edges = [edge('a', 'b'), edge('b', 'c'), edge('c', 'd')];
+
+            expect(findBlockingChain(edges, 'a', 'd')).toEqual(['a', 'b', 'c', 'd']);
+            expect(findBlockingChain(edges, 'd', 'a')).toBeNull();
+        });
+
+        test('reports the shortest chain', () => {
+            const edges = [edge('a', 'b'), edge('b', 'c'), edge('c', 'd'), edge('a', 'd')];
+
+            expect(findBlockingChain(edges, 'a', 'd')).toEqual(['a', 'd']);
+        });
+    });
+
+    describe('findDependencyCycle', () => {
+        test('rejects a link that closes a loop', () => {
+            const edges = [edge('a', 'b'), edge('b', 'c')];
+
+            expect(findDependencyCycle(edges, 'c', 'a')).toEqual(['a', 'b', 'c']);
+        });
+
+        test('treats a task blocking itself as a cycle', () => {
+            expect(findDependencyCycle([], 'a', 'a')).toEqual(['a']);
+        });
+
+        test('allows links between independent branches', () => {
+            const edges = [edge('a', 'b'), edge('a', 'c')];
+
+            expect(findDependencyCycle(edges, 'b', 'c')).toBeNull();
+            expect(findDependencyCycle(edges, 'a', 'c')).toBeNull();
+        });
+    });
+
+    test('openBlockers ignores blocking tasks in done columns', () => {
+        const blockers = [
+            { id: 'a', status: 'IN_PROGRESS' },
+            { id: 'b', status: 'DONE' },
+            { id: 'c', status: 'TODO' },
+        ];
+
+        expect(openBlockers(blockers, DEFAULT_WORKFLOW).map((b) => b.id)).toEqual(['a', 'c']);
+    });
+
+    test('completionBlockers only holds back moves into a done column', () => {
+        const blockers = [{ id: 'a', status: 'IN_PROGRESS' }];
+
+        expect(completionBlockers(DEFAULT_WORKFLOW, 'TODO', 'DONE', blockers)).toEqual(blockers);
+        expect(completionBlockers(DEFAULT_WORKFLOW, 'TODO', 'IN_PROGRESS', blockers)).toEqual([]);
+        expect(completionBlockers(DEFAULT_WORKFLOW, 'DONE', 'DONE', blockers)).toEqual([]);
+    });
+});
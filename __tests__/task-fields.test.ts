@@ -0,0 +1,86 @@
+/**
+ * Task Label and Custom Field Tests
+ *
+ * Covers validation of a project's label and field definitions and the
+ * normalization of values for each custom field type.
+ */
+
+import { normalizeFieldValue, taskFieldsSchema, type CustomFieldDefinition } from '@/lib/task-fields';
+
+function field(type: CustomFieldDefinition['type'], options: string[] = []): CustomFieldDefinition {
+    return { id: 'f1', name: 'Estimate', type, options };
+}
+
+describe('Task Fields', () => {
+    describe('taskFieldsSchema', () => {
+        test('accepts labels and fields, defaulting options', () => {
+            const parsed = taskFieldsSchema.parse({
+                labels: [{ name: ' Bug ', color: '#ef4444' }],
+                customFields: [{ name: 'Size', type: 'NUMBER' }],
+            });
+
+            expect(parsed.labels[0].name).toBe('Bug');
+            expect(parsed.customFields[0].options).toEqual([]);
+        });
+
+        test('rejects duplicate names regardless of case', () => {
+            const result = taskFieldsSchema.safeParse({
+                labels: [
+                    { name: 'Bug', color: '#ef4444' },
+                    { name: 'bug', color: '#22c55e' },
+                ],
+                customFields: [],
+            });
+
+            expect(result.success).toBe(false);
+        });
+
+        test('requires unique options on select fields', () => {
+            const parse = (options: string[]) =>
+                taskFieldsSchema.safeParse({ labels: [], customFields: [{ name: 'Team', type: 'SELECT', options }] });
+
+            expect(parse([]).success).toBe(false);
+            expect(parse(['Web', 'Web']).success).toBe(false);
+            expect(parse(['Web', 'Mobile']).success).toBe(true);
+        });
+
+        test('rejects colors that are not hex colors', () => {
+            const result = taskFieldsSchema.safeParse({ labels: [{ name: 'Bug', color: 'red' }], customFields: [] });
+
+            expect(result.success).toBe(false);
+        });
+    });
+
+    describe('normalizeFieldValue', () => {
+        test('stores numbers in canonical form', () => {
+            expect(normalizeFieldValue(field('NUMBER'), ' 2.50 ', [])).toBe('2.5');
+            expect(() => normalizeFieldValue(field('NUMBER'), 'two', [])).toThrow('Estimate must be a number');
+        });
+
+        test('accepts only the options of select fields', () => {
+            expect(normalizeFieldValue(field('SELECT', ['S', 'M', 'L']), 'M', [])).toBe('M');
+            expect(() => normalizeFieldValue(field('SELECT', ['S', 'M', 'L']), 'XL', [])).toThrow(
+                'Estimate must be one of: S, M, L'
+            );
+        });
+
+        test('accepts only real calendar days', () => {
+            expect(normalizeFieldValue(field('DATE'), '2026-02-28', [])).toBe('2026-02-28');
+            expect(() => normalizeFieldValue(field('DATE'), '2026-02-30', [])).toThrow();
+            expect(() => normalizeFieldValue(field('DATE'), '28/02/2026', [])).toThrow();
+        });
+
+        test('accepts only members of the project for user fields', () => {
+            expect(normalizeFieldValue(field('USER'), 'u1', ['u1', 'u2'])).toBe('u1');
+            expect(() => normalizeFieldValue(field('USER'), 'u3', ['u1', 'u2'])).toThrow(
+                'Estimate must be a member of the project'
+            );
+        });
+
+        test('accepts only http and https URLs', () => {
+            expect(normalizeFieldValue(field('URL'), 'https://example.com/spec', [])).toBe('https://example.com/spec');
+            expect(() => normalizeFieldValue(field('URL'), 'javascript:alert(1)', [])).toThrow();
+            expect(() => normalizeFieldValue(field('URL'), 'example.com', [])).toThrow();
+        });
+    });
+});
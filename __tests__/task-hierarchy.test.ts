@@ -0,0 +1,55 @@
+/**
+ * Task Hierarchy Tests
+ *
+ * Covers walking up parent tasks, which guards against making a task a
+ * subtask of its own subtask, and the progress roll-up of checklist items
+ * and subtasks shown on the board.
+ */
+
+import { ancestorChain } from '@/lib/task-hierarchy';
+import { rollUpProgress } from '@/lib/task-progress';
+import { DEFAULT_WORKFLOW } from '@/lib/task-workflow';
+
+describe('Task Hierarchy', () => {
+    describe('ancestorChain', () => {
+        const parentById = new Map<string, string | null>([
+            ['epic', null],
+            ['story', 'epic'],
+            ['step', 'story'],
+        ]);
+
+        test('lists parents nearest first', () => {
+            expect(ancestorChain(parentById, 'step')).toEqual(['story', 'epic']);
+            expect(ancestorChain(parentById, 'epic')).toEqual([]);
+        });
+
+        test('stops when the chain loops back on itself', () => {
+            const looped = new Map<string, string | null>([
+                ['a', 'b'],
+                ['b', 'a'],
+            ]);
+
+            expect(ancestorChain(looped, 'a')).toEqual(['b', 'a']);
+        });
+    });
+
+    describe('rollUpProgress', () => {
+        test('counts checked items and subtasks in done columns', () => {
+            const progress = rollUpProgress(
+                [{ done: true }, { done: false }],
+                [{ status: 'DONE' }, { status: 'IN_PROGRESS' }],
+                DEFAULT_WORKFLOW
+            );
+
+            expect(progress).toEqual({ done: 2, total: 4, percent: 50 });
+        });
+
+        test('is empty without checklist items or subtasks', () => {
+            expect(rollUpProgress([], [], DEFAULT_WORKFLOW)).toEqual({ done: 0, total: 0, percent: 0 });
+        });
+
+        test('rounds to whole percents', () => {
+            expect(rollUpProgress([{ done: true }, { done: false }, { done: false }], [], DEFAULT_WORKFLOW).percent).toBe(33);
+        });
+    });
+});
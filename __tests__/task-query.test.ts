@@ -0,0 +1,107 @@
+/**
+ * Task Query Tests
+ *
+ * Covers reading board queries from URL search parameters, writing them
+ * back, and the Prisma filter GET /api/projects/[id]/tasks builds from them.
+ */
+
+import { ZodError } from 'zod';
+import {
+    isEmptyTaskQuery,
+    parseTaskQuery,
+    taskQueryToSearchParams,
+    taskQueryWhere,
+} from '@/lib/task-query';
+
+describe('Task Query', () => {
+    describe('parseTaskQuery', () => {
+        test('reads known parameters and ignores empty and unknown ones', () => {
+            const query = parseTaskQuery(new URLSearchParams('priority=HIGH&assigneeId=&text=%20login%20&page=2'));
+
+            expect(query).toEqual({ priority: 'HIGH', text: 'login' });
+        });
+
+        test('rejects malformed values', () => {
+            expect(() => parseTaskQuery(new URLSearchParams('priority=URGENT'))).toThrow(ZodError);
+            expect(() => parseTaskQuery(new URLSearchParams('dueFrom=03/04/2026'))).toThrow(ZodError);
+        });
+
+        test('rejects due dates that are not on the calendar', () => {
+            expect(() => parseTaskQuery(new URLSearchParams('dueFrom=2026-13-45'))).toThrow(ZodError);
+            expect(() => parseTaskQuery(new URLSearchParams('dueTo=2026-02-30'))).toThrow(ZodError);
+            expect(parseTaskQuery(new URLSearchParams('dueTo=2028-02-29'))).toEqual({ dueTo: '2028-02-29' });
+        });
+
+        test('round-trips through search parameters', () => {
+            const query = { assigneeId: 'u1', sprintId: 'backlog', dueFrom: '2026-03-01', dueTo: '2026-03-31' };
+
+            expect(parseTaskQuery(taskQueryToSearchParams(query))).toEqual(query);
+        });
+    });
+
+    describe('isEmptyTaskQuery', () => {
+        test('treats unset filters as empty', () => {
+            expect(isEmptyTaskQuery({})).toBe(true);
+            expect(isEmptyTaskQuery({ text: undefined })).toBe(true);
+            expect(isEmptyTaskQuery({ componentId: 'c1' })).toBe(false);
+        });
+    });
+
+    describe('taskQueryWhere', () => {
+        test('matches everything without filters', () => {
+            expect(taskQueryWhere({})).toEqual({});
+        });
+
+        test('maps the unassigned and backlog values to missing relations', () => {
+            expect(taskQueryWhere({ assigneeId: 'unassigned', sprintId: 'backlog' })).toEqual({
+                AND: [{ assigneeId: null }, { sprintId: null }],
+            });
+        });
+
+        test('filters by linked component and searches title and description', () => {
+            expect(taskQueryWhere({ componentId: 'c1', text: 'login' })).toEqual({
+                AND: [
+                    { taskComponents: { some: { componentId: 'c1' } } },
+                    {
+                        OR: [
+                            { title: { contains: 'login', mode: 'insensitive' } },
+                            { description: { contains: 'login', mode: 'insensitive' } },
+                        ],
+                    },
+                ],
+            });
+        });
+
+        test('filters by label and by custom field value', () => {
+            expect(taskQueryWhere({ labelId: 'l1', fieldId: 'f1', fieldValue: '3' })).toEqual({
+                AND: [
+                    { labels: { some: { labelId: 'l1' } } },
+                    { fieldValues: { some: { fieldId: 'f1', value: '3' } } },
+                ],
+            });
+        });
+
+        test('matches any value of a custom field without a value, and ignores a value without a field', () => {
+            expect(taskQueryWhere({ fieldId: 'f1' })).toEqual({
+                AND: [{ fieldValues: { some: { fieldId: 'f1' } } }],
+            });
+            expect(taskQueryWhere({ fieldValue: '3' })).toEqual({});
+        });
+
+        test('includes whole days at both ends of the due range', () => {
+            expect(taskQueryWhere({ dueFrom: '2026-03-01', dueTo: '2026-03-31' })).toEqual({
+                AND: [
+                    {
+                        dueDate: {
+                            gte: new Date('2026-03-01T00:00:00.000Z'),
+                            lte: new Date('2026-03-31T23:59:59.999Z'),
+                        },
+                    },
+                ],
+            });
+            expect(taskQueryWhere({ dueTo: '2026-03-31' })).toEqual({
+                AND: [{ dueDate: { lte: new Date('2026-03-31T23:59:59.999Z') } }],
+            });
+        });
+    });
+});
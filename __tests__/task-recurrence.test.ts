@@ -0,0 +1,113 @@
+/**
+ * Task Recurrence Tests
+ *
+ * Covers parsing cron expressions, finding the next occurrence of daily,
+ * weekly, monthly and cron rules, and validating rules before they are saved.
+ */
+
+import {
+    describeRecurrence,
+    nextOccurrence,
+    parseCron,
+    recurrenceRuleSchema,
+} from '@/lib/task-recurrence';
+
+const iso = (date: Date | null) => date?.toISOString() ?? null;
+
+describe('Task Recurrence', () => {
+    describe('parseCron', () => {
+        test('expands lists, ranges and steps', () => {
+            const fields = parseCron('0,30 9-11 */10 1 1-5');
+
+            expect(fields.minutes).toEqual([0, 30]);
+            expect(fields.hours).toEqual([9, 10, 11]);
+            expect(fields.daysOfMonth).toEqual([1, 11, 21, 31]);
+            expect(fields.months).toEqual([1]);
+            expect(fields.daysOfWeek).toEqual([1, 2, 3, 4, 5]);
+        });
+
+        test('treats day of week 7 as Sunday', () => {
+            expect(parseCron('0 0 * * 5-7').daysOfWeek).toEqual([0, 5, 6]);
+        });
+
+        test('rejects malformed expressions', () => {
+            expect(() => parseCron('0 9 * *')).toThrow('five fields');
+            expect(() => parseCron('60 9 * * *')).toThrow('Invalid cron minute');
+            expect(() => parseCron('0 9 5-1 * *')).toThrow('Invalid cron day of month');
+            expect(() => parseCron('0 9 * * mon')).toThrow('Invalid cron day of week');
+        });
+    });
+
+    describe('nextOccurrence', () => {
+        // A Wednesday
+        const after = new Date('2026-03-04T10:00:00Z');
+
+        test('runs daily rules later today or else tomorrow', () => {
+            expect(iso(nextOccurrence({ frequency: 'daily', time: '17:30' }, after))).toBe('2026-03-04T17:30:00.000Z');
+            expect(iso(nextOccurrence({ frequency: 'daily', time: '09:00' }, after))).toBe('2026-03-05T09:00:00.000Z');
+        });
+
+        test('is strictly after the given time', () => {
+            expect(iso(nextOccurrence({ frequency: 'daily', time: '10:00' }, after))).toBe('2026-03-05T10:00:00.000Z');
+        });
+
+        test('runs weekly rules on the next chosen weekday', () => {
+            const rule = { frequency: 'weekly' as const, weekdays: [1, 5], time: '09:00' };
+
+            expect(iso(nextOccurrence(rule, after))).toBe('2026-03-06T09:00:00.000Z');
+            expect(iso(nextOccurrence(rule, new Date('2026-03-06T09:00:00Z')))).toBe('2026-03-09T09:00:00.000Z');
+        });
+
+        test('runs monthly rules on the day of the month, rolling into the next month', () => {
+            const rule = { frequency: 'monthly' as const, dayOfMonth: 1, time: '08:00' };
+
+            expect(iso(nextOccurrence(rule, after))).toBe('2026-04-01T08:00:00.000Z');
+            expect(iso(nextOccurrence(rule, new Date('2026-12-15T00:00:00Z')))).toBe('2027-01-01T08:00:00.000Z');
+        });
+
+        test('matches either a restricted day of month or day of week, like cron', () => {
+            // The 15th of the month or any Monday
+            const rule = { frequency: 'cron' as const, expression: '0 12 15 * 1' };
+
+            expect(iso(nextOccurrence(rule, after))).toBe('2026-03-09T12:00:00.000Z');
+            expect(iso(nextOccurrence(rule, new Date('2026-03-10T00:00:00Z')))).toBe('2026-03-15T12:00:00.000Z');
+        });
+
+        test('finds rare cron occurrences such as leap days', () => {
+            const rule = { frequency: 'cron' as const, expression: '0 0 29 2 *' };
+
+            expect(iso(nextOccurrence(rule, after))).toBe('2028-02-29T00:00:00.000Z');
+        });
+    });
+
+    describe('recurrenceRuleSchema', () => {
+        test('accepts well-formed rules', () => {
+            expect(recurrenceRuleSchema.safeParse({ frequency: 'weekly', weekdays: [0, 6], time: '23:59' }).success).toBe(true);
+            expect(recurrenceRuleSchema.safeParse({ frequency: 'cron', expression: '*/15 * * * *' }).success).toBe(true);
+        });
+
+        test('rejects bad times, empty weekday lists and late monthly days', () => {
+            expect(recurrenceRuleSchema.safeParse({ frequency: 'daily', time: '24:00' }).success).toBe(false);
+            expect(recurrenceRuleSchema.safeParse({ frequency: 'weekly', weekdays: [], time: '09:00' }).success).toBe(false);
+            expect(recurrenceRuleSchema.safeParse({ frequency: 'monthly', dayOfMonth: 31, time: '09:00' }).success).toBe(false);
+        });
+
+        test('rejects cron expressions that never fire', () => {
+            expect(recurrenceRuleSchema.safeParse({ frequency: 'cron', expression: '0 0 31 2 *' }).success).toBe(false);
+            expect(recurrenceRuleSchema.safeParse({ frequency: 'cron', expression: 'every day' }).success).toBe(false);
+        });
+    });
+
+    describe('describeRecurrence', () => {
+        test('summarizes each kind of rule', () => {
+            expect(describeRecurrence({ frequency: 'daily', time: '09:00' })).toBe('Daily at 09:00 UTC');
+            expect(describeRecurrence({ frequency: 'weekly', weekdays: [5, 1], time: '09:00' })).toBe(
+                'Weekly on Mon, Fri at 09:00 UTC'
+            );
+            expect(describeRecurrence({ frequency: 'monthly', dayOfMonth: 15, time: '18:00' })).toBe(
+                'Monthly on day 15 at 18:00 UTC'
+            );
+            expect(describeRecurrence({ frequency: 'cron', expression: '0 9 * * 1' })).toBe('Cron "0 9 * * 1" (UTC)');
+        });
+    });
+});
@@ -0,0 +1,85 @@
+/**
+ * Board View Tests
+ *
+ * Covers grouping tasks into swimlanes by assignee or priority and laying
+ * due dates out on a Monday-first month calendar.
+ */
+
+import { calendarDayKey, calendarWeeks, groupIntoSwimlanes, tasksByDueDay, type LaneTask } from '@/lib/task-views';
+
+interface TestTask extends LaneTask {
+    id: string;
+}
+
+function task(id: string, overrides: Partial<TestTask> = {}): TestTask {
+    return { id, assigneeId: null, priority: 'MEDIUM', dueDate: null, ...overrides };
+}
+
+const members = [
+    { id: 'alice', name: 'Alice', email: 'alice@example.com' },
+    { id: 'bob', name: null, email: 'bob@example.com' },
+];
+
+describe('Board Views', () => {
+    describe('groupIntoSwimlanes', () => {
+        const tasks = [
+            task('t1', { assigneeId: 'bob', priority: 'LOW' }),
+            task('t2', { priority: 'HIGH' }),
+            task('t3', { assigneeId: 'alice', priority: 'HIGH' }),
+            task('t4', { assigneeId: 'carol' }),
+        ];
+
+        test('keeps every task in one lane without swimlanes', () => {
+            expect(groupIntoSwimlanes(tasks, 'none')).toEqual([{ key: 'all', label: 'All tasks', tasks }]);
+        });
+
+        test('orders assignee lanes by member, then former members, then unassigned', () => {
+            const lanes = groupIntoSwimlanes(tasks, 'assignee', members);
+
+            expect(lanes.map((lane) => [lane.label, lane.tasks.map((t) => t.id)])).toEqual([
+                ['Alice', ['t3']],
+                ['bob@example.com', ['t1']],
+                ['Former member', ['t4']],
+                ['Unassigned', ['t2']],
+            ]);
+        });
+
+        test('orders priority lanes from high to low and leaves out empty ones', () => {
+            const lanes = groupIntoSwimlanes(tasks, 'priority');
+
+            expect(lanes.map((lane) => [lane.key, lane.tasks.map((t) => t.id)])).toEqual([
+                ['HIGH', ['t2', 't3']],
+                ['MEDIUM', ['t4']],
+                ['LOW', ['t1']],
+            ]);
+        });
+    });
+
+    describe('calendarWeeks', () => {
+        test('covers the month in whole weeks starting on Monday', () => {
+            // March 2026 starts on a Sunday and ends on a Tuesday
+            const weeks = calendarWeeks(new Date(2026, 2, 15));
+
+            expect(weeks).toHaveLength(6);
+            expect(weeks.every((week) => week.length === 7)).toBe(true);
+            expect(calendarDayKey(weeks[0][0])).toBe('2026-02-23');
+            expect(calendarDayKey(weeks[5][6])).toBe('2026-04-05');
+        });
+    });
+
+    describe('tasksByDueDay', () => {
+        test('groups tasks by the calendar day they are due and skips undated ones', () => {
+            const days = tasksByDueDay([
+                task('t1', { dueDate: '2026-03-04T00:00:00.000Z' }),
+                task('t2', { dueDate: new Date('2026-03-04T00:00:00Z') }),
+                task('t3', { dueDate: '2026-03-05T00:00:00.000Z' }),
+                task('t4'),
+            ]);
+
+            expect(Array.from(days.entries()).map(([day, dayTasks]) => [day, dayTasks.map((t) => t.id)])).toEqual([
+                ['2026-03-04', ['t1', 't2']],
+                ['2026-03-05', ['t3']],
+            ]);
+        });
+    });
+});
@@ -0,0 +1,111 @@
+/**
+ * Task Workflow Tests
+ *
+ * Covers validating configurable kanban columns, deriving keys for new
+ * columns, the done-category helpers analytics rely on, and where tasks of
+ * removed columns are moved.
+ */
+
+import {
+    DEFAULT_WORKFLOW,
+    assignColumnKeys,
+    columnKeyFromName,
+    completedStatus,
+    doneStatuses,
+    inProgressStatuses,
+    initialStatus,
+    planColumnMoves,
+    workflowSchema,
+    type WorkflowColumn,
+} from '@/lib/task-workflow';
+
+function column(key: string, isDone = false): WorkflowColumn {
+    return { key, name: key, color: '#000000', isDone, wipLimit: null };
+}
+
+describe('Task Workflow', () => {
+    describe('DEFAULT_WORKFLOW', () => {
+        test('keeps the legacy task statuses as column keys', () => {
+            expect(DEFAULT_WORKFLOW.map((c) => c.key)).toEqual(['TODO', 'IN_PROGRESS', 'UNDER_REVIEW', 'DONE']);
+            expect(doneStatuses(DEFAULT_WORKFLOW)).toEqual(['DONE']);
+            expect(inProgressStatuses(DEFAULT_WORKFLOW)).toEqual(['IN_PROGRESS', 'UNDER_REVIEW']);
+        });
+
+        test('is a valid workflow', () => {
+            expect(workflowSchema.safeParse({ columns: DEFAULT_WORKFLOW }).success).toBe(true);
+        });
+    });
+
+    describe('workflowSchema', () => {
+        test('requires a done column and a column outside the done category', () => {
+            expect(workflowSchema.safeParse({ columns: [column('A'), column('B')] }).success).toBe(false);
+            expect(workflowSchema.safeParse({ columns: [column('A', true), column('B', true)] }).success).toBe(false);
+        });
+
+        test('rejects duplicate names regardless of case', () => {
+            const columns = [
+                { name: 'Review', color: '#000000', isDone: false },
+                { name: 'review', color: '#000000', isDone: true },
+            ];
+
+            expect(workflowSchema.safeParse({ columns }).success).toBe(false);
+        });
+
+        test('accepts new columns without keys', () => {
+            const columns = [
+                { key: 'TODO', name: 'To Do', color: '#000000', isDone: false },
+                { name: 'Shipped', color: '#00ff00', isDone: true },
+            ];
+
+            expect(workflowSchema.safeParse({ columns }).success).toBe(true);
+        });
+    });
+
+    describe('column keys', () => {
+        test('derives keys from names and avoids taken ones', () => {
+            expect(columnKeyFromName('QA review', new Set())).toBe('QA_REVIEW');
+            expect(columnKeyFromName('Done!', new Set(['DONE']))).toBe('DONE_2');
+            expect(columnKeyFromName('🚀', new Set())).toBe('COLUMN');
+        });
+
+        test('does not reuse the key of a removed column', () => {
+            const columns = assignColumnKeys(
+                [
+                    { key: 'TODO', name: 'To Do', color: '#000000', isDone: false },
+                    { name: 'Done', color: '#000000', isDone: true },
+                ],
+                DEFAULT_WORKFLOW
+            );
+
+            expect(columns.map((c) => c.key)).toEqual(['TODO', 'DONE_2']);
+        });
+    });
+
+    describe('status helpers', () => {
+        test('start tasks in the first column outside the done category', () => {
+            const columns = [column('ARCHIVED', true), column('BACKLOG'), column('SHIPPED', true)];
+
+            expect(initialStatus(columns)).toBe('BACKLOG');
+            expect(completedStatus(columns)).toBe('ARCHIVED');
+            expect(inProgressStatuses(columns)).toEqual([]);
+        });
+    });
+
+    describe('planColumnMoves', () => {
+        test('moves tasks of removed columns to a column of the same category', () => {
+            const next = [column('TODO'), column('DOING'), column('SHIPPED', true)];
+
+            expect(planColumnMoves(DEFAULT_WORKFLOW, next)).toEqual(
+                new Map([
+                    ['IN_PROGRESS', 'TODO'],
+                    ['UNDER_REVIEW', 'TODO'],
+                    ['DONE', 'SHIPPED'],
+                ])
+            );
+        });
+
+        test('moves nothing when every column is kept', () => {
+            expect(planColumnMoves(DEFAULT_WORKFLOW, [...DEFAULT_WORKFLOW].reverse()).size).toBe(0);
+        });
+    });
+});
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { toast } from "sonner";
 import { useRouter } from "next/navigation";
+import { NotificationPreferencesCard } from "@/components/notifications/notification-preferences";
 
 export default function AccountPage() {
     const [defaultTeam, setDefaultTeam] = useState<{ id: string; name: string } | null>(null);
@@ -73,6 +74,8 @@ export default function AccountPage() {
                     </div>
                 )}
             </Card>
+
+            <NotificationPreferencesCard />
         </div>
     );
 }
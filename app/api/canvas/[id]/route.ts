@@ -8,6 +8,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { syncCanvasRelationships } from '@/lib/relationship-service';
 
 /**
  * GET /api/canvas/[id]
@@ -51,7 +52,7 @@ export async function GET(
 
 /**
  * PUT /api/canvas/[id]
- * Update canvas state
+ * Update canvas state and sync relationships drawn as arrows between components
  */
 export async function PUT(
     request: NextRequest,
@@ -83,6 +84,13 @@ export async function PUT(
             },
         });
 
+        // A failed relationship sync shouldn't lose the user's drawing
+        try {
+            await syncCanvasRelationships(canvasId, canvas.state);
+        } catch (error) {
+            console.error('Error syncing Architecture Map relationships:', error);
+        }
+
         return NextResponse.json(canvas);
     } catch (error: any) {
         console.error('Error updating canvas:', error);
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import {
+    deleteRelationship,
+    getRelationshipById,
+    RelationshipValidationError,
+    updateRelationship,
+} from '@/lib/relationship-service';
+
+const updateRelationshipSchema = z.object({
+    kind: z.enum(['DEPENDENCY', 'DATAFLOW']).optional(),
+    protocol: z.string().nullable().optional(),
+    label: z.string().nullable().optional(),
+    metadata: z.record(z.string(), z.any()).optional(),
+});
+
+/**
+ * Verify the relationship belongs to the component and the user can edit its project
+ */
+async function checkRelationshipWriteAccess(
+    componentId: string,
+    relationshipId: string,
+    userId: string
+): Promise<NextResponse | null> {
+    const relationship = await getRelationshipById(relationshipId);
+
+    if (
+        !relationship ||
+        (relationship.sourceComponentId !== componentId &&
+            relationship.targetComponentId !== componentId)
+    ) {
+        return NextResponse.json({ error: 'Relationship not found' }, { status: 404 });
+    }
+
+    const component = await prisma.component.findUnique({
+        where: { id: componentId },
+        include: {
+            canvas: {
+                include: {
+                    project: {
+                        include: {
+                            team: {
+                                include: {
+                                    members: {
+                                        where: { userId },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    });
+
+    if (!component) {
+        return NextResponse.json({ error: 'Component not found' }, { status: 404 });
+    }
+
+    const project = component.canvas.project;
+    let hasWriteAccess = false;
+    if (!project.teamId) {
+        hasWriteAccess = project.createdById === userId;
+    } else {
+        const member = project.team?.members[0];
+        hasWriteAccess = member ? member.role === 'OWNER' || member.role === 'EDITOR' : false;
+    }
+
+    if (!hasWriteAccess) {
+        return NextResponse.json(
+            { error: 'Insufficient permissions' },
+            { status: 403 }
+        );
+    }
+
+    return null;
+}
+
+// PATCH /api/components/[id]/relationships/[relationshipId] - Update a relationship
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: { id: string; relationshipId: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const accessError = await checkRelationshipWriteAccess(
+            params.id,
+            params.relationshipId,
+            session.user.id
+        );
+        if (accessError) {
+            return accessError;
+        }
+
+        const body = await request.json();
+        const validatedData = updateRelationshipSchema.parse(body);
+
+        const relationship = await updateRelationship(params.relationshipId, validatedData);
+
+        return NextResponse.json({ relationship });
+    } catch (error: any) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid request data', details: error.issues },
+                { status: 400 }
+            );
+        }
+
+        if (error?.code === 'P2002') {
+            return NextResponse.json(
+                { error: 'Relationship already exists' },
+                { status: 409 }
+            );
+        }
+
+        if (error instanceof RelationshipValidationError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+
+        console.error('Error updating component relationship:', error);
+        return NextResponse.json(
+            { error: 'Failed to update relationship' },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE /api/components/[id]/relationships/[relationshipId] - Delete a relationship
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string; relationshipId: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const accessError = await checkRelationshipWriteAccess(
+            params.id,
+            params.relationshipId,
+            session.user.id
+        );
+        if (accessError) {
+            return accessError;
+        }
+
+        await deleteRelationship(params.relationshipId);
+
+        return NextResponse.json({ message: 'Relationship deleted successfully' });
+    } catch (error) {
+        console.error('Error deleting component relationship:', error);
+        return NextResponse.json(
+            { error: 'Failed to delete relationship' },
+            { status: 500 }
+        );
+    }
+}
@@ -2,6 +2,22 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import {
+    createRelationship,
+    getComponentRelationships,
+    RelationshipValidationError,
+} from '@/lib/relationship-service';
+import { getComponentOwnership } from '@/lib/contributor-analysis';
+import { getOpenTasksForComponent } from '@/lib/task-links';
+
+const createRelationshipSchema = z.object({
+    targetComponentId: z.string().min(1, 'Target component is required'),
+    kind: z.enum(['DEPENDENCY', 'DATAFLOW']).optional(),
+    protocol: z.string().optional(),
+    label: z.string().optional(),
+    metadata: z.record(z.string(), z.any()).optional(),
+});
 
 export async function GET(
     request: NextRequest,
@@ -128,13 +144,70 @@ export async function GET(
             orderBy: { committedAt: 'desc' },
         });
 
+        const autoDetectedShas = new Set(
+            componentCommits.filter((cc) => cc.autoDetected).map((cc) => cc.commitSha)
+        );
+
         const recentCommits = commits.map((commit) => ({
             sha: commit.sha,
             message: commit.message,
             author: commit.author,
             committedAt: commit.committedAt.toISOString(),
+            autoDetected: autoDetectedShas.has(commit.sha),
         }));
 
+        // Open pull requests touching this component, i.e. architecture changes in flight
+        const componentPullRequests = await prisma.componentPullRequest.findMany({
+            where: {
+                componentId: component.id,
+                pullRequest: { state: 'open' },
+            },
+            include: { pullRequest: true },
+            orderBy: { pullRequest: { githubUpdatedAt: 'desc' } },
+        });
+
+        const openPullRequests = componentPullRequests.map(({ pullRequest, autoDetected }) => ({
+            number: pullRequest.number,
+            title: pullRequest.title,
+            author: pullRequest.author,
+            url: pullRequest.url,
+            draft: pullRequest.draft,
+            reviewState: pullRequest.reviewState,
+            updatedAt: pullRequest.githubUpdatedAt.toISOString(),
+            autoDetected,
+        }));
+
+        // Fetch dependencies and data flows to/from this component
+        const { outgoing, incoming } = await getComponentRelationships(component.id);
+
+        // Who wrote the commits tagged to this component
+        const ownership = await getComponentOwnership(component.id);
+
+        // Work still open against this component
+        const openTasks = (await getOpenTasksForComponent(component.id, project.id)).map((task) => ({
+            ...task,
+            dueDate: task.dueDate?.toISOString() ?? null,
+        }));
+
+        const dependencies = {
+            outgoing: outgoing.map((r) => ({
+                id: r.id,
+                kind: r.kind,
+                protocol: r.protocol,
+                label: r.label,
+                fromCanvas: !!r.shapeId,
+                component: r.target,
+            })),
+            incoming: incoming.map((r) => ({
+                id: r.id,
+                kind: r.kind,
+                protocol: r.protocol,
+                label: r.label,
+                fromCanvas: !!r.shapeId,
+                component: r.source,
+            })),
+        };
+
         // Return component with all relationships
         return NextResponse.json({
             id: component.id,
@@ -142,11 +215,16 @@ export async function GET(
             name: component.name,
             type: component.type,
             description: component.description,
+            pathPatterns: component.pathPatterns,
             projectId: project.id,
             decisions,
             knowledgeArtifacts,
             discussions,
             recentCommits,
+            openPullRequests,
+            dependencies,
+            ownership,
+            openTasks,
         });
     } catch (error) {
         console.error('Error fetching component relationships:', error);
@@ -156,3 +234,93 @@ export async function GET(
         );
     }
 }
+
+// POST /api/components/[id]/relationships - Create a dependency or data flow from this component
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const component = await prisma.component.findUnique({
+            where: { id: params.id },
+            include: {
+                canvas: {
+                    include: {
+                        project: {
+                            include: {
+                                team: {
+                                    include: {
+                                        members: {
+                                            where: { userId: session.user.id },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        });
+
+        if (!component) {
+            return NextResponse.json({ error: 'Component not found' }, { status: 404 });
+        }
+
+        // Check write access
+        const project = component.canvas.project;
+        let hasWriteAccess = false;
+        if (!project.teamId) {
+            hasWriteAccess = project.createdById === session.user.id;
+        } else {
+            const member = project.team?.members[0];
+            hasWriteAccess = member ? member.role === 'OWNER' || member.role === 'EDITOR' : false;
+        }
+
+        if (!hasWriteAccess) {
+            return NextResponse.json(
+                { error: 'Insufficient permissions' },
+                { status: 403 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = createRelationshipSchema.parse(body);
+
+        const relationship = await createRelationship({
+            sourceComponentId: component.id,
+            ...validatedData,
+        });
+
+        return NextResponse.json({ relationship }, { status: 201 });
+    } catch (error: any) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid request data', details: error.issues },
+                { status: 400 }
+            );
+        }
+
+        if (error?.code === 'P2002') {
+            return NextResponse.json(
+                { error: 'Relationship already exists' },
+                { status: 409 }
+            );
+        }
+
+        if (error instanceof RelationshipValidationError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+
+        console.error('Error creating component relationship:', error);
+        return NextResponse.json(
+            { error: 'Failed to create relationship' },
+            { status: 500 }
+        );
+    }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { GitHubClient } from "@/lib/github-client";
+import { createGitProvider } from "@/lib/git-provider";
+import type { GitProviderType } from "@/types/git";
 import {prisma} from "@/lib/prisma";
 
 export async function GET(request: NextRequest) {
@@ -135,3 +137,68 @@ export async function GET(request: NextRequest) {
         );
     }
 }
+
+// POST /api/github/repositories - List repositories with a personal access token
+// Used for GitLab and Gitea (and GitHub Enterprise), which have no sign-in connection,
+// and for local repositories under LOCAL_GIT_ROOTS, which need no token
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: "Unauthorized" },
+                { status: 401 }
+            );
+        }
+
+        const { provider, baseUrl, accessToken, page = 1, perPage = 30 } = (await request.json()) as {
+            provider: GitProviderType;
+            baseUrl?: string;
+            accessToken?: string;
+            page?: number;
+            perPage?: number;
+        };
+
+        if (!["GITHUB", "GITLAB", "GITEA", "LOCAL"].includes(provider) || (provider !== "LOCAL" && !accessToken)) {
+            return NextResponse.json(
+                { error: "Provider and access token are required" },
+                { status: 400 }
+            );
+        }
+
+        if (provider !== "LOCAL" && baseUrl && !/^https?:\/\//.test(baseUrl)) {
+            return NextResponse.json(
+                { error: "Instance URL must start with http:// or https://" },
+                { status: 400 }
+            );
+        }
+
+        const client = createGitProvider(provider, accessToken || "", provider === "LOCAL" ? null : baseUrl);
+        const result = await client.listUserRepositories({ page, perPage });
+
+        return NextResponse.json({
+            repositories: result.repositories,
+            hasMore: result.hasMore,
+            page,
+            perPage,
+        });
+    } catch (error: any) {
+        console.error("[Git Repositories API] Error listing repositories with access token:", error.message);
+
+        if (error.status === 401 || error.status === 403) {
+            return NextResponse.json(
+                { error: "Authentication failed. Check the access token and its scopes." },
+                { status: 401 }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                error: "Failed to fetch repositories",
+                details: error.message,
+            },
+            { status: 500 }
+        );
+    }
+}
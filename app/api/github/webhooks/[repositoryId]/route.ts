@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { decrypt } from "@/lib/encryption";
+import {
+    DELIVERY_HEADER,
+    EVENT_HEADER,
+    SIGNATURE_HEADER,
+    verifyWebhookSignature,
+} from "@/lib/github-webhooks";
+import { handleWebhookEvent } from "@/lib/github-webhook-handler";
+
+// POST /api/github/webhooks/[repositoryId] - Receive a signed GitHub webhook delivery
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { repositoryId: string } }
+) {
+    try {
+        const repository = await prisma.gitRepository.findUnique({
+            where: { id: params.repositoryId },
+        });
+
+        if (!repository?.webhookSecret) {
+            return NextResponse.json(
+                { error: "Webhook not configured" },
+                { status: 404 }
+            );
+        }
+
+        // The signature covers the raw body, so read it before parsing
+        const body = await request.text();
+        const signature = request.headers.get(SIGNATURE_HEADER);
+
+        if (!verifyWebhookSignature(body, signature, decrypt(repository.webhookSecret))) {
+            return NextResponse.json(
+                { error: "Invalid signature" },
+                { status: 401 }
+            );
+        }
+
+        const event = request.headers.get(EVENT_HEADER);
+        if (!event) {
+            return NextResponse.json(
+                { error: "Missing event type" },
+                { status: 400 }
+            );
+        }
+
+        let payload: any;
+        try {
+            payload = JSON.parse(body);
+        } catch {
+            return NextResponse.json(
+                { error: "Invalid JSON payload" },
+                { status: 400 }
+            );
+        }
+
+        const result = await handleWebhookEvent(repository, event, payload);
+
+        return NextResponse.json({
+            event,
+            delivery: request.headers.get(DELIVERY_HEADER),
+            ...result,
+        });
+    } catch (error) {
+        console.error("Error handling GitHub webhook:", error);
+        return NextResponse.json(
+            { error: "Failed to handle webhook" },
+            { status: 500 }
+        );
+    }
+}
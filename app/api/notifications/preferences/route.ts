@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { z } from 'zod';
+import { getNotificationPreferences, updateNotificationPreferences } from '@/lib/notifications';
+import { notificationPreferencesSchema } from '@/lib/notification-rules';
+
+/**
+ * GET /api/notifications/preferences
+ * Which notifications the current user receives
+ */
+export async function GET() {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        return NextResponse.json(await getNotificationPreferences(session.user.id));
+    } catch (error) {
+        console.error('Error fetching notification preferences:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch notification preferences' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/notifications/preferences
+ * Replace the current user's notification preferences
+ */
+export async function PUT(request: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json();
+        const validatedData = notificationPreferencesSchema.parse(body);
+
+        const preferences = await updateNotificationPreferences(session.user.id, validatedData);
+        return NextResponse.json(preferences);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid request data', details: error.issues },
+                { status: 400 }
+            );
+        }
+
+        console.error('Error updating notification preferences:', error);
+        return NextResponse.json(
+            { error: 'Failed to update notification preferences' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { z } from 'zod';
+import { getNotifications, markNotificationsRead } from '@/lib/notifications';
+
+const markReadSchema = z.object({
+    ids: z.array(z.string()).optional(), // All unread notifications when omitted
+});
+
+/**
+ * GET /api/notifications
+ * The current user's recent notifications and unread count
+ */
+export async function GET() {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        return NextResponse.json(await getNotifications(session.user.id));
+    } catch (error) {
+        console.error('Error fetching notifications:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch notifications' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PATCH /api/notifications
+ * Mark notifications as read
+ */
+export async function PATCH(request: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const { ids } = markReadSchema.parse(body);
+
+        const updated = await markNotificationsRead(session.user.id, ids);
+        return NextResponse.json({ updated });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid request data', details: error.issues },
+                { status: 400 }
+            );
+        }
+
+        console.error('Error updating notifications:', error);
+        return NextResponse.json(
+            { error: 'Failed to update notifications' },
+            { status: 500 }
+        );
+    }
+}
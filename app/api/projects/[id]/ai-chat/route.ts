@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { doneStatuses, getProjectWorkflow } from "@/lib/task-workflow";
+import { getBlockedTasks } from "@/lib/task-dependencies";
 
 // GET /api/projects/[id]/ai-chat - Get chat history
 export async function GET(
@@ -103,16 +105,34 @@ export async function POST(
             );
         }
 
-        // Build context for AI
+        // Build context for AI, naming each task's workflow column
+        const workflow = await getProjectWorkflow(params.id);
+        const columnNames = new Map(workflow.map((column) => [column.key, column.name]));
         const taskSummary = project.tasks.length > 0
             ? `Current tasks:\n${project.tasks
                 .map(
                     (t) =>
-                        `- ${t.title} (${t.status}, ${t.priority} priority)`
+                        `- ${t.title} (${columnNames.get(t.status) ?? t.status}, ${t.priority} priority)`
                 )
                 .join("\n")}`
             : "No tasks yet.";
 
+        // Open tasks waiting on other open tasks, so the assistant can say what is blocking progress
+        const blockedTasks = await getBlockedTasks(params.id, workflow);
+        const openTaskCount = await prisma.task.count({
+            where: { projectId: params.id, status: { notIn: doneStatuses(workflow) } },
+        });
+        const blockerSummary = blockedTasks.length > 0
+            ? `${blockedTasks.length} of ${openTaskCount} open tasks are blocked:\n${blockedTasks
+                .map(
+                    ({ task, blockers }) =>
+                        `- ${task.title} (${columnNames.get(task.status) ?? task.status}) blocked by ${blockers
+                            .map((b) => `${b.title} (${columnNames.get(b.status) ?? b.status})`)
+                            .join(", ")}`
+                )
+                .join("\n")}`
+            : "No open tasks are blocked.";
+
         const teamInfo = project.team
             ? `Team: ${project.team.name} with ${project.team.members.length} members`
             : "Personal project";
@@ -135,6 +155,7 @@ export async function POST(
                 projectName: project.name,
                 projectDescription: project.description || "",
                 taskSummary,
+                blockerSummary,
                 teamInfo,
             }
         );
@@ -167,6 +188,7 @@ async function generateAIResponse(
         projectName: string;
         projectDescription: string;
         taskSummary: string;
+        blockerSummary: string;
         teamInfo: string;
     }
 ): Promise<string> {
@@ -187,6 +209,7 @@ Current project context:
 - Description: ${context.projectDescription || "No description"}
 - ${context.teamInfo}
 - ${context.taskSummary}
+- ${context.blockerSummary}
 
 Provide helpful, concise, and actionable advice. Be friendly and professional.`;
 
@@ -235,11 +258,17 @@ function generateFallbackResponse(
         projectName: string;
         projectDescription: string;
         taskSummary: string;
+        blockerSummary: string;
         teamInfo: string;
     }
 ): string {
     const lowerMessage = message.toLowerCase();
 
+    // Dependency queries
+    if (lowerMessage.includes("block")) {
+        return context.blockerSummary;
+    }
+
     // Task-related queries
     if (lowerMessage.includes("task") || lowerMessage.includes("todo")) {
         if (lowerMessage.includes("how many") || lowerMessage.includes("count")) {
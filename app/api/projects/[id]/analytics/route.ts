@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { doneStatuses, getProjectWorkflow, inProgressStatuses } from "@/lib/task-workflow";
+import { computeFlowMetrics } from "@/lib/flow-metrics";
+import { getSprintReport } from "@/lib/sprints";
 
 // Helper function to check user's access to project
 async function getUserProjectRole(userId: string, projectId: string) {
@@ -76,6 +79,8 @@ export async function GET(
         }
 
         const projectId = params.id;
+        const workflow = await getProjectWorkflow(projectId);
+        const completedStatuses = doneStatuses(workflow);
 
         // Get task counts by status
         const tasksByStatus = await prisma.task.groupBy({
@@ -144,7 +149,7 @@ export async function GET(
         const completedTasks = await prisma.task.count({
             where: {
                 projectId,
-                status: 'DONE',
+                status: { in: completedStatuses },
             },
         });
 
@@ -152,7 +157,7 @@ export async function GET(
         const inProgressTasks = await prisma.task.count({
             where: {
                 projectId,
-                status: 'IN_PROGRESS',
+                status: { in: inProgressStatuses(workflow) },
             },
         });
 
@@ -164,7 +169,7 @@ export async function GET(
                     lt: new Date(),
                 },
                 status: {
-                    not: 'DONE',
+                    notIn: completedStatuses,
                 },
             },
         });
@@ -195,7 +200,7 @@ export async function GET(
         const completedTasksWithDates = await prisma.task.findMany({
             where: {
                 projectId,
-                status: 'DONE',
+                status: { in: completedStatuses },
             },
             select: {
                 createdAt: true,
@@ -212,6 +217,26 @@ export async function GET(
             averageCompletionTime = Math.round(totalTime / completedTasksWithDates.length / (1000 * 60 * 60 * 24)); // Convert to days
         }
 
+        // Lead time, cycle time and time in column from recorded status transitions
+        const tasksWithHistory = await prisma.task.findMany({
+            where: {
+                projectId,
+                transitions: { some: {} },
+            },
+            select: {
+                createdAt: true,
+                status: true,
+                transitions: {
+                    select: { fromStatus: true, toStatus: true, changedAt: true },
+                    orderBy: { changedAt: 'asc' },
+                },
+            },
+        });
+        const flowMetrics = computeFlowMetrics(tasksWithHistory, workflow);
+
+        // Burndown of the current sprint and velocity of closed sprints
+        const sprintMetrics = await getSprintReport(projectId, workflow);
+
         // Get system health metrics
         // Get canvas for this project
         const canvas = await prisma.canvas.findFirst({
@@ -264,17 +289,14 @@ export async function GET(
             healthScore = Math.round((decisionCoverage * 0.6) + (churnPenalty * 0.4));
         }
 
-        // Format task distribution data
-        const statusDistribution: Record<string, number> = {
-            TODO: 0,
-            IN_PROGRESS: 0,
-            UNDER_REVIEW: 0,
-            DONE: 0,
-        };
-
-        tasksByStatus.forEach((item: { status: string; _count: { id: number } }) => {
-            statusDistribution[item.status] = item._count.id;
-        });
+        // Format task distribution data, one entry per workflow column in board order
+        const statusCounts = new Map(
+            tasksByStatus.map((item: { status: string; _count: { id: number } }) => [item.status, item._count.id])
+        );
+        const statusDistribution = workflow.map((column) => ({
+            ...column,
+            count: statusCounts.get(column.key) ?? 0,
+        }));
 
         const priorityDistribution: Record<string, number> = {
             LOW: 0,
@@ -296,6 +318,8 @@ export async function GET(
             statusDistribution,
             priorityDistribution,
             tasksByAssignee: tasksByAssigneeWithDetails,
+            flowMetrics,
+            sprintMetrics,
             recentActivities,
             systemHealth: {
                 healthScore,
@@ -18,6 +18,8 @@ const updateComponentSchema = z.object({
         y: z.number(),
     }).optional(),
     metadata: z.record(z.string(), z.any()).optional(),
+    shapeId: z.string().min(1).nullable().optional(),
+    pathPatterns: z.array(z.string().trim().min(1)).optional(),
 });
 
 // GET /api/projects/[id]/components/[componentId] - Get a specific component
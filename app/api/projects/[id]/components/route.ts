@@ -17,6 +17,8 @@ const createComponentSchema = z.object({
         y: z.number(),
     }),
     metadata: z.record(z.string(), z.any()).optional(),
+    shapeId: z.string().min(1).optional(),
+    pathPatterns: z.array(z.string().trim().min(1)).optional(),
 });
 
 // GET /api/projects/[id]/components - Get all components for a project
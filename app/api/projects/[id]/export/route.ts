@@ -5,7 +5,7 @@ import { prisma } from '@/lib/prisma';
 
 /**
  * GET /api/projects/[id]/export
- * Export all project data including components, decisions, canvas state, etc.
+ * Export all project data including components, decisions, canvas state, tasks with their labels and custom fields, etc.
  */
 export async function GET(
     request: NextRequest,
@@ -60,6 +60,19 @@ export async function GET(
                         supersedesRecords: true,
                     },
                 },
+                labels: {
+                    orderBy: { name: 'asc' },
+                },
+                customFields: {
+                    orderBy: { position: 'asc' },
+                },
+                tasks: {
+                    include: {
+                        labels: { select: { labelId: true } },
+                        fieldValues: { select: { fieldId: true, value: true } },
+                    },
+                    orderBy: [{ status: 'asc' }, { position: 'asc' }],
+                },
             },
         });
 
@@ -132,6 +145,33 @@ export async function GET(
                 supersededById: decision.supersededBy,
                 supersedesId: decision.supersedes,
             })),
+            labels: project.labels.map(label => ({
+                id: label.id,
+                name: label.name,
+                color: label.color,
+            })),
+            customFields: project.customFields.map(field => ({
+                id: field.id,
+                name: field.name,
+                type: field.type,
+                options: field.options,
+            })),
+            tasks: project.tasks.map(task => ({
+                id: task.id,
+                title: task.title,
+                description: task.description,
+                status: task.status,
+                priority: task.priority,
+                assigneeId: task.assigneeId,
+                dueDate: task.dueDate,
+                parentId: task.parentId,
+                sprintId: task.sprintId,
+                storyPoints: task.storyPoints,
+                labelIds: task.labels.map(tl => tl.labelId),
+                customFields: Object.fromEntries(task.fieldValues.map(fv => [fv.fieldId, fv.value])),
+                createdAt: task.createdAt,
+                updatedAt: task.updatedAt,
+            })),
             exportedAt: new Date().toISOString(),
             exportedBy: session.user.email,
         };
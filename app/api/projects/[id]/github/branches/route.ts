@@ -2,8 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import { decrypt } from "@/lib/encryption";
-import { GitHubClient } from "@/lib/github-client";
+import { getRepositoryProvider } from "@/lib/git-provider";
 
 export async function GET(
     request: NextRequest,
@@ -55,12 +54,9 @@ export async function GET(
             );
         }
 
-        // Decrypt the access token
-        const accessToken = decrypt(project.gitRepo.accessToken);
-
-        // Create GitHub client and fetch branches
-        const githubClient = new GitHubClient(accessToken);
-        const result = await githubClient.getBranches(
+        // Create the provider client and fetch branches
+        const provider = getRepositoryProvider(project.gitRepo);
+        const result = await provider.getBranches(
             project.gitRepo.owner,
             project.gitRepo.name,
             {
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getCommitDiff } from "@/lib/commit-diff";
+
+// GET /api/projects/[id]/github/commits/[sha]/diff - Changed files and patches of a commit,
+// each with the components whose path rules own it
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string; sha: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: "Unauthorized" },
+                { status: 401 }
+            );
+        }
+
+        if (!/^[0-9a-f]{7,64}$/i.test(params.sha)) {
+            return NextResponse.json(
+                { error: "Invalid commit SHA" },
+                { status: 400 }
+            );
+        }
+
+        // Check if user has access to the project
+        const project = await prisma.project.findFirst({
+            where: {
+                id: params.id,
+                team: {
+                    members: {
+                        some: {
+                            userId: session.user.id,
+                        },
+                    },
+                },
+            },
+            include: {
+                gitRepo: true,
+            },
+        });
+
+        if (!project) {
+            return NextResponse.json(
+                { error: "Project not found or insufficient permissions" },
+                { status: 404 }
+            );
+        }
+
+        if (!project.gitRepo) {
+            return NextResponse.json(
+                { error: "No GitHub repository connected to this project" },
+                { status: 404 }
+            );
+        }
+
+        try {
+            const files = await getCommitDiff(project.gitRepo, params.sha);
+
+            return NextResponse.json({ sha: params.sha, files });
+        } catch (error) {
+            console.error("Error fetching commit diff from provider:", error);
+            const status = (error as any)?.status || (error as any)?.response?.status;
+            if (status === 401 || status === 403) {
+                return NextResponse.json(
+                    { error: "GitHub authentication failed", needsReconnect: true },
+                    { status: 401 }
+                );
+            }
+            if (status === 404 || status === 422) {
+                return NextResponse.json(
+                    { error: "Commit not found" },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                { error: "Failed to fetch commit diff" },
+                { status: 500 }
+            );
+        }
+    } catch (error) {
+        console.error("Error fetching commit diff:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch commit diff" },
+            { status: 500 }
+        );
+    }
+}
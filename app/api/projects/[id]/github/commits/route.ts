@@ -2,8 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import { decrypt } from "@/lib/encryption";
-import { GitHubClient } from "@/lib/github-client";
+import { getRepositoryProvider } from "@/lib/git-provider";
 
 export async function GET(
     request: NextRequest,
@@ -57,13 +56,10 @@ export async function GET(
             );
         }
 
-        // Decrypt the access token
-        const accessToken = decrypt(project.gitRepo.accessToken);
-
-        // Create GitHub client and fetch commits
-        const githubClient = new GitHubClient(accessToken);
+        // Create the provider client and fetch commits
+        const provider = getRepositoryProvider(project.gitRepo);
         try {
-            const result = await githubClient.getCommits(
+            const result = await provider.getCommits(
                 project.gitRepo.owner,
                 project.gitRepo.name,
                 {
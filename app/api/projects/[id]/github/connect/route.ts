@@ -3,6 +3,8 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { encrypt } from "@/lib/encryption";
+import { LocalGitClient } from "@/lib/local-git-client";
+import type { GitProviderType } from "@/types/git";
 
 export async function POST(
     request: NextRequest,
@@ -21,6 +23,8 @@ export async function POST(
         const projectId = params.id;
         const body = await request.json();
         const { githubRepoId, owner, name, fullName, accessToken } = body;
+        const provider: GitProviderType = body.provider || "GITHUB";
+        const baseUrl: string | null = body.baseUrl || null;
 
         // Validate required fields (accessToken may be omitted; we'll try to fallback to stored Account)
         if (!githubRepoId || !owner || !name || !fullName) {
@@ -30,6 +34,32 @@ export async function POST(
             );
         }
 
+        if (!["GITHUB", "GITLAB", "GITEA", "LOCAL"].includes(provider)) {
+            return NextResponse.json(
+                { error: "Unsupported git provider" },
+                { status: 400 }
+            );
+        }
+
+        if (provider === "GITEA" && !baseUrl) {
+            return NextResponse.json(
+                { error: "Gitea repositories require an instance URL" },
+                { status: 400 }
+            );
+        }
+
+        // Local repositories must be a repository root inside LOCAL_GIT_ROOTS
+        if (provider === "LOCAL") {
+            try {
+                await new LocalGitClient(baseUrl).getRepository();
+            } catch (error: any) {
+                return NextResponse.json(
+                    { error: error.message || "Invalid local repository" },
+                    { status: 400 }
+                );
+            }
+        }
+
         // Load project and membership info separately so we can return clearer errors
         const project = await prisma.project.findUnique({
             where: { id: projectId },
@@ -64,8 +94,9 @@ export async function POST(
         }
 
         // If accessToken not provided in body, try to find a linked GitHub account for the user
+        // Only GitHub has a sign-in connection to fall back to
         let tokenToStore = accessToken as string | undefined;
-        if (!tokenToStore) {
+        if (!tokenToStore && provider === "GITHUB") {
             try {
                 const account = await prisma.account.findFirst({
                     where: { userId: session.user.id, provider: "github" },
@@ -78,15 +109,20 @@ export async function POST(
             }
         }
 
-        if (!tokenToStore) {
+        // Local repositories are read from disk and need no token
+        if (!tokenToStore && provider !== "LOCAL") {
             return NextResponse.json(
-                { error: "Missing GitHub access token; please link your GitHub account and try again." },
+                {
+                    error: provider === "GITHUB"
+                        ? "Missing GitHub access token; please link your GitHub account and try again."
+                        : "Missing access token",
+                },
                 { status: 400 }
             );
         }
 
         // Encrypt the access token before storing
-        const encryptedToken = encrypt(tokenToStore);
+        const encryptedToken = encrypt(tokenToStore || "");
 
         // Create or update GitHub repository connection
         const gitRepo = await prisma.gitRepository.upsert({
@@ -94,15 +130,25 @@ export async function POST(
                 projectId: projectId,
             },
             update: {
+                provider,
+                baseUrl,
                 githubRepoId,
                 owner,
                 name,
                 fullName,
                 accessToken: encryptedToken,
                 lastSyncedAt: null, // Reset sync time
+                // A new connection starts without the old one's failures or backoff
+                syncStatus: "IDLE",
+                lastSyncError: null,
+                lastSyncErrorAt: null,
+                syncFailureCount: 0,
+                nextSyncAt: null,
             },
             create: {
                 projectId,
+                provider,
+                baseUrl,
                 githubRepoId,
                 owner,
                 name,
@@ -113,6 +159,8 @@ export async function POST(
 
         return NextResponse.json({
             id: gitRepo.id,
+            provider: gitRepo.provider,
+            baseUrl: gitRepo.baseUrl,
             githubRepoId: gitRepo.githubRepoId,
             owner: gitRepo.owner,
             name: gitRepo.name,
@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+interface TagBody {
+    componentId?: string;
+    decisionId?: string;
+}
+
+async function findPullRequest(projectId: string, number: number, userId: string) {
+    return prisma.gitPullRequest.findFirst({
+        where: {
+            number,
+            repository: {
+                project: {
+                    id: projectId,
+                    team: {
+                        members: {
+                            some: {
+                                userId,
+                                role: {
+                                    in: ["OWNER", "EDITOR"],
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    });
+}
+
+// POST /api/projects/[id]/github/pulls/[number]/tag - Tag a pull request with a component or decision
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string; number: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: "Unauthorized" },
+                { status: 401 }
+            );
+        }
+
+        const { componentId, decisionId }: TagBody = await request.json();
+
+        if (!componentId && !decisionId) {
+            return NextResponse.json(
+                { error: "Component ID or decision ID is required" },
+                { status: 400 }
+            );
+        }
+
+        const pullRequest = await findPullRequest(params.id, parseInt(params.number), session.user.id);
+
+        if (!pullRequest) {
+            return NextResponse.json(
+                { error: "Pull request not found or insufficient permissions" },
+                { status: 404 }
+            );
+        }
+
+        if (componentId) {
+            const component = await prisma.component.findFirst({
+                where: { id: componentId, canvas: { projectId: params.id } },
+            });
+
+            if (!component) {
+                return NextResponse.json(
+                    { error: "Component not found" },
+                    { status: 404 }
+                );
+            }
+
+            await prisma.componentPullRequest.upsert({
+                where: {
+                    componentId_pullRequestId: {
+                        componentId,
+                        pullRequestId: pullRequest.id,
+                    },
+                },
+                // A manual tag survives automatic re-linking
+                update: { taggedAt: new Date(), autoDetected: false },
+                create: {
+                    componentId,
+                    pullRequestId: pullRequest.id,
+                    autoDetected: false,
+                },
+            });
+        }
+
+        if (decisionId) {
+            const decision = await prisma.decisionRecord.findFirst({
+                where: { id: decisionId, projectId: params.id },
+            });
+
+            if (!decision) {
+                return NextResponse.json(
+                    { error: "Decision not found" },
+                    { status: 404 }
+                );
+            }
+
+            await prisma.decisionPullRequest.upsert({
+                where: {
+                    decisionId_pullRequestId: {
+                        decisionId,
+                        pullRequestId: pullRequest.id,
+                    },
+                },
+                update: {},
+                create: {
+                    decisionId,
+                    pullRequestId: pullRequest.id,
+                },
+            });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Error tagging pull request:", error);
+        return NextResponse.json(
+            { error: "Failed to tag pull request" },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE /api/projects/[id]/github/pulls/[number]/tag - Remove a component or decision tag
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string; number: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: "Unauthorized" },
+                { status: 401 }
+            );
+        }
+
+        const { componentId, decisionId }: TagBody = await request.json();
+
+        if (!componentId && !decisionId) {
+            return NextResponse.json(
+                { error: "Component ID or decision ID is required" },
+                { status: 400 }
+            );
+        }
+
+        const pullRequest = await findPullRequest(params.id, parseInt(params.number), session.user.id);
+
+        if (!pullRequest) {
+            return NextResponse.json(
+                { error: "Pull request not found or insufficient permissions" },
+                { status: 404 }
+            );
+        }
+
+        if (componentId) {
+            await prisma.componentPullRequest.deleteMany({
+                where: { componentId, pullRequestId: pullRequest.id },
+            });
+        }
+
+        if (decisionId) {
+            await prisma.decisionPullRequest.deleteMany({
+                where: { decisionId, pullRequestId: pullRequest.id },
+            });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Error removing pull request tag:", error);
+        return NextResponse.json(
+            { error: "Failed to remove pull request tag" },
+            { status: 500 }
+        );
+    }
+}
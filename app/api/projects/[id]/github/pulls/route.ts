@@ -2,8 +2,6 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import { decrypt } from "@/lib/encryption";
-import { GitHubClient } from "@/lib/github-client";
 
 export async function GET(
     request: NextRequest,
@@ -23,7 +21,8 @@ export async function GET(
         const searchParams = request.nextUrl.searchParams;
         const page = parseInt(searchParams.get("page") || "1");
         const perPage = parseInt(searchParams.get("perPage") || "30");
-        const state = searchParams.get("state") as "open" | "closed" | "all" || "all";
+        const state = searchParams.get("state") as "open" | "closed" | "merged" | "all" || "all";
+        const componentId = searchParams.get("componentId");
 
         // Check if user has access to the project and get GitHub repo
         const project = await prisma.project.findFirst({
@@ -56,26 +55,77 @@ export async function GET(
             );
         }
 
-        // Decrypt the access token
-        const accessToken = decrypt(project.gitRepo.accessToken);
+        // Served from the synced copy kept current by polling and webhooks
+        const whereClause = {
+            repositoryId: project.gitRepo.id,
+            ...(state !== "all" && { state }),
+            ...(componentId && {
+                componentPullRequests: { some: { componentId } },
+            }),
+        };
 
-        // Create GitHub client and fetch pull requests
-        const githubClient = new GitHubClient(accessToken);
-        const result = await githubClient.getPullRequests(
-            project.gitRepo.owner,
-            project.gitRepo.name,
-            {
-                page,
-                perPage,
-                state,
-            }
-        );
+        const [totalCount, storedPullRequests] = await Promise.all([
+            prisma.gitPullRequest.count({ where: whereClause }),
+            prisma.gitPullRequest.findMany({
+                where: whereClause,
+                orderBy: { githubUpdatedAt: "desc" },
+                skip: (page - 1) * perPage,
+                take: perPage,
+                include: {
+                    componentPullRequests: {
+                        include: {
+                            component: {
+                                select: { id: true, componentId: true, name: true, type: true },
+                            },
+                        },
+                    },
+                    decisionPullRequests: {
+                        include: {
+                            decision: {
+                                select: { id: true, title: true, status: true },
+                            },
+                        },
+                    },
+                },
+            }),
+        ]);
+
+        const pullRequests = storedPullRequests.map((pr) => ({
+            id: pr.id,
+            number: pr.number,
+            title: pr.title,
+            state: pr.state,
+            draft: pr.draft,
+            author: pr.author,
+            createdAt: pr.openedAt,
+            updatedAt: pr.githubUpdatedAt,
+            mergedAt: pr.mergedAt,
+            url: pr.url,
+            merged: pr.state === "merged",
+            headBranch: pr.headBranch,
+            baseBranch: pr.baseBranch,
+            mergeCommitSha: pr.mergeCommitSha,
+            reviewState: pr.reviewState,
+            reviewers: pr.reviewers,
+            requestedReviewers: pr.requestedReviewers,
+            changedFilesCount: pr.changedFiles.length,
+            commitCount: pr.commitShas.length,
+            components: pr.componentPullRequests.map((cpr) => ({
+                id: cpr.component.id,
+                componentId: cpr.component.componentId,
+                name: cpr.component.name,
+                type: cpr.component.type,
+                autoDetected: cpr.autoDetected,
+            })),
+            decisions: pr.decisionPullRequests.map((dpr) => dpr.decision),
+        }));
 
         return NextResponse.json({
-            pullRequests: result.pullRequests,
-            hasMore: result.hasMore,
+            pullRequests,
+            hasMore: page * perPage < totalCount,
             page,
             perPage,
+            totalCount,
         });
     } catch (error) {
         console.error("Error fetching pull requests:", error);
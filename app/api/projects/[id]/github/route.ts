@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+
+const repositorySettingsSchema = z.object({
+    closeTasksFromCommits: z.boolean(),
+});
 
 export async function GET(
     request: NextRequest,
@@ -35,11 +40,18 @@ export async function GET(
                 gitRepo: {
                     select: {
                         id: true,
+                        provider: true,
+                        baseUrl: true,
                         githubRepoId: true,
                         owner: true,
                         name: true,
                         fullName: true,
                         lastSyncedAt: true,
+                        syncStatus: true,
+                        lastSyncError: true,
+                        lastSyncErrorAt: true,
+                        nextSyncAt: true,
+                        closeTasksFromCommits: true,
                         createdAt: true,
                         updatedAt: true,
                     },
@@ -66,6 +78,82 @@ export async function GET(
     }
 }
 
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: "Unauthorized" },
+                { status: 401 }
+            );
+        }
+
+        const projectId = params.id;
+
+        // Check if user can edit the project
+        const project = await prisma.project.findFirst({
+            where: {
+                id: projectId,
+                team: {
+                    members: {
+                        some: {
+                            userId: session.user.id,
+                            role: {
+                                in: ["OWNER", "EDITOR"],
+                            },
+                        },
+                    },
+                },
+            },
+            include: {
+                gitRepo: { select: { id: true, closeTasksFromCommits: true } },
+            },
+        });
+
+        if (!project?.gitRepo) {
+            return NextResponse.json(
+                { error: "Project not found or insufficient permissions" },
+                { status: 404 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = repositorySettingsSchema.parse(body);
+
+        // Moves made by commits of non-members are credited to whoever turned closing on,
+        // and only commits made since then close tasks
+        const enabling = validatedData.closeTasksFromCommits && !project.gitRepo.closeTasksFromCommits;
+        const gitRepo = await prisma.gitRepository.update({
+            where: { id: project.gitRepo.id },
+            data: {
+                closeTasksFromCommits: validatedData.closeTasksFromCommits,
+                ...(enabling && { closeTasksEnabledById: session.user.id, closeTasksEnabledAt: new Date() }),
+                ...(!validatedData.closeTasksFromCommits && { closeTasksEnabledById: null, closeTasksEnabledAt: null }),
+            },
+            select: { closeTasksFromCommits: true },
+        });
+
+        return NextResponse.json(gitRepo);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: "Invalid request data", details: error.issues },
+                { status: 400 }
+            );
+        }
+
+        console.error("Error updating repository settings:", error);
+        return NextResponse.json(
+            { error: "Failed to update repository settings" },
+            { status: 500 }
+        );
+    }
+}
+
 export async function DELETE(
     request: NextRequest,
     { params }: { params: { id: string } }
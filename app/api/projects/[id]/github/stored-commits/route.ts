@@ -22,6 +22,7 @@ export async function GET(
         const page = parseInt(searchParams.get("page") || "1");
         const perPage = parseInt(searchParams.get("perPage") || "30");
         const search = searchParams.get("search") || "";
+        const branch = searchParams.get("branch") || "";
 
         // Check if user has access to the project
         const project = await prisma.project.findFirst({
@@ -57,6 +58,9 @@ export async function GET(
         // Build where clause for search
         const whereClause = {
             repositoryId: project.gitRepo.id,
+            ...(branch && {
+                branches: { has: branch },
+            }),
             ...(search && {
                 OR: [
                     { message: { contains: search, mode: "insensitive" as const } },
@@ -81,8 +85,20 @@ export async function GET(
 
         const totalPages = Math.ceil(totalCount / perPage);
 
+        // Branches with sync state, for filtering
+        const branchStates = await prisma.gitBranchSyncState.findMany({
+            where: { repositoryId: project.gitRepo.id },
+            select: { branch: true, cursorSha: true, lastSyncedAt: true },
+            orderBy: { branch: "asc" },
+        });
+
         return NextResponse.json({
             commits,
+            branches: branchStates.map((state) => ({
+                name: state.branch,
+                backfilling: !!state.cursorSha,
+                lastSyncedAt: state.lastSyncedAt,
+            })),
             pagination: {
                 page,
                 perPage,
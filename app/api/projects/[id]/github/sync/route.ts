@@ -2,8 +2,10 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import { syncGitHubRepository } from "@/lib/github-sync";
+import { resetBranchSync, syncGitHubRepository } from "@/lib/github-sync";
 
+// POST /api/projects/[id]/github/sync - Sync commits from every branch
+// Query params: backfill=true restarts the history backfill from scratch
 export async function POST(
     request: NextRequest,
     { params }: { params: { id: string } }
@@ -53,6 +55,9 @@ export async function POST(
                 { status: 404 }
             );
         }
+        if (request.nextUrl.searchParams.get("backfill") === "true") {
+            await resetBranchSync(project.gitRepo.id);
+        }
 
         // Trigger sync
         const result = await syncGitHubRepository(project.gitRepo.id);
@@ -63,9 +68,23 @@ export async function POST(
             return NextResponse.json({
                 success: true,
                 newCommitsCount: result.newCommitsCount,
-                message: `Synced ${result.newCommitsCount} new commits`,
+                autoTaggedCount: result.autoTaggedCount,
+                backfillPending: result.backfillPending,
+                message: result.backfillPending
+                    ? `Synced ${result.newCommitsCount} new commits, backfill continues in the background`
+                    : `Synced ${result.newCommitsCount} new commits`,
             });
         } else {
+            if (result.rateLimited) {
+                return NextResponse.json(
+                    {
+                        error: "API rate limit reached",
+                        nextSyncAt: result.nextSyncAt,
+                    },
+                    { status: 429 }
+                );
+            }
+
             // If the underlying error is an Octokit auth error, surface a clear 401
             const err = result.error as any;
             const status = err?.status || err?.response?.status;
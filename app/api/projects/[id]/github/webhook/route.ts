@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { encrypt } from "@/lib/encryption";
+import { generateWebhookSecret } from "@/lib/github-webhooks";
+import type { GitProviderType } from "@/types/git";
+
+function getWebhookUrl(request: NextRequest, repositoryId: string) {
+    const origin = process.env.NEXTAUTH_URL || new URL(request.url).origin;
+    return `${origin.replace(/\/$/, "")}/api/github/webhooks/${repositoryId}`;
+}
+
+// Gitea sends GitHub-compatible signatures and event headers; GitLab uses a plain token,
+// and local repositories have no server to send deliveries
+function supportsWebhooks(provider: GitProviderType) {
+    return provider === "GITHUB" || provider === "GITEA";
+}
+
+async function findProjectRepository(projectId: string, userId: string, requireWrite: boolean) {
+    const project = await prisma.project.findFirst({
+        where: {
+            id: projectId,
+            team: {
+                members: {
+                    some: {
+                        userId,
+                        ...(requireWrite && {
+                            role: {
+                                in: ["OWNER", "EDITOR"],
+                            },
+                        }),
+                    },
+                },
+            },
+        },
+        include: {
+            gitRepo: true,
+        },
+    });
+
+    return project;
+}
+
+// GET /api/projects/[id]/github/webhook - Get the webhook configuration
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: "Unauthorized" },
+                { status: 401 }
+            );
+        }
+
+        const project = await findProjectRepository(params.id, session.user.id, false);
+
+        if (!project) {
+            return NextResponse.json(
+                { error: "Project not found or insufficient permissions" },
+                { status: 404 }
+            );
+        }
+
+        if (!project.gitRepo) {
+            return NextResponse.json(
+                { error: "No GitHub repository connected" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            supported: supportsWebhooks(project.gitRepo.provider),
+            enabled: !!project.gitRepo.webhookSecret,
+            url: getWebhookUrl(request, project.gitRepo.id),
+            lastWebhookAt: project.gitRepo.lastWebhookAt,
+        });
+    } catch (error) {
+        console.error("Error fetching webhook configuration:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch webhook configuration" },
+            { status: 500 }
+        );
+    }
+}
+
+// POST /api/projects/[id]/github/webhook - Enable the webhook, rotating its secret
+// The secret is only ever returned by this call
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: "Unauthorized" },
+                { status: 401 }
+            );
+        }
+
+        const project = await findProjectRepository(params.id, session.user.id, true);
+
+        if (!project) {
+            return NextResponse.json(
+                { error: "Project not found or insufficient permissions" },
+                { status: 404 }
+            );
+        }
+
+        if (!project.gitRepo) {
+            return NextResponse.json(
+                { error: "No GitHub repository connected" },
+                { status: 404 }
+            );
+        }
+
+        if (!supportsWebhooks(project.gitRepo.provider)) {
+            return NextResponse.json(
+                { error: "Webhooks are not supported for this provider; polling keeps the repository in sync" },
+                { status: 400 }
+            );
+        }
+
+        const secret = generateWebhookSecret();
+
+        await prisma.gitRepository.update({
+            where: { id: project.gitRepo.id },
+            data: { webhookSecret: encrypt(secret) },
+        });
+
+        return NextResponse.json({
+            enabled: true,
+            url: getWebhookUrl(request, project.gitRepo.id),
+            secret,
+            events: ["push", "pull_request", "pull_request_review", "create", "delete"],
+        });
+    } catch (error) {
+        console.error("Error enabling webhook:", error);
+        return NextResponse.json(
+            { error: "Failed to enable webhook" },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE /api/projects/[id]/github/webhook - Disable the webhook and fall back to polling
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: "Unauthorized" },
+                { status: 401 }
+            );
+        }
+
+        const project = await findProjectRepository(params.id, session.user.id, true);
+
+        if (!project?.gitRepo) {
+            return NextResponse.json(
+                { error: "Project not found or insufficient permissions" },
+                { status: 404 }
+            );
+        }
+
+        await prisma.gitRepository.update({
+            where: { id: project.gitRepo.id },
+            data: { webhookSecret: null, lastWebhookAt: null },
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Error disabling webhook:", error);
+        return NextResponse.json(
+            { error: "Failed to disable webhook" },
+            { status: 500 }
+        );
+    }
+}
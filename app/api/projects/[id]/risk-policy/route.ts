@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import {
+    DEFAULT_RISK_POLICY,
+    getProjectRiskPolicy,
+    resetProjectRiskPolicy,
+    riskPolicySchema,
+    updateProjectRiskPolicy,
+} from '@/lib/risk-policy';
+
+/**
+ * Load a project with the current user's team membership
+ */
+async function getProjectWithMembership(projectId: string, userId: string) {
+    return prisma.project.findUnique({
+        where: { id: projectId },
+        include: {
+            team: {
+                include: {
+                    members: {
+                        where: { userId },
+                    },
+                },
+            },
+        },
+    });
+}
+
+type ProjectWithMembership = NonNullable<Awaited<ReturnType<typeof getProjectWithMembership>>>;
+
+function hasWriteAccess(project: ProjectWithMembership, userId: string): boolean {
+    if (!project.teamId) {
+        return project.createdById === userId;
+    }
+    const member = project.team?.members[0];
+    return member ? member.role === 'OWNER' || member.role === 'EDITOR' : false;
+}
+
+/**
+ * GET /api/projects/[id]/risk-policy
+ * Get the risk policy for a project along with the defaults
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const project = await getProjectWithMembership(params.id, session.user.id);
+
+        if (!project) {
+            return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+        }
+
+        const hasAccess = !project.teamId
+            ? project.createdById === session.user.id
+            : project.team?.members && project.team.members.length > 0;
+
+        if (!hasAccess) {
+            return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+        }
+
+        const policy = await getProjectRiskPolicy(params.id);
+
+        return NextResponse.json({
+            policy,
+            defaults: DEFAULT_RISK_POLICY,
+            canEdit: hasWriteAccess(project, session.user.id),
+        });
+    } catch (error) {
+        console.error('Error fetching risk policy:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch risk policy' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/projects/[id]/risk-policy
+ * Replace the risk policy for a project
+ */
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const project = await getProjectWithMembership(params.id, session.user.id);
+
+        if (!project) {
+            return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+        }
+
+        if (!hasWriteAccess(project, session.user.id)) {
+            return NextResponse.json(
+                { error: 'Insufficient permissions' },
+                { status: 403 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = riskPolicySchema.parse(body);
+
+        const policy = await updateProjectRiskPolicy(params.id, validatedData);
+
+        return NextResponse.json({ policy });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid request data', details: error.issues },
+                { status: 400 }
+            );
+        }
+
+        console.error('Error updating risk policy:', error);
+        return NextResponse.json(
+            { error: 'Failed to update risk policy' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/projects/[id]/risk-policy
+ * Reset a project's risk policy to the defaults
+ */
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const project = await getProjectWithMembership(params.id, session.user.id);
+
+        if (!project) {
+            return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+        }
+
+        if (!hasWriteAccess(project, session.user.id)) {
+            return NextResponse.json(
+                { error: 'Insufficient permissions' },
+                { status: 403 }
+            );
+        }
+
+        await resetProjectRiskPolicy(params.id);
+
+        return NextResponse.json({ policy: DEFAULT_RISK_POLICY });
+    } catch (error) {
+        console.error('Error resetting risk policy:', error);
+        return NextResponse.json(
+            { error: 'Failed to reset risk policy' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { captureProjectRiskSnapshots, getRiskTrend } from '@/lib/risk-snapshots';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * GET /api/projects/[id]/risks/trend
+ * Get the risk-score time series for a project's components
+ * Query params: componentId (optional Component ID), days (default 90)
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const projectId = params.id;
+
+        // Verify project exists and user has access
+        const project = await prisma.project.findUnique({
+            where: { id: projectId },
+            select: {
+                id: true,
+                createdById: true,
+                teamId: true,
+                team: {
+                    include: {
+                        members: {
+                            where: {
+                                userId: session.user.id,
+                            },
+                        },
+                    },
+                },
+            },
+        });
+
+        if (!project) {
+            return NextResponse.json(
+                { error: 'Project not found' },
+                { status: 404 }
+            );
+        }
+
+        // Check access
+        const hasAccess =
+            project.createdById === session.user.id ||
+            (project.team && project.team.members.length > 0);
+
+        if (!hasAccess) {
+            return NextResponse.json(
+                { error: 'Access denied' },
+                { status: 403 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const componentId = searchParams.get('componentId') || undefined;
+        const days = Math.min(Math.max(parseInt(searchParams.get('days') || '90', 10) || 90, 1), 365);
+
+        const trend = await getRiskTrend(projectId, { componentId, days });
+
+        return NextResponse.json(trend);
+    } catch (error) {
+        console.error('Error fetching risk trend:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch risk trend' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/projects/[id]/risks/trend
+ * Capture a risk snapshot for all components right now
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const projectId = params.id;
+
+        const project = await prisma.project.findUnique({
+            where: { id: projectId },
+            include: {
+                team: {
+                    include: {
+                        members: {
+                            where: { userId: session.user.id },
+                        },
+                    },
+                },
+            },
+        });
+
+        if (!project) {
+            return NextResponse.json(
+                { error: 'Project not found' },
+                { status: 404 }
+            );
+        }
+
+        // Check write access
+        let hasWriteAccess = false;
+        if (!project.teamId) {
+            hasWriteAccess = project.createdById === session.user.id;
+        } else {
+            const member = project.team?.members[0];
+            hasWriteAccess = member ? member.role === 'OWNER' || member.role === 'EDITOR' : false;
+        }
+
+        if (!hasWriteAccess) {
+            return NextResponse.json(
+                { error: 'Insufficient permissions' },
+                { status: 403 }
+            );
+        }
+
+        const captured = await captureProjectRiskSnapshots(projectId);
+
+        return NextResponse.json({ captured }, { status: 201 });
+    } catch (error) {
+        console.error('Error capturing risk snapshot:', error);
+        return NextResponse.json(
+            { error: 'Failed to capture risk snapshot' },
+            { status: 500 }
+        );
+    }
+}
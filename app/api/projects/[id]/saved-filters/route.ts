@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { createSavedFilter, getSavedFilters, savedFilterSchema } from '@/lib/saved-filters';
+
+/**
+ * Load a project with the current user's team membership
+ */
+async function getProjectWithMembership(projectId: string, userId: string) {
+    return prisma.project.findUnique({
+        where: { id: projectId },
+        include: {
+            team: {
+                include: {
+                    members: {
+                        where: { userId },
+                    },
+                },
+            },
+        },
+    });
+}
+
+type ProjectWithMembership = NonNullable<Awaited<ReturnType<typeof getProjectWithMembership>>>;
+
+function hasReadAccess(project: ProjectWithMembership, userId: string): boolean {
+    return !project.teamId
+        ? project.createdById === userId
+        : !!project.team?.members && project.team.members.length > 0;
+}
+
+function hasWriteAccess(project: ProjectWithMembership, userId: string): boolean {
+    if (!project.teamId) {
+        return project.createdById === userId;
+    }
+    const member = project.team?.members[0];
+    return member ? member.role === 'OWNER' || member.role === 'EDITOR' : false;
+}
+
+/**
+ * GET /api/projects/[id]/saved-filters
+ * List the current user's saved filters of a project and the shared ones
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const project = await getProjectWithMembership(params.id, session.user.id);
+
+        if (!project) {
+            return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+        }
+
+        if (!hasReadAccess(project, session.user.id)) {
+            return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+        }
+
+        const filters = await getSavedFilters(params.id, session.user.id);
+        const canShare = hasWriteAccess(project, session.user.id);
+
+        return NextResponse.json({
+            // Shared filters are managed by everyone who can share them, private ones by their creator
+            filters: filters.map((filter) => ({
+                ...filter,
+                canManage: filter.shared ? canShare : filter.userId === session.user.id,
+            })),
+            canShare,
+        });
+    } catch (error) {
+        console.error('Error fetching saved filters:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch saved filters' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/projects/[id]/saved-filters
+ * Save a filter for the current user, or for the project when shared
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const project = await getProjectWithMembership(params.id, session.user.id);
+
+        if (!project) {
+            return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+        }
+
+        if (!hasReadAccess(project, session.user.id)) {
+            return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+        }
+
+        const body = await request.json();
+        const validatedData = savedFilterSchema.parse(body);
+
+        if (validatedData.shared && !hasWriteAccess(project, session.user.id)) {
+            return NextResponse.json(
+                { error: 'Insufficient permissions to share filters with the project' },
+                { status: 403 }
+            );
+        }
+
+        const filter = await createSavedFilter(params.id, session.user.id, validatedData);
+        return NextResponse.json(filter, { status: 201 });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid request data', details: error.issues },
+                { status: 400 }
+            );
+        }
+
+        console.error('Error creating saved filter:', error);
+        return NextResponse.json(
+            { error: 'Failed to create saved filter' },
+            { status: 500 }
+        );
+    }
+}
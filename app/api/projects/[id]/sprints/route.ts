@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { getProjectWorkflow } from '@/lib/task-workflow';
+import { createSprint, getProjectSprints, sprintSchema, SprintValidationError } from '@/lib/sprints';
+
+/**
+ * Load a project with the current user's team membership
+ */
+async function getProjectWithMembership(projectId: string, userId: string) {
+    return prisma.project.findUnique({
+        where: { id: projectId },
+        include: {
+            team: {
+                include: {
+                    members: {
+                        where: { userId },
+                    },
+                },
+            },
+        },
+    });
+}
+
+type ProjectWithMembership = NonNullable<Awaited<ReturnType<typeof getProjectWithMembership>>>;
+
+function hasWriteAccess(project: ProjectWithMembership, userId: string): boolean {
+    if (!project.teamId) {
+        return project.createdById === userId;
+    }
+    const member = project.team?.members[0];
+    return member ? member.role === 'OWNER' || member.role === 'EDITOR' : false;
+}
+
+/**
+ * GET /api/projects/[id]/sprints
+ * List a project's sprints, newest first, with task and point totals
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const project = await getProjectWithMembership(params.id, session.user.id);
+
+        if (!project) {
+            return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+        }
+
+        const hasAccess = !project.teamId
+            ? project.createdById === session.user.id
+            : project.team?.members && project.team.members.length > 0;
+
+        if (!hasAccess) {
+            return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+        }
+
+        const workflow = await getProjectWorkflow(params.id);
+        const sprints = await getProjectSprints(params.id, workflow);
+
+        return NextResponse.json({
+            sprints,
+            canEdit: hasWriteAccess(project, session.user.id),
+        });
+    } catch (error) {
+        console.error('Error fetching sprints:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch sprints' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/projects/[id]/sprints
+ * Plan a new sprint
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const project = await getProjectWithMembership(params.id, session.user.id);
+
+        if (!project) {
+            return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+        }
+
+        if (!hasWriteAccess(project, session.user.id)) {
+            return NextResponse.json(
+                { error: 'Insufficient permissions' },
+                { status: 403 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = sprintSchema.parse(body);
+
+        try {
+            const sprint = await createSprint(params.id, validatedData);
+            return NextResponse.json(sprint, { status: 201 });
+        } catch (error) {
+            if (error instanceof SprintValidationError) {
+                return NextResponse.json({ error: error.message }, { status: 400 });
+            }
+            throw error;
+        }
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid request data', details: error.issues },
+                { status: 400 }
+            );
+        }
+
+        console.error('Error creating sprint:', error);
+        return NextResponse.json(
+            { error: 'Failed to create sprint' },
+            { status: 500 }
+        );
+    }
+}
@@ -142,11 +142,26 @@ async function gatherSystemContext(projectId: string, context?: { componentId?:
         },
     });
 
+    // Fetch dependencies and data flows between components
+    const relationships = canvas
+        ? await prisma.componentRelationship.findMany({
+            where: { source: { canvasId: canvas.id } },
+            select: {
+                kind: true,
+                protocol: true,
+                label: true,
+                source: { select: { name: true } },
+                target: { select: { name: true } },
+            },
+        })
+        : [];
+
     return {
         project,
         components,
         decisions,
         componentDecisions,
+        relationships,
         context,
     };
 }
@@ -202,7 +217,7 @@ async function processIntent(intent: Intent, systemContext: any): Promise<string
 
 // Build prompt based on intent
 function buildIntentPrompt(intent: Intent, systemContext: any): string {
-    const { project, components, decisions } = systemContext;
+    const { project, components, decisions, relationships } = systemContext;
 
     const componentsSummary = components.length > 0
         ? `Components (${components.length}):\n${components.map((c: any) =>
@@ -210,6 +225,12 @@ function buildIntentPrompt(intent: Intent, systemContext: any): string {
         ).join('\n')}`
         : "No components defined yet.";
 
+    const relationshipsSummary = relationships.length > 0
+        ? `Relationships (${relationships.length}):\n${relationships.map((r: any) =>
+            `- ${r.source.name} -> ${r.target.name} (${r.kind === 'DATAFLOW' ? 'data flow' : 'dependency'}${r.protocol ? `, ${r.protocol}` : ''})${r.label ? `: ${r.label}` : ''}`
+        ).join('\n')}`
+        : "No relationships between components defined yet.";
+
     const decisionsSummary = decisions.length > 0
         ? `Decision Records (${decisions.length}):\n${decisions.map((d: any) =>
             `- ${d.title} (${d.status})\n  Decision: ${d.decision.substring(0, 150)}${d.decision.length > 150 ? '...' : ''}`
@@ -221,6 +242,8 @@ ${project.description ? `Description: ${project.description}` : ''}
 
 ${componentsSummary}
 
+${relationshipsSummary}
+
 ${decisionsSummary}`;
 
     switch (intent) {
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { getTaskFields, taskFieldsSchema, updateTaskFields } from '@/lib/task-fields';
+import { TaskValidationError } from '@/lib/task-errors';
+
+/**
+ * Load a project with the current user's team membership
+ */
+async function getProjectWithMembership(projectId: string, userId: string) {
+    return prisma.project.findUnique({
+        where: { id: projectId },
+        include: {
+            team: {
+                include: {
+                    members: {
+                        where: { userId },
+                    },
+                },
+            },
+        },
+    });
+}
+
+type ProjectWithMembership = NonNullable<Awaited<ReturnType<typeof getProjectWithMembership>>>;
+
+function hasWriteAccess(project: ProjectWithMembership, userId: string): boolean {
+    if (!project.teamId) {
+        return project.createdById === userId;
+    }
+    const member = project.team?.members[0];
+    return member ? member.role === 'OWNER' || member.role === 'EDITOR' : false;
+}
+
+/**
+ * GET /api/projects/[id]/task-fields
+ * Get the labels and custom fields of a project
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const project = await getProjectWithMembership(params.id, session.user.id);
+
+        if (!project) {
+            return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+        }
+
+        const hasAccess = !project.teamId
+            ? project.createdById === session.user.id
+            : project.team?.members && project.team.members.length > 0;
+
+        if (!hasAccess) {
+            return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+        }
+
+        const fields = await getTaskFields(params.id);
+
+        return NextResponse.json({
+            ...fields,
+            canEdit: hasWriteAccess(project, session.user.id),
+        });
+    } catch (error) {
+        console.error('Error fetching task fields:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch task fields' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/projects/[id]/task-fields
+ * Replace the labels and custom fields of a project; removed ones are taken off every task
+ */
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const project = await getProjectWithMembership(params.id, session.user.id);
+
+        if (!project) {
+            return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+        }
+
+        if (!hasWriteAccess(project, session.user.id)) {
+            return NextResponse.json(
+                { error: 'Insufficient permissions' },
+                { status: 403 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = taskFieldsSchema.parse(body);
+
+        try {
+            const fields = await updateTaskFields(params.id, validatedData);
+            return NextResponse.json(fields);
+        } catch (error) {
+            if (error instanceof TaskValidationError) {
+                return NextResponse.json({ error: error.message }, { status: 400 });
+            }
+            throw error;
+        }
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid request data', details: error.issues },
+                { status: 400 }
+            );
+        }
+
+        console.error('Error updating task fields:', error);
+        return NextResponse.json(
+            { error: 'Failed to update task fields' },
+            { status: 500 }
+        );
+    }
+}
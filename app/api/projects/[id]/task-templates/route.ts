@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { createTaskTemplate, getProjectTaskTemplates, taskTemplateSchema } from '@/lib/task-templates';
+import { TaskValidationError } from '@/lib/task-errors';
+
+/**
+ * Load a project with the current user's team membership
+ */
+async function getProjectWithMembership(projectId: string, userId: string) {
+    return prisma.project.findUnique({
+        where: { id: projectId },
+        include: {
+            team: {
+                include: {
+                    members: {
+                        where: { userId },
+                    },
+                },
+            },
+        },
+    });
+}
+
+type ProjectWithMembership = NonNullable<Awaited<ReturnType<typeof getProjectWithMembership>>>;
+
+function hasWriteAccess(project: ProjectWithMembership, userId: string): boolean {
+    if (!project.teamId) {
+        return project.createdById === userId;
+    }
+    const member = project.team?.members[0];
+    return member ? member.role === 'OWNER' || member.role === 'EDITOR' : false;
+}
+
+/**
+ * GET /api/projects/[id]/task-templates
+ * List a project's task templates with their recurrence schedules
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const project = await getProjectWithMembership(params.id, session.user.id);
+
+        if (!project) {
+            return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+        }
+
+        const hasAccess = !project.teamId
+            ? project.createdById === session.user.id
+            : project.team?.members && project.team.members.length > 0;
+
+        if (!hasAccess) {
+            return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+        }
+
+        const templates = await getProjectTaskTemplates(params.id);
+
+        return NextResponse.json({
+            templates,
+            canEdit: hasWriteAccess(project, session.user.id),
+        });
+    } catch (error) {
+        console.error('Error fetching task templates:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch task templates' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/projects/[id]/task-templates
+ * Create a task template, scheduling its first run when it recurs
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const project = await getProjectWithMembership(params.id, session.user.id);
+
+        if (!project) {
+            return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+        }
+
+        if (!hasWriteAccess(project, session.user.id)) {
+            return NextResponse.json(
+                { error: 'Insufficient permissions' },
+                { status: 403 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = taskTemplateSchema.parse(body);
+
+        try {
+            const template = await createTaskTemplate(params.id, session.user.id, validatedData);
+            return NextResponse.json(template, { status: 201 });
+        } catch (error) {
+            if (error instanceof TaskValidationError) {
+                return NextResponse.json({ error: error.message }, { status: 400 });
+            }
+            throw error;
+        }
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid request data', details: error.issues },
+                { status: 400 }
+            );
+        }
+
+        console.error('Error creating task template:', error);
+        return NextResponse.json(
+            { error: 'Failed to create task template' },
+            { status: 500 }
+        );
+    }
+}
@@ -3,17 +3,26 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
+import { BOARD_TASK_INCLUDE, createProjectTask } from "@/lib/task-creation";
+import { getTaskTemplate, templateTaskInput } from "@/lib/task-templates";
+import { TaskValidationError } from "@/lib/task-errors";
+import { SprintValidationError } from "@/lib/sprints";
+import { parseTaskQuery, taskQueryWhere } from "@/lib/task-query";
 
 const createTaskSchema = z.object({
-    title: z.string().min(1, "Title is required"),
+    title: z.string().min(1, "Title is required").optional(), // Only optional with a template
     description: z.string().optional(),
-    priority: z.enum(["LOW", "MEDIUM", "HIGH"]).default("MEDIUM"),
-    status: z.enum(["TODO", "IN_PROGRESS", "UNDER_REVIEW", "DONE"]).default("TODO"),
+    priority: z.enum(["LOW", "MEDIUM", "HIGH"]).optional(), // Defaults to the template's, or MEDIUM
+    status: z.string().optional(), // Workflow column key, defaults to the initial column
     assigneeId: z.string().optional(),
     dueDate: z.string().optional(),
-});
+    parentId: z.string().optional(), // Creates the task as the last subtask of this task
+    sprintId: z.string().optional(), // Plans the task into an open sprint instead of the backlog
+    storyPoints: z.number().int().min(0).max(100).optional(),
+    templateId: z.string().optional(), // Creates the task from a template of the project
+}).refine((data) => data.title || data.templateId, { message: "Title is required", path: ["title"] });
 
-// GET /api/projects/[id]/tasks - List all tasks for a project
+// GET /api/projects/[id]/tasks - List the tasks of a project, filtered by the TaskQuery in the search params
 export async function GET(
     req: NextRequest,
     { params }: { params: { id: string } }
@@ -66,31 +75,23 @@ export async function GET(
             }
         }
 
-        // Fetch all tasks for the project
+        const query = parseTaskQuery(req.nextUrl.searchParams);
+
         const tasks = await prisma.task.findMany({
-            where: { projectId },
-            include: {
-                assignee: {
-                    select: {
-                        id: true,
-                        name: true,
-                        email: true,
-                        image: true,
-                    },
-                },
-                createdBy: {
-                    select: {
-                        id: true,
-                        name: true,
-                        email: true,
-                    },
-                },
-            },
+            where: { projectId, ...taskQueryWhere(query) },
+            include: BOARD_TASK_INCLUDE,
             orderBy: [{ status: "asc" }, { position: "asc" }, { createdAt: "desc" }],
         });
 
         return NextResponse.json(tasks);
     } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: "Validation error", details: error.issues },
+                { status: 400 }
+            );
+        }
+
         console.error("Error fetching tasks:", error);
         return NextResponse.json(
             { error: "Failed to fetch tasks" },
@@ -160,62 +161,27 @@ export async function POST(
         const body = await req.json();
         const validatedData = createTaskSchema.parse(body);
 
-        // Get the highest position for the status
-        const lastTask = await prisma.task.findFirst({
-            where: {
-                projectId,
-                status: validatedData.status,
-            },
-            orderBy: { position: "desc" },
-        });
-
-        const position = lastTask ? lastTask.position + 1 : 0;
-
-        // Create the task
-        const task = await prisma.task.create({
-            data: {
-                title: validatedData.title,
-                description: validatedData.description,
-                priority: validatedData.priority,
-                status: validatedData.status,
-                position,
-                projectId,
-                assigneeId: validatedData.assigneeId,
-                dueDate: validatedData.dueDate ? new Date(validatedData.dueDate) : null,
-                createdById: user.id,
-            },
-            include: {
-                assignee: {
-                    select: {
-                        id: true,
-                        name: true,
-                        email: true,
-                        image: true,
-                    },
-                },
-                createdBy: {
-                    select: {
-                        id: true,
-                        name: true,
-                        email: true,
-                    },
-                },
-            },
-        });
+        // A template supplies defaults for whatever the request leaves out, and its checklist
+        const template = validatedData.templateId ? await getTaskTemplate(validatedData.templateId) : null;
+        if (validatedData.templateId && template?.projectId !== projectId) {
+            return NextResponse.json({ error: "Template not found in this project" }, { status: 400 });
+        }
 
-        // Log activity
-        await prisma.activity.create({
-            data: {
+        let task;
+        try {
+            task = await createProjectTask(
                 projectId,
-                type: "TASK_CREATED",
-                data: {
-                    taskId: task.id,
-                    taskTitle: task.title,
-                    userId: user.id,
-                    userName: user.name || user.email,
-                },
-            },
-        });
+                user,
+                template
+                    ? { ...templateTaskInput(template), ...validatedData }
+                    : { ...validatedData, title: validatedData.title! }
+            );
+        } catch (error) {
+            if (error instanceof TaskValidationError || error instanceof SprintValidationError) {
+                return NextResponse.json({ error: error.message }, { status: 400 });
+            }
+            throw error;
+        }
 
         return NextResponse.json(task, { status: 201 });
     } catch (error) {
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import {
+    DEFAULT_WORKFLOW,
+    getProjectWorkflow,
+    updateProjectWorkflow,
+    workflowSchema,
+} from '@/lib/task-workflow';
+
+/**
+ * Load a project with the current user's team membership
+ */
+async function getProjectWithMembership(projectId: string, userId: string) {
+    return prisma.project.findUnique({
+        where: { id: projectId },
+        include: {
+            team: {
+                include: {
+                    members: {
+                        where: { userId },
+                    },
+                },
+            },
+        },
+    });
+}
+
+type ProjectWithMembership = NonNullable<Awaited<ReturnType<typeof getProjectWithMembership>>>;
+
+function hasWriteAccess(project: ProjectWithMembership, userId: string): boolean {
+    if (!project.teamId) {
+        return project.createdById === userId;
+    }
+    const member = project.team?.members[0];
+    return member ? member.role === 'OWNER' || member.role === 'EDITOR' : false;
+}
+
+/**
+ * GET /api/projects/[id]/workflow
+ * Get the kanban columns of a project along with the defaults
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const project = await getProjectWithMembership(params.id, session.user.id);
+
+        if (!project) {
+            return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+        }
+
+        const hasAccess = !project.teamId
+            ? project.createdById === session.user.id
+            : project.team?.members && project.team.members.length > 0;
+
+        if (!hasAccess) {
+            return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+        }
+
+        const columns = await getProjectWorkflow(params.id);
+
+        return NextResponse.json({
+            columns,
+            defaults: DEFAULT_WORKFLOW,
+            canEdit: hasWriteAccess(project, session.user.id),
+        });
+    } catch (error) {
+        console.error('Error fetching workflow:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch workflow' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/projects/[id]/workflow
+ * Replace the kanban columns of a project; tasks in removed columns are moved
+ */
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const project = await getProjectWithMembership(params.id, session.user.id);
+
+        if (!project) {
+            return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+        }
+
+        if (!hasWriteAccess(project, session.user.id)) {
+            return NextResponse.json(
+                { error: 'Insufficient permissions' },
+                { status: 403 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = workflowSchema.parse(body);
+
+        const columns = await updateProjectWorkflow(params.id, validatedData, session.user.id);
+
+        return NextResponse.json({ columns });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid request data', details: error.issues },
+                { status: 400 }
+            );
+        }
+
+        console.error('Error updating workflow:', error);
+        return NextResponse.json(
+            { error: 'Failed to update workflow' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { savedFilterSchema, updateSavedFilter } from '@/lib/saved-filters';
+
+/**
+ * Load a saved filter with the current user's membership of its project's team
+ */
+async function getFilterWithMembership(filterId: string, userId: string) {
+    return prisma.savedTaskFilter.findUnique({
+        where: { id: filterId },
+        include: {
+            project: {
+                include: {
+                    team: {
+                        include: {
+                            members: {
+                                where: { userId },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    });
+}
+
+type FilterWithMembership = NonNullable<Awaited<ReturnType<typeof getFilterWithMembership>>>;
+
+function hasWriteAccess(filter: FilterWithMembership, userId: string): boolean {
+    const { project } = filter;
+    if (!project.teamId) {
+        return project.createdById === userId;
+    }
+    const member = project.team?.members[0];
+    return member ? member.role === 'OWNER' || member.role === 'EDITOR' : false;
+}
+
+/**
+ * Private filters belong to their creator; shared ones to everyone who can edit the project
+ */
+function canManage(filter: FilterWithMembership, userId: string): boolean {
+    return filter.shared ? hasWriteAccess(filter, userId) : filter.userId === userId;
+}
+
+/**
+ * PUT /api/saved-filters/[id]
+ * Replace a saved filter's name, query and layout
+ */
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const filter = await getFilterWithMembership(params.id, session.user.id);
+
+        if (!filter || (!filter.shared && filter.userId !== session.user.id)) {
+            return NextResponse.json({ error: 'Saved filter not found' }, { status: 404 });
+        }
+
+        const body = await request.json();
+        const validatedData = savedFilterSchema.parse(body);
+
+        if (!canManage(filter, session.user.id) || (validatedData.shared && !hasWriteAccess(filter, session.user.id))) {
+            return NextResponse.json(
+                { error: 'Insufficient permissions' },
+                { status: 403 }
+            );
+        }
+
+        const updated = await updateSavedFilter(params.id, validatedData);
+        return NextResponse.json(updated);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid request data', details: error.issues },
+                { status: 400 }
+            );
+        }
+
+        console.error('Error updating saved filter:', error);
+        return NextResponse.json(
+            { error: 'Failed to update saved filter' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/saved-filters/[id]
+ * Delete a saved filter
+ */
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const filter = await getFilterWithMembership(params.id, session.user.id);
+
+        if (!filter || (!filter.shared && filter.userId !== session.user.id)) {
+            return NextResponse.json({ error: 'Saved filter not found' }, { status: 404 });
+        }
+
+        if (!canManage(filter, session.user.id)) {
+            return NextResponse.json(
+                { error: 'Insufficient permissions' },
+                { status: 403 }
+            );
+        }
+
+        await prisma.savedTaskFilter.delete({
+            where: { id: params.id },
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error deleting saved filter:', error);
+        return NextResponse.json(
+            { error: 'Failed to delete saved filter' },
+            { status: 500 }
+        );
+    }
+}
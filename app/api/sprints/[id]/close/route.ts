@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { getProjectWorkflow } from '@/lib/task-workflow';
+import { closeSprint, SprintValidationError } from '@/lib/sprints';
+
+const closeSprintSchema = z.object({
+    carryOverSprintId: z.string().nullable().optional(), // Omitted or null moves unfinished tasks to the backlog
+});
+
+/**
+ * POST /api/sprints/[id]/close
+ * Close the active sprint and carry over its unfinished tasks
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const sprint = await prisma.sprint.findUnique({
+            where: { id: params.id },
+            include: {
+                project: {
+                    include: {
+                        team: {
+                            include: {
+                                members: {
+                                    where: { userId: session.user.id },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        });
+
+        if (!sprint) {
+            return NextResponse.json({ error: 'Sprint not found' }, { status: 404 });
+        }
+
+        const { project } = sprint;
+        const member = project.team?.members[0];
+        const canEdit = !project.teamId
+            ? project.createdById === session.user.id
+            : !!member && (member.role === 'OWNER' || member.role === 'EDITOR');
+
+        if (!canEdit) {
+            return NextResponse.json(
+                { error: 'Insufficient permissions' },
+                { status: 403 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = closeSprintSchema.parse(body);
+
+        const workflow = await getProjectWorkflow(sprint.projectId);
+
+        try {
+            const result = await closeSprint(params.id, validatedData.carryOverSprintId ?? null, workflow);
+            return NextResponse.json(result);
+        } catch (error) {
+            if (error instanceof SprintValidationError) {
+                return NextResponse.json({ error: error.message }, { status: 400 });
+            }
+            throw error;
+        }
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid request data', details: error.issues },
+                { status: 400 }
+            );
+        }
+
+        console.error('Error closing sprint:', error);
+        return NextResponse.json(
+            { error: 'Failed to close sprint' },
+            { status: 500 }
+        );
+    }
+}
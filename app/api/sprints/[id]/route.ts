@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { SprintValidationError, sprintUpdateSchema, updateSprint } from '@/lib/sprints';
+
+/**
+ * Load a sprint with the current user's membership of its project's team
+ */
+async function getSprintWithMembership(sprintId: string, userId: string) {
+    return prisma.sprint.findUnique({
+        where: { id: sprintId },
+        include: {
+            project: {
+                include: {
+                    team: {
+                        include: {
+                            members: {
+                                where: { userId },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    });
+}
+
+type SprintWithMembership = NonNullable<Awaited<ReturnType<typeof getSprintWithMembership>>>;
+
+function hasWriteAccess(sprint: SprintWithMembership, userId: string): boolean {
+    const { project } = sprint;
+    if (!project.teamId) {
+        return project.createdById === userId;
+    }
+    const member = project.team?.members[0];
+    return member ? member.role === 'OWNER' || member.role === 'EDITOR' : false;
+}
+
+/**
+ * PATCH /api/sprints/[id]
+ * Update a sprint's name, goal or dates, or start it with status ACTIVE
+ */
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const sprint = await getSprintWithMembership(params.id, session.user.id);
+
+        if (!sprint) {
+            return NextResponse.json({ error: 'Sprint not found' }, { status: 404 });
+        }
+
+        if (!hasWriteAccess(sprint, session.user.id)) {
+            return NextResponse.json(
+                { error: 'Insufficient permissions' },
+                { status: 403 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = sprintUpdateSchema.parse(body);
+
+        try {
+            const updated = await updateSprint(params.id, validatedData);
+            return NextResponse.json(updated);
+        } catch (error) {
+            if (error instanceof SprintValidationError) {
+                return NextResponse.json({ error: error.message }, { status: 400 });
+            }
+            throw error;
+        }
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid request data', details: error.issues },
+                { status: 400 }
+            );
+        }
+
+        console.error('Error updating sprint:', error);
+        return NextResponse.json(
+            { error: 'Failed to update sprint' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/sprints/[id]
+ * Delete a sprint; its tasks go back to the backlog
+ */
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const sprint = await getSprintWithMembership(params.id, session.user.id);
+
+        if (!sprint) {
+            return NextResponse.json({ error: 'Sprint not found' }, { status: 404 });
+        }
+
+        if (!hasWriteAccess(sprint, session.user.id)) {
+            return NextResponse.json(
+                { error: 'Insufficient permissions' },
+                { status: 403 }
+            );
+        }
+
+        await prisma.sprint.delete({
+            where: { id: params.id },
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error deleting sprint:', error);
+        return NextResponse.json(
+            { error: 'Failed to delete sprint' },
+            { status: 500 }
+        );
+    }
+}
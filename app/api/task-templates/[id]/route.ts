@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { taskTemplateSchema, updateTaskTemplate } from '@/lib/task-templates';
+import { TaskValidationError } from '@/lib/task-errors';
+
+/**
+ * Load a template with the current user's membership of its project's team
+ */
+async function getTemplateWithMembership(templateId: string, userId: string) {
+    return prisma.taskTemplate.findUnique({
+        where: { id: templateId },
+        include: {
+            project: {
+                include: {
+                    team: {
+                        include: {
+                            members: {
+                                where: { userId },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    });
+}
+
+type TemplateWithMembership = NonNullable<Awaited<ReturnType<typeof getTemplateWithMembership>>>;
+
+function hasWriteAccess(template: TemplateWithMembership, userId: string): boolean {
+    const { project } = template;
+    if (!project.teamId) {
+        return project.createdById === userId;
+    }
+    const member = project.team?.members[0];
+    return member ? member.role === 'OWNER' || member.role === 'EDITOR' : false;
+}
+
+/**
+ * PUT /api/task-templates/[id]
+ * Replace a task template; a changed recurrence is rescheduled from now
+ */
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const template = await getTemplateWithMembership(params.id, session.user.id);
+
+        if (!template) {
+            return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+        }
+
+        if (!hasWriteAccess(template, session.user.id)) {
+            return NextResponse.json(
+                { error: 'Insufficient permissions' },
+                { status: 403 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = taskTemplateSchema.parse(body);
+
+        try {
+            const updated = await updateTaskTemplate(params.id, validatedData);
+            return NextResponse.json(updated);
+        } catch (error) {
+            if (error instanceof TaskValidationError) {
+                return NextResponse.json({ error: error.message }, { status: 400 });
+            }
+            throw error;
+        }
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid request data', details: error.issues },
+                { status: 400 }
+            );
+        }
+
+        console.error('Error updating task template:', error);
+        return NextResponse.json(
+            { error: 'Failed to update task template' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/task-templates/[id]
+ * Delete a task template; tasks created from it are kept
+ */
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const template = await getTemplateWithMembership(params.id, session.user.id);
+
+        if (!template) {
+            return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+        }
+
+        if (!hasWriteAccess(template, session.user.id)) {
+            return NextResponse.json(
+                { error: 'Insufficient permissions' },
+                { status: 403 }
+            );
+        }
+
+        await prisma.taskTemplate.delete({
+            where: { id: params.id },
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error deleting task template:', error);
+        return NextResponse.json(
+            { error: 'Failed to delete task template' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { removeChecklistItem, updateChecklistItem } from "@/lib/task-hierarchy";
+
+const updateChecklistItemSchema = z.object({
+    title: z.string().trim().min(1).max(200).optional(),
+    done: z.boolean().optional(),
+});
+
+// Editing a checklist counts as editing its task
+async function canEditTask(taskId: string, email: string): Promise<NextResponse | null> {
+    const task = await prisma.task.findUnique({
+        where: { id: taskId },
+        include: {
+            project: {
+                include: {
+                    team: {
+                        include: {
+                            members: {
+                                where: {
+                                    user: { email },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    });
+
+    if (!task) {
+        return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    if (task.project.team) {
+        const teamMember = task.project.team.members[0];
+        if (!teamMember || teamMember.role === "VIEWER") {
+            return NextResponse.json(
+                { error: "Insufficient permissions" },
+                { status: 403 }
+            );
+        }
+    }
+
+    return null;
+}
+
+// PATCH /api/tasks/[id]/checklist/[itemId] - Rename or check off a checklist item
+export async function PATCH(
+    req: NextRequest,
+    { params }: { params: { id: string; itemId: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user?.email) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const denied = await canEditTask(params.id, session.user.email);
+        if (denied) {
+            return denied;
+        }
+
+        const body = await req.json();
+        const validatedData = updateChecklistItemSchema.parse(body);
+
+        const item = await updateChecklistItem(params.id, params.itemId, validatedData);
+        if (!item) {
+            return NextResponse.json({ error: "Checklist item not found" }, { status: 404 });
+        }
+
+        return NextResponse.json(item);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: "Validation error", details: error.issues },
+                { status: 400 }
+            );
+        }
+        console.error("Error updating checklist item:", error);
+        return NextResponse.json(
+            { error: "Failed to update checklist item" },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE /api/tasks/[id]/checklist/[itemId] - Remove a checklist item
+export async function DELETE(
+    req: NextRequest,
+    { params }: { params: { id: string; itemId: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user?.email) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const denied = await canEditTask(params.id, session.user.email);
+        if (denied) {
+            return denied;
+        }
+
+        const removed = await removeChecklistItem(params.id, params.itemId);
+        if (!removed) {
+            return NextResponse.json({ error: "Checklist item not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Error removing checklist item:", error);
+        return NextResponse.json(
+            { error: "Failed to remove checklist item" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { addChecklistItem, getChecklist } from "@/lib/task-hierarchy";
+import { TaskValidationError } from "@/lib/task-errors";
+
+const addChecklistItemSchema = z.object({
+    title: z.string().trim().min(1, "Title is required").max(200),
+});
+
+async function getTaskWithMembership(taskId: string, email: string) {
+    return prisma.task.findUnique({
+        where: { id: taskId },
+        include: {
+            project: {
+                include: {
+                    team: {
+                        include: {
+                            members: {
+                                where: {
+                                    user: { email },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    });
+}
+
+// GET /api/tasks/[id]/checklist - Get the checklist items of a task
+export async function GET(
+    req: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user?.email) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const task = await getTaskWithMembership(params.id, session.user.email);
+        if (!task) {
+            return NextResponse.json({ error: "Task not found" }, { status: 404 });
+        }
+
+        const hasAccess = task.project.team
+            ? task.project.team.members.length > 0
+            : task.project.createdById === session.user.id;
+
+        if (!hasAccess) {
+            return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        const items = await getChecklist(task.id);
+
+        return NextResponse.json({ items });
+    } catch (error) {
+        console.error("Error fetching checklist:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch checklist" },
+            { status: 500 }
+        );
+    }
+}
+
+// POST /api/tasks/[id]/checklist - Add a checklist item to a task
+export async function POST(
+    req: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user?.email) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const task = await getTaskWithMembership(params.id, session.user.email);
+        if (!task) {
+            return NextResponse.json({ error: "Task not found" }, { status: 404 });
+        }
+
+        if (task.project.team) {
+            const teamMember = task.project.team.members[0];
+            if (!teamMember || teamMember.role === "VIEWER") {
+                return NextResponse.json(
+                    { error: "Insufficient permissions" },
+                    { status: 403 }
+                );
+            }
+        }
+
+        const body = await req.json();
+        const validatedData = addChecklistItemSchema.parse(body);
+
+        const item = await addChecklistItem(task.id, validatedData.title);
+
+        return NextResponse.json(item, { status: 201 });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: "Validation error", details: error.issues },
+                { status: 400 }
+            );
+        }
+        if (error instanceof TaskValidationError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Error adding checklist item:", error);
+        return NextResponse.json(
+            { error: "Failed to add checklist item" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+// GET /api/tasks/[id]/commits - Get the commits that referenced a task
+export async function GET(
+    req: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user?.email) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const task = await prisma.task.findUnique({
+            where: { id: params.id },
+            include: {
+                project: {
+                    include: {
+                        team: {
+                            include: {
+                                members: {
+                                    where: {
+                                        user: { email: session.user.email },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        });
+
+        if (!task) {
+            return NextResponse.json({ error: "Task not found" }, { status: 404 });
+        }
+
+        const hasAccess = task.project.team
+            ? task.project.team.members.length > 0
+            : task.project.createdById === session.user.id;
+
+        if (!hasAccess) {
+            return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        const taskCommits = await prisma.taskCommit.findMany({
+            where: { taskId: task.id },
+            include: { commit: true },
+        });
+
+        const commits = taskCommits
+            .map((tc) => ({
+                sha: tc.commit.sha,
+                message: tc.commit.message,
+                author: tc.commit.author,
+                committedAt: tc.commit.committedAt.toISOString(),
+                url: tc.commit.url,
+                closesTask: tc.closesTask,
+            }))
+            .sort((a, b) => b.committedAt.localeCompare(a.committedAt));
+
+        return NextResponse.json({ commits });
+    } catch (error) {
+        console.error("Error fetching task commits:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch task commits" },
+            { status: 500 }
+        );
+    }
+}
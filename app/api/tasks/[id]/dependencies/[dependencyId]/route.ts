@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { removeTaskDependency } from "@/lib/task-dependencies";
+
+// DELETE /api/tasks/[id]/dependencies/[dependencyId] - Remove a dependency link of a task
+export async function DELETE(
+    req: NextRequest,
+    { params }: { params: { id: string; dependencyId: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user?.email) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const dependency = await prisma.taskDependency.findUnique({
+            where: { id: params.dependencyId },
+        });
+
+        // The link must involve the task in the URL
+        if (!dependency || (dependency.blockingTaskId !== params.id && dependency.blockedTaskId !== params.id)) {
+            return NextResponse.json({ error: "Dependency not found" }, { status: 404 });
+        }
+
+        const task = await prisma.task.findUnique({
+            where: { id: params.id },
+            include: {
+                project: {
+                    include: {
+                        team: {
+                            include: {
+                                members: {
+                                    where: {
+                                        user: { email: session.user.email },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        });
+
+        if (!task) {
+            return NextResponse.json({ error: "Task not found" }, { status: 404 });
+        }
+
+        if (task.project.team) {
+            const teamMember = task.project.team.members[0];
+            if (!teamMember || teamMember.role === "VIEWER") {
+                return NextResponse.json(
+                    { error: "Insufficient permissions" },
+                    { status: 403 }
+                );
+            }
+        }
+
+        await removeTaskDependency(dependency.id);
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Error removing task dependency:", error);
+        return NextResponse.json(
+            { error: "Failed to remove task dependency" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { getProjectWorkflow } from "@/lib/task-workflow";
+import { addTaskDependency, getTaskDependencies } from "@/lib/task-dependencies";
+import { TaskValidationError } from "@/lib/task-errors";
+
+// Exactly one side is given; the task in the URL is the other side
+const addDependencySchema = z
+    .object({
+        blockingTaskId: z.string().min(1).optional(), // Task that blocks this one
+        blockedTaskId: z.string().min(1).optional(), // Task this one blocks
+    })
+    .refine((data) => !!data.blockingTaskId !== !!data.blockedTaskId, {
+        message: "Provide either blockingTaskId or blockedTaskId",
+    });
+
+async function getTaskWithMembership(taskId: string, email: string) {
+    return prisma.task.findUnique({
+        where: { id: taskId },
+        include: {
+            project: {
+                include: {
+                    team: {
+                        include: {
+                            members: {
+                                where: {
+                                    user: { email },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    });
+}
+
+// GET /api/tasks/[id]/dependencies - Get the tasks blocking and blocked by a task
+export async function GET(
+    req: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user?.email) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const task = await getTaskWithMembership(params.id, session.user.email);
+        if (!task) {
+            return NextResponse.json({ error: "Task not found" }, { status: 404 });
+        }
+
+        const hasAccess = task.project.team
+            ? task.project.team.members.length > 0
+            : task.project.createdById === session.user.id;
+
+        if (!hasAccess) {
+            return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        const workflow = await getProjectWorkflow(task.projectId);
+        const dependencies = await getTaskDependencies(task.id, workflow);
+
+        return NextResponse.json(dependencies);
+    } catch (error) {
+        console.error("Error fetching task dependencies:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch task dependencies" },
+            { status: 500 }
+        );
+    }
+}
+
+// POST /api/tasks/[id]/dependencies - Link a task that blocks or is blocked by this one
+export async function POST(
+    req: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user?.email) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const task = await getTaskWithMembership(params.id, session.user.email);
+        if (!task) {
+            return NextResponse.json({ error: "Task not found" }, { status: 404 });
+        }
+
+        // Same rule as editing the task itself
+        if (task.project.team) {
+            const teamMember = task.project.team.members[0];
+            if (!teamMember || teamMember.role === "VIEWER") {
+                return NextResponse.json(
+                    { error: "Insufficient permissions" },
+                    { status: 403 }
+                );
+            }
+        }
+
+        const body = await req.json();
+        const validatedData = addDependencySchema.parse(body);
+
+        const dependency = await addTaskDependency({
+            blockingTaskId: validatedData.blockingTaskId ?? task.id,
+            blockedTaskId: validatedData.blockedTaskId ?? task.id,
+            createdById: session.user.id,
+        });
+
+        return NextResponse.json(dependency, { status: 201 });
+    } catch (error: any) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: "Validation error", details: error.issues },
+                { status: 400 }
+            );
+        }
+        if (error?.code === "P2002") {
+            return NextResponse.json(
+                { error: "These tasks are already linked" },
+                { status: 409 }
+            );
+        }
+        if (error instanceof TaskValidationError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Error adding task dependency:", error);
+        return NextResponse.json(
+            { error: "Failed to add task dependency" },
+            { status: 500 }
+        );
+    }
+}
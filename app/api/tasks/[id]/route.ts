@@ -3,14 +3,29 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
+import { getProjectWorkflow, statusChangeData } from "@/lib/task-workflow";
+import { completesTask, getCompletionBlockers } from "@/lib/task-dependencies";
+import { prepareSubtaskOf } from "@/lib/task-hierarchy";
+import { TaskValidationError } from "@/lib/task-errors";
+import { prepareTaskLinks } from "@/lib/task-links";
+import { prepareTaskFieldValues } from "@/lib/task-fields";
+import { assertSprintOpen, SprintValidationError } from "@/lib/sprints";
+import { BOARD_TASK_INCLUDE } from "@/lib/task-creation";
 
 const updateTaskSchema = z.object({
     title: z.string().min(1).optional(),
     description: z.string().optional(),
     priority: z.enum(["LOW", "MEDIUM", "HIGH"]).optional(),
-    status: z.enum(["TODO", "IN_PROGRESS", "UNDER_REVIEW", "DONE"]).optional(),
+    status: z.string().optional(), // Workflow column key
     assigneeId: z.string().nullable().optional(),
     dueDate: z.string().nullable().optional(),
+    parentId: z.string().nullable().optional(), // null detaches the task from its parent
+    sprintId: z.string().nullable().optional(), // null moves the task to the backlog
+    storyPoints: z.number().int().min(0).max(100).nullable().optional(),
+    componentIds: z.array(z.string()).optional(), // Replaces the linked architecture components
+    decisionIds: z.array(z.string()).optional(), // Replaces the linked decision records
+    labelIds: z.array(z.string()).optional(), // Replaces the task's labels
+    customFields: z.record(z.string(), z.string().nullable()).optional(), // Values by field ID, null clears one
 });
 
 // PATCH /api/tasks/[id] - Update a task
@@ -64,54 +79,114 @@ export async function PATCH(
         const body = await req.json();
         const validatedData = updateTaskSchema.parse(body);
 
-        // If status is changing, update position
-        let position = task.position;
-        if (validatedData.status && validatedData.status !== task.status) {
-            const lastTask = await prisma.task.findFirst({
-                where: {
-                    projectId: task.projectId,
-                    status: validatedData.status,
-                },
-                orderBy: { position: "desc" },
-            });
-            position = lastTask ? lastTask.position + 1 : 0;
+        const workflow = await getProjectWorkflow(task.projectId);
+        if (validatedData.status && !workflow.some((column) => column.key === validatedData.status)) {
+            return NextResponse.json(
+                { error: `Unknown workflow column: ${validatedData.status}` },
+                { status: 400 }
+            );
+        }
+
+        // A new parent puts the task at the end of its subtasks; board moves below never touch that order
+        const parentChanged = validatedData.parentId !== undefined && validatedData.parentId !== task.parentId;
+        let subtaskPosition = task.subtaskPosition;
+        if (parentChanged && validatedData.parentId) {
+            try {
+                subtaskPosition = await prepareSubtaskOf(task.id, validatedData.parentId, task.projectId);
+            } catch (error) {
+                if (error instanceof TaskValidationError) {
+                    return NextResponse.json({ error: error.message }, { status: 400 });
+                }
+                throw error;
+            }
+        }
+
+        if (validatedData.sprintId && validatedData.sprintId !== task.sprintId) {
+            try {
+                await assertSprintOpen(validatedData.sprintId, task.projectId);
+            } catch (error) {
+                if (error instanceof SprintValidationError) {
+                    return NextResponse.json({ error: error.message }, { status: 400 });
+                }
+                throw error;
+            }
+        }
+
+        const statusChanged = !!validatedData.status && validatedData.status !== task.status;
+        const completing = statusChanged && completesTask(workflow, task.status, validatedData.status!);
+
+        // A task cannot be completed while tasks blocking it are still open
+        if (statusChanged) {
+            const blockers = await getCompletionBlockers(task, validatedData.status!, workflow);
+            if (blockers.length > 0) {
+                return NextResponse.json(
+                    { error: "Task is blocked by open tasks", blockers },
+                    { status: 409 }
+                );
+            }
+        }
+
+        // Links, labels and field values are validated here and written together with the task below
+        const relatedWrites = [];
+
+        if (validatedData.componentIds || validatedData.decisionIds) {
+            try {
+                relatedWrites.push(
+                    ...(await prepareTaskLinks(task.id, task.projectId, {
+                        componentIds: validatedData.componentIds,
+                        decisionIds: validatedData.decisionIds,
+                    }))
+                );
+            } catch (error) {
+                if (error instanceof TaskValidationError) {
+                    return NextResponse.json({ error: error.message }, { status: 400 });
+                }
+                throw error;
+            }
+        }
+
+        if (validatedData.labelIds || validatedData.customFields) {
+            try {
+                relatedWrites.push(
+                    ...(await prepareTaskFieldValues(task.id, task.projectId, {
+                        labelIds: validatedData.labelIds,
+                        customFields: validatedData.customFields,
+                    }))
+                );
+            } catch (error) {
+                if (error instanceof TaskValidationError) {
+                    return NextResponse.json({ error: error.message }, { status: 400 });
+                }
+                throw error;
+            }
         }
 
         // Update the task
-        const updatedTask = await prisma.task.update({
+        const taskUpdate = prisma.task.update({
             where: { id: taskId },
             data: {
                 title: validatedData.title,
                 description: validatedData.description,
                 priority: validatedData.priority,
-                status: validatedData.status,
-                position: validatedData.status ? position : undefined,
                 assigneeId: validatedData.assigneeId === null ? null : validatedData.assigneeId,
+                parentId: validatedData.parentId,
+                subtaskPosition: parentChanged ? subtaskPosition : undefined,
+                sprintId: validatedData.sprintId,
+                storyPoints: validatedData.storyPoints,
                 dueDate:
                     validatedData.dueDate === null
                         ? null
                         : validatedData.dueDate
                             ? new Date(validatedData.dueDate)
                             : undefined,
+                // Moves to the end of the new column, recording the transition
+                ...(statusChanged && (await statusChangeData(task, validatedData.status!, session.user.id))),
             },
-            include: {
-                assignee: {
-                    select: {
-                        id: true,
-                        name: true,
-                        email: true,
-                        image: true,
-                    },
-                },
-                createdBy: {
-                    select: {
-                        id: true,
-                        name: true,
-                        email: true,
-                    },
-                },
-            },
+            include: BOARD_TASK_INCLUDE,
         });
+        // The task update runs last so what it returns includes the new links and field values
+        const results = await prisma.$transaction([...relatedWrites, taskUpdate]);
+        const updatedTask = results[results.length - 1] as Awaited<typeof taskUpdate>;
 
         // Log activity
         await prisma.activity.create({
@@ -121,13 +196,17 @@ export async function PATCH(
                 data: {
                     taskId: updatedTask.id,
                     taskTitle: updatedTask.title,
+                    userId: session.user.id,
                     changes: validatedData,
+                    ...(statusChanged && {
+                        statusChange: { from: task.status, to: updatedTask.status },
+                    }),
                 },
             },
         });
 
         // Check if task is completed
-        if (validatedData.status === "DONE" && task.status !== "DONE") {
+        if (completing) {
             await prisma.activity.create({
                 data: {
                     projectId: task.projectId,
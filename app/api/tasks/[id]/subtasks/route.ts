@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { getSubtasks, reorderSubtasks } from "@/lib/task-hierarchy";
+import { TaskValidationError } from "@/lib/task-errors";
+
+const reorderSubtasksSchema = z.object({
+    order: z.array(z.string()), // Subtask IDs in their new order
+});
+
+async function getTaskWithMembership(taskId: string, email: string) {
+    return prisma.task.findUnique({
+        where: { id: taskId },
+        include: {
+            project: {
+                include: {
+                    team: {
+                        include: {
+                            members: {
+                                where: {
+                                    user: { email },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    });
+}
+
+// GET /api/tasks/[id]/subtasks - Get the subtasks of a task in order
+export async function GET(
+    req: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user?.email) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const task = await getTaskWithMembership(params.id, session.user.email);
+        if (!task) {
+            return NextResponse.json({ error: "Task not found" }, { status: 404 });
+        }
+
+        const hasAccess = task.project.team
+            ? task.project.team.members.length > 0
+            : task.project.createdById === session.user.id;
+
+        if (!hasAccess) {
+            return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        const subtasks = await getSubtasks(task.id);
+
+        return NextResponse.json({ subtasks });
+    } catch (error) {
+        console.error("Error fetching subtasks:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch subtasks" },
+            { status: 500 }
+        );
+    }
+}
+
+// PUT /api/tasks/[id]/subtasks - Reorder the subtasks of a task
+export async function PUT(
+    req: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user?.email) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const task = await getTaskWithMembership(params.id, session.user.email);
+        if (!task) {
+            return NextResponse.json({ error: "Task not found" }, { status: 404 });
+        }
+
+        if (task.project.team) {
+            const teamMember = task.project.team.members[0];
+            if (!teamMember || teamMember.role === "VIEWER") {
+                return NextResponse.json(
+                    { error: "Insufficient permissions" },
+                    { status: 403 }
+                );
+            }
+        }
+
+        const body = await req.json();
+        const validatedData = reorderSubtasksSchema.parse(body);
+
+        await reorderSubtasks(task.id, validatedData.order);
+        const subtasks = await getSubtasks(task.id);
+
+        return NextResponse.json({ subtasks });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: "Validation error", details: error.issues },
+                { status: 400 }
+            );
+        }
+        if (error instanceof TaskValidationError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Error reordering subtasks:", error);
+        return NextResponse.json(
+            { error: "Failed to reorder subtasks" },
+            { status: 500 }
+        );
+    }
+}
@@ -4,10 +4,14 @@ import { useParams } from "next/navigation";
 import { useEffect, useState } from "react";
 import { ProjectSummary } from "@/components/analytics/project-summary";
 import { TaskMetrics } from "@/components/analytics/task-metrics";
+import { SprintMetrics } from "@/components/analytics/sprint-metrics";
 import { ActivityChart } from "@/components/analytics/activity-chart";
 import { RiskAnalysis } from "@/components/analytics/risk-analysis";
 import { SystemHealth } from "@/components/analytics/system-health";
 import { SystemIntelligence } from "@/components/analytics/system-intelligence";
+import type { WorkflowColumn } from "@/lib/task-workflow";
+import type { FlowMetrics } from "@/lib/flow-metrics";
+import type { SprintBurndown, SprintVelocity } from "@/lib/sprint-metrics";
 
 interface AnalyticsData {
     totalTasks: number;
@@ -16,12 +20,7 @@ interface AnalyticsData {
     overdueTasks: number;
     completionRate: number;
     averageCompletionTime: number;
-    statusDistribution: {
-        TODO: number;
-        IN_PROGRESS: number;
-        UNDER_REVIEW: number;
-        DONE: number;
-    };
+    statusDistribution: Array<WorkflowColumn & { count: number }>;
     priorityDistribution: {
         LOW: number;
         MEDIUM: number;
@@ -33,6 +32,11 @@ interface AnalyticsData {
         userImage?: string | null;
         taskCount: number;
     }>;
+    flowMetrics: FlowMetrics;
+    sprintMetrics: {
+        burndown: SprintBurndown | null;
+        velocity: SprintVelocity;
+    };
     recentActivities: Array<{
         id: string;
         type: string;
@@ -55,7 +59,7 @@ interface RiskData {
         decisionCount: number;
         couplingScore: number;
         riskFactors: Array<{
-            type: 'high_churn' | 'low_decision_coverage' | 'high_coupling';
+            type: 'high_churn' | 'low_decision_coverage' | 'high_coupling' | 'low_bus_factor' | 'open_high_priority_tasks';
             description: string;
             metric: number;
             severity: 'low' | 'medium' | 'high' | 'critical';
@@ -73,11 +77,26 @@ interface RiskData {
     };
 }
 
+interface RiskTrendData {
+    components: Array<{
+        componentId: string;
+        componentName: string;
+        points: Array<{ capturedAt: string; riskScore: number; overallSeverity: string }>;
+        change: number;
+    }>;
+    project: Array<{
+        date: string;
+        averageRiskScore: number;
+        componentCount: number;
+    }>;
+}
+
 export default function AnalyticsPage() {
     const params = useParams();
     const projectId = params.projectId as string;
     const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
     const [riskData, setRiskData] = useState<RiskData | null>(null);
+    const [riskTrend, setRiskTrend] = useState<RiskTrendData | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
 
@@ -86,10 +105,11 @@ export default function AnalyticsPage() {
             try {
                 setLoading(true);
 
-                // Fetch analytics and risk data in parallel
-                const [analyticsResponse, risksResponse] = await Promise.all([
+                // Fetch analytics, risk data and risk trend in parallel
+                const [analyticsResponse, risksResponse, trendResponse] = await Promise.all([
                     fetch(`/api/projects/${projectId}/analytics`),
                     fetch(`/api/projects/${projectId}/risks`),
+                    fetch(`/api/projects/${projectId}/risks/trend`),
                 ]);
 
                 if (!analyticsResponse.ok) {
@@ -104,6 +124,12 @@ export default function AnalyticsPage() {
                     const risksData = await risksResponse.json();
                     setRiskData(risksData);
                 }
+
+                // Risk trend is optional too
+                if (trendResponse.ok) {
+                    const trendData = await trendResponse.json();
+                    setRiskTrend(trendData);
+                }
             } catch (err) {
                 console.error("Error fetching analytics:", err);
                 setError(err instanceof Error ? err.message : "Failed to load analytics");
@@ -165,7 +191,7 @@ export default function AnalyticsPage() {
 
             {/* Risk Analysis - Second priority */}
             {riskData && riskData.summary.totalComponents > 0 && (
-                <RiskAnalysis risks={riskData.risks} summary={riskData.summary} />
+                <RiskAnalysis risks={riskData.risks} summary={riskData.summary} trend={riskTrend} />
             )}
 
             {/* Task metrics moved to bottom */}
@@ -185,6 +211,12 @@ export default function AnalyticsPage() {
                     statusDistribution={analytics.statusDistribution}
                     priorityDistribution={analytics.priorityDistribution}
                     tasksByAssignee={analytics.tasksByAssignee}
+                    flowMetrics={analytics.flowMetrics}
+                />
+
+                <SprintMetrics
+                    burndown={analytics.sprintMetrics.burndown}
+                    velocity={analytics.sprintMetrics.velocity}
                 />
 
                 <ActivityChart activities={analytics.recentActivities} />
@@ -11,9 +11,12 @@ interface CanvasPageProps {
     params: {
         projectId: string;
     };
+    searchParams?: {
+        component?: string; // Component to open in the detail panel
+    };
 }
 
-export default async function CanvasPage({ params }: CanvasPageProps) {
+export default async function CanvasPage({ params, searchParams }: CanvasPageProps) {
     const session = await getServerSession(authOptions);
 
     if (!session?.user?.id) {
@@ -72,7 +75,7 @@ export default async function CanvasPage({ params }: CanvasPageProps) {
             </div>
             <div className="flex-1 flex">
                 <div className="flex-1">
-                    <CollaborativeCanvas canvasId={canvas.id} />
+                    <CollaborativeCanvas canvasId={canvas.id} initialComponentId={searchParams?.component} />
                 </div>
             </div>
         </div>
@@ -4,19 +4,36 @@ import { useState, useEffect } from "react";
 import { useParams } from "next/navigation";
 import { GitActivityFeed } from "@/components/git/git-activity-feed";
 import { ConnectGitHubModal } from "@/components/git/connect-github-modal";
+import { WebhookSettings } from "@/components/git/webhook-settings";
+import { SyncStatusCard, type RepositorySyncState } from "@/components/git/sync-status-card";
+import { CommitClosingSettings } from "@/components/git/commit-closing-settings";
 import { Button } from "@/components/ui/button";
 import { Github, Loader2, Unplug, MessageCircle, X } from "lucide-react";
-import { Badge } from "@/components/ui/badge";
 import RepoAIChat from "@/components/analytics/repo-ai-chat";
 import { Card, CardHeader, CardContent } from "@/components/ui/card";
 
-interface GitRepository {
+interface GitRepository extends RepositorySyncState {
     id: string;
+    provider: "GITHUB" | "GITLAB" | "GITEA" | "LOCAL";
+    baseUrl: string | null;
     githubRepoId: string;
     owner: string;
     name: string;
     fullName: string;
-    lastSyncedAt: string | null;
+    closeTasksFromCommits: boolean;
+}
+
+const DEFAULT_HOSTS = {
+    GITHUB: "https://github.com",
+    GITLAB: "https://gitlab.com",
+    GITEA: "",
+    LOCAL: "",
+};
+
+function repositoryWebUrl(repo: GitRepository) {
+    // GitHub Enterprise stores its API root, the web UI lives one level up
+    const host = repo.baseUrl?.replace(/\/api\/v3\/?$/, "").replace(/\/$/, "") || DEFAULT_HOSTS[repo.provider];
+    return `${host}/${repo.fullName}`;
 }
 
 export default function GitPage() {
@@ -28,9 +45,11 @@ export default function GitPage() {
     const [disconnecting, setDisconnecting] = useState(false);
     const [showChat, setShowChat] = useState(false);
 
-    const fetchGitRepo = async () => {
+    const fetchGitRepo = async (showLoading = true) => {
         try {
-            setLoading(true);
+            if (showLoading) {
+                setLoading(true);
+            }
             const response = await fetch(`/api/projects/${projectId}/github`);
 
             if (!response.ok) {
@@ -47,7 +66,7 @@ export default function GitPage() {
     };
 
     const handleDisconnect = async () => {
-        if (!confirm("Are you sure you want to disconnect this GitHub repository?")) {
+        if (!confirm("Are you sure you want to disconnect this repository?")) {
             return;
         }
 
@@ -96,14 +115,18 @@ export default function GitPage() {
                     {gitRepo && (
                         <p className="text-sm text-muted-foreground mt-1">
                             Connected to{" "}
-                            <a
-                                href={`https://github.com/${gitRepo.fullName}`}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="text-primary hover:underline"
-                            >
-                                {gitRepo.fullName}
-                            </a>
+                            {gitRepo.provider === "LOCAL" ? (
+                                <code className="text-xs">{gitRepo.fullName}</code>
+                            ) : (
+                                <a
+                                    href={repositoryWebUrl(gitRepo)}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-primary hover:underline"
+                                >
+                                    {gitRepo.fullName}
+                                </a>
+                            )}
                         </p>
                     )}
                 </div>
@@ -111,12 +134,6 @@ export default function GitPage() {
                 <div className="flex items-center gap-2">
                     {gitRepo ? (
                         <>
-                            {gitRepo.lastSyncedAt && (
-                                <Badge variant="secondary" className="text-xs">
-                                    Last synced:{" "}
-                                    {new Date(gitRepo.lastSyncedAt).toLocaleString()}
-                                </Badge>
-                            )}
                             <Button
                                 variant="outline"
                                 size="sm"
@@ -134,30 +151,40 @@ export default function GitPage() {
                     ) : (
                         <Button onClick={() => setShowConnectModal(true)}>
                             <Github className="w-4 h-4 mr-2" />
-                            Connect GitHub Repository
+                            Connect Repository
                         </Button>
                     )}
                 </div>
             </div>
 
             {gitRepo ? (
-                <GitActivityFeed
-                    projectId={projectId}
-                    onExplainCommit={handleExplainCommit}
-                />
+                <>
+                    <SyncStatusCard repository={gitRepo} />
+                    <WebhookSettings projectId={projectId} />
+                    <CommitClosingSettings
+                        projectId={projectId}
+                        enabled={gitRepo.closeTasksFromCommits}
+                        onChange={(enabled) => setGitRepo({ ...gitRepo, closeTasksFromCommits: enabled })}
+                    />
+                    <GitActivityFeed
+                        projectId={projectId}
+                        onExplainCommit={handleExplainCommit}
+                        onSynced={() => fetchGitRepo(false)}
+                    />
+                </>
             ) : (
                 <div className="bg-white rounded-lg border p-12 text-center">
                     <Github className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
                     <h3 className="text-lg font-semibold mb-2">
-                        No GitHub Repository Connected
+                        No Repository Connected
                     </h3>
                     <p className="text-muted-foreground mb-6 max-w-md mx-auto">
-                        Connect a GitHub repository to track commits, branches, and pull
-                        requests directly in your project.
+                        Connect a GitHub, GitLab or Gitea repository to track commits, branches,
+                        and pull requests directly in your project.
                     </p>
                     <Button onClick={() => setShowConnectModal(true)}>
                         <Github className="w-4 h-4 mr-2" />
-                        Connect GitHub Repository
+                        Connect Repository
                     </Button>
                 </div>
             )}
@@ -3,34 +3,68 @@
 import { useEffect, useState, useCallback } from "react";
 import { useParams } from "next/navigation";
 import { KanbanBoard } from "@/components/kanban/kanban-board";
-import { CreateTaskModal } from "@/components/kanban/create-task-modal";
+import { CreateTaskModal, type TaskTemplateOption } from "@/components/kanban/create-task-modal";
 import { EditTaskModal } from "@/components/kanban/edit-task-modal";
 import { TaskDetailModal } from "@/components/kanban/task-detail-modal";
+import { SprintBacklog, type BoardSprint } from "@/components/kanban/sprint-backlog";
+import { TaskFilterBar } from "@/components/kanban/task-filter-bar";
+import { SavedFiltersMenu, type BoardFilterState } from "@/components/kanban/saved-filters-menu";
+import { TaskListView } from "@/components/kanban/task-list-view";
+import { TaskCalendarView } from "@/components/kanban/task-calendar-view";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Task, TaskStatus, User, TaskPriority } from "@/types";
-import { Plus, Filter, Wifi, WifiOff } from "lucide-react";
+import { Task, User, TaskPriority } from "@/types";
+import type { WorkflowColumn } from "@/lib/task-workflow";
+import { rollUpProgress, type TaskProgress } from "@/lib/task-progress";
+import type { CustomFieldDefinition, LabelDefinition } from "@/lib/task-fields";
+import {
+    isEmptyTaskQuery,
+    taskQueryToSearchParams,
+    type Swimlanes,
+    type TaskQuery,
+    type TaskView,
+} from "@/lib/task-query";
+import { Plus, Wifi, WifiOff, Columns3, ListTodo, List, CalendarDays } from "lucide-react";
 import { useRealtimeKanban } from "@/hooks/use-realtime-kanban";
 import { Toaster } from "@/components/ui/toaster"; // This import is now used
 import { toast } from "sonner"; // --- FIX 1: Import the toast function from sonner ---
 import { ProjectAIAssistant } from "@/components/chatbot/project-ai-assistant";
 
+// Tasks as returned by the task routes, with the IDs of tasks blocking them and their checklist state
+type BoardTask = Task & {
+    assignee?: User | null;
+    blockedBy?: { blockingTaskId: string }[];
+    checklistItems?: { done: boolean }[];
+    taskComponents?: { componentId: string }[];
+    taskDecisions?: { decisionId: string }[];
+    labels?: { labelId: string }[];
+    fieldValues?: { fieldId: string; value: string }[];
+};
+
 export default function KanbanPage() {
     const params = useParams();
     const projectId = params.projectId as string;
 
-    const [tasks, setTasks] = useState<(Task & { assignee?: User | null })[]>([]);
+    const [tasks, setTasks] = useState<BoardTask[]>([]);
     const [teamMembers, setTeamMembers] = useState<User[]>([]);
+    const [columns, setColumns] = useState<WorkflowColumn[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [createModalOpen, setCreateModalOpen] = useState(false);
     const [editModalOpen, setEditModalOpen] = useState(false);
     const [detailModalOpen, setDetailModalOpen] = useState(false);
-    const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+    const [selectedTask, setSelectedTask] = useState<BoardTask | null>(null);
+    const [sprints, setSprints] = useState<BoardSprint[]>([]);
+    const [view, setView] = useState<TaskView | "sprints">("board");
+    const [swimlanes, setSwimlanes] = useState<Swimlanes>("none");
+    const [components, setComponents] = useState<{ id: string; name: string }[]>([]);
+    const [templates, setTemplates] = useState<TaskTemplateOption[]>([]);
+    const [labels, setLabels] = useState<LabelDefinition[]>([]);
+    const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
 
     // Filters
-    const [filterAssignee, setFilterAssignee] = useState<string>("all");
-    const [filterPriority, setFilterPriority] = useState<string>("all");
+    const [query, setQuery] = useState<TaskQuery>({});
+    const [matchingIds, setMatchingIds] = useState<Set<string> | null>(null); // Tasks matching the query, null without one
     const [sortBy, setSortBy] = useState<string>("position");
     const [projectName, setProjectName] = useState<string>("");
 
@@ -49,7 +83,7 @@ export default function KanbanPage() {
 
     const handleRealtimeTaskMove = useCallback((taskId: string, status: string) => {
         setTasks((prev) =>
-            prev.map((t) => (t.id === taskId ? { ...t, status: status as TaskStatus } : t))
+            prev.map((t) => (t.id === taskId ? { ...t, status } : t))
         );
     }, []);
 
@@ -71,15 +105,58 @@ export default function KanbanPage() {
     useEffect(() => {
         fetchTasks();
         fetchTeamMembers();
+        fetchTemplates();
+        fetchComponents();
+        fetchTaskFields();
+        // The board opens on the active sprint when there is one
+        fetchSprints().then((loaded) => {
+            const active = loaded.find((sprint) => sprint.status === "ACTIVE");
+            if (active) {
+                setQuery((prev) => ({ ...prev, sprintId: active.id }));
+            }
+        });
     }, [projectId]);
 
+    // The server applies the query; every task stays loaded for WIP limits, blockers and roll-ups,
+    // and local changes re-run the query so the views stay in step with them
+    useEffect(() => {
+        if (isEmptyTaskQuery(query)) {
+            setMatchingIds(null);
+            return;
+        }
+
+        let cancelled = false;
+        const timeout = setTimeout(() => {
+            fetch(`/api/projects/${projectId}/tasks?${taskQueryToSearchParams(query)}`)
+                .then((response) => (response.ok ? response.json() : null))
+                .then((matching: BoardTask[] | null) => {
+                    if (!cancelled && matching) {
+                        setMatchingIds(new Set(matching.map((task) => task.id)));
+                    }
+                })
+                .catch((error) => console.error("Failed to filter tasks:", error));
+        }, 300);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timeout);
+        };
+    }, [projectId, query, tasks]);
+
     const fetchTasks = async () => {
         try {
-            const response = await fetch(`/api/projects/${projectId}/tasks`);
-            if (response.ok) {
-                const data = await response.json();
+            const [tasksResponse, workflowResponse] = await Promise.all([
+                fetch(`/api/projects/${projectId}/tasks`),
+                fetch(`/api/projects/${projectId}/workflow`),
+            ]);
+            if (tasksResponse.ok) {
+                const data = await tasksResponse.json();
                 setTasks(data);
             }
+            if (workflowResponse.ok) {
+                const data = await workflowResponse.json();
+                setColumns(data.columns);
+            }
         } catch (error) {
             console.error("Failed to fetch tasks:", error);
         } finally {
@@ -87,6 +164,57 @@ export default function KanbanPage() {
         }
     };
 
+    const fetchSprints = async (): Promise<BoardSprint[]> => {
+        try {
+            const response = await fetch(`/api/projects/${projectId}/sprints`);
+            if (response.ok) {
+                const data = await response.json();
+                setSprints(data.sprints);
+                return data.sprints;
+            }
+        } catch (error) {
+            console.error("Failed to fetch sprints:", error);
+        }
+        return [];
+    };
+
+    const fetchComponents = async () => {
+        try {
+            const response = await fetch(`/api/projects/${projectId}/components-list`);
+            if (response.ok) {
+                const data = await response.json();
+                setComponents(data.components || []);
+            }
+        } catch (error) {
+            console.error("Failed to fetch components:", error);
+        }
+    };
+
+    const fetchTaskFields = async () => {
+        try {
+            const response = await fetch(`/api/projects/${projectId}/task-fields`);
+            if (response.ok) {
+                const data = await response.json();
+                setLabels(data.labels);
+                setCustomFields(data.customFields);
+            }
+        } catch (error) {
+            console.error("Failed to fetch task fields:", error);
+        }
+    };
+
+    const fetchTemplates = async () => {
+        try {
+            const response = await fetch(`/api/projects/${projectId}/task-templates`);
+            if (response.ok) {
+                const data = await response.json();
+                setTemplates(data.templates);
+            }
+        } catch (error) {
+            console.error("Failed to fetch task templates:", error);
+        }
+    };
+
     const fetchTeamMembers = async () => {
         try {
             const response = await fetch(`/api/projects/${projectId}`);
@@ -105,9 +233,13 @@ export default function KanbanPage() {
         title: string;
         description?: string;
         priority: TaskPriority;
-        status: TaskStatus;
+        status?: string;
         assigneeId?: string;
         dueDate?: string;
+        parentId?: string;
+        sprintId?: string;
+        storyPoints?: number;
+        templateId?: string;
     }) => {
         try {
             const response = await fetch(`/api/projects/${projectId}/tasks`, {
@@ -124,7 +256,8 @@ export default function KanbanPage() {
                 // You might want to add a success toast here too
                 toast.success("Task created successfully");
             } else {
-                toast.error("Failed to create task");
+                const data = await response.json().catch(() => null);
+                toast.error("Failed to create task", { description: data?.error });
             }
         } catch (error) {
             console.error("Failed to create task:", error);
@@ -141,9 +274,16 @@ export default function KanbanPage() {
             title?: string;
             description?: string;
             priority?: TaskPriority;
-            status?: TaskStatus;
+            status?: string;
             assigneeId?: string | null;
             dueDate?: string | null;
+            parentId?: string | null;
+            componentIds?: string[];
+            decisionIds?: string[];
+            labelIds?: string[];
+            customFields?: Record<string, string | null>;
+            sprintId?: string | null;
+            storyPoints?: number | null;
         }
     ) => {
         try {
@@ -162,8 +302,9 @@ export default function KanbanPage() {
                     description: "Your changes have been saved.",
                 });
             } else {
+                const data = await response.json().catch(() => null);
                 toast.error("Failed to update task", {
-                    description: "Please try again.",
+                    description: data?.error || "Please try again.",
                 });
             }
         } catch (error) {
@@ -202,7 +343,15 @@ export default function KanbanPage() {
         }
     };
 
-    const handleTaskMove = async (taskId: string, newStatus: TaskStatus) => {
+    const handleTaskMove = async (taskId: string, newStatus: string) => {
+        const target = columns.find((column) => column.key === newStatus);
+        const targetCount = tasks.filter((t) => t.status === newStatus).length;
+        if (target?.wipLimit != null && targetCount >= target.wipLimit) {
+            toast.warning(`${target.name} is over its WIP limit`, {
+                description: `It now holds ${targetCount + 1} tasks; the limit is ${target.wipLimit}.`,
+            });
+        }
+
         // Optimistic update
         const originalTasks = [...tasks];
         setTasks((prev) =>
@@ -223,9 +372,15 @@ export default function KanbanPage() {
                 broadcastTaskMove(taskId, newStatus);
             } else {
                 const error = await response.json().catch(() => ({ error: "Unknown error" }));
-                console.error("Failed to update task:", response.status, error);
                 // Rollback on error
                 setTasks(originalTasks);
+                if (response.status === 409 && error.blockers) {
+                    toast.error("Task is blocked", {
+                        description: `Finish ${error.blockers.map((b: { title: string }) => `"${b.title}"`).join(", ")} first.`,
+                    });
+                    return;
+                }
+                console.error("Failed to update task:", response.status, error);
                 toast.error("Failed to move task");
             }
         } catch (error) {
@@ -238,6 +393,27 @@ export default function KanbanPage() {
         }
     };
 
+    const handleCreateSubtask = async (parentId: string, title: string) => {
+        // Subtasks are planned into the same sprint as their parent
+        const parent = tasks.find((t) => t.id === parentId);
+        await handleCreateTask({ title, priority: "MEDIUM", parentId, sprintId: parent?.sprintId ?? undefined });
+    };
+
+    const handleMoveToSprint = async (taskId: string, sprintId: string | null) => {
+        await handleUpdateTask(taskId, { sprintId });
+    };
+
+    const handleSprintsChange = () => {
+        fetchSprints();
+        fetchTasks();
+    };
+
+    const handleChecklistChange = (taskId: string, items: { done: boolean }[]) => {
+        setTasks((prev) =>
+            prev.map((t) => (t.id === taskId ? { ...t, checklistItems: items.map(({ done }) => ({ done })) } : t))
+        );
+    };
+
     const handleTaskClick = (task: Task) => {
         setSelectedTask(task);
         setDetailModalOpen(true);
@@ -248,12 +424,62 @@ export default function KanbanPage() {
         setEditModalOpen(true);
     };
 
+    const handleApplySavedFilter = (state: BoardFilterState) => {
+        setQuery(state.query);
+        setView(state.view);
+        setSwimlanes(state.swimlanes);
+    };
+
     // Apply filters and sorting
-    const filteredTasks = tasks.filter((task) => {
-        if (filterAssignee !== "all" && task.assigneeId !== filterAssignee) return false;
-        if (filterPriority !== "all" && task.priority !== filterPriority) return false;
-        return true;
-    });
+    const filteredTasks = matchingIds ? tasks.filter((task) => matchingIds.has(task.id)) : tasks;
+
+    // WIP limits apply to every task in a column, not just the filtered ones
+    const columnTaskCounts = tasks.reduce<Record<string, number>>((counts, task) => {
+        counts[task.status] = (counts[task.status] ?? 0) + 1;
+        return counts;
+    }, {});
+
+    // Open tasks blocking each task, derived from the local statuses so moves update them at once
+    const doneKeys = new Set(columns.filter((column) => column.isDone).map((column) => column.key));
+    const tasksById = new Map(tasks.map((task) => [task.id, task]));
+    const blockers: Record<string, string[]> = {};
+    for (const task of tasks) {
+        const open = (task.blockedBy ?? [])
+            .map((dependency) => tasksById.get(dependency.blockingTaskId))
+            .filter((blocker): blocker is BoardTask => !!blocker && !doneKeys.has(blocker.status));
+        if (open.length > 0) {
+            blockers[task.id] = open.map((blocker) => blocker.title);
+        }
+    }
+
+    // Roll-up of each task's checklist and subtasks; subtask order lives apart from board positions
+    const subtasksByParent = new Map<string, BoardTask[]>();
+    for (const task of tasks) {
+        if (task.parentId) {
+            subtasksByParent.set(task.parentId, [...(subtasksByParent.get(task.parentId) ?? []), task]);
+        }
+    }
+    const progress: Record<string, TaskProgress> = {};
+    const parentTitles: Record<string, string> = {};
+    for (const task of tasks) {
+        progress[task.id] = rollUpProgress(task.checklistItems ?? [], subtasksByParent.get(task.id) ?? [], columns);
+        const parent = task.parentId ? tasksById.get(task.parentId) : undefined;
+        if (parent) {
+            parentTitles[task.id] = parent.title;
+        }
+    }
+
+    // Labels of each task, for the cards and the list
+    const labelsById = new Map(labels.map((label) => [label.id, label]));
+    const taskLabels: Record<string, LabelDefinition[]> = {};
+    for (const task of tasks) {
+        const assigned = (task.labels ?? [])
+            .map((link) => labelsById.get(link.labelId))
+            .filter((label): label is LabelDefinition => !!label);
+        if (assigned.length > 0) {
+            taskLabels[task.id] = assigned;
+        }
+    }
 
     const sortedTasks = [...filteredTasks].sort((a, b) => {
         if (sortBy === "priority") {
@@ -300,64 +526,138 @@ export default function KanbanPage() {
                         )}
                     </Badge>
                 </div>
-                <Button onClick={() => setCreateModalOpen(true)}>
-                    <Plus className="h-4 w-4 mr-2" />
-                    New Task
-                </Button>
-            </div>
-
-            {/* Filters and Sorting */}
-            <div className="flex items-center gap-4 flex-wrap">
                 <div className="flex items-center gap-2">
-                    <Filter className="h-4 w-4 text-muted-foreground" />
-                    <span className="text-sm font-medium">Filters:</span>
+                    <div className="flex rounded-md border border-gray-200 dark:border-gray-800">
+                        <Button
+                            variant={view === "board" ? "secondary" : "ghost"}
+                            size="sm"
+                            onClick={() => setView("board")}
+                        >
+                            <Columns3 className="h-4 w-4 mr-1" />
+                            Board
+                        </Button>
+                        <Button
+                            variant={view === "list" ? "secondary" : "ghost"}
+                            size="sm"
+                            onClick={() => setView("list")}
+                        >
+                            <List className="h-4 w-4 mr-1" />
+                            List
+                        </Button>
+                        <Button
+                            variant={view === "calendar" ? "secondary" : "ghost"}
+                            size="sm"
+                            onClick={() => setView("calendar")}
+                        >
+                            <CalendarDays className="h-4 w-4 mr-1" />
+                            Calendar
+                        </Button>
+                        <Button
+                            variant={view === "sprints" ? "secondary" : "ghost"}
+                            size="sm"
+                            onClick={() => setView("sprints")}
+                        >
+                            <ListTodo className="h-4 w-4 mr-1" />
+                            Sprints
+                        </Button>
+                    </div>
+                    <Button onClick={() => setCreateModalOpen(true)}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        New Task
+                    </Button>
                 </div>
-
-                <Select value={filterAssignee} onValueChange={setFilterAssignee}>
-                    <SelectTrigger className="w-[180px]">
-                        <SelectValue placeholder="All assignees" />
-                    </SelectTrigger>
-                    <SelectContent>
-                        <SelectItem value="all">All assignees</SelectItem>
-                        {teamMembers.map((member) => (
-                            <SelectItem key={member.id} value={member.id}>
-                                {member.name || member.email}
-                            </SelectItem>
-                        ))}
-                    </SelectContent>
-                </Select>
-
-                <Select value={filterPriority} onValueChange={setFilterPriority}>
-                    <SelectTrigger className="w-[180px]">
-                        <SelectValue placeholder="All priorities" />
-                    </SelectTrigger>
-                    <SelectContent>
-                        <SelectItem value="all">All priorities</SelectItem>
-                        <SelectItem value="HIGH">High</SelectItem>
-                        <SelectItem value="MEDIUM">Medium</SelectItem>
-                        <SelectItem value="LOW">Low</SelectItem>
-                    </SelectContent>
-                </Select>
-
-                <Select value={sortBy} onValueChange={setSortBy}>
-                    <SelectTrigger className="w-[180px]">
-                        <SelectValue placeholder="Sort by" />
-                    </SelectTrigger>
-                    <SelectContent>
-                        <SelectItem value="position">Default order</SelectItem>
-                        <SelectItem value="priority">Priority</SelectItem>
-                        <SelectItem value="dueDate">Due date</SelectItem>
-                    </SelectContent>
-                </Select>
             </div>
 
-            {/* Kanban Board */}
-            <KanbanBoard
-                projectId={projectId}
-                initialTasks={sortedTasks}
-                onTaskMove={handleTaskMove}
-                onTaskClick={handleTaskClick}
-            />
+            {view === "sprints" ? (
+                <SprintBacklog
+                    projectId={projectId}
+                    sprints={sprints}
+                    tasks={tasks}
+                    columns={columns}
+                    onMoveTask={handleMoveToSprint}
+                    onTaskClick={(taskId) => {
+                        const task = tasks.find((t) => t.id === taskId);
+                        if (task) handleTaskClick(task);
+                    }}
+                    onSprintsChange={handleSprintsChange}
+                />
+            ) : (
+                <>
+                    {/* Filters and Sorting */}
+                    <TaskFilterBar
+                        query={query}
+                        onChange={setQuery}
+                        teamMembers={teamMembers}
+                        sprints={sprints}
+                        components={components}
+                        labels={labels}
+                        customFields={customFields}
+                    />
+
+                    <div className="flex items-center gap-4 flex-wrap">
+                        <SavedFiltersMenu
+                            projectId={projectId}
+                            current={{ query, view, swimlanes }}
+                            onApply={handleApplySavedFilter}
+                        />
+
+                        {view === "board" && (
+                            <Select value={swimlanes} onValueChange={(value) => setSwimlanes(value as Swimlanes)}>
+                                <SelectTrigger className="w-[180px]">
+                                    <SelectValue placeholder="Swimlanes" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="none">No swimlanes</SelectItem>
+                                    <SelectItem value="assignee">Lanes by assignee</SelectItem>
+                                    <SelectItem value="priority">Lanes by priority</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        )}
+
+                        {view !== "calendar" && (
+                            <Select value={sortBy} onValueChange={setSortBy}>
+                                <SelectTrigger className="w-[180px]">
+                                    <SelectValue placeholder="Sort by" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="position">Default order</SelectItem>
+                                    <SelectItem value="priority">Priority</SelectItem>
+                                    <SelectItem value="dueDate">Due date</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        )}
+                    </div>
+
+                    {view === "list" ? (
+                        <TaskListView
+                            tasks={sortedTasks}
+                            columns={columns}
+                            sprints={sprints}
+                            blockers={blockers}
+                            progress={progress}
+                            taskLabels={taskLabels}
+                            onTaskClick={handleTaskClick}
+                        />
+                    ) : view === "calendar" ? (
+                        <TaskCalendarView tasks={sortedTasks} columns={columns} onTaskClick={handleTaskClick} />
+                    ) : (
+                        <KanbanBoard
+                            projectId={projectId}
+                            initialTasks={sortedTasks}
+                            columns={columns}
+                            columnTaskCounts={columnTaskCounts}
+                            blockers={blockers}
+                            progress={progress}
+                            parentTitles={parentTitles}
+                            taskLabels={taskLabels}
+                            swimlanes={swimlanes}
+                            teamMembers={teamMembers}
+                            onTaskMove={handleTaskMove}
+                            onTaskClick={handleTaskClick}
+                        />
+                    )}
+                </>
+            )}
 
             {/* Modals */}
             <CreateTaskModal
@@ -365,6 +665,14 @@ export default function KanbanPage() {
                 onOpenChange={setCreateModalOpen}
                 onSubmit={handleCreateTask}
                 teamMembers={teamMembers}
+                columns={columns}
+                sprints={sprints.filter((sprint) => sprint.status !== "CLOSED")}
+                defaultSprintId={
+                    sprints.some((sprint) => sprint.id === query.sprintId && sprint.status !== "CLOSED")
+                        ? query.sprintId
+                        : undefined
+                }
+                templates={templates}
             />
 
             <EditTaskModal
@@ -374,6 +682,11 @@ export default function KanbanPage() {
                 onSubmit={handleUpdateTask}
                 onDelete={handleDeleteTask}
                 teamMembers={teamMembers}
+                columns={columns}
+                projectTasks={tasks}
+                sprints={sprints}
+                labels={labels}
+                customFields={customFields}
             />
 
             <TaskDetailModal
@@ -381,6 +694,12 @@ export default function KanbanPage() {
                 onOpenChange={setDetailModalOpen}
                 task={selectedTask}
                 onEdit={handleEditClick}
+                columns={columns}
+                projectTasks={tasks}
+                onDependenciesChange={fetchTasks}
+                progress={selectedTask ? progress[selectedTask.id] : undefined}
+                onCreateSubtask={handleCreateSubtask}
+                onChecklistChange={handleChecklistChange}
             />
 
             {/* AI Assistant */}
@@ -0,0 +1,29 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { RiskPolicySettings } from "@/components/project/risk-policy-settings";
+import { WorkflowSettings } from "@/components/project/workflow-settings";
+import { TaskTemplateSettings } from "@/components/project/task-template-settings";
+import { TaskFieldSettings } from "@/components/project/task-field-settings";
+
+export default function ProjectSettingsPage() {
+    const params = useParams();
+    const projectId = params.projectId as string;
+
+    return (
+        <div className="max-w-4xl mx-auto space-y-6">
+            <div>
+                <h1 className="text-2xl font-bold">Project Settings</h1>
+                <p className="text-sm text-muted-foreground mt-1">
+                    Configure how this project's work is tracked and analyzed
+                </p>
+            </div>
+
+            <WorkflowSettings projectId={projectId} />
+            <TaskFieldSettings projectId={projectId} />
+            <TaskTemplateSettings projectId={projectId} />
+
+            <RiskPolicySettings projectId={projectId} />
+        </div>
+    );
+}
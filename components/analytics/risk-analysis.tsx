@@ -2,10 +2,11 @@
 
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { AlertTriangle, Shield, AlertCircle, TrendingUp } from "lucide-react";
+import { AlertTriangle, Shield, AlertCircle, TrendingUp, TrendingDown } from "lucide-react";
+import { LineChart, Line, ResponsiveContainer, Tooltip, YAxis } from "recharts";
 
 interface RiskFactor {
-    type: 'high_churn' | 'low_decision_coverage' | 'high_coupling';
+    type: 'high_churn' | 'low_decision_coverage' | 'high_coupling' | 'low_bus_factor' | 'open_high_priority_tasks';
     description: string;
     metric: number;
     severity: 'low' | 'medium' | 'high' | 'critical';
@@ -31,12 +32,80 @@ interface RiskSummary {
     averageRiskScore: number;
 }
 
+interface RiskTrend {
+    components: Array<{
+        componentId: string;
+        componentName: string;
+        points: Array<{ capturedAt: string; riskScore: number }>;
+        change: number;
+    }>;
+    project: Array<{
+        date: string;
+        averageRiskScore: number;
+    }>;
+}
+
 interface RiskAnalysisProps {
     risks: ComponentRisk[];
     summary: RiskSummary;
+    trend?: RiskTrend | null;
+}
+
+function RiskSparkline({ data, dataKey, label }: { data: any[]; dataKey: string; label: string }) {
+    if (data.length < 2) {
+        return null;
+    }
+
+    return (
+        <div className="h-10 w-28" title={label}>
+            <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={data}>
+                    <YAxis domain={[0, 100]} hide />
+                    <Tooltip
+                        formatter={(value) => [value, "Risk Score"]}
+                        labelFormatter={() => ""}
+                        contentStyle={{ fontSize: "12px" }}
+                    />
+                    <Line
+                        type="monotone"
+                        dataKey={dataKey}
+                        stroke="#ea580c"
+                        strokeWidth={2}
+                        dot={false}
+                        isAnimationActive={false}
+                    />
+                </LineChart>
+            </ResponsiveContainer>
+        </div>
+    );
 }
 
-export function RiskAnalysis({ risks, summary }: RiskAnalysisProps) {
+function TrendChange({ change }: { change: number }) {
+    if (change === 0) {
+        return <span className="text-xs text-muted-foreground">No change</span>;
+    }
+
+    // A falling risk score is an improvement
+    const improved = change < 0;
+    const Icon = improved ? TrendingDown : TrendingUp;
+
+    return (
+        <span className={`text-xs flex items-center gap-1 ${improved ? "text-green-600" : "text-red-600"}`}>
+            <Icon className="h-3 w-3" />
+            {change > 0 ? "+" : ""}{change}
+        </span>
+    );
+}
+
+export function RiskAnalysis({ risks, summary, trend }: RiskAnalysisProps) {
+    const trendByComponent = new Map(
+        (trend?.components || []).map((t) => [t.componentId, t])
+    );
+    const projectTrend = trend?.project || [];
+    const projectChange = projectTrend.length >= 2
+        ? projectTrend[projectTrend.length - 1].averageRiskScore - projectTrend[0].averageRiskScore
+        : 0;
+
     const highRiskComponents = risks.filter(
         r => r.overallSeverity === 'critical' || r.overallSeverity === 'high'
     );
@@ -104,11 +173,23 @@ export function RiskAnalysis({ risks, summary }: RiskAnalysisProps) {
                 <h3 className="text-sm font-medium text-muted-foreground mb-2">
                     Average Risk Score
                 </h3>
-                <div className="flex items-end gap-2">
-                    <p className="text-3xl font-bold text-foreground">{summary.averageRiskScore}</p>
-                    <p className="text-sm text-muted-foreground mb-1">
-                        out of 100
-                    </p>
+                <div className="flex items-end justify-between gap-2">
+                    <div className="flex items-end gap-2">
+                        <p className="text-3xl font-bold text-foreground">{summary.averageRiskScore}</p>
+                        <p className="text-sm text-muted-foreground mb-1">
+                            out of 100
+                        </p>
+                    </div>
+                    {projectTrend.length >= 2 && (
+                        <div className="flex flex-col items-end gap-1">
+                            <RiskSparkline
+                                data={projectTrend}
+                                dataKey="averageRiskScore"
+                                label={`Average risk score over the last ${projectTrend.length} days with snapshots`}
+                            />
+                            <TrendChange change={projectChange} />
+                        </div>
+                    )}
                 </div>
                 <div className="mt-4 w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
                     <div
@@ -150,13 +231,25 @@ export function RiskAnalysis({ risks, summary }: RiskAnalysisProps) {
                                             {component.overallSeverity.toUpperCase()} RISK
                                         </Badge>
                                     </div>
-                                    <div className="text-right">
-                                        <p className="text-sm font-semibold text-foreground">
-                                            Risk Score
-                                        </p>
-                                        <p className="text-2xl font-bold text-foreground">
-                                            {component.riskScore}
-                                        </p>
+                                    <div className="flex items-start gap-4">
+                                        {trendByComponent.has(component.componentId) && (
+                                            <div className="flex flex-col items-end gap-1">
+                                                <RiskSparkline
+                                                    data={trendByComponent.get(component.componentId)!.points}
+                                                    dataKey="riskScore"
+                                                    label="Risk score trend"
+                                                />
+                                                <TrendChange change={trendByComponent.get(component.componentId)!.change} />
+                                            </div>
+                                        )}
+                                        <div className="text-right">
+                                            <p className="text-sm font-semibold text-foreground">
+                                                Risk Score
+                                            </p>
+                                            <p className="text-2xl font-bold text-foreground">
+                                                {component.riskScore}
+                                            </p>
+                                        </div>
                                     </div>
                                 </div>
                                 <div className="space-y-1 mt-3">
@@ -0,0 +1,107 @@
+"use client";
+
+import { Card } from "@/components/ui/card";
+import {
+    BarChart,
+    Bar,
+    LineChart,
+    Line,
+    XAxis,
+    YAxis,
+    CartesianGrid,
+    Tooltip,
+    Legend,
+    ResponsiveContainer,
+} from "recharts";
+import type { SprintBurndown, SprintVelocity } from "@/lib/sprint-metrics";
+
+interface SprintMetricsProps {
+    burndown: SprintBurndown | null;
+    velocity: SprintVelocity;
+}
+
+export function SprintMetrics({ burndown, velocity }: SprintMetricsProps) {
+    if (!burndown && velocity.sprints.length === 0) {
+        return null;
+    }
+
+    // Format data for burndown chart, labelling days as "Mon 12"
+    const burndownData = (burndown?.points ?? []).map((point) => ({
+        ...point,
+        name: new Date(`${point.date}T00:00:00Z`).toLocaleDateString(undefined, {
+            weekday: "short",
+            day: "numeric",
+            timeZone: "UTC",
+        }),
+    }));
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Sprint Burndown */}
+            <Card className="p-6 dark:bg-gray-900 dark:border-gray-800">
+                <div className="flex items-baseline justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-foreground">Sprint Burndown</h3>
+                    {burndown && (
+                        <p className="text-sm text-muted-foreground">
+                            {burndown.name}
+                            {burndown.status === "CLOSED" && " (closed)"} · {burndown.scope} points
+                        </p>
+                    )}
+                </div>
+                {burndown ? (
+                    <ResponsiveContainer width="100%" height={300}>
+                        <LineChart data={burndownData}>
+                            <CartesianGrid strokeDasharray="3 3" className="dark:stroke-gray-700" />
+                            <XAxis dataKey="name" className="dark:fill-gray-400" />
+                            <YAxis allowDecimals={false} className="dark:fill-gray-400" />
+                            <Tooltip />
+                            <Legend />
+                            <Line
+                                type="linear"
+                                dataKey="ideal"
+                                name="Ideal"
+                                stroke="#9ca3af"
+                                strokeDasharray="5 5"
+                                dot={false}
+                            />
+                            <Line type="stepAfter" dataKey="remaining" name="Remaining" stroke="#3b82f6" />
+                        </LineChart>
+                    </ResponsiveContainer>
+                ) : (
+                    <p className="text-sm text-muted-foreground">
+                        The burndown appears once a sprint is started.
+                    </p>
+                )}
+            </Card>
+
+            {/* Velocity */}
+            <Card className="p-6 dark:bg-gray-900 dark:border-gray-800">
+                <div className="flex items-baseline justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-foreground">Velocity</h3>
+                    {velocity.sprints.length > 0 && (
+                        <p className="text-sm text-muted-foreground">
+                            {velocity.averageVelocity} points per sprint (recent average)
+                        </p>
+                    )}
+                </div>
+                {velocity.sprints.length > 0 ? (
+                    <ResponsiveContainer width="100%" height={300}>
+                        <BarChart data={velocity.sprints}>
+                            <CartesianGrid strokeDasharray="3 3" className="dark:stroke-gray-700" />
+                            <XAxis dataKey="name" className="dark:fill-gray-400" />
+                            <YAxis allowDecimals={false} className="dark:fill-gray-400" />
+                            <Tooltip />
+                            <Legend />
+                            <Bar dataKey="committed" fill="#9ca3af" name="Committed" />
+                            <Bar dataKey="completed" fill="#22c55e" name="Completed" />
+                        </BarChart>
+                    </ResponsiveContainer>
+                ) : (
+                    <p className="text-sm text-muted-foreground">
+                        Velocity appears once a sprint is closed.
+                    </p>
+                )}
+            </Card>
+        </div>
+    );
+}
@@ -14,14 +14,11 @@ import {
     Pie,
     Cell,
 } from "recharts";
+import type { WorkflowColumn } from "@/lib/task-workflow";
+import type { DurationStats, FlowMetrics } from "@/lib/flow-metrics";
 
 interface TaskMetricsProps {
-    statusDistribution: {
-        TODO: number;
-        IN_PROGRESS: number;
-        UNDER_REVIEW: number;
-        DONE: number;
-    };
+    statusDistribution: Array<WorkflowColumn & { count: number }>; // Workflow columns in board order
     priorityDistribution: {
         LOW: number;
         MEDIUM: number;
@@ -33,33 +30,45 @@ interface TaskMetricsProps {
         userImage?: string | null;
         taskCount: number;
     }>;
+    flowMetrics: FlowMetrics;
 }
 
-const STATUS_COLORS = {
-    TODO: "#3b82f6",
-    IN_PROGRESS: "#f59e0b",
-    UNDER_REVIEW: "#8b5cf6",
-    DONE: "#10b981",
-};
-
 const PRIORITY_COLORS = {
     LOW: "#6b7280",
     MEDIUM: "#f59e0b",
     HIGH: "#ef4444",
 };
 
+function DurationSummary({ label, stats }: { label: string; stats: DurationStats }) {
+    return (
+        <div className="space-y-1">
+            <p className="text-sm font-medium text-foreground">{label}</p>
+            {stats.count === 0 ? (
+                <p className="text-sm text-muted-foreground">No completed tasks yet</p>
+            ) : (
+                <>
+                    <p className="text-2xl font-bold text-foreground">{stats.medianDays}d</p>
+                    <p className="text-xs text-muted-foreground">
+                        median · 85% within {stats.p85Days}d · avg {stats.averageDays}d · {stats.count} tasks
+                    </p>
+                </>
+            )}
+        </div>
+    );
+}
+
 export function TaskMetrics({
     statusDistribution,
     priorityDistribution,
     tasksByAssignee,
+    flowMetrics,
 }: TaskMetricsProps) {
     // Format data for status chart
-    const statusData = [
-        { name: "To Do", value: statusDistribution.TODO, fill: STATUS_COLORS.TODO },
-        { name: "In Progress", value: statusDistribution.IN_PROGRESS, fill: STATUS_COLORS.IN_PROGRESS },
-        { name: "Under Review", value: statusDistribution.UNDER_REVIEW, fill: STATUS_COLORS.UNDER_REVIEW },
-        { name: "Done", value: statusDistribution.DONE, fill: STATUS_COLORS.DONE },
-    ];
+    const statusData = statusDistribution.map((column) => ({
+        name: column.name,
+        value: column.count,
+        fill: column.color,
+    }));
 
     // Format data for priority chart
     const priorityData = [
@@ -68,6 +77,15 @@ export function TaskMetrics({
         { name: "High", value: priorityDistribution.HIGH, fill: PRIORITY_COLORS.HIGH },
     ];
 
+    // Format data for lead and cycle time distribution chart
+    const durationData = flowMetrics.leadTimeBuckets.map((bucket, index) => ({
+        name: bucket.label,
+        lead: bucket.count,
+        cycle: flowMetrics.cycleTimeBuckets[index].count,
+    }));
+
+    const hasColumnTimes = flowMetrics.timeInColumn.some((column) => column.count > 0);
+
     // Format data for assignee chart
     const assigneeData = tasksByAssignee
         .sort((a, b) => b.taskCount - a.taskCount)
@@ -127,6 +145,52 @@ export function TaskMetrics({
                 </ResponsiveContainer>
             </Card>
 
+            {/* Lead and Cycle Time */}
+            <Card className="p-6 dark:bg-gray-900 dark:border-gray-800">
+                <h3 className="text-lg font-semibold mb-4 text-foreground">Lead &amp; Cycle Time</h3>
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                    <DurationSummary label="Lead time (created → done)" stats={flowMetrics.leadTime} />
+                    <DurationSummary label="Cycle time (started → done)" stats={flowMetrics.cycleTime} />
+                </div>
+                <ResponsiveContainer width="100%" height={220}>
+                    <BarChart data={durationData}>
+                        <CartesianGrid strokeDasharray="3 3" className="dark:stroke-gray-700" />
+                        <XAxis dataKey="name" className="dark:fill-gray-400" />
+                        <YAxis allowDecimals={false} className="dark:fill-gray-400" />
+                        <Tooltip />
+                        <Legend />
+                        <Bar dataKey="lead" fill="#3b82f6" name="Lead time" />
+                        <Bar dataKey="cycle" fill="#22c55e" name="Cycle time" />
+                    </BarChart>
+                </ResponsiveContainer>
+            </Card>
+
+            {/* Time in Column */}
+            <Card className="p-6 dark:bg-gray-900 dark:border-gray-800">
+                <h3 className="text-lg font-semibold mb-4 text-foreground">Time in Column</h3>
+                {hasColumnTimes ? (
+                    <ResponsiveContainer width="100%" height={300}>
+                        <BarChart data={flowMetrics.timeInColumn}>
+                            <CartesianGrid strokeDasharray="3 3" className="dark:stroke-gray-700" />
+                            <XAxis dataKey="name" className="dark:fill-gray-400" />
+                            <YAxis unit="d" className="dark:fill-gray-400" />
+                            <Tooltip formatter={(value) => `${value} days`} />
+                            <Legend />
+                            <Bar dataKey="medianDays" name="Median">
+                                {flowMetrics.timeInColumn.map((column) => (
+                                    <Cell key={column.key} fill={column.color} />
+                                ))}
+                            </Bar>
+                            <Bar dataKey="p85Days" name="85th percentile" fill="#9ca3af" />
+                        </BarChart>
+                    </ResponsiveContainer>
+                ) : (
+                    <p className="text-sm text-muted-foreground">
+                        Column times appear once tasks move across the board.
+                    </p>
+                )}
+            </Card>
+
             {/* Tasks by Assignee */}
             {assigneeData.length > 0 && (
                 <Card className="p-6 lg:col-span-2 dark:bg-gray-900 dark:border-gray-800">
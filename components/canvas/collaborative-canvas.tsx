@@ -8,6 +8,7 @@ import { CommitCountOverlay } from './commit-count-overlay';
 
 interface CollaborativeCanvasProps {
     canvasId: string;
+    initialComponentId?: string; // Open this component's detail panel, e.g. from a diff link
 }
 
 interface Component {
@@ -17,9 +18,9 @@ interface Component {
     position: { x: number; y: number };
 }
 
-export function CollaborativeCanvas({ canvasId }: CollaborativeCanvasProps) {
+export function CollaborativeCanvas({ canvasId, initialComponentId }: CollaborativeCanvasProps) {
     const [mounted, setMounted] = useState(false);
-    const [selectedComponentId, setSelectedComponentId] = useState<string | null>(null);
+    const [selectedComponentId, setSelectedComponentId] = useState<string | null>(initialComponentId ?? null);
     const [components, setComponents] = useState<Component[]>([]);
     const [store, setStore] = useState<any>(null);
     const [isLoading, setIsLoading] = useState(true);
@@ -1,16 +1,18 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { X, FileText, MessageSquare, GitCommit, AlertTriangle, AlertCircle, Shield } from 'lucide-react';
+import { X, FileText, MessageSquare, GitCommit, GitPullRequest, AlertTriangle, AlertCircle, Shield, ArrowRight, ArrowLeft, Network, Users, ListTodo, Flag } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import { DiscussionModal } from '@/components/discussions/discussion-modal';
 import { getComponentColorScheme, getComponentTypeLabel } from '@/lib/component-colors';
 import { ComponentType } from '@/types/architecture';
 import { AskAIButton } from '@/components/ai/ask-ai-button';
 import { AIChatPanel } from '@/components/ai/ai-chat-panel';
+import { toast } from 'sonner';
 
 interface ComponentDetailPanelProps {
     componentId: string;
@@ -18,7 +20,7 @@ interface ComponentDetailPanelProps {
 }
 
 interface RiskFactor {
-    type: 'high_churn' | 'low_decision_coverage' | 'high_coupling';
+    type: 'high_churn' | 'low_decision_coverage' | 'high_coupling' | 'low_bus_factor' | 'open_high_priority_tasks';
     description: string;
     metric: number;
     severity: 'low' | 'medium' | 'high' | 'critical';
@@ -29,17 +31,33 @@ interface RiskMetrics {
     churnRate: number;
     decisionCount: number;
     couplingScore: number;
+    busFactor: number | null;
     riskFactors: RiskFactor[];
     overallSeverity: 'low' | 'medium' | 'high' | 'critical';
     riskScore: number;
 }
 
+interface RelationshipEntry {
+    id: string;
+    kind: 'DEPENDENCY' | 'DATAFLOW';
+    protocol: string | null;
+    label: string | null;
+    fromCanvas: boolean;
+    component: {
+        id: string;
+        componentId: string;
+        name: string;
+        type: ComponentType;
+    };
+}
+
 interface ComponentData {
     id: string;
     componentId: string;
     name: string;
     type: ComponentType;
     description?: string;
+    pathPatterns: string[];
     projectId: string;
     decisions: Array<{
         id: string;
@@ -64,9 +82,58 @@ interface ComponentData {
         message: string;
         author: string;
         committedAt: string;
+        autoDetected: boolean;
+    }>;
+    openPullRequests: Array<{
+        number: number;
+        title: string;
+        author: string;
+        url: string;
+        draft: boolean;
+        reviewState: string | null;
+        updatedAt: string;
+        autoDetected: boolean;
+    }>;
+    dependencies: {
+        outgoing: RelationshipEntry[];
+        incoming: RelationshipEntry[];
+    };
+    ownership: {
+        totalCommits: number;
+        busFactor: number | null;
+        contributors: Array<{
+            key: string;
+            name: string;
+            email: string;
+            user: { id: string; name: string | null; email: string; image: string | null } | null;
+            commitCount: number;
+            share: number;
+            lastCommitAt: string;
+        }>;
+    };
+    openTasks: Array<{
+        id: string;
+        title: string;
+        status: string;
+        statusName: string;
+        priority: 'LOW' | 'MEDIUM' | 'HIGH';
+        dueDate: string | null;
+        assignee: { id: string; name: string | null; email: string; image: string | null } | null;
     }>;
 }
 
+const PRIORITY_COLORS: Record<string, string> = {
+    LOW: 'text-blue-600 dark:text-blue-400',
+    MEDIUM: 'text-yellow-600 dark:text-yellow-400',
+    HIGH: 'text-red-600 dark:text-red-400',
+};
+
+const REVIEW_STATE_LABELS: Record<string, string> = {
+    approved: 'Approved',
+    changes_requested: 'Changes requested',
+    review_required: 'Review required',
+};
+
 export function ComponentDetailPanel({ componentId, onClose }: ComponentDetailPanelProps) {
     const [component, setComponent] = useState<ComponentData | null>(null);
     const [riskMetrics, setRiskMetrics] = useState<RiskMetrics | null>(null);
@@ -76,6 +143,9 @@ export function ComponentDetailPanel({ componentId, onClose }: ComponentDetailPa
     const [discussionCount, setDiscussionCount] = useState(0);
     const [isMobile, setIsMobile] = useState(false);
     const [isAIChatOpen, setIsAIChatOpen] = useState(false);
+    const [isEditingPaths, setIsEditingPaths] = useState(false);
+    const [pathDraft, setPathDraft] = useState('');
+    const [savingPaths, setSavingPaths] = useState(false);
 
     // Detect mobile viewport
     useEffect(() => {
@@ -123,6 +193,36 @@ export function ComponentDetailPanel({ componentId, onClose }: ComponentDetailPa
         fetchComponentDetails();
     }, [componentId]);
 
+    const savePathPatterns = async () => {
+        if (!component) return;
+
+        const pathPatterns = Array.from(new Set(
+            pathDraft.split(/[\n,]/).map((pattern) => pattern.trim()).filter(Boolean)
+        ));
+
+        try {
+            setSavingPaths(true);
+            const response = await fetch(`/api/projects/${component.projectId}/components/${component.componentId}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ pathPatterns }),
+            });
+
+            if (!response.ok) {
+                const data = await response.json();
+                throw new Error(data.error || 'Failed to save owned paths');
+            }
+
+            setComponent({ ...component, pathPatterns });
+            setIsEditingPaths(false);
+            toast.success('Owned paths saved');
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to save owned paths');
+        } finally {
+            setSavingPaths(false);
+        }
+    };
+
     if (loading) {
         const LoadingContent = (
             <div className="flex items-center justify-center h-full min-h-[200px]">
@@ -294,6 +394,126 @@ export function ComponentDetailPanel({ componentId, onClose }: ComponentDetailPa
                 <code className="text-xs bg-gray-100 dark:bg-gray-800 px-2 py-1 rounded">{component.componentId}</code>
             </div>
 
+            {/* Owned Paths */}
+            <div>
+                <div className="flex items-center justify-between mb-1">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Owned Paths</p>
+                    {!isEditingPaths && (
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => {
+                                setPathDraft(component.pathPatterns.join('\n'));
+                                setIsEditingPaths(true);
+                            }}
+                        >
+                            Edit
+                        </Button>
+                    )}
+                </div>
+                {isEditingPaths ? (
+                    <div className="space-y-2">
+                        <textarea
+                            value={pathDraft}
+                            onChange={(e) => setPathDraft(e.target.value)}
+                            placeholder="services/billing/**"
+                            rows={3}
+                            className="w-full text-xs font-mono rounded-md border border-gray-200 dark:border-gray-800 bg-transparent px-2 py-1"
+                        />
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            One glob per line. New commits touching these paths are tagged automatically.
+                        </p>
+                        <div className="flex gap-2">
+                            <Button size="sm" onClick={savePathPatterns} disabled={savingPaths}>
+                                {savingPaths ? 'Saving...' : 'Save'}
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => setIsEditingPaths(false)} disabled={savingPaths}>
+                                Cancel
+                            </Button>
+                        </div>
+                    </div>
+                ) : component.pathPatterns.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No owned paths</p>
+                ) : (
+                    <div className="flex flex-wrap gap-1">
+                        {component.pathPatterns.map((pattern) => (
+                            <code key={pattern} className="text-xs bg-gray-100 dark:bg-gray-800 px-2 py-1 rounded">{pattern}</code>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Dependencies and Data Flows */}
+            <div>
+                <h3 className="text-sm font-semibold mb-3 flex items-center">
+                    <Network className="h-4 w-4 mr-2" />
+                    Relationships ({component.dependencies.outgoing.length + component.dependencies.incoming.length})
+                </h3>
+                {component.dependencies.outgoing.length === 0 && component.dependencies.incoming.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No dependencies or data flows</p>
+                ) : (
+                    <div className="space-y-2">
+                        {[
+                            ...component.dependencies.outgoing.map((r) => ({ ...r, direction: 'outgoing' as const })),
+                            ...component.dependencies.incoming.map((r) => ({ ...r, direction: 'incoming' as const })),
+                        ].map((relationship) => (
+                            <Card key={`${relationship.direction}-${relationship.id}`} className="p-3 min-h-[44px] flex items-center">
+                                <div className="flex items-center gap-2 w-full">
+                                    {relationship.direction === 'outgoing' ? (
+                                        <ArrowRight className="h-4 w-4 text-gray-500 flex-shrink-0" />
+                                    ) : (
+                                        <ArrowLeft className="h-4 w-4 text-gray-500 flex-shrink-0" />
+                                    )}
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm font-medium truncate">{relationship.component.name}</p>
+                                        {(relationship.label || relationship.protocol) && (
+                                            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                                                {[relationship.protocol, relationship.label].filter(Boolean).join(' · ')}
+                                            </p>
+                                        )}
+                                    </div>
+                                    <Badge variant="outline" className="text-xs">
+                                        {relationship.kind === 'DATAFLOW' ? 'Data Flow' : 'Dependency'}
+                                    </Badge>
+                                </div>
+                            </Card>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Open Tasks */}
+            <div>
+                <h3 className="text-sm font-semibold mb-3 flex items-center">
+                    <ListTodo className="h-4 w-4 mr-2" />
+                    Open Tasks ({component.openTasks.length})
+                </h3>
+                {component.openTasks.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No open tasks linked</p>
+                ) : (
+                    <div className="space-y-2">
+                        {component.openTasks.map((task) => (
+                            <Card key={task.id} className="p-3 min-h-[44px] flex items-center">
+                                <div className="w-full">
+                                    <div className="flex items-start justify-between gap-2">
+                                        <p className="text-sm font-medium">{task.title}</p>
+                                        <Flag className={`h-4 w-4 flex-shrink-0 ${PRIORITY_COLORS[task.priority]}`} fill="currentColor" />
+                                    </div>
+                                    <div className="flex justify-between items-center mt-1">
+                                        <Badge variant="outline" className="text-xs">{task.statusName}</Badge>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                                            {task.assignee ? task.assignee.name || task.assignee.email : 'Unassigned'}
+                                            {task.dueDate && ` · due ${new Date(task.dueDate).toLocaleDateString()}`}
+                                        </p>
+                                    </div>
+                                </div>
+                            </Card>
+                        ))}
+                    </div>
+                )}
+            </div>
+
             {/* Linked Decisions */}
             <div>
                 <h3 className="text-sm font-semibold mb-3 flex items-center">
@@ -378,6 +598,53 @@ export function ComponentDetailPanel({ componentId, onClose }: ComponentDetailPa
                 )}
             </div>
 
+            {/* Open Pull Requests */}
+            <div>
+                <h3 className="text-sm font-semibold mb-3 flex items-center">
+                    <GitPullRequest className="h-4 w-4 mr-2" />
+                    In-flight Changes ({component.openPullRequests.length})
+                </h3>
+                {component.openPullRequests.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No open pull requests</p>
+                ) : (
+                    <div className="space-y-2">
+                        {component.openPullRequests.map((pr) => (
+                            <Card
+                                key={pr.number}
+                                className="p-3 hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer min-h-[44px] flex items-center"
+                                onClick={() => window.open(pr.url, '_blank')}
+                            >
+                                <div className="w-full">
+                                    <p className="text-sm font-medium truncate">#{pr.number} {pr.title}</p>
+                                    <div className="flex justify-between items-center mt-1">
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">{pr.author}</p>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                                            {new Date(pr.updatedAt).toLocaleDateString()}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-2 mt-1">
+                                        {pr.draft && (
+                                            <Badge variant="outline" className="text-xs">draft</Badge>
+                                        )}
+                                        {pr.reviewState && (
+                                            <Badge
+                                                variant={pr.reviewState === 'changes_requested' ? 'destructive' : 'secondary'}
+                                                className="text-xs"
+                                            >
+                                                {REVIEW_STATE_LABELS[pr.reviewState] ?? pr.reviewState}
+                                            </Badge>
+                                        )}
+                                        {pr.autoDetected && (
+                                            <Badge variant="outline" className="text-xs" title="Tagged from changed files or references">auto</Badge>
+                                        )}
+                                    </div>
+                                </div>
+                            </Card>
+                        ))}
+                    </div>
+                )}
+            </div>
+
             {/* Recent Git Commits */}
             <div>
                 <h3 className="text-sm font-semibold mb-3 flex items-center">
@@ -398,7 +665,60 @@ export function ComponentDetailPanel({ componentId, onClose }: ComponentDetailPa
                                             {new Date(commit.committedAt).toLocaleDateString()}
                                         </p>
                                     </div>
-                                    <code className="text-xs text-gray-400 mt-1 block">{commit.sha.substring(0, 7)}</code>
+                                    <div className="flex items-center gap-2 mt-1">
+                                        <code className="text-xs text-gray-400">{commit.sha.substring(0, 7)}</code>
+                                        {commit.autoDetected && (
+                                            <Badge variant="outline" className="text-xs" title="Tagged from the component's owned paths">auto</Badge>
+                                        )}
+                                    </div>
+                                </div>
+                            </Card>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Contributors */}
+            <div>
+                <h3 className="text-sm font-semibold mb-3 flex items-center">
+                    <Users className="h-4 w-4 mr-2" />
+                    Contributors ({component.ownership.contributors.length})
+                    {component.ownership.busFactor !== null && (
+                        <Badge
+                            variant={component.ownership.busFactor <= 1 ? 'destructive' : 'secondary'}
+                            className="ml-auto text-xs"
+                            title="Fewest people who wrote most of the last year's commits"
+                        >
+                            Bus factor {component.ownership.busFactor}
+                        </Badge>
+                    )}
+                </h3>
+                {component.ownership.contributors.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No commits in the last year</p>
+                ) : (
+                    <div className="space-y-2">
+                        {component.ownership.contributors.slice(0, 5).map((contributor) => (
+                            <Card key={contributor.key} className="p-3 min-h-[44px] flex items-center gap-3">
+                                <Avatar className="h-7 w-7">
+                                    {contributor.user?.image && <AvatarImage src={contributor.user.image} alt={contributor.name} />}
+                                    <AvatarFallback className="text-xs">{contributor.name.charAt(0).toUpperCase()}</AvatarFallback>
+                                </Avatar>
+                                <div className="flex-1 min-w-0">
+                                    <div className="flex justify-between items-center">
+                                        <p className="text-sm font-medium truncate" title={contributor.email}>{contributor.name}</p>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                                            {Math.round(contributor.share * 100)}%
+                                        </p>
+                                    </div>
+                                    <div className="flex justify-between items-center mt-1">
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                                            {contributor.commitCount} {contributor.commitCount === 1 ? 'commit' : 'commits'}
+                                            {!contributor.user && ' · not a project member'}
+                                        </p>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                                            {new Date(contributor.lastCommitAt).toLocaleDateString()}
+                                        </p>
+                                    </div>
                                 </div>
                             </Card>
                         ))}
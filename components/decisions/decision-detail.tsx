@@ -233,6 +233,54 @@ export function DecisionDetail({ decisionId, onClose, onEdit }: DecisionDetailPr
                     </Card>
                 )}
 
+                {/* Referencing Commits */}
+                {decision.linkedCommits && decision.linkedCommits.length > 0 && (
+                    <Card className="p-6">
+                        <h2 className="text-lg font-semibold mb-3">Referenced in Commits</h2>
+                        <div className="space-y-2">
+                            {decision.linkedCommits.map((commit) => (
+                                <a
+                                    key={commit.sha}
+                                    href={commit.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="block p-2 bg-gray-50 rounded hover:bg-gray-100"
+                                >
+                                    <p className="text-sm font-medium truncate">{commit.message.split('\n')[0]}</p>
+                                    <p className="text-xs text-gray-500">
+                                        <code>{commit.sha.substring(0, 7)}</code> · {commit.author} ·{' '}
+                                        {new Date(commit.committedAt).toLocaleDateString()}
+                                    </p>
+                                </a>
+                            ))}
+                        </div>
+                    </Card>
+                )}
+
+                {/* Linked Pull Requests */}
+                {decision.linkedPullRequests && decision.linkedPullRequests.length > 0 && (
+                    <Card className="p-6">
+                        <h2 className="text-lg font-semibold mb-3">Pull Requests</h2>
+                        <div className="space-y-2">
+                            {decision.linkedPullRequests.map((pr) => (
+                                <a
+                                    key={pr.number}
+                                    href={pr.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="flex items-center justify-between gap-2 p-2 bg-gray-50 rounded hover:bg-gray-100"
+                                >
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium truncate">#{pr.number} {pr.title}</p>
+                                        <p className="text-xs text-gray-500">{pr.author}</p>
+                                    </div>
+                                    <Badge variant={pr.state === 'open' ? 'secondary' : 'outline'}>{pr.state}</Badge>
+                                </a>
+                            ))}
+                        </div>
+                    </Card>
+                )}
+
                 {/* Tags */}
                 {decision.tags && decision.tags.length > 0 && (
                     <Card className="p-6">
@@ -1,13 +1,14 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { GitCommit, ExternalLink, User, Calendar, Tag, X } from "lucide-react";
+import { GitCommit, ExternalLink, User, Calendar, Tag, X, FileDiff } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { getComponentColorScheme, getComponentTypeLabel } from '@/lib/component-colors';
 import { ComponentType } from '@/types/architecture';
+import { CommitDiffDialog } from "./commit-diff-dialog";
 
 interface CommitCardProps {
     commit: {
@@ -40,6 +41,7 @@ export function CommitCard({ commit, projectId, onExplainCommit }: CommitCardPro
     const [taggedComponents, setTaggedComponents] = useState<ComponentTag[]>([]);
     const [loading, setLoading] = useState(false);
     const [showTagging, setShowTagging] = useState(false);
+    const [showDiff, setShowDiff] = useState(false);
 
     const commitDate = new Date(commit.committedAt);
     const shortSha = commit.sha.substring(0, 7);
@@ -225,15 +227,30 @@ export function CommitCard({ commit, projectId, onExplainCommit }: CommitCardPro
                     )}
 
                     <div className="flex items-center gap-2">
-                        <Button
-                            variant="outline"
-                            size="sm"
-                            className="h-7 text-xs"
-                            onClick={() => window.open(commit.url, "_blank")}
-                        >
-                            <ExternalLink className="w-3 h-3 mr-1" />
-                            View on GitHub
-                        </Button>
+                        {projectId && (
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-7 text-xs"
+                                onClick={() => setShowDiff(true)}
+                            >
+                                <FileDiff className="w-3 h-3 mr-1" />
+                                View Changes
+                            </Button>
+                        )}
+
+                        {/* Commits from local repositories have no web page */}
+                        {commit.url && (
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-7 text-xs"
+                                onClick={() => window.open(commit.url, "_blank")}
+                            >
+                                <ExternalLink className="w-3 h-3 mr-1" />
+                                View on GitHub
+                            </Button>
+                        )}
 
                         {projectId && (
                             <Button
@@ -260,6 +277,15 @@ export function CommitCard({ commit, projectId, onExplainCommit }: CommitCardPro
                     </div>
                 </div>
             </div>
+
+            {projectId && (
+                <CommitDiffDialog
+                    open={showDiff}
+                    onClose={() => setShowDiff(false)}
+                    projectId={projectId}
+                    commit={commit}
+                />
+            )}
         </Card>
     );
 }
@@ -0,0 +1,66 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckSquare } from "lucide-react";
+
+interface CommitClosingSettingsProps {
+    projectId: string;
+    enabled: boolean;
+    onChange: (enabled: boolean) => void;
+}
+
+export function CommitClosingSettings({ projectId, enabled, onChange }: CommitClosingSettingsProps) {
+    const [saving, setSaving] = useState(false);
+
+    const handleToggle = async (checked: boolean) => {
+        try {
+            setSaving(true);
+            const response = await fetch(`/api/projects/${projectId}/github`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ closeTasksFromCommits: checked }),
+            });
+
+            if (!response.ok) {
+                throw new Error("Failed to update repository settings");
+            }
+
+            const data = await response.json();
+            onChange(data.closeTasksFromCommits);
+        } catch (error) {
+            console.error("Error updating repository settings:", error);
+            alert("Failed to update the setting. Please try again.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                    <CheckSquare className="w-4 h-4" />
+                    Closing Tasks from Commits
+                </CardTitle>
+                <CardDescription>
+                    Commits are always linked to the tasks they mention. When this is on, a task referenced
+                    after &quot;closes&quot;, &quot;fixes&quot; or &quot;resolves&quot; in a commit that reaches the default
+                    branch also moves to the first done column, unless open tasks still block it. Commits made
+                    before turning this on never move tasks.
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+                <label className="flex items-center gap-2 text-sm">
+                    <input
+                        type="checkbox"
+                        checked={enabled}
+                        onChange={(e) => handleToggle(e.target.checked)}
+                        disabled={saving}
+                    />
+                    Move closed tasks to done
+                </label>
+            </CardContent>
+        </Card>
+    );
+}
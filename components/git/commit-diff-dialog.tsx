@@ -0,0 +1,216 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
+import { oneLight } from "react-syntax-highlighter/dist/esm/styles/prism";
+import { ChevronDown, ChevronRight, FileCode, Loader2, Tag } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { parseHunks, type DiffLine } from "@/lib/diff";
+import type { CommitFileChange } from "@/lib/commit-diff";
+
+interface CommitDiffDialogProps {
+    open: boolean;
+    onClose: () => void;
+    projectId: string;
+    commit: {
+        sha: string;
+        message: string;
+    };
+}
+
+// Prism language names by file extension
+const LANGUAGES: Record<string, string> = {
+    ts: "typescript",
+    tsx: "tsx",
+    js: "javascript",
+    jsx: "jsx",
+    mjs: "javascript",
+    cjs: "javascript",
+    json: "json",
+    py: "python",
+    go: "go",
+    rs: "rust",
+    java: "java",
+    kt: "kotlin",
+    rb: "ruby",
+    php: "php",
+    cs: "csharp",
+    css: "css",
+    scss: "scss",
+    html: "markup",
+    xml: "markup",
+    md: "markdown",
+    yml: "yaml",
+    yaml: "yaml",
+    sh: "bash",
+    sql: "sql",
+};
+
+const STATUS_BADGES: Record<CommitFileChange["status"], string> = {
+    added: "bg-green-100 text-green-800 border-green-300",
+    modified: "bg-blue-100 text-blue-800 border-blue-300",
+    removed: "bg-red-100 text-red-800 border-red-300",
+    renamed: "bg-yellow-100 text-yellow-800 border-yellow-300",
+};
+
+const LINE_BACKGROUNDS: Record<DiffLine["type"], string> = {
+    add: "#e6ffec",
+    delete: "#ffebe9",
+    context: "transparent",
+};
+
+const LINE_MARKERS: Record<DiffLine["type"], string> = {
+    add: "+",
+    delete: "-",
+    context: " ",
+};
+
+function languageFor(path: string) {
+    const extension = path.split(".").pop()?.toLowerCase() ?? "";
+    return LANGUAGES[extension] ?? "text";
+}
+
+/**
+ * Gutter text for a diff line: old and new line numbers, then the +/- marker
+ */
+function gutter(line: DiffLine) {
+    return `${String(line.oldLine ?? "").padStart(5)} ${String(line.newLine ?? "").padStart(5)} ${LINE_MARKERS[line.type]} `;
+}
+
+function FileDiff({ file, projectId }: { file: CommitFileChange; projectId: string }) {
+    const [expanded, setExpanded] = useState(true);
+    const hunks = file.patch ? parseHunks(file.patch) : [];
+
+    return (
+        <div className="border rounded-md overflow-hidden">
+            <div className="flex items-center gap-2 px-3 py-2 bg-muted/50 border-b text-xs">
+                <button
+                    type="button"
+                    onClick={() => setExpanded(!expanded)}
+                    className="flex items-center gap-2 min-w-0 flex-1 text-left"
+                    aria-label={expanded ? "Collapse file" : "Expand file"}
+                >
+                    {expanded ? <ChevronDown className="w-3 h-3 shrink-0" /> : <ChevronRight className="w-3 h-3 shrink-0" />}
+                    <FileCode className="w-3 h-3 shrink-0" />
+                    <span className="font-mono truncate">
+                        {file.previousPath && `${file.previousPath} → `}
+                        {file.path}
+                    </span>
+                </button>
+                <Badge variant="outline" className={`text-xs ${STATUS_BADGES[file.status]}`}>
+                    {file.status}
+                </Badge>
+                <span className="text-green-700 font-mono">+{file.additions}</span>
+                <span className="text-red-700 font-mono">-{file.deletions}</span>
+            </div>
+
+            {file.components.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1 px-3 py-1.5 border-b text-xs">
+                    <span className="text-muted-foreground">Owned by</span>
+                    {file.components.map((component) => (
+                        <Link key={component.id} href={`/projects/${projectId}/canvas?component=${component.id}`}>
+                            <Badge variant="secondary" className="text-xs flex items-center gap-1 hover:bg-secondary/70">
+                                <Tag className="w-3 h-3" />
+                                {component.name}
+                            </Badge>
+                        </Link>
+                    ))}
+                </div>
+            )}
+
+            {expanded && (
+                file.patch ? (
+                    hunks.map((hunk, index) => (
+                        <div key={index} className="text-xs">
+                            <div className="px-3 py-1 bg-blue-50 text-blue-800 font-mono">{hunk.header}</div>
+                            <SyntaxHighlighter
+                                language={languageFor(file.path)}
+                                style={oneLight}
+                                PreTag="div"
+                                wrapLines
+                                customStyle={{ margin: 0, padding: 0, background: "transparent", fontSize: "0.75rem" }}
+                                lineProps={(lineNumber: number) => {
+                                    const line = hunk.lines[lineNumber - 1];
+                                    return {
+                                        "data-gutter": line ? gutter(line) : "",
+                                        className: "block whitespace-pre before:content-[attr(data-gutter)] before:text-muted-foreground before:select-none",
+                                        style: { background: line ? LINE_BACKGROUNDS[line.type] : undefined },
+                                    };
+                                }}
+                            >
+                                {hunk.lines.map((line) => line.content).join("\n")}
+                            </SyntaxHighlighter>
+                        </div>
+                    ))
+                ) : (
+                    <p className="px-3 py-4 text-xs text-muted-foreground">
+                        No diff to show: the file is binary or its changes are too large.
+                    </p>
+                )
+            )}
+        </div>
+    );
+}
+
+export function CommitDiffDialog({ open, onClose, projectId, commit }: CommitDiffDialogProps) {
+    const [files, setFiles] = useState<CommitFileChange[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!open || files) {
+            return;
+        }
+
+        const fetchDiff = async () => {
+            try {
+                setError(null);
+                const response = await fetch(`/api/projects/${projectId}/github/commits/${commit.sha}/diff`);
+                const data = await response.json();
+
+                if (!response.ok) {
+                    throw new Error(data?.error || "Failed to load diff");
+                }
+
+                setFiles(data.files);
+            } catch (error) {
+                console.error("Error fetching commit diff:", error);
+                setError(error instanceof Error ? error.message : "Failed to load diff");
+            }
+        };
+
+        fetchDiff();
+    }, [open, projectId, commit.sha]);
+
+    const additions = files?.reduce((sum, file) => sum + file.additions, 0) ?? 0;
+    const deletions = files?.reduce((sum, file) => sum + file.deletions, 0) ?? 0;
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+            <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+                <DialogHeader>
+                    <DialogTitle className="text-base">{commit.message.split("\n")[0]}</DialogTitle>
+                    <DialogDescription className="font-mono text-xs">
+                        {commit.sha.substring(0, 7)}
+                        {files && ` · ${files.length} files changed · +${additions} -${deletions}`}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex-1 overflow-y-auto space-y-3">
+                    {error ? (
+                        <p className="text-sm text-destructive">{error}</p>
+                    ) : !files ? (
+                        <div className="flex items-center justify-center py-12">
+                            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+                        </div>
+                    ) : (
+                        files.map((file) => (
+                            <FileDiff key={`${file.previousPath}:${file.path}`} file={file} projectId={projectId} />
+                        ))
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
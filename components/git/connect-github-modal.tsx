@@ -5,8 +5,10 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader2, Search, Github } from "lucide-react";
 import { useSession } from "next-auth/react";
+import type { GitProviderType } from "@/types/git";
 
 interface Repository {
     id: string;
@@ -18,6 +20,13 @@ interface Repository {
     url: string;
 }
 
+const PROVIDERS: Array<{ value: GitProviderType; label: string; urlPlaceholder: string }> = [
+    { value: "GITHUB", label: "GitHub", urlPlaceholder: "" },
+    { value: "GITLAB", label: "GitLab", urlPlaceholder: "https://gitlab.com" },
+    { value: "GITEA", label: "Gitea", urlPlaceholder: "https://gitea.example.com" },
+    { value: "LOCAL", label: "Local repository", urlPlaceholder: "" },
+];
+
 interface ConnectGitHubModalProps {
     open: boolean;
     onClose(): void;
@@ -37,6 +46,14 @@ export function ConnectGitHubModal({
     const [connecting, setConnecting] = useState(false);
     const [searchQuery, setSearchQuery] = useState("");
     const [selectedRepo, setSelectedRepo] = useState<Repository | null>(null);
+    const [provider, setProvider] = useState<GitProviderType>("GITHUB");
+    const [baseUrl, setBaseUrl] = useState("");
+    const [accessToken, setAccessToken] = useState("");
+
+    // GitLab and Gitea connect with a personal access token instead of GitHub sign-in
+    const usesAccessToken = provider === "GITLAB" || provider === "GITEA";
+    const isLocal = provider === "LOCAL";
+    const providerConfig = PROVIDERS.find((p) => p.value === provider)!;
 
     const fetchRepositories = async () => {
         try {
@@ -66,8 +83,58 @@ export function ConnectGitHubModal({
         }
     };
 
+    const fetchTokenRepositories = async () => {
+        try {
+            setLoading(true);
+            setRepositories([]);
+            const response = await fetch("/api/github/repositories", {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    provider,
+                    baseUrl: baseUrl || undefined,
+                    accessToken,
+                    page: 1,
+                    perPage: 50,
+                }),
+            });
+
+            const data = await response.json().catch(() => null);
+
+            if (!response.ok) {
+                alert(data?.error || "Failed to fetch repositories");
+                return;
+            }
+
+            setRepositories(data.repositories);
+        } catch (error) {
+            console.error("Error fetching repositories:", error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleProviderChange = (value: string) => {
+        setProvider(value as GitProviderType);
+        setRepositories([]);
+        setSelectedRepo(null);
+        if (value === "GITHUB" && session?.githubAccessToken) {
+            fetchRepositories();
+        }
+    };
+
+    // Local repositories are discovered under the server's LOCAL_GIT_ROOTS
+    useEffect(() => {
+        if (open && isLocal) {
+            fetchTokenRepositories();
+        }
+    }, [open, isLocal]);
+
     const handleConnect = async () => {
-        if (!selectedRepo || !session?.githubAccessToken) {
+        const token = usesAccessToken ? accessToken : session?.githubAccessToken;
+        if (!selectedRepo || (!token && !isLocal)) {
             return;
         }
 
@@ -79,11 +146,15 @@ export function ConnectGitHubModal({
                     "Content-Type": "application/json",
                 },
                 body: JSON.stringify({
+                    provider,
+                    ...(usesAccessToken && baseUrl && { baseUrl }),
+                    // A local repository is located by its path
+                    ...(isLocal && { baseUrl: selectedRepo.fullName }),
                     githubRepoId: selectedRepo.id,
                     owner: selectedRepo.owner,
                     name: selectedRepo.name,
                     fullName: selectedRepo.fullName,
-                    accessToken: session.githubAccessToken,
+                    accessToken: isLocal ? undefined : token,
                 }),
             });
 
@@ -108,7 +179,7 @@ export function ConnectGitHubModal({
     };
 
     useEffect(() => {
-        if (open) {
+        if (open && provider === "GITHUB") {
             fetchRepositories();
         }
     }, [open]);
@@ -123,10 +194,74 @@ export function ConnectGitHubModal({
         <Dialog open={open} onOpenChange={onClose}>
             <DialogContent className="max-w-2xl max-h-[80vh] overflow-hidden flex flex-col">
                 <DialogHeader>
-                    <DialogTitle>Connect GitHub Repository</DialogTitle>
+                    <DialogTitle>Connect {providerConfig.label} Repository</DialogTitle>
                 </DialogHeader>
 
-                {!session?.githubAccessToken ? (
+                <div className="space-y-4 mb-4">
+                    <div>
+                        <Label htmlFor="provider">Provider</Label>
+                        <Select value={provider} onValueChange={handleProviderChange}>
+                            <SelectTrigger id="provider">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {PROVIDERS.map((p) => (
+                                    <SelectItem key={p.value} value={p.value}>
+                                        {p.label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    {usesAccessToken && (
+                        <>
+                            <div>
+                                <Label htmlFor="base-url">Instance URL</Label>
+                                <Input
+                                    id="base-url"
+                                    type="url"
+                                    placeholder={providerConfig.urlPlaceholder}
+                                    value={baseUrl}
+                                    onChange={(e) => setBaseUrl(e.target.value)}
+                                />
+                                {provider === "GITLAB" && (
+                                    <p className="text-xs text-muted-foreground mt-1">
+                                        Leave empty for gitlab.com.
+                                    </p>
+                                )}
+                            </div>
+                            <div>
+                                <Label htmlFor="access-token">Personal Access Token</Label>
+                                <div className="flex gap-2">
+                                    <Input
+                                        id="access-token"
+                                        type="password"
+                                        placeholder={provider === "GITLAB" ? "read_api scope" : "read:repository scope"}
+                                        value={accessToken}
+                                        onChange={(e) => setAccessToken(e.target.value)}
+                                    />
+                                    <Button
+                                        variant="outline"
+                                        onClick={fetchTokenRepositories}
+                                        disabled={!accessToken || (provider === "GITEA" && !baseUrl) || loading}
+                                    >
+                                        Load Repositories
+                                    </Button>
+                                </div>
+                            </div>
+                        </>
+                    )}
+
+                    {isLocal && (
+                        <p className="text-xs text-muted-foreground">
+                            Repositories in the directories configured by the server&apos;s LOCAL_GIT_ROOTS.
+                            They are read directly from disk, so pull requests are not available.
+                        </p>
+                    )}
+                </div>
+
+                {provider === "GITHUB" && !session?.githubAccessToken ? (
                     <div className="py-8 text-center">
                         <Github className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
                         <p className="text-muted-foreground mb-4">
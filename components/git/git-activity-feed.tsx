@@ -2,10 +2,12 @@
 
 import { useState, useEffect } from "react";
 import { CommitCard } from "./commit-card";
+import { PullRequestCard, type StoredPullRequest } from "./pull-request-card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Search, RefreshCw, GitBranch, GitPullRequest, Loader2, ExternalLink } from "lucide-react";
+import { Search, RefreshCw, GitBranch, GitPullRequest, Loader2 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 interface GitCommit {
     sha: string;
@@ -22,26 +24,27 @@ interface GitBranch {
     protected: boolean;
 }
 
-interface GitPullRequest {
-    number: number;
-    title: string;
-    state: string;
-    author: string;
-    createdAt: Date | string;
-    updatedAt: Date | string;
-    url: string;
-    merged: boolean;
+interface SyncedBranch {
+    name: string;
+    backfilling: boolean;
+    lastSyncedAt: Date | string | null;
 }
 
+const ALL_BRANCHES = "__all__";
+
+const PULL_REQUEST_STATES = ["all", "open", "merged", "closed"] as const;
+
 interface GitActivityFeedProps {
     projectId: string;
     onExplainCommit?: (sha: string) => void;
+    onSynced?: () => void; // After every manual sync, failed ones included
 }
 
-export function GitActivityFeed({ projectId, onExplainCommit }: GitActivityFeedProps) {
+export function GitActivityFeed({ projectId, onExplainCommit, onSynced }: GitActivityFeedProps) {
     const [commits, setCommits] = useState<GitCommit[]>([]);
     const [branches, setBranches] = useState<GitBranch[]>([]);
-    const [pullRequests, setPullRequests] = useState<GitPullRequest[]>([]);
+    const [pullRequests, setPullRequests] = useState<StoredPullRequest[]>([]);
+    const [pullRequestState, setPullRequestState] = useState<string>("all");
     const [loading, setLoading] = useState(true);
     const [syncing, setSyncing] = useState(false);
     const [needsReconnect, setNeedsReconnect] = useState(false);
@@ -50,14 +53,17 @@ export function GitActivityFeed({ projectId, onExplainCommit }: GitActivityFeedP
     const [activeTab, setActiveTab] = useState<"commits" | "branches" | "pulls">("commits");
     const [page, setPage] = useState(1);
     const [hasMore, setHasMore] = useState(false);
+    const [syncedBranches, setSyncedBranches] = useState<SyncedBranch[]>([]);
+    const [branchFilter, setBranchFilter] = useState(ALL_BRANCHES);
 
-    const fetchCommits = async (searchTerm = "", pageNum = 1) => {
+    const fetchCommits = async (searchTerm = "", pageNum = 1, branch = branchFilter) => {
         try {
             setLoading(true);
             const params = new URLSearchParams({
                 page: pageNum.toString(),
                 perPage: "30",
                 ...(searchTerm && { search: searchTerm }),
+                ...(branch !== ALL_BRANCHES && { branch }),
             });
 
             const response = await fetch(
@@ -79,6 +85,7 @@ export function GitActivityFeed({ projectId, onExplainCommit }: GitActivityFeedP
             }
 
             setCommits(data.commits);
+            setSyncedBranches(data.branches || []);
             setHasMore(data.pagination.hasMore);
         } catch (error) {
             console.error("Error fetching commits:", error);
@@ -107,11 +114,11 @@ export function GitActivityFeed({ projectId, onExplainCommit }: GitActivityFeedP
         }
     };
 
-    const fetchPullRequests = async () => {
+    const fetchPullRequests = async (state = pullRequestState) => {
         try {
             setLoading(true);
             const response = await fetch(
-                `/api/projects/${projectId}/github/pulls?page=1&perPage=30&state=all`
+                `/api/projects/${projectId}/github/pulls?page=1&perPage=30&state=${state}`
             );
 
             if (!response.ok) {
@@ -127,12 +134,13 @@ export function GitActivityFeed({ projectId, onExplainCommit }: GitActivityFeedP
         }
     };
 
-    const handleSync = async () => {
+    const handleSync = async (backfill = false) => {
         try {
             setSyncing(true);
-            const response = await fetch(`/api/projects/${projectId}/github/sync`, {
-                method: "POST",
-            });
+            const response = await fetch(
+                `/api/projects/${projectId}/github/sync${backfill ? "?backfill=true" : ""}`,
+                { method: "POST" }
+            );
 
             const data = await response.json();
             if (!response.ok) {
@@ -150,11 +158,14 @@ export function GitActivityFeed({ projectId, onExplainCommit }: GitActivityFeedP
             // Refresh commits after sync
             if (activeTab === "commits") {
                 await fetchCommits(searchQuery, page);
+            } else if (activeTab === "pulls") {
+                await fetchPullRequests();
             }
         } catch (error) {
             console.error("Error syncing repository:", error);
         } finally {
             setSyncing(false);
+            onSynced?.();
         }
     };
 
@@ -229,24 +240,62 @@ export function GitActivityFeed({ projectId, onExplainCommit }: GitActivityFeedP
                     </Button>
                 </div>
 
-                <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={handleSync}
-                    disabled={syncing}
-                >
-                    {syncing ? (
-                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    ) : (
-                        <RefreshCw className="w-4 h-4 mr-2" />
-                    )}
-                    Sync Now
-                </Button>
+                <div className="flex items-center gap-2">
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                            if (confirm("Re-import the full history of every branch? Large repositories are backfilled over several syncs.")) {
+                                handleSync(true);
+                            }
+                        }}
+                        disabled={syncing}
+                    >
+                        Backfill History
+                    </Button>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleSync()}
+                        disabled={syncing}
+                    >
+                        {syncing ? (
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : (
+                            <RefreshCw className="w-4 h-4 mr-2" />
+                        )}
+                        Sync Now
+                    </Button>
+                </div>
             </div>
 
             {/* Search bar for commits */}
             {activeTab === "commits" && (
                 <form onSubmit={handleSearch} className="flex gap-2">
+                    {syncedBranches.length > 0 && (
+                        <Select
+                            value={branchFilter}
+                            onValueChange={(value) => {
+                                setBranchFilter(value);
+                                setPage(1);
+                                fetchCommits(searchQuery, 1, value);
+                            }}
+                        >
+                            <SelectTrigger className="w-48">
+                                <GitBranch className="w-4 h-4 mr-2 text-muted-foreground" />
+                                <SelectValue placeholder="All branches" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL_BRANCHES}>All branches</SelectItem>
+                                {syncedBranches.map((branch) => (
+                                    <SelectItem key={branch.name} value={branch.name}>
+                                        {branch.name}
+                                        {branch.backfilling && " (backfilling)"}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    )}
                     <div className="relative flex-1">
                         <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
                         <Input
@@ -338,52 +387,36 @@ export function GitActivityFeed({ projectId, onExplainCommit }: GitActivityFeedP
 
                     {activeTab === "pulls" && (
                         <div className="space-y-2">
+                            <Select
+                                value={pullRequestState}
+                                onValueChange={(value) => {
+                                    setPullRequestState(value);
+                                    fetchPullRequests(value);
+                                }}
+                            >
+                                <SelectTrigger className="w-40">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {PULL_REQUEST_STATES.map((state) => (
+                                        <SelectItem key={state} value={state} className="capitalize">
+                                            {state}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
                             {pullRequests.length === 0 ? (
                                 <div className="text-center py-12 text-muted-foreground">
                                     No pull requests found.
                                 </div>
                             ) : (
                                 pullRequests.map((pr) => (
-                                    <div
+                                    <PullRequestCard
                                         key={pr.number}
-                                        className="p-4 border rounded-lg hover:bg-accent/50 transition-colors"
-                                    >
-                                        <div className="flex items-start justify-between gap-4">
-                                            <div className="flex-1">
-                                                <div className="flex items-center gap-2 mb-2">
-                                                    <GitPullRequest className="w-4 h-4 text-muted-foreground" />
-                                                    <span className="font-medium">#{pr.number}</span>
-                                                    <span>{pr.title}</span>
-                                                </div>
-                                                <div className="flex items-center gap-3 text-xs text-muted-foreground">
-                                                    <span>by {pr.author}</span>
-                                                    <span>
-                                                        {new Date(pr.updatedAt).toLocaleDateString()}
-                                                    </span>
-                                                </div>
-                                            </div>
-                                            <div className="flex items-center gap-2">
-                                                <Badge
-                                                    variant={
-                                                        pr.merged
-                                                            ? "default"
-                                                            : pr.state === "open"
-                                                                ? "secondary"
-                                                                : "outline"
-                                                    }
-                                                >
-                                                    {pr.merged ? "Merged" : pr.state}
-                                                </Badge>
-                                                <Button
-                                                    variant="ghost"
-                                                    size="sm"
-                                                    onClick={() => window.open(pr.url, "_blank")}
-                                                >
-                                                    <ExternalLink className="w-4 h-4" />
-                                                </Button>
-                                            </div>
-                                        </div>
-                                    </div>
+                                        pullRequest={pr}
+                                        projectId={projectId}
+                                        onTagsChanged={() => fetchPullRequests()}
+                                    />
                                 ))
                             )}
                         </div>
@@ -0,0 +1,227 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { GitPullRequest, ExternalLink, Tag, X, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getComponentColorScheme, getComponentTypeLabel } from '@/lib/component-colors';
+import { ComponentType } from '@/types/architecture';
+
+export interface StoredPullRequest {
+    number: number;
+    title: string;
+    state: string;
+    draft: boolean;
+    author: string;
+    updatedAt: Date | string;
+    url: string;
+    merged: boolean;
+    headBranch: string;
+    baseBranch: string;
+    reviewState: string | null;
+    reviewers: Array<{ login: string; state: string }>;
+    changedFilesCount: number;
+    commitCount: number;
+    components: Array<{ id: string; name: string; autoDetected: boolean }>;
+    decisions: Array<{ id: string; title: string }>;
+}
+
+interface PullRequestCardProps {
+    pullRequest: StoredPullRequest;
+    projectId: string;
+    onTagsChanged: () => void;
+}
+
+interface Component {
+    id: string;
+    componentId: string;
+    name: string;
+    type: ComponentType;
+}
+
+const REVIEW_STATE_LABELS: Record<string, string> = {
+    approved: "Approved",
+    changes_requested: "Changes requested",
+    review_required: "Review required",
+};
+
+export function PullRequestCard({ pullRequest: pr, projectId, onTagsChanged }: PullRequestCardProps) {
+    const [components, setComponents] = useState<Component[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [showTagging, setShowTagging] = useState(false);
+
+    useEffect(() => {
+        if (showTagging) {
+            fetchComponents();
+        }
+    }, [showTagging]);
+
+    const fetchComponents = async () => {
+        try {
+            const response = await fetch(`/api/projects/${projectId}/components-list`);
+            if (response.ok) {
+                const data = await response.json();
+                setComponents(data.components);
+            }
+        } catch (error) {
+            console.error('Error fetching components:', error);
+        }
+    };
+
+    const updateTag = async (method: "POST" | "DELETE", body: { componentId?: string; decisionId?: string }) => {
+        try {
+            setLoading(true);
+            const response = await fetch(`/api/projects/${projectId}/github/pulls/${pr.number}/tag`, {
+                method,
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(body),
+            });
+
+            if (response.ok) {
+                setShowTagging(false);
+                onTagsChanged();
+            } else {
+                console.error('Failed to update pull request tag');
+            }
+        } catch (error) {
+            console.error('Error updating pull request tag:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="p-4 border rounded-lg hover:bg-accent/50 transition-colors">
+            <div className="flex items-start justify-between gap-4">
+                <div className="flex-1">
+                    <div className="flex items-center gap-2 mb-2">
+                        <GitPullRequest className="w-4 h-4 text-muted-foreground" />
+                        <span className="font-medium">#{pr.number}</span>
+                        <span>{pr.title}</span>
+                    </div>
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                        <span>by {pr.author}</span>
+                        <span className="font-mono">{pr.headBranch} → {pr.baseBranch}</span>
+                        <span>{pr.commitCount} commits, {pr.changedFilesCount} files</span>
+                        <span>
+                            {new Date(pr.updatedAt).toLocaleDateString()}
+                        </span>
+                    </div>
+                    {pr.reviewers.length > 0 && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                            Reviewers: {pr.reviewers.map((r) => `${r.login} (${r.state.replace("_", " ")})`).join(", ")}
+                        </div>
+                    )}
+                </div>
+                <div className="flex items-center gap-2">
+                    {pr.draft && <Badge variant="outline">Draft</Badge>}
+                    {pr.state === "open" && pr.reviewState && (
+                        <Badge variant={pr.reviewState === "changes_requested" ? "destructive" : "secondary"}>
+                            {REVIEW_STATE_LABELS[pr.reviewState] ?? pr.reviewState}
+                        </Badge>
+                    )}
+                    <Badge
+                        variant={
+                            pr.merged
+                                ? "default"
+                                : pr.state === "open"
+                                    ? "secondary"
+                                    : "outline"
+                        }
+                    >
+                        {pr.merged ? "Merged" : pr.state}
+                    </Badge>
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => window.open(pr.url, "_blank")}
+                    >
+                        <ExternalLink className="w-4 h-4" />
+                    </Button>
+                </div>
+            </div>
+
+            {(pr.components.length > 0 || pr.decisions.length > 0) && (
+                <div className="flex flex-wrap gap-1 mt-3">
+                    {pr.components.map((component) => (
+                        <Badge
+                            key={component.id}
+                            variant="outline"
+                            className="text-xs flex items-center gap-1"
+                            title={component.autoDetected ? "Tagged from changed files or references" : undefined}
+                        >
+                            <Tag className="w-3 h-3" />
+                            {component.name}
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-4 w-4 p-0 hover:bg-destructive hover:text-destructive-foreground"
+                                onClick={() => updateTag("DELETE", { componentId: component.id })}
+                                disabled={loading}
+                            >
+                                <X className="w-3 h-3" />
+                            </Button>
+                        </Badge>
+                    ))}
+                    {pr.decisions.map((decision) => (
+                        <Badge key={decision.id} variant="outline" className="text-xs flex items-center gap-1">
+                            <FileText className="w-3 h-3" />
+                            {decision.title}
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-4 w-4 p-0 hover:bg-destructive hover:text-destructive-foreground"
+                                onClick={() => updateTag("DELETE", { decisionId: decision.id })}
+                                disabled={loading}
+                            >
+                                <X className="w-3 h-3" />
+                            </Button>
+                        </Badge>
+                    ))}
+                </div>
+            )}
+
+            {showTagging && (
+                <div className="mt-3">
+                    <Select onValueChange={(componentId) => updateTag("POST", { componentId })} disabled={loading}>
+                        <SelectTrigger className="h-8 text-xs">
+                            <SelectValue placeholder="Select component to tag..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {components
+                                .filter((comp) => !pr.components.some((tagged) => tagged.id === comp.id))
+                                .map((component) => {
+                                    const colorScheme = getComponentColorScheme(component.type);
+                                    return (
+                                        <SelectItem key={component.id} value={component.id}>
+                                            <div className="flex items-center gap-2">
+                                                <Badge variant="outline" className={`text-xs ${colorScheme.badgeClass}`}>
+                                                    {getComponentTypeLabel(component.type)}
+                                                </Badge>
+                                                {component.name}
+                                            </div>
+                                        </SelectItem>
+                                    );
+                                })}
+                        </SelectContent>
+                    </Select>
+                </div>
+            )}
+
+            <div className="mt-2">
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => setShowTagging(!showTagging)}
+                >
+                    <Tag className="w-3 h-3 mr-1" />
+                    {showTagging ? 'Cancel' : 'Tag Component'}
+                </Button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertCircle, RefreshCw } from "lucide-react";
+
+export type GitSyncStatus = "IDLE" | "SYNCING" | "SUCCEEDED" | "FAILED" | "RATE_LIMITED";
+
+export interface RepositorySyncState {
+    syncStatus: GitSyncStatus;
+    lastSyncedAt: string | null;
+    lastSyncError: string | null;
+    lastSyncErrorAt: string | null;
+    nextSyncAt: string | null;
+}
+
+const STATUS_BADGES: Record<GitSyncStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+    IDLE: { label: "Not synced yet", variant: "outline" },
+    SYNCING: { label: "Syncing", variant: "secondary" },
+    SUCCEEDED: { label: "Up to date", variant: "secondary" },
+    FAILED: { label: "Failing", variant: "destructive" },
+    RATE_LIMITED: { label: "Rate limited", variant: "outline" },
+};
+
+function formatTime(value: string | null) {
+    return value ? new Date(value).toLocaleString() : "Never";
+}
+
+interface SyncStatusCardProps {
+    repository: RepositorySyncState;
+}
+
+export function SyncStatusCard({ repository }: SyncStatusCardProps) {
+    const badge = STATUS_BADGES[repository.syncStatus];
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                    <RefreshCw className="w-4 h-4" />
+                    Sync
+                    <Badge variant={badge.variant} className="text-xs">{badge.label}</Badge>
+                </CardTitle>
+                <CardDescription>
+                    Repositories are polled in the background. Failures are retried with increasing delays, and syncing pauses while the API rate limit is nearly spent.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div>
+                        <p className="text-xs text-muted-foreground">Last success</p>
+                        <p>{formatTime(repository.lastSyncedAt)}</p>
+                    </div>
+                    <div>
+                        <p className="text-xs text-muted-foreground">Last error</p>
+                        <p>{formatTime(repository.lastSyncErrorAt)}</p>
+                    </div>
+                    <div>
+                        <p className="text-xs text-muted-foreground">Next attempt</p>
+                        <p>{repository.nextSyncAt ? formatTime(repository.nextSyncAt) : "On schedule"}</p>
+                    </div>
+                </div>
+                {repository.lastSyncError && (
+                    <div className="flex items-start gap-2 rounded bg-muted px-3 py-2 text-xs">
+                        <AlertCircle className="w-4 h-4 shrink-0 text-destructive" />
+                        <span className="break-all">{repository.lastSyncError}</span>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
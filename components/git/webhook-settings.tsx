@@ -0,0 +1,171 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Copy, Loader2, Webhook } from "lucide-react";
+
+interface WebhookSettingsProps {
+    projectId: string;
+}
+
+interface WebhookConfig {
+    supported?: boolean;
+    enabled: boolean;
+    url: string;
+    lastWebhookAt: string | null;
+    secret?: string;
+    events?: string[];
+}
+
+export function WebhookSettings({ projectId }: WebhookSettingsProps) {
+    const [config, setConfig] = useState<WebhookConfig | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    const fetchConfig = async () => {
+        try {
+            const response = await fetch(`/api/projects/${projectId}/github/webhook`);
+            if (response.ok) {
+                setConfig(await response.json());
+            }
+        } catch (error) {
+            console.error("Error fetching webhook configuration:", error);
+        }
+    };
+
+    useEffect(() => {
+        fetchConfig();
+    }, [projectId]);
+
+    const handleEnable = async () => {
+        if (config?.enabled && !confirm("Generate a new secret? The current one will stop working.")) {
+            return;
+        }
+
+        try {
+            setSaving(true);
+            const response = await fetch(`/api/projects/${projectId}/github/webhook`, {
+                method: "POST",
+            });
+
+            if (!response.ok) {
+                throw new Error("Failed to enable webhook");
+            }
+
+            setConfig({ ...(await response.json()), lastWebhookAt: config?.lastWebhookAt ?? null });
+        } catch (error) {
+            console.error("Error enabling webhook:", error);
+            alert("Failed to enable webhook. Please try again.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDisable = async () => {
+        if (!confirm("Disable the webhook? Commits will be picked up by polling every 5 minutes instead.")) {
+            return;
+        }
+
+        try {
+            setSaving(true);
+            const response = await fetch(`/api/projects/${projectId}/github/webhook`, {
+                method: "DELETE",
+            });
+
+            if (!response.ok) {
+                throw new Error("Failed to disable webhook");
+            }
+
+            await fetchConfig();
+        } catch (error) {
+            console.error("Error disabling webhook:", error);
+            alert("Failed to disable webhook. Please try again.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (!config || config.supported === false) {
+        return null;
+    }
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-center justify-between">
+                    <div>
+                        <CardTitle className="text-base flex items-center gap-2">
+                            <Webhook className="w-4 h-4" />
+                            Webhook
+                            {config.enabled ? (
+                                <Badge variant="secondary" className="text-xs">Enabled</Badge>
+                            ) : (
+                                <Badge variant="outline" className="text-xs">Polling</Badge>
+                            )}
+                        </CardTitle>
+                        <CardDescription>
+                            Receive pushes, pull requests and branch events instantly. Polling keeps running hourly as a fallback.
+                        </CardDescription>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        {config.enabled && (
+                            <Button variant="outline" size="sm" onClick={handleDisable} disabled={saving}>
+                                Disable
+                            </Button>
+                        )}
+                        <Button size="sm" onClick={handleEnable} disabled={saving}>
+                            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                            {config.enabled ? "Rotate Secret" : "Enable Webhook"}
+                        </Button>
+                    </div>
+                </div>
+            </CardHeader>
+            {config.enabled && (
+                <CardContent className="space-y-3 text-sm">
+                    <div>
+                        <p className="text-xs text-muted-foreground mb-1">Payload URL (content type application/json)</p>
+                        <div className="flex items-center gap-2">
+                            <code className="text-xs bg-muted px-2 py-1 rounded break-all">{config.url}</code>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                aria-label="Copy payload URL"
+                                onClick={() => navigator.clipboard.writeText(config.url)}
+                            >
+                                <Copy className="w-4 h-4" />
+                            </Button>
+                        </div>
+                    </div>
+                    {config.secret && (
+                        <div>
+                            <p className="text-xs text-muted-foreground mb-1">
+                                Secret (shown once, paste it into the GitHub webhook settings)
+                            </p>
+                            <div className="flex items-center gap-2">
+                                <code className="text-xs bg-muted px-2 py-1 rounded break-all">{config.secret}</code>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    aria-label="Copy secret"
+                                    onClick={() => navigator.clipboard.writeText(config.secret!)}
+                                >
+                                    <Copy className="w-4 h-4" />
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+                    {config.events && (
+                        <p className="text-xs text-muted-foreground">
+                            Events: {config.events.join(", ")}
+                        </p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                        Last delivery:{" "}
+                        {config.lastWebhookAt ? new Date(config.lastWebhookAt).toLocaleString() : "never"}
+                    </p>
+                </CardContent>
+            )}
+        </Card>
+    );
+}
@@ -1,12 +1,24 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { TaskPriority, TaskStatus, User } from "@/types";
+import { TaskPriority, User } from "@/types";
+import type { WorkflowColumn } from "@/lib/task-workflow";
+
+// Template fields a new task can be prefilled from
+export interface TaskTemplateOption {
+    id: string;
+    name: string;
+    title: string;
+    description: string | null;
+    priority: TaskPriority;
+    assigneeId: string | null;
+    checklist: string[];
+}
 
 interface CreateTaskModalProps {
     open: boolean;
@@ -15,11 +27,18 @@ interface CreateTaskModalProps {
         title: string;
         description?: string;
         priority: TaskPriority;
-        status: TaskStatus;
+        status: string;
         assigneeId?: string;
         dueDate?: string;
+        sprintId?: string;
+        storyPoints?: number;
+        templateId?: string;
     }): Promise<void>;
     teamMembers?: User[];
+    columns: WorkflowColumn[];
+    sprints?: { id: string; name: string }[]; // Sprints that are not closed
+    defaultSprintId?: string; // Sprint the board is showing, new tasks are planned into it
+    templates?: TaskTemplateOption[];
 }
 
 export function CreateTaskModal({
@@ -27,15 +46,47 @@ export function CreateTaskModal({
     onOpenChange,
     onSubmit,
     teamMembers = [],
+    columns,
+    sprints = [],
+    defaultSprintId,
+    templates = [],
 }: CreateTaskModalProps) {
+    // New tasks start in the first column outside the done category
+    const initialStatus = columns.find((column) => !column.isDone)?.key ?? columns[0]?.key ?? "";
+
     const [title, setTitle] = useState("");
     const [description, setDescription] = useState("");
     const [priority, setPriority] = useState<TaskPriority>("MEDIUM");
-    const [status, setStatus] = useState<TaskStatus>("TODO");
+    const [status, setStatus] = useState(initialStatus);
     const [assigneeId, setAssigneeId] = useState<string>("unassigned");
     const [dueDate, setDueDate] = useState("");
+    const [sprintId, setSprintId] = useState<string>("backlog");
+    const [storyPoints, setStoryPoints] = useState("");
+    const [templateId, setTemplateId] = useState<string>("none");
     const [isSubmitting, setIsSubmitting] = useState(false);
 
+    useEffect(() => {
+        if (open) {
+            setStatus(initialStatus);
+            setSprintId(defaultSprintId ?? "backlog");
+        }
+    }, [open, initialStatus, defaultSprintId]);
+
+    const selectedTemplate = templates.find((template) => template.id === templateId);
+
+    const handleTemplateChange = (value: string) => {
+        setTemplateId(value);
+
+        // The template's checklist is copied in by the server
+        const template = templates.find((t) => t.id === value);
+        if (template) {
+            setTitle(template.title);
+            setDescription(template.description ?? "");
+            setPriority(template.priority);
+            setAssigneeId(template.assigneeId ?? "unassigned");
+        }
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!title.trim()) return;
@@ -49,15 +100,19 @@ export function CreateTaskModal({
                 status,
                 assigneeId: assigneeId === "unassigned" ? undefined : assigneeId,
                 dueDate: dueDate || undefined,
+                sprintId: sprintId === "backlog" ? undefined : sprintId,
+                storyPoints: storyPoints === "" ? undefined : Number(storyPoints),
+                templateId: selectedTemplate?.id,
             });
 
             // Reset form
             setTitle("");
             setDescription("");
             setPriority("MEDIUM");
-            setStatus("TODO");
             setAssigneeId("unassigned");
             setDueDate("");
+            setStoryPoints("");
+            setTemplateId("none");
             onOpenChange(false);
         } catch (error) {
             console.error("Failed to create task:", error);
@@ -74,6 +129,30 @@ export function CreateTaskModal({
                 </DialogHeader>
 
                 <form onSubmit={handleSubmit} className="space-y-4">
+                    {templates.length > 0 && (
+                        <div className="space-y-2">
+                            <Label htmlFor="template">Template</Label>
+                            <Select value={templateId} onValueChange={handleTemplateChange}>
+                                <SelectTrigger id="template">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="none">No template</SelectItem>
+                                    {templates.map((template) => (
+                                        <SelectItem key={template.id} value={template.id}>
+                                            {template.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            {selectedTemplate && selectedTemplate.checklist.length > 0 && (
+                                <p className="text-xs text-muted-foreground">
+                                    Adds a checklist of {selectedTemplate.checklist.length} items
+                                </p>
+                            )}
+                        </div>
+                    )}
+
                     <div className="space-y-2">
                         <Label htmlFor="title">Title *</Label>
                         <Input
@@ -113,15 +192,16 @@ export function CreateTaskModal({
 
                         <div className="space-y-2">
                             <Label htmlFor="status">Status</Label>
-                            <Select value={status} onValueChange={(value) => setStatus(value as TaskStatus)}>
+                            <Select value={status} onValueChange={setStatus}>
                                 <SelectTrigger id="status">
                                     <SelectValue />
                                 </SelectTrigger>
                                 <SelectContent>
-                                    <SelectItem value="TODO">To Do</SelectItem>
-                                    <SelectItem value="IN_PROGRESS">In Progress</SelectItem>
-                                    <SelectItem value="UNDER_REVIEW">Under Review</SelectItem>
-                                    <SelectItem value="DONE">Done</SelectItem>
+                                    {columns.map((column) => (
+                                        <SelectItem key={column.key} value={column.key}>
+                                            {column.name}
+                                        </SelectItem>
+                                    ))}
                                 </SelectContent>
                             </Select>
                         </div>
@@ -156,6 +236,38 @@ export function CreateTaskModal({
                         </div>
                     </div>
 
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="sprint">Sprint</Label>
+                            <Select value={sprintId} onValueChange={setSprintId}>
+                                <SelectTrigger id="sprint">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="backlog">Backlog</SelectItem>
+                                    {sprints.map((sprint) => (
+                                        <SelectItem key={sprint.id} value={sprint.id}>
+                                            {sprint.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="storyPoints">Story Points</Label>
+                            <Input
+                                id="storyPoints"
+                                type="number"
+                                min={0}
+                                max={100}
+                                value={storyPoints}
+                                onChange={(e) => setStoryPoints(e.target.value)}
+                                placeholder="Not estimated"
+                            />
+                        </div>
+                    </div>
+
                     <div className="flex justify-end gap-2 pt-4">
                         <Button
                             type="button"
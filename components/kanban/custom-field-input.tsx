@@ -0,0 +1,63 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CustomFieldDefinition } from "@/lib/task-fields";
+import type { User } from "@/types";
+
+interface CustomFieldInputProps {
+    field: CustomFieldDefinition;
+    value: string; // Empty when the field is not set
+    onChange: (value: string) => void;
+    teamMembers: User[]; // Choices of user fields
+    id?: string;
+    className?: string;
+    emptyLabel?: string; // Choice of select and user fields that leaves the field unset
+}
+
+const NONE = "none";
+
+export function CustomFieldInput({
+    field,
+    value,
+    onChange,
+    teamMembers,
+    id,
+    className,
+    emptyLabel = "None",
+}: CustomFieldInputProps) {
+    if (field.type === "SELECT" || field.type === "USER") {
+        const choices =
+            field.type === "SELECT"
+                ? field.options.map((option) => ({ value: option, label: option }))
+                : teamMembers.map((member) => ({ value: member.id, label: member.name || member.email }));
+
+        return (
+            <Select value={value || NONE} onValueChange={(selected) => onChange(selected === NONE ? "" : selected)}>
+                <SelectTrigger id={id} className={className}>
+                    <SelectValue placeholder={emptyLabel} />
+                </SelectTrigger>
+                <SelectContent>
+                    <SelectItem value={NONE}>{emptyLabel}</SelectItem>
+                    {choices.map((choice) => (
+                        <SelectItem key={choice.value} value={choice.value}>
+                            {choice.label}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+        );
+    }
+
+    return (
+        <Input
+            id={id}
+            type={field.type === "NUMBER" ? "number" : field.type === "DATE" ? "date" : "url"}
+            step={field.type === "NUMBER" ? "any" : undefined}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={field.type === "URL" ? "https://" : undefined}
+            className={className}
+        />
+    );
+}
@@ -6,26 +6,49 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Task, TaskPriority, TaskStatus, User } from "@/types";
+import { Badge } from "@/components/ui/badge";
+import { Task, TaskPriority, User } from "@/types";
+import type { WorkflowColumn } from "@/lib/task-workflow";
+import type { CustomFieldDefinition, LabelDefinition } from "@/lib/task-fields";
+import { CustomFieldInput } from "@/components/kanban/custom-field-input";
 import { Trash2 } from "lucide-react";
 
 interface EditTaskModalProps {
     open: boolean;
     onOpenChange(open: boolean): void;
-    task: Task | null;
+    task:
+        | (Task & {
+            taskComponents?: { componentId: string }[];
+            taskDecisions?: { decisionId: string }[];
+            labels?: { labelId: string }[];
+            fieldValues?: { fieldId: string; value: string }[];
+        })
+        | null;
     onSubmit(
         taskId: string,
         data: {
             title?: string;
             description?: string;
             priority?: TaskPriority;
-            status?: TaskStatus;
+            status?: string;
             assigneeId?: string | null;
             dueDate?: string | null;
+            parentId?: string | null;
+            componentIds?: string[];
+            decisionIds?: string[];
+            labelIds?: string[];
+            customFields?: Record<string, string | null>;
+            sprintId?: string | null;
+            storyPoints?: number | null;
         }
     ): Promise<void>;
     onDelete(taskId: string): Promise<void>;
     teamMembers?: User[];
+    columns: WorkflowColumn[];
+    projectTasks?: { id: string; title: string; parentId: string | null }[]; // Candidates for the parent task
+    sprints?: { id: string; name: string; status: string }[];
+    labels?: LabelDefinition[];
+    customFields?: CustomFieldDefinition[];
 }
 
 export function EditTaskModal({
@@ -35,13 +58,27 @@ export function EditTaskModal({
     onSubmit,
     onDelete,
     teamMembers = [],
+    columns,
+    projectTasks = [],
+    sprints = [],
+    labels = [],
+    customFields = [],
 }: EditTaskModalProps) {
     const [title, setTitle] = useState("");
     const [description, setDescription] = useState("");
     const [priority, setPriority] = useState<TaskPriority>("MEDIUM");
-    const [status, setStatus] = useState<TaskStatus>("TODO");
+    const [status, setStatus] = useState("");
     const [assigneeId, setAssigneeId] = useState<string>("unassigned");
     const [dueDate, setDueDate] = useState("");
+    const [parentId, setParentId] = useState<string>("none");
+    const [sprintId, setSprintId] = useState<string>("backlog");
+    const [storyPoints, setStoryPoints] = useState("");
+    const [componentIds, setComponentIds] = useState<string[]>([]);
+    const [decisionIds, setDecisionIds] = useState<string[]>([]);
+    const [labelIds, setLabelIds] = useState<string[]>([]);
+    const [fieldValues, setFieldValues] = useState<Record<string, string>>({});
+    const [components, setComponents] = useState<{ id: string; name: string }[]>([]);
+    const [decisions, setDecisions] = useState<{ id: string; title: string }[]>([]);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [isDeleting, setIsDeleting] = useState(false);
 
@@ -53,13 +90,57 @@ export function EditTaskModal({
             setStatus(task.status);
             setAssigneeId(task.assigneeId || "unassigned");
             setDueDate(task.dueDate ? new Date(task.dueDate).toISOString().split("T")[0] : "");
+            setParentId(task.parentId || "none");
+            setSprintId(task.sprintId || "backlog");
+            setStoryPoints(task.storyPoints != null ? String(task.storyPoints) : "");
+            setComponentIds(task.taskComponents?.map((link) => link.componentId) ?? []);
+            setDecisionIds(task.taskDecisions?.map((link) => link.decisionId) ?? []);
+            setLabelIds(task.labels?.map((label) => label.labelId) ?? []);
+            setFieldValues(Object.fromEntries(task.fieldValues?.map((entry) => [entry.fieldId, entry.value]) ?? []));
         }
     }, [task]);
 
+    // Architecture components and decision records the task can be linked to
+    const projectId = task?.projectId;
+    useEffect(() => {
+        if (!open || !projectId) return;
+
+        let cancelled = false;
+        Promise.all([
+            fetch(`/api/projects/${projectId}/components-list`).then((response) =>
+                response.ok ? response.json() : { components: [] }
+            ),
+            fetch(`/api/projects/${projectId}/decisions`).then((response) => (response.ok ? response.json() : [])),
+        ])
+            .then(([componentData, decisionData]) => {
+                if (cancelled) return;
+                setComponents(componentData.components || []);
+                setDecisions(Array.isArray(decisionData) ? decisionData : []);
+            })
+            .catch((error) => console.error("Failed to fetch link targets:", error));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [open, projectId]);
+
+    const toggle = (ids: string[], id: string) =>
+        ids.includes(id) ? ids.filter((existing) => existing !== id) : [...ids, id];
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!task || !title.trim()) return;
 
+        // Only changed values are sent, so a user field can keep someone who has since left the team
+        const initialValues = new Map(task.fieldValues?.map((entry) => [entry.fieldId, entry.value]));
+        const changedFields: Record<string, string | null> = {};
+        for (const field of customFields) {
+            const value = fieldValues[field.id] ?? "";
+            if (value !== (initialValues.get(field.id) ?? "")) {
+                changedFields[field.id] = value.trim() || null;
+            }
+        }
+
         setIsSubmitting(true);
         try {
             await onSubmit(task.id, {
@@ -69,6 +150,14 @@ export function EditTaskModal({
                 status,
                 assigneeId: assigneeId === "unassigned" ? null : assigneeId,
                 dueDate: dueDate || null,
+                parentId: parentId === "none" ? null : parentId,
+                componentIds,
+                decisionIds,
+                labelIds,
+                customFields: changedFields,
+                // Only sent when changed, so tasks can stay in a sprint that has since closed
+                sprintId: sprintId === (task.sprintId || "backlog") ? undefined : sprintId === "backlog" ? null : sprintId,
+                storyPoints: storyPoints === "" ? null : Number(storyPoints),
             });
 
             onOpenChange(false);
@@ -97,9 +186,23 @@ export function EditTaskModal({
 
     if (!task) return null;
 
+    // A task cannot move under itself or under one of its own subtasks
+    const descendants = new Set([task.id]);
+    let added = true;
+    while (added) {
+        added = false;
+        for (const candidate of projectTasks) {
+            if (candidate.parentId && descendants.has(candidate.parentId) && !descendants.has(candidate.id)) {
+                descendants.add(candidate.id);
+                added = true;
+            }
+        }
+    }
+    const parentCandidates = projectTasks.filter((candidate) => !descendants.has(candidate.id));
+
     return (
         <Dialog open={open} onOpenChange={onOpenChange}>
-            <DialogContent className="sm:max-w-[500px] dark:bg-gray-950 dark:border-gray-800">
+            <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto dark:bg-gray-950 dark:border-gray-800">
                 <DialogHeader>
                     <DialogTitle className="text-foreground">Edit Task</DialogTitle>
                 </DialogHeader>
@@ -144,15 +247,16 @@ export function EditTaskModal({
 
                         <div className="space-y-2">
                             <Label htmlFor="status">Status</Label>
-                            <Select value={status} onValueChange={(value) => setStatus(value as TaskStatus)}>
+                            <Select value={status} onValueChange={setStatus}>
                                 <SelectTrigger id="status">
                                     <SelectValue />
                                 </SelectTrigger>
                                 <SelectContent>
-                                    <SelectItem value="TODO">To Do</SelectItem>
-                                    <SelectItem value="IN_PROGRESS">In Progress</SelectItem>
-                                    <SelectItem value="UNDER_REVIEW">Under Review</SelectItem>
-                                    <SelectItem value="DONE">Done</SelectItem>
+                                    {columns.map((column) => (
+                                        <SelectItem key={column.key} value={column.key}>
+                                            {column.name}
+                                        </SelectItem>
+                                    ))}
                                 </SelectContent>
                             </Select>
                         </div>
@@ -187,6 +291,136 @@ export function EditTaskModal({
                         </div>
                     </div>
 
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="sprint">Sprint</Label>
+                            <Select value={sprintId} onValueChange={setSprintId}>
+                                <SelectTrigger id="sprint">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="backlog">Backlog</SelectItem>
+                                    {sprints
+                                        .filter((sprint) => sprint.status !== "CLOSED" || sprint.id === task?.sprintId)
+                                        .map((sprint) => (
+                                            <SelectItem key={sprint.id} value={sprint.id}>
+                                                {sprint.name}
+                                            </SelectItem>
+                                        ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="storyPoints">Story Points</Label>
+                            <Input
+                                id="storyPoints"
+                                type="number"
+                                min={0}
+                                max={100}
+                                value={storyPoints}
+                                onChange={(e) => setStoryPoints(e.target.value)}
+                                placeholder="Not estimated"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="parent">Parent Task</Label>
+                        <Select value={parentId} onValueChange={setParentId}>
+                            <SelectTrigger id="parent">
+                                <SelectValue placeholder="None" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="none">None</SelectItem>
+                                {parentCandidates.map((candidate) => (
+                                    <SelectItem key={candidate.id} value={candidate.id}>
+                                        {candidate.title}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    {labels.length > 0 && (
+                        <div className="space-y-2">
+                            <Label>Labels</Label>
+                            <div className="flex flex-wrap gap-1.5">
+                                {labels.map((label) => {
+                                    const selected = labelIds.includes(label.id);
+                                    return (
+                                        <Badge
+                                            key={label.id}
+                                            variant="outline"
+                                            className="cursor-pointer"
+                                            style={
+                                                selected
+                                                    ? { backgroundColor: label.color, borderColor: label.color, color: "#fff" }
+                                                    : { borderColor: label.color, color: label.color }
+                                            }
+                                            onClick={() => setLabelIds(toggle(labelIds, label.id))}
+                                        >
+                                            {label.name}
+                                        </Badge>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+
+                    {customFields.length > 0 && (
+                        <div className="grid grid-cols-2 gap-4">
+                            {customFields.map((field) => (
+                                <div key={field.id} className="space-y-2">
+                                    <Label htmlFor={`field-${field.id}`}>{field.name}</Label>
+                                    <CustomFieldInput
+                                        id={`field-${field.id}`}
+                                        field={field}
+                                        value={fieldValues[field.id] ?? ""}
+                                        onChange={(value) => setFieldValues({ ...fieldValues, [field.id]: value })}
+                                        teamMembers={teamMembers}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {components.length > 0 && (
+                        <div className="space-y-2">
+                            <Label>Components</Label>
+                            <div className="flex flex-wrap gap-1.5">
+                                {components.map((component) => (
+                                    <Badge
+                                        key={component.id}
+                                        variant={componentIds.includes(component.id) ? "default" : "outline"}
+                                        className="cursor-pointer"
+                                        onClick={() => setComponentIds(toggle(componentIds, component.id))}
+                                    >
+                                        {component.name}
+                                    </Badge>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {decisions.length > 0 && (
+                        <div className="space-y-2">
+                            <Label>Decisions</Label>
+                            <div className="flex flex-wrap gap-1.5">
+                                {decisions.map((decision) => (
+                                    <Badge
+                                        key={decision.id}
+                                        variant={decisionIds.includes(decision.id) ? "default" : "outline"}
+                                        className="cursor-pointer"
+                                        onClick={() => setDecisionIds(toggle(decisionIds, decision.id))}
+                                    >
+                                        {decision.title}
+                                    </Badge>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     <div className="flex justify-between gap-2 pt-4">
                         <Button
                             type="button"
@@ -1,7 +1,12 @@
 "use client";
 
 import { useState } from "react";
-import { Task, TaskStatus, User } from "@/types";
+import { Task, User } from "@/types";
+import type { WorkflowColumn } from "@/lib/task-workflow";
+import type { TaskProgress } from "@/lib/task-progress";
+import type { LabelDefinition } from "@/lib/task-fields";
+import type { Swimlanes } from "@/lib/task-query";
+import { groupIntoSwimlanes } from "@/lib/task-views";
 import { KanbanColumn } from "./kanban-column";
 import {
     DndContext,
@@ -18,20 +23,29 @@ import { TaskCard } from "./task-card";
 interface KanbanBoardProps {
     projectId: string;
     initialTasks: (Task & { assignee?: User | null })[];
-    onTaskMove?: (taskId: string, newStatus: TaskStatus) => Promise<void>;
+    columns: WorkflowColumn[];
+    columnTaskCounts?: Record<string, number>; // Unfiltered tasks per column, for WIP limits
+    blockers?: Record<string, string[]>; // Titles of open blocking tasks by task ID
+    progress?: Record<string, TaskProgress>; // Checklist and subtask roll-up by task ID
+    parentTitles?: Record<string, string>; // Title of the parent by subtask ID
+    taskLabels?: Record<string, LabelDefinition[]>; // Labels by task ID
+    swimlanes?: Swimlanes; // Dragging between lanes only changes the column
+    teamMembers?: User[]; // Order of assignee swimlanes
+    onTaskMove?: (taskId: string, newStatus: string) => Promise<void>;
     onTaskClick?: (task: Task) => void;
 }
 
-const columns: { title: string; status: TaskStatus }[] = [
-    { title: "To Do", status: "TODO" },
-    { title: "In Progress", status: "IN_PROGRESS" },
-    { title: "Under Review", status: "UNDER_REVIEW" },
-    { title: "Done", status: "DONE" },
-];
-
 export function KanbanBoard({
     projectId,
     initialTasks,
+    columns,
+    columnTaskCounts,
+    blockers,
+    progress,
+    parentTitles,
+    taskLabels,
+    swimlanes = "none",
+    teamMembers = [],
     onTaskMove,
     onTaskClick,
 }: KanbanBoardProps) {
@@ -59,7 +73,8 @@ export function KanbanBoard({
         if (!over) return;
 
         const taskId = active.id as string;
-        const newStatus = over.id as TaskStatus;
+        // Swimlane columns carry their column key, plain columns use it as their ID
+        const newStatus = (over.data.current?.status as string | undefined) ?? (over.id as string);
 
         const task = initialTasks.find((t) => t.id === taskId);
         if (!task || task.status === newStatus) return;
@@ -70,10 +85,12 @@ export function KanbanBoard({
         }
     };
 
-    const getTasksByStatus = (status: TaskStatus) => {
-        return initialTasks.filter((task) => task.status === status);
+    const getTasksByStatus = (tasks: typeof initialTasks, status: string) => {
+        return tasks.filter((task) => task.status === status);
     };
 
+    const lanes = groupIntoSwimlanes(initialTasks, swimlanes, teamMembers);
+
     return (
         <DndContext
             sensors={sensors}
@@ -81,22 +98,69 @@ export function KanbanBoard({
             onDragStart={handleDragStart}
             onDragEnd={handleDragEnd}
         >
-            <div className="flex gap-4 overflow-x-auto pb-4">
-                {columns.map((column) => (
-                    <KanbanColumn
-                        key={column.status}
-                        title={column.title}
-                        status={column.status}
-                        tasks={getTasksByStatus(column.status)}
-                        onTaskClick={onTaskClick}
-                    />
-                ))}
-            </div>
+            {swimlanes === "none" ? (
+                <div className="flex gap-4 overflow-x-auto pb-4">
+                    {columns.map((column) => (
+                        <KanbanColumn
+                            key={column.key}
+                            column={column}
+                            tasks={getTasksByStatus(initialTasks, column.key)}
+                            taskCount={columnTaskCounts?.[column.key]}
+                            blockers={blockers}
+                            progress={progress}
+                            parentTitles={parentTitles}
+                            taskLabels={taskLabels}
+                            onTaskClick={onTaskClick}
+                        />
+                    ))}
+                </div>
+            ) : (
+                <div className="space-y-6">
+                    {lanes.length === 0 && (
+                        <div className="flex items-center justify-center h-32 text-sm text-muted-foreground">
+                            No tasks
+                        </div>
+                    )}
+                    {lanes.map((lane) => (
+                        <section key={lane.key}>
+                            <h3 className="text-sm font-semibold mb-2">
+                                {lane.label}
+                                <span className="ml-2 text-xs font-normal text-muted-foreground">
+                                    {lane.tasks.length}
+                                </span>
+                            </h3>
+                            <div className="flex gap-4 overflow-x-auto pb-2">
+                                {columns.map((column) => (
+                                    <KanbanColumn
+                                        key={column.key}
+                                        column={column}
+                                        droppableId={`${lane.key}:${column.key}`}
+                                        compact
+                                        tasks={getTasksByStatus(lane.tasks, column.key)}
+                                        taskCount={columnTaskCounts?.[column.key]}
+                                        blockers={blockers}
+                                        progress={progress}
+                                        parentTitles={parentTitles}
+                                        taskLabels={taskLabels}
+                                        onTaskClick={onTaskClick}
+                                    />
+                                ))}
+                            </div>
+                        </section>
+                    ))}
+                </div>
+            )}
 
             <DragOverlay>
                 {activeTask ? (
                     <div className="rotate-3 scale-105">
-                        <TaskCard task={activeTask} />
+                        <TaskCard
+                            task={activeTask}
+                            blockers={blockers?.[activeTask.id]}
+                            progress={progress?.[activeTask.id]}
+                            parentTitle={parentTitles?.[activeTask.id]}
+                            labels={taskLabels?.[activeTask.id]}
+                        />
                     </div>
                 ) : null}
             </DragOverlay>
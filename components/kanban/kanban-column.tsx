@@ -1,57 +1,95 @@
 "use client";
 
-import { Task, TaskStatus, User } from "@/types";
+import { Task, User } from "@/types";
+import type { WorkflowColumn } from "@/lib/task-workflow";
+import type { TaskProgress } from "@/lib/task-progress";
+import type { LabelDefinition } from "@/lib/task-fields";
 import { TaskCard } from "./task-card";
 import { useDroppable } from "@dnd-kit/core";
 import { SortableContext, verticalListSortingStrategy } from "@dnd-kit/sortable";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
 
 interface KanbanColumnProps {
-    title: string;
-    status: TaskStatus;
+    column: WorkflowColumn;
+    droppableId?: string; // Unique per swimlane, defaults to the column key
+    compact?: boolean; // Shorter empty columns, for swimlanes
     tasks: (Task & { assignee?: User | null })[];
+    taskCount?: number; // Tasks in the column before board filters, checked against the WIP limit
+    blockers?: Record<string, string[]>; // Titles of open blocking tasks by task ID
+    progress?: Record<string, TaskProgress>; // Checklist and subtask roll-up by task ID
+    parentTitles?: Record<string, string>; // Title of the parent by subtask ID
+    taskLabels?: Record<string, LabelDefinition[]>; // Labels by task ID
     onTaskClick?: (task: Task) => void;
 }
 
-const statusColors: Record<TaskStatus, string> = {
-    TODO: "bg-gray-100 dark:bg-gray-800 border-gray-300 dark:border-gray-600",
-    IN_PROGRESS: "bg-blue-50 dark:bg-blue-950/50 border-blue-300 dark:border-blue-700",
-    UNDER_REVIEW: "bg-yellow-50 dark:bg-yellow-950/50 border-yellow-300 dark:border-yellow-700",
-    DONE: "bg-green-50 dark:bg-green-950/50 border-green-300 dark:border-green-700",
-};
-
-const statusTitleColors: Record<TaskStatus, string> = {
-    TODO: "text-gray-700 dark:text-gray-300",
-    IN_PROGRESS: "text-blue-700 dark:text-blue-300",
-    UNDER_REVIEW: "text-yellow-700 dark:text-yellow-300",
-    DONE: "text-green-700 dark:text-green-300",
-};
-
-export function KanbanColumn({ title, status, tasks, onTaskClick }: KanbanColumnProps) {
+export function KanbanColumn({
+    column,
+    droppableId = column.key,
+    compact = false,
+    tasks,
+    taskCount = tasks.length,
+    blockers,
+    progress,
+    parentTitles,
+    taskLabels,
+    onTaskClick,
+}: KanbanColumnProps) {
     const { setNodeRef, isOver } = useDroppable({
-        id: status,
+        id: droppableId,
+        data: { status: column.key },
     });
 
+    const overLimit = column.wipLimit !== null && taskCount > column.wipLimit;
+
     return (
         <div className="flex flex-col h-full min-w-[280px] w-full">
-            <div className={`rounded-t-lg border-t-4 ${statusColors[status]} px-4 py-3`}>
+            <div
+                className="rounded-t-lg border-t-4 px-4 py-3"
+                style={{ borderTopColor: column.color, backgroundColor: `${column.color}1a` }}
+            >
                 <div className="flex items-center justify-between">
-                    <h2 className={`font-semibold text-sm ${statusTitleColors[status]}`}>{title}</h2>
-                    <span className="text-xs text-muted-foreground bg-white dark:bg-gray-900 px-2 py-1 rounded-full">
-                        {tasks.length}
+                    <h2 className="font-semibold text-sm flex items-center gap-1.5" style={{ color: column.color }}>
+                        {column.name}
+                        {column.isDone && <CheckCircle2 className="h-3.5 w-3.5" aria-label="Done column" />}
+                    </h2>
+                    <span
+                        className={`text-xs px-2 py-1 rounded-full flex items-center gap-1 ${overLimit
+                            ? "bg-red-100 text-red-700 dark:bg-red-950 dark:text-red-300 font-semibold"
+                            : "text-muted-foreground bg-white dark:bg-gray-900"
+                            }`}
+                        title={column.wipLimit !== null ? `WIP limit: ${column.wipLimit}` : undefined}
+                    >
+                        {overLimit && <AlertTriangle className="h-3 w-3" />}
+                        {column.wipLimit !== null ? `${taskCount} / ${column.wipLimit}` : tasks.length}
                     </span>
                 </div>
+                {overLimit && (
+                    <p className="text-xs text-red-700 dark:text-red-300 mt-1">
+                        Over WIP limit by {taskCount - column.wipLimit!}. Finish work here before pulling more in.
+                    </p>
+                )}
             </div>
 
             <div
                 ref={setNodeRef}
-                className={`flex-1 p-4 space-y-3 bg-gray-50 dark:bg-gray-900/50 rounded-b-lg border border-t-0 min-h-[500px] transition-colors ${isOver
+                className={`flex-1 p-4 space-y-3 bg-gray-50 dark:bg-gray-900/50 rounded-b-lg border border-t-0 ${compact ? "min-h-[120px]" : "min-h-[500px]"} transition-colors ${isOver
                         ? "bg-gray-100 dark:bg-gray-800 border-gray-400 dark:border-gray-600"
-                        : "border-gray-200 dark:border-gray-800"
+                        : overLimit
+                            ? "border-red-300 dark:border-red-800"
+                            : "border-gray-200 dark:border-gray-800"
                     }`}
             >
                 <SortableContext items={tasks.map((t) => t.id)} strategy={verticalListSortingStrategy}>
                     {tasks.map((task) => (
-                        <TaskCard key={task.id} task={task} onClick={() => onTaskClick?.(task)} />
+                        <TaskCard
+                            key={task.id}
+                            task={task}
+                            blockers={blockers?.[task.id]}
+                            progress={progress?.[task.id]}
+                            parentTitle={parentTitles?.[task.id]}
+                            labels={taskLabels?.[task.id]}
+                            onClick={() => onTaskClick?.(task)}
+                        />
                     ))}
                 </SortableContext>
 
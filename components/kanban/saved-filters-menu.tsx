@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Bookmark, Trash2, Users } from "lucide-react";
+import type { Swimlanes, TaskQuery, TaskView } from "@/lib/task-query";
+
+// The board state a saved filter captures
+export interface BoardFilterState {
+    query: TaskQuery;
+    view: TaskView;
+    swimlanes: Swimlanes;
+}
+
+// Saved filters as returned by GET /api/projects/[id]/saved-filters
+interface SavedFilter extends BoardFilterState {
+    id: string;
+    name: string;
+    shared: boolean;
+    user: { id: string; name: string | null; email: string };
+    canManage: boolean;
+}
+
+interface SavedFiltersMenuProps {
+    projectId: string;
+    current: BoardFilterState;
+    onApply: (state: BoardFilterState) => void;
+}
+
+export function SavedFiltersMenu({ projectId, current, onApply }: SavedFiltersMenuProps) {
+    const [filters, setFilters] = useState<SavedFilter[]>([]);
+    const [canShare, setCanShare] = useState(false);
+    const [selectedId, setSelectedId] = useState<string>("none");
+    const [dialogOpen, setDialogOpen] = useState(false);
+    const [name, setName] = useState("");
+    const [shared, setShared] = useState(false);
+    const [saving, setSaving] = useState(false);
+
+    const fetchFilters = async () => {
+        try {
+            const response = await fetch(`/api/projects/${projectId}/saved-filters`);
+            if (response.ok) {
+                const data = await response.json();
+                setFilters(data.filters);
+                setCanShare(data.canShare);
+            }
+        } catch (error) {
+            console.error("Failed to fetch saved filters:", error);
+        }
+    };
+
+    useEffect(() => {
+        fetchFilters();
+    }, [projectId]);
+
+    const selected = filters.find((filter) => filter.id === selectedId);
+
+    const handleSelect = (id: string) => {
+        setSelectedId(id);
+        const filter = filters.find((f) => f.id === id);
+        if (filter) {
+            onApply({ query: filter.query, view: filter.view, swimlanes: filter.swimlanes });
+        }
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+
+        try {
+            const response = await fetch(`/api/projects/${projectId}/saved-filters`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ name, shared, ...current }),
+            });
+
+            if (response.ok) {
+                const filter = await response.json();
+                await fetchFilters();
+                setSelectedId(filter.id);
+                setDialogOpen(false);
+                setName("");
+                setShared(false);
+                toast.success("Filter saved");
+            } else {
+                const data = await response.json().catch(() => null);
+                toast.error("Failed to save filter", { description: data?.details?.[0]?.message || data?.error });
+            }
+        } catch {
+            toast.error("Failed to save filter");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!selected || !confirm(`Delete the saved filter "${selected.name}"?`)) return;
+
+        try {
+            const response = await fetch(`/api/saved-filters/${selected.id}`, { method: "DELETE" });
+            if (response.ok) {
+                setFilters(filters.filter((filter) => filter.id !== selected.id));
+                setSelectedId("none");
+            } else {
+                const data = await response.json().catch(() => null);
+                toast.error("Failed to delete filter", { description: data?.error });
+            }
+        } catch {
+            toast.error("Failed to delete filter");
+        }
+    };
+
+    return (
+        <div className="flex items-center gap-2">
+            <Select value={selectedId} onValueChange={handleSelect}>
+                <SelectTrigger className="w-[200px]">
+                    <SelectValue placeholder="Saved filters" />
+                </SelectTrigger>
+                <SelectContent>
+                    <SelectItem value="none" disabled>
+                        Saved filters
+                    </SelectItem>
+                    {filters.map((filter) => (
+                        <SelectItem key={filter.id} value={filter.id}>
+                            <span className="flex items-center gap-1.5">
+                                {filter.shared && <Users className="h-3 w-3" aria-label="Shared with the project" />}
+                                {filter.name}
+                            </span>
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+
+            <Button variant="outline" size="sm" onClick={() => setDialogOpen(true)}>
+                <Bookmark className="h-4 w-4 mr-1" />
+                Save view
+            </Button>
+
+            {selected?.canManage && (
+                <Button variant="ghost" size="icon" onClick={handleDelete} aria-label="Delete saved filter">
+                    <Trash2 className="h-4 w-4" />
+                </Button>
+            )}
+
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogContent className="sm:max-w-[400px] dark:bg-gray-950 dark:border-gray-800">
+                    <DialogHeader>
+                        <DialogTitle className="text-foreground">Save View</DialogTitle>
+                    </DialogHeader>
+                    <form onSubmit={handleSave} className="space-y-4">
+                        <p className="text-sm text-muted-foreground">
+                            Saves the current filters, view and swimlanes.
+                        </p>
+                        <div className="space-y-2">
+                            <Label htmlFor="filterName">Name *</Label>
+                            <Input
+                                id="filterName"
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                placeholder="My high-priority work"
+                                required
+                            />
+                        </div>
+                        {canShare && (
+                            <label className="flex items-center gap-2 text-sm">
+                                <input
+                                    type="checkbox"
+                                    checked={shared}
+                                    onChange={(e) => setShared(e.target.checked)}
+                                    className="h-4 w-4"
+                                />
+                                Share with everyone in the project
+                            </label>
+                        )}
+                        <div className="flex justify-end gap-2">
+                            <Button type="button" variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+                                Cancel
+                            </Button>
+                            <Button type="submit" disabled={saving || !name.trim()}>
+                                {saving ? "Saving..." : "Save"}
+                            </Button>
+                        </div>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
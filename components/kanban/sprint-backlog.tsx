@@ -0,0 +1,447 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Flag, Play, Plus, Square, Trash2 } from "lucide-react";
+import type { TaskPriority } from "@/types";
+import type { WorkflowColumn } from "@/lib/task-workflow";
+
+// Sprints as returned by GET /api/projects/[id]/sprints
+export interface BoardSprint {
+    id: string;
+    name: string;
+    goal: string | null;
+    startDate: string;
+    endDate: string;
+    status: "PLANNED" | "ACTIVE" | "CLOSED";
+    committedPoints: number | null;
+    completedPoints: number | null;
+    taskCount: number;
+    doneCount: number;
+    totalPoints: number;
+    donePoints: number;
+}
+
+interface BacklogTask {
+    id: string;
+    title: string;
+    status: string;
+    priority: TaskPriority;
+    storyPoints: number | null;
+    sprintId: string | null;
+}
+
+interface SprintBacklogProps {
+    projectId: string;
+    sprints: BoardSprint[];
+    tasks: BacklogTask[];
+    columns: WorkflowColumn[];
+    onMoveTask(taskId: string, sprintId: string | null): Promise<void>;
+    onTaskClick(taskId: string): void;
+    onSprintsChange(): void; // Sprints changed and tasks may have moved between them
+}
+
+const priorityColors: Record<TaskPriority, string> = {
+    LOW: "text-blue-600 dark:text-blue-400",
+    MEDIUM: "text-yellow-600 dark:text-yellow-400",
+    HIGH: "text-red-600 dark:text-red-400",
+};
+
+const statusLabels: Record<BoardSprint["status"], string> = {
+    PLANNED: "Planned",
+    ACTIVE: "Active",
+    CLOSED: "Closed",
+};
+
+function points(tasks: BacklogTask[]): number {
+    return tasks.reduce((sum, task) => sum + (task.storyPoints ?? 0), 0);
+}
+
+export function SprintBacklog({
+    projectId,
+    sprints,
+    tasks,
+    columns,
+    onMoveTask,
+    onTaskClick,
+    onSprintsChange,
+}: SprintBacklogProps) {
+    const [createOpen, setCreateOpen] = useState(false);
+    const [closing, setClosing] = useState<BoardSprint | null>(null);
+    const [carryOverTo, setCarryOverTo] = useState<string>("backlog");
+    const [name, setName] = useState("");
+    const [goal, setGoal] = useState("");
+    const [startDate, setStartDate] = useState("");
+    const [endDate, setEndDate] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const columnNames = new Map(columns.map((column) => [column.key, column.name]));
+    const doneKeys = new Set(columns.filter((column) => column.isDone).map((column) => column.key));
+    const openSprints = sprints.filter((sprint) => sprint.status !== "CLOSED");
+    const closedSprints = sprints.filter((sprint) => sprint.status === "CLOSED");
+    const hasActiveSprint = sprints.some((sprint) => sprint.status === "ACTIVE");
+
+    // Finished tasks that never made it into a sprint stay out of the backlog
+    const backlog = tasks.filter((task) => !task.sprintId && !doneKeys.has(task.status));
+
+    const openCreate = () => {
+        // Default to a two-week sprint starting after the last planned one
+        const lastEnd = openSprints.reduce<Date | null>((latest, sprint) => {
+            const end = new Date(sprint.endDate);
+            return !latest || end > latest ? end : latest;
+        }, null);
+        const start = lastEnd ? new Date(lastEnd.getTime() + 24 * 60 * 60 * 1000) : new Date();
+        const end = new Date(start.getTime() + 13 * 24 * 60 * 60 * 1000);
+
+        setName(`Sprint ${sprints.length + 1}`);
+        setGoal("");
+        setStartDate(format(start, "yyyy-MM-dd"));
+        setEndDate(format(end, "yyyy-MM-dd"));
+        setCreateOpen(true);
+    };
+
+    const createSprint = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        try {
+            const response = await fetch(`/api/projects/${projectId}/sprints`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ name: name.trim(), goal: goal.trim() || null, startDate, endDate }),
+            });
+
+            if (response.ok) {
+                setCreateOpen(false);
+                onSprintsChange();
+                toast.success("Sprint created");
+            } else {
+                const data = await response.json().catch(() => null);
+                toast.error("Failed to create sprint", { description: data?.error });
+            }
+        } catch (error) {
+            console.error("Failed to create sprint:", error);
+            toast.error("Failed to create sprint");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const startSprint = async (sprint: BoardSprint) => {
+        try {
+            const response = await fetch(`/api/sprints/${sprint.id}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ status: "ACTIVE" }),
+            });
+
+            if (response.ok) {
+                onSprintsChange();
+                toast.success(`${sprint.name} started`);
+            } else {
+                const data = await response.json().catch(() => null);
+                toast.error("Failed to start sprint", { description: data?.error });
+            }
+        } catch (error) {
+            console.error("Failed to start sprint:", error);
+            toast.error("Failed to start sprint");
+        }
+    };
+
+    const closeSprint = async () => {
+        if (!closing) return;
+
+        setIsSubmitting(true);
+        try {
+            const response = await fetch(`/api/sprints/${closing.id}/close`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ carryOverSprintId: carryOverTo === "backlog" ? null : carryOverTo }),
+            });
+
+            if (response.ok) {
+                const result = await response.json();
+                toast.success(`${closing.name} closed`, {
+                    description: `${result.completedPoints} of ${result.committedPoints} points completed; ${result.carriedOver} unfinished task${result.carriedOver === 1 ? "" : "s"} carried over.`,
+                });
+                setClosing(null);
+                onSprintsChange();
+            } else {
+                const data = await response.json().catch(() => null);
+                toast.error("Failed to close sprint", { description: data?.error });
+            }
+        } catch (error) {
+            console.error("Failed to close sprint:", error);
+            toast.error("Failed to close sprint");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const deleteSprint = async (sprint: BoardSprint) => {
+        if (!confirm(`Delete ${sprint.name}? Its tasks go back to the backlog.`)) return;
+
+        try {
+            const response = await fetch(`/api/sprints/${sprint.id}`, { method: "DELETE" });
+            if (response.ok) {
+                onSprintsChange();
+            } else {
+                toast.error("Failed to delete sprint");
+            }
+        } catch (error) {
+            console.error("Failed to delete sprint:", error);
+            toast.error("Failed to delete sprint");
+        }
+    };
+
+    const renderTask = (task: BacklogTask) => (
+        <div
+            key={task.id}
+            className="flex items-center gap-3 px-3 py-2 rounded-md hover:bg-gray-50 dark:hover:bg-gray-900"
+        >
+            <Flag className={`h-3.5 w-3.5 flex-shrink-0 ${priorityColors[task.priority]}`} fill="currentColor" />
+            <button
+                type="button"
+                className={`flex-1 text-left text-sm truncate ${doneKeys.has(task.status) ? "line-through text-muted-foreground" : ""}`}
+                onClick={() => onTaskClick(task.id)}
+            >
+                {task.title}
+            </button>
+            <Badge variant="outline" className="text-xs">
+                {columnNames.get(task.status) ?? task.status}
+            </Badge>
+            <span className="w-12 text-right text-xs text-muted-foreground">
+                {task.storyPoints != null ? `${task.storyPoints} pts` : "—"}
+            </span>
+            <Select
+                value={task.sprintId ?? "backlog"}
+                onValueChange={(value) => onMoveTask(task.id, value === "backlog" ? null : value)}
+            >
+                <SelectTrigger className="h-8 w-[150px] text-xs">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    <SelectItem value="backlog">Backlog</SelectItem>
+                    {openSprints.map((sprint) => (
+                        <SelectItem key={sprint.id} value={sprint.id}>
+                            {sprint.name}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+        </div>
+    );
+
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-end">
+                <Button variant="outline" onClick={openCreate}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Sprint
+                </Button>
+            </div>
+
+            {openSprints.map((sprint) => {
+                const sprintTasks = tasks.filter((task) => task.sprintId === sprint.id);
+                const donePoints = points(sprintTasks.filter((task) => doneKeys.has(task.status)));
+
+                return (
+                    <Card key={sprint.id} className="p-4 space-y-3 dark:bg-gray-950 dark:border-gray-800">
+                        <div className="flex flex-wrap items-start justify-between gap-2">
+                            <div className="space-y-1">
+                                <div className="flex items-center gap-2">
+                                    <h3 className="font-semibold text-foreground">{sprint.name}</h3>
+                                    <Badge variant={sprint.status === "ACTIVE" ? "default" : "secondary"}>
+                                        {statusLabels[sprint.status]}
+                                    </Badge>
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                    {format(new Date(sprint.startDate), "MMM d")} – {format(new Date(sprint.endDate), "MMM d, yyyy")}
+                                    {" · "}
+                                    {donePoints}/{points(sprintTasks)} points done
+                                </p>
+                                {sprint.goal && <p className="text-sm text-muted-foreground">{sprint.goal}</p>}
+                            </div>
+                            <div className="flex items-center gap-2">
+                                {sprint.status === "PLANNED" && (
+                                    <>
+                                        <Button
+                                            size="sm"
+                                            onClick={() => startSprint(sprint)}
+                                            disabled={hasActiveSprint}
+                                            title={hasActiveSprint ? "Close the active sprint first" : undefined}
+                                        >
+                                            <Play className="h-3.5 w-3.5 mr-1" />
+                                            Start
+                                        </Button>
+                                        <Button size="sm" variant="ghost" onClick={() => deleteSprint(sprint)}>
+                                            <Trash2 className="h-3.5 w-3.5" />
+                                        </Button>
+                                    </>
+                                )}
+                                {sprint.status === "ACTIVE" && (
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => {
+                                            setCarryOverTo("backlog");
+                                            setClosing(sprint);
+                                        }}
+                                    >
+                                        <Square className="h-3.5 w-3.5 mr-1" />
+                                        Close Sprint
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+
+                        {sprintTasks.length > 0 ? (
+                            <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                                {sprintTasks.map(renderTask)}
+                            </div>
+                        ) : (
+                            <p className="text-sm text-muted-foreground px-3">
+                                Move tasks here from the backlog to plan this sprint.
+                            </p>
+                        )}
+                    </Card>
+                );
+            })}
+
+            <Card className="p-4 space-y-3 dark:bg-gray-950 dark:border-gray-800">
+                <div className="flex items-center justify-between">
+                    <h3 className="font-semibold text-foreground">Backlog</h3>
+                    <p className="text-xs text-muted-foreground">
+                        {backlog.length} tasks · {points(backlog)} points
+                    </p>
+                </div>
+                {backlog.length > 0 ? (
+                    <div className="divide-y divide-gray-100 dark:divide-gray-800">{backlog.map(renderTask)}</div>
+                ) : (
+                    <p className="text-sm text-muted-foreground px-3">Every open task is planned into a sprint.</p>
+                )}
+            </Card>
+
+            {closedSprints.length > 0 && (
+                <div className="space-y-2">
+                    <h3 className="text-sm font-medium text-muted-foreground">Closed Sprints</h3>
+                    {closedSprints.map((sprint) => (
+                        <div
+                            key={sprint.id}
+                            className="flex items-center justify-between px-4 py-2 text-sm rounded-md border border-gray-200 dark:border-gray-800"
+                        >
+                            <span className="text-foreground">{sprint.name}</span>
+                            <span className="text-xs text-muted-foreground">
+                                {format(new Date(sprint.startDate), "MMM d")} – {format(new Date(sprint.endDate), "MMM d, yyyy")}
+                                {" · "}
+                                {sprint.completedPoints ?? 0}/{sprint.committedPoints ?? 0} points completed
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* New sprint */}
+            <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+                <DialogContent className="sm:max-w-[450px] dark:bg-gray-950 dark:border-gray-800">
+                    <DialogHeader>
+                        <DialogTitle className="text-foreground">New Sprint</DialogTitle>
+                    </DialogHeader>
+                    <form onSubmit={createSprint} className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="sprintName">Name *</Label>
+                            <Input id="sprintName" value={name} onChange={(e) => setName(e.target.value)} required />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="sprintGoal">Goal</Label>
+                            <textarea
+                                id="sprintGoal"
+                                value={goal}
+                                onChange={(e) => setGoal(e.target.value)}
+                                placeholder="What should this sprint achieve?"
+                                className="w-full min-h-[70px] px-3 py-2 text-sm border rounded-md resize-none focus:outline-none focus:ring-2 focus:ring-ring bg-background dark:bg-gray-950 dark:border-gray-800"
+                            />
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="sprintStart">Start</Label>
+                                <Input
+                                    id="sprintStart"
+                                    type="date"
+                                    value={startDate}
+                                    onChange={(e) => setStartDate(e.target.value)}
+                                    required
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="sprintEnd">End</Label>
+                                <Input
+                                    id="sprintEnd"
+                                    type="date"
+                                    value={endDate}
+                                    onChange={(e) => setEndDate(e.target.value)}
+                                    required
+                                />
+                            </div>
+                        </div>
+                        <div className="flex justify-end gap-2 pt-2">
+                            <Button type="button" variant="outline" onClick={() => setCreateOpen(false)}>
+                                Cancel
+                            </Button>
+                            <Button type="submit" disabled={isSubmitting || !name.trim()}>
+                                {isSubmitting ? "Creating..." : "Create Sprint"}
+                            </Button>
+                        </div>
+                    </form>
+                </DialogContent>
+            </Dialog>
+
+            {/* Close sprint with carry-over */}
+            <Dialog open={!!closing} onOpenChange={(open) => !open && setClosing(null)}>
+                <DialogContent className="sm:max-w-[450px] dark:bg-gray-950 dark:border-gray-800">
+                    <DialogHeader>
+                        <DialogTitle className="text-foreground">Close {closing?.name}</DialogTitle>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <p className="text-sm text-muted-foreground">
+                            Unfinished tasks are carried over. Completed points count towards the velocity.
+                        </p>
+                        <div className="space-y-2">
+                            <Label htmlFor="carryOver">Carry unfinished tasks over to</Label>
+                            <Select value={carryOverTo} onValueChange={setCarryOverTo}>
+                                <SelectTrigger id="carryOver">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="backlog">Backlog</SelectItem>
+                                    {openSprints
+                                        .filter((sprint) => sprint.id !== closing?.id)
+                                        .map((sprint) => (
+                                            <SelectItem key={sprint.id} value={sprint.id}>
+                                                {sprint.name}
+                                            </SelectItem>
+                                        ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="flex justify-end gap-2 pt-2">
+                            <Button variant="outline" onClick={() => setClosing(null)}>
+                                Cancel
+                            </Button>
+                            <Button onClick={closeSprint} disabled={isSubmitting}>
+                                {isSubmitting ? "Closing..." : "Close Sprint"}
+                            </Button>
+                        </div>
+                    </div>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { addMonths, format, isSameMonth, isToday, subMonths } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Task, TaskPriority, User } from "@/types";
+import type { WorkflowColumn } from "@/lib/task-workflow";
+import { calendarDayKey, calendarWeeks, tasksByDueDay } from "@/lib/task-views";
+
+interface TaskCalendarViewProps {
+    tasks: (Task & { assignee?: User | null })[];
+    columns: WorkflowColumn[];
+    onTaskClick?: (task: Task) => void;
+}
+
+const priorityBorders: Record<TaskPriority, string> = {
+    LOW: "border-l-blue-500",
+    MEDIUM: "border-l-yellow-500",
+    HIGH: "border-l-red-500",
+};
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const MAX_TASKS_PER_DAY = 4;
+
+export function TaskCalendarView({ tasks, columns, onTaskClick }: TaskCalendarViewProps) {
+    const [month, setMonth] = useState(() => new Date());
+
+    const doneKeys = new Set(columns.filter((column) => column.isDone).map((column) => column.key));
+    const dueDays = tasksByDueDay(tasks);
+    const undated = tasks.filter((task) => !task.dueDate).length;
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <Button variant="outline" size="icon" onClick={() => setMonth(subMonths(month, 1))} aria-label="Previous month">
+                        <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <h2 className="text-lg font-semibold w-40 text-center">{format(month, "MMMM yyyy")}</h2>
+                    <Button variant="outline" size="icon" onClick={() => setMonth(addMonths(month, 1))} aria-label="Next month">
+                        <ChevronRight className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setMonth(new Date())}>
+                        Today
+                    </Button>
+                </div>
+                {undated > 0 && (
+                    <p className="text-sm text-muted-foreground">
+                        {undated} {undated === 1 ? "task has" : "tasks have"} no due date
+                    </p>
+                )}
+            </div>
+
+            <div className="grid grid-cols-7 border-l border-t rounded-lg overflow-hidden border-gray-200 dark:border-gray-800">
+                {WEEKDAYS.map((weekday) => (
+                    <div
+                        key={weekday}
+                        className="px-2 py-1 text-xs font-medium text-muted-foreground bg-gray-50 dark:bg-gray-900/50 border-r border-b border-gray-200 dark:border-gray-800"
+                    >
+                        {weekday}
+                    </div>
+                ))}
+                {calendarWeeks(month).flat().map((day) => {
+                    const dayTasks = dueDays.get(calendarDayKey(day)) ?? [];
+                    return (
+                        <div
+                            key={day.toISOString()}
+                            className={`min-h-[110px] p-1.5 space-y-1 border-r border-b border-gray-200 dark:border-gray-800 ${isSameMonth(day, month) ? "" : "bg-gray-50/60 dark:bg-gray-900/30 text-muted-foreground"
+                                }`}
+                        >
+                            <div
+                                className={`text-xs w-6 h-6 flex items-center justify-center rounded-full ${isToday(day) ? "bg-emerald-600 text-white font-semibold" : ""
+                                    }`}
+                            >
+                                {format(day, "d")}
+                            </div>
+                            {dayTasks.slice(0, MAX_TASKS_PER_DAY).map((task) => (
+                                <button
+                                    key={task.id}
+                                    type="button"
+                                    onClick={() => onTaskClick?.(task)}
+                                    title={task.title}
+                                    className={`w-full text-left text-xs truncate rounded border-l-2 px-1.5 py-0.5 bg-white dark:bg-gray-950 hover:bg-gray-100 dark:hover:bg-gray-800 ${priorityBorders[task.priority]} ${doneKeys.has(task.status) ? "line-through text-muted-foreground" : ""
+                                        }`}
+                                >
+                                    {task.title}
+                                </button>
+                            ))}
+                            {dayTasks.length > MAX_TASKS_PER_DAY && (
+                                <p className="text-xs text-muted-foreground px-1.5">
+                                    +{dayTasks.length - MAX_TASKS_PER_DAY} more
+                                </p>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
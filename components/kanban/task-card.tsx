@@ -4,13 +4,20 @@ import { Task, User, TaskPriority } from "@/types";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Calendar, Flag } from "lucide-react";
+import { Ban, Calendar, CornerDownRight, Flag, ListChecks } from "lucide-react";
+import type { TaskProgress } from "@/lib/task-progress";
+import type { LabelDefinition } from "@/lib/task-fields";
+import { TaskLabelChips } from "./task-label-chips";
 import { format } from "date-fns";
 import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 
 interface TaskCardProps {
     task: Task & { assignee?: User | null };
+    blockers?: string[]; // Titles of open tasks blocking this one
+    progress?: TaskProgress; // Roll-up of checklist items and subtasks
+    parentTitle?: string;
+    labels?: LabelDefinition[];
     onClick?: () => void;
 }
 
@@ -26,7 +33,7 @@ const priorityLabels: Record<TaskPriority, string> = {
     HIGH: "High",
 };
 
-export function TaskCard({ task, onClick }: TaskCardProps) {
+export function TaskCard({ task, blockers = [], progress, parentTitle, labels = [], onClick }: TaskCardProps) {
     const {
         attributes,
         listeners,
@@ -52,6 +59,13 @@ export function TaskCard({ task, onClick }: TaskCardProps) {
             onClick={onClick}
         >
             <div className="space-y-3">
+                {parentTitle && (
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground truncate">
+                        <CornerDownRight className="h-3 w-3 flex-shrink-0" />
+                        <span className="truncate">{parentTitle}</span>
+                    </p>
+                )}
+
                 <div className="flex items-start justify-between gap-2">
                     <h3 className="font-semibold text-sm line-clamp-2">{task.title}</h3>
                     <Flag
@@ -60,6 +74,37 @@ export function TaskCard({ task, onClick }: TaskCardProps) {
                     />
                 </div>
 
+                {labels.length > 0 && <TaskLabelChips labels={labels} />}
+
+                {progress && progress.total > 0 && (
+                    <div className="space-y-1">
+                        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <ListChecks className="h-3 w-3" />
+                            <span>
+                                {progress.done}/{progress.total}
+                            </span>
+                        </div>
+                        <div className="h-1.5 rounded-full bg-gray-200 dark:bg-gray-800 overflow-hidden">
+                            <div
+                                className="h-full bg-emerald-500"
+                                style={{ width: `${progress.percent}%` }}
+                            />
+                        </div>
+                    </div>
+                )}
+
+                {blockers.length > 0 && (
+                    <div
+                        className="flex items-start gap-1.5 text-xs text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-950/50 rounded px-2 py-1"
+                        title={blockers.join("\n")}
+                    >
+                        <Ban className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                        <span className="line-clamp-2">
+                            Blocked by {blockers.length === 1 ? blockers[0] : `${blockers.length} tasks`}
+                        </span>
+                    </div>
+                )}
+
                 {task.description && (
                     <p className="text-xs text-muted-foreground line-clamp-2">
                         {task.description}
@@ -86,9 +131,16 @@ export function TaskCard({ task, onClick }: TaskCardProps) {
                     )}
                 </div>
 
-                <Badge variant="outline" className="text-xs">
-                    {priorityLabels[task.priority]}
-                </Badge>
+                <div className="flex items-center gap-1.5">
+                    <Badge variant="outline" className="text-xs">
+                        {priorityLabels[task.priority]}
+                    </Badge>
+                    {task.storyPoints != null && (
+                        <Badge variant="secondary" className="text-xs" title="Story points">
+                            {task.storyPoints} pts
+                        </Badge>
+                    )}
+                </div>
             </div>
         </Card>
     );
@@ -0,0 +1,160 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ListChecks, Plus, X } from "lucide-react";
+
+interface ChecklistItem {
+    id: string;
+    title: string;
+    done: boolean;
+}
+
+interface TaskChecklistProps {
+    taskId: string;
+    onChange?: (items: ChecklistItem[]) => void;
+}
+
+export function TaskChecklist({ taskId, onChange }: TaskChecklistProps) {
+    const [items, setItems] = useState<ChecklistItem[]>([]);
+    const [newTitle, setNewTitle] = useState("");
+
+    useEffect(() => {
+        let cancelled = false;
+        fetch(`/api/tasks/${taskId}/checklist`)
+            .then((response) => (response.ok ? response.json() : { items: [] }))
+            .then((data) => {
+                if (!cancelled) setItems(data.items || []);
+            })
+            .catch(() => {
+                if (!cancelled) setItems([]);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [taskId]);
+
+    const applyItems = (next: ChecklistItem[]) => {
+        setItems(next);
+        onChange?.(next);
+    };
+
+    const addItem = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const title = newTitle.trim();
+        if (!title) return;
+
+        try {
+            const response = await fetch(`/api/tasks/${taskId}/checklist`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ title }),
+            });
+
+            if (response.ok) {
+                const item = await response.json();
+                applyItems([...items, item]);
+                setNewTitle("");
+            } else {
+                const data = await response.json().catch(() => null);
+                toast.error("Failed to add checklist item", { description: data?.error });
+            }
+        } catch (error) {
+            console.error("Failed to add checklist item:", error);
+            toast.error("Failed to add checklist item");
+        }
+    };
+
+    const toggleItem = async (item: ChecklistItem) => {
+        // Optimistic update
+        const originalItems = items;
+        applyItems(items.map((i) => (i.id === item.id ? { ...i, done: !item.done } : i)));
+
+        try {
+            const response = await fetch(`/api/tasks/${taskId}/checklist/${item.id}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ done: !item.done }),
+            });
+
+            if (!response.ok) {
+                // Rollback on error
+                applyItems(originalItems);
+                toast.error("Failed to update checklist item");
+            }
+        } catch (error) {
+            console.error("Failed to update checklist item:", error);
+            applyItems(originalItems);
+            toast.error("Failed to update checklist item");
+        }
+    };
+
+    const removeItem = async (itemId: string) => {
+        try {
+            const response = await fetch(`/api/tasks/${taskId}/checklist/${itemId}`, {
+                method: "DELETE",
+            });
+
+            if (response.ok) {
+                applyItems(items.filter((i) => i.id !== itemId));
+            } else {
+                toast.error("Failed to remove checklist item");
+            }
+        } catch (error) {
+            console.error("Failed to remove checklist item:", error);
+            toast.error("Failed to remove checklist item");
+        }
+    };
+
+    const doneCount = items.filter((i) => i.done).length;
+
+    return (
+        <div className="space-y-2">
+            <h3 className="font-semibold text-sm flex items-center gap-2">
+                <ListChecks className="h-4 w-4" />
+                Checklist {items.length > 0 && `(${doneCount}/${items.length})`}
+            </h3>
+            {items.length > 0 && (
+                <ul className="space-y-1">
+                    {items.map((item) => (
+                        <li key={item.id} className="group flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={item.done}
+                                onChange={() => toggleItem(item)}
+                                aria-label={item.title}
+                            />
+                            <span className={`flex-1 text-sm ${item.done ? "line-through text-muted-foreground" : ""}`}>
+                                {item.title}
+                            </span>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                                onClick={() => removeItem(item.id)}
+                                aria-label="Remove checklist item"
+                            >
+                                <X className="h-3 w-3" />
+                            </Button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <form onSubmit={addItem} className="flex items-center gap-2">
+                <Input
+                    value={newTitle}
+                    onChange={(e) => setNewTitle(e.target.value)}
+                    placeholder="Add an item"
+                    maxLength={200}
+                    className="h-8 text-sm"
+                />
+                <Button type="submit" variant="outline" size="sm" disabled={!newTitle.trim()}>
+                    <Plus className="h-4 w-4" />
+                </Button>
+            </form>
+        </div>
+    );
+}
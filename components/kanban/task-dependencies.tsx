@@ -0,0 +1,164 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Ban, Link2, X } from "lucide-react";
+import type { TaskDependencyLink } from "@/lib/task-dependencies";
+
+interface TaskDependenciesProps {
+    taskId: string;
+    projectTasks: { id: string; title: string }[]; // Candidates for new links
+    onChange?: () => void;
+}
+
+type Direction = "blockedBy" | "blocks";
+
+const sections: { direction: Direction; label: string; empty: string }[] = [
+    { direction: "blockedBy", label: "Blocked by", empty: "Not blocked by any task" },
+    { direction: "blocks", label: "Blocks", empty: "Does not block any task" },
+];
+
+export function TaskDependencies({ taskId, projectTasks, onChange }: TaskDependenciesProps) {
+    const [dependencies, setDependencies] = useState<Record<Direction, TaskDependencyLink[]>>({
+        blockedBy: [],
+        blocks: [],
+    });
+    const [adding, setAdding] = useState<Direction | null>(null);
+
+    const fetchDependencies = useCallback(async () => {
+        try {
+            const response = await fetch(`/api/tasks/${taskId}/dependencies`);
+            if (response.ok) {
+                setDependencies(await response.json());
+            }
+        } catch (error) {
+            console.error("Failed to fetch task dependencies:", error);
+        }
+    }, [taskId]);
+
+    useEffect(() => {
+        fetchDependencies();
+    }, [fetchDependencies]);
+
+    const addDependency = async (direction: Direction, otherTaskId: string) => {
+        setAdding(null);
+        try {
+            const response = await fetch(`/api/tasks/${taskId}/dependencies`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(
+                    direction === "blockedBy" ? { blockingTaskId: otherTaskId } : { blockedTaskId: otherTaskId }
+                ),
+            });
+
+            if (response.ok) {
+                await fetchDependencies();
+                onChange?.();
+            } else {
+                const data = await response.json().catch(() => null);
+                toast.error("Failed to link tasks", { description: data?.error });
+            }
+        } catch (error) {
+            console.error("Failed to add task dependency:", error);
+            toast.error("Failed to link tasks");
+        }
+    };
+
+    const removeDependency = async (dependencyId: string) => {
+        try {
+            const response = await fetch(`/api/tasks/${taskId}/dependencies/${dependencyId}`, {
+                method: "DELETE",
+            });
+
+            if (response.ok) {
+                await fetchDependencies();
+                onChange?.();
+            } else {
+                toast.error("Failed to remove link");
+            }
+        } catch (error) {
+            console.error("Failed to remove task dependency:", error);
+            toast.error("Failed to remove link");
+        }
+    };
+
+    const linkedIds = new Set([
+        taskId,
+        ...dependencies.blockedBy.map((d) => d.task.id),
+        ...dependencies.blocks.map((d) => d.task.id),
+    ]);
+    const candidates = projectTasks.filter((t) => !linkedIds.has(t.id));
+
+    return (
+        <div className="space-y-3">
+            <h3 className="font-semibold text-sm flex items-center gap-2">
+                <Link2 className="h-4 w-4" />
+                Dependencies
+            </h3>
+            {sections.map(({ direction, label, empty }) => (
+                <div key={direction} className="space-y-1.5">
+                    <div className="flex items-center justify-between">
+                        <p className="text-xs font-medium text-muted-foreground">{label}</p>
+                        {adding !== direction && candidates.length > 0 && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 text-xs"
+                                onClick={() => setAdding(direction)}
+                            >
+                                Add
+                            </Button>
+                        )}
+                    </div>
+                    {adding === direction && (
+                        <Select onValueChange={(value) => addDependency(direction, value)}>
+                            <SelectTrigger className="h-8 text-sm">
+                                <SelectValue placeholder="Select a task" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {candidates.map((candidate) => (
+                                    <SelectItem key={candidate.id} value={candidate.id}>
+                                        {candidate.title}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    )}
+                    {dependencies[direction].length === 0 ? (
+                        <p className="text-sm text-muted-foreground">{empty}</p>
+                    ) : (
+                        <ul className="space-y-1">
+                            {dependencies[direction].map((dependency) => (
+                                <li
+                                    key={dependency.id}
+                                    className="flex items-center justify-between gap-2 rounded border dark:border-gray-800 px-2 py-1"
+                                >
+                                    <span
+                                        className={`text-sm truncate flex items-center gap-1.5 ${dependency.open ? "" : "line-through text-muted-foreground"
+                                            }`}
+                                    >
+                                        {direction === "blockedBy" && dependency.open && (
+                                            <Ban className="h-3 w-3 text-red-600 flex-shrink-0" />
+                                        )}
+                                        {dependency.task.title}
+                                    </span>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-6 w-6 flex-shrink-0"
+                                        onClick={() => removeDependency(dependency.id)}
+                                        aria-label="Remove link"
+                                    >
+                                        <X className="h-3 w-3" />
+                                    </Button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -1,20 +1,32 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Task, User, TaskPriority } from "@/types";
-import { Calendar, Flag, User as UserIcon, Edit } from "lucide-react";
+import { Calendar, CornerDownRight, Flag, User as UserIcon, Edit, GitCommit } from "lucide-react";
 import { format } from "date-fns";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
+import type { WorkflowColumn } from "@/lib/task-workflow";
+import type { TaskProgress } from "@/lib/task-progress";
+import { TaskDependencies } from "./task-dependencies";
+import { TaskSubtasks } from "./task-subtasks";
+import { TaskChecklist } from "./task-checklist";
 
 interface TaskDetailModalProps {
     open: boolean;
     onOpenChange(open: boolean): void;
     task: (Task & { assignee?: User | null; createdBy?: User | null }) | null;
     onEdit?: () => void;
+    columns: WorkflowColumn[];
+    projectTasks?: { id: string; title: string; status: string; parentId: string | null }[];
+    onDependenciesChange?: () => void;
+    progress?: TaskProgress; // Roll-up of checklist items and subtasks
+    onCreateSubtask?: (parentId: string, title: string) => Promise<void>;
+    onChecklistChange?: (taskId: string, items: { done: boolean }[]) => void;
 }
 
 const priorityColors: Record<TaskPriority, string> = {
@@ -29,16 +41,61 @@ const priorityLabels: Record<TaskPriority, string> = {
     HIGH: "High Priority",
 };
 
-const statusLabels: Record<string, string> = {
-    TODO: "To Do",
-    IN_PROGRESS: "In Progress",
-    UNDER_REVIEW: "Under Review",
-    DONE: "Done",
-};
+interface TaskCommit {
+    sha: string;
+    message: string;
+    author: string;
+    committedAt: string;
+    url: string;
+    closesTask: boolean;
+}
+
+export function TaskDetailModal({
+    open,
+    onOpenChange,
+    task,
+    onEdit,
+    columns,
+    projectTasks = [],
+    onDependenciesChange,
+    progress,
+    onCreateSubtask,
+    onChecklistChange,
+}: TaskDetailModalProps) {
+    const [commits, setCommits] = useState<TaskCommit[]>([]);
+    const taskId = task?.id;
+
+    // Load the commits whose messages referenced this task
+    useEffect(() => {
+        if (!open || !taskId) {
+            setCommits([]);
+            return;
+        }
+
+        let cancelled = false;
+        fetch(`/api/tasks/${taskId}/commits`)
+            .then((response) => (response.ok ? response.json() : { commits: [] }))
+            .then((data) => {
+                if (!cancelled) setCommits(data.commits || []);
+            })
+            .catch(() => {
+                if (!cancelled) setCommits([]);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [open, taskId]);
 
-export function TaskDetailModal({ open, onOpenChange, task, onEdit }: TaskDetailModalProps) {
     if (!task) return null;
 
+    const parent = task.parentId ? projectTasks.find((t) => t.id === task.parentId) : undefined;
+    // Subtask statuses on the board, so the list refetches when one of them moves
+    const subtaskStatuses = projectTasks
+        .filter((t) => t.parentId === task.id)
+        .map((t) => `${t.id}:${t.status}`)
+        .join(",");
+
     return (
         <Dialog open={open} onOpenChange={onOpenChange}>
             <DialogContent className="sm:max-w-[600px] max-h-[80vh] overflow-y-auto dark:bg-gray-950 dark:border-gray-800">
@@ -55,13 +112,40 @@ export function TaskDetailModal({ open, onOpenChange, task, onEdit }: TaskDetail
                 <div className="space-y-6">
                     {/* Status and Priority */}
                     <div className="flex items-center gap-2 flex-wrap">
-                        <Badge variant="outline">{statusLabels[task.status]}</Badge>
+                        <Badge variant="outline">
+                            {columns.find((column) => column.key === task.status)?.name ?? task.status}
+                        </Badge>
                         <Badge className={priorityColors[task.priority]}>
                             <Flag className="h-3 w-3 mr-1" />
                             {priorityLabels[task.priority]}
                         </Badge>
                     </div>
 
+                    {parent && (
+                        <p className="text-sm text-muted-foreground flex items-center gap-1.5">
+                            <CornerDownRight className="h-4 w-4" />
+                            Subtask of <span className="font-medium text-foreground">{parent.title}</span>
+                        </p>
+                    )}
+
+                    {/* Progress Roll-up */}
+                    {progress && progress.total > 0 && (
+                        <div className="space-y-1">
+                            <div className="flex items-center justify-between text-xs text-muted-foreground">
+                                <span>Progress</span>
+                                <span>
+                                    {progress.done}/{progress.total} ({progress.percent}%)
+                                </span>
+                            </div>
+                            <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-800 overflow-hidden">
+                                <div
+                                    className="h-full bg-emerald-500 transition-all"
+                                    style={{ width: `${progress.percent}%` }}
+                                />
+                            </div>
+                        </div>
+                    )}
+
                     {/* Description with Markdown */}
                     {task.description && (
                         <div className="space-y-2">
@@ -135,6 +219,57 @@ export function TaskDetailModal({ open, onOpenChange, task, onEdit }: TaskDetail
                         </div>
                     )}
 
+                    {/* Subtasks and Checklist */}
+                    <TaskSubtasks
+                        taskId={task.id}
+                        columns={columns}
+                        onCreateSubtask={onCreateSubtask ? (title) => onCreateSubtask(task.id, title) : undefined}
+                        refreshKey={subtaskStatuses}
+                    />
+
+                    <TaskChecklist
+                        taskId={task.id}
+                        onChange={(items) => onChecklistChange?.(task.id, items)}
+                    />
+
+                    {/* Blocking and Blocked Tasks */}
+                    <TaskDependencies
+                        taskId={task.id}
+                        projectTasks={projectTasks}
+                        onChange={onDependenciesChange}
+                    />
+
+                    {/* Referencing Commits */}
+                    {commits.length > 0 && (
+                        <div className="space-y-2">
+                            <h3 className="font-semibold text-sm flex items-center gap-2">
+                                <GitCommit className="h-4 w-4" />
+                                Commits ({commits.length})
+                            </h3>
+                            <div className="space-y-2">
+                                {commits.map((commit) => (
+                                    <a
+                                        key={commit.sha}
+                                        href={commit.url}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="block rounded-lg border dark:border-gray-800 p-2 hover:bg-gray-50 dark:hover:bg-gray-900"
+                                    >
+                                        <p className="text-sm font-medium truncate">{commit.message.split("\n")[0]}</p>
+                                        <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                                            <code>{commit.sha.substring(0, 7)}</code>
+                                            <span>{commit.author}</span>
+                                            <span>{format(new Date(commit.committedAt), "MMM d, yyyy")}</span>
+                                            {commit.closesTask && (
+                                                <Badge variant="outline" className="text-xs">Closes</Badge>
+                                            )}
+                                        </div>
+                                    </a>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Timestamps */}
                     <div className="pt-4 border-t text-xs text-muted-foreground space-y-1">
                         <p>Created: {format(new Date(task.createdAt), "PPpp")}</p>
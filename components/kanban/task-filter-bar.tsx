@@ -0,0 +1,200 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Filter, Search, X } from "lucide-react";
+import { BACKLOG, UNASSIGNED, isEmptyTaskQuery, type TaskQuery } from "@/lib/task-query";
+import type { CustomFieldDefinition, LabelDefinition } from "@/lib/task-fields";
+import { CustomFieldInput } from "@/components/kanban/custom-field-input";
+import type { TaskPriority, User } from "@/types";
+
+interface TaskFilterBarProps {
+    query: TaskQuery;
+    onChange: (query: TaskQuery) => void;
+    teamMembers: User[];
+    sprints: { id: string; name: string; status: string }[];
+    components: { id: string; name: string }[]; // Architecture components tasks can be linked to
+    labels: LabelDefinition[];
+    customFields: CustomFieldDefinition[];
+}
+
+const ALL = "all";
+
+export function TaskFilterBar({
+    query,
+    onChange,
+    teamMembers,
+    sprints,
+    components,
+    labels,
+    customFields,
+}: TaskFilterBarProps) {
+    // Selects use "all" for a filter that is not set
+    const update = (key: keyof TaskQuery, value: string) => {
+        onChange({ ...query, [key]: value.trim() && value !== ALL ? value : undefined });
+    };
+
+    const filterField = customFields.find((field) => field.id === query.fieldId);
+
+    return (
+        <div className="flex items-center gap-3 flex-wrap">
+            <div className="flex items-center gap-2">
+                <Filter className="h-4 w-4 text-muted-foreground" />
+                <span className="text-sm font-medium">Filters:</span>
+            </div>
+
+            <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                    type="search"
+                    value={query.text ?? ""}
+                    onChange={(e) => update("text", e.target.value)}
+                    placeholder="Search tasks"
+                    className="pl-9 w-[200px]"
+                />
+            </div>
+
+            <Select value={query.assigneeId ?? ALL} onValueChange={(value) => update("assigneeId", value)}>
+                <SelectTrigger className="w-[170px]">
+                    <SelectValue placeholder="All assignees" />
+                </SelectTrigger>
+                <SelectContent>
+                    <SelectItem value={ALL}>All assignees</SelectItem>
+                    <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                    {teamMembers.map((member) => (
+                        <SelectItem key={member.id} value={member.id}>
+                            {member.name || member.email}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+
+            <Select
+                value={query.priority ?? ALL}
+                onValueChange={(value) => update("priority", value as TaskPriority | typeof ALL)}
+            >
+                <SelectTrigger className="w-[150px]">
+                    <SelectValue placeholder="All priorities" />
+                </SelectTrigger>
+                <SelectContent>
+                    <SelectItem value={ALL}>All priorities</SelectItem>
+                    <SelectItem value="HIGH">High</SelectItem>
+                    <SelectItem value="MEDIUM">Medium</SelectItem>
+                    <SelectItem value="LOW">Low</SelectItem>
+                </SelectContent>
+            </Select>
+
+            <Select value={query.sprintId ?? ALL} onValueChange={(value) => update("sprintId", value)}>
+                <SelectTrigger className="w-[160px]">
+                    <SelectValue placeholder="All sprints" />
+                </SelectTrigger>
+                <SelectContent>
+                    <SelectItem value={ALL}>All sprints</SelectItem>
+                    <SelectItem value={BACKLOG}>Backlog</SelectItem>
+                    {sprints
+                        .filter((sprint) => sprint.status !== "CLOSED" || sprint.id === query.sprintId)
+                        .map((sprint) => (
+                            <SelectItem key={sprint.id} value={sprint.id}>
+                                {sprint.name}
+                            </SelectItem>
+                        ))}
+                </SelectContent>
+            </Select>
+
+            {components.length > 0 && (
+                <Select value={query.componentId ?? ALL} onValueChange={(value) => update("componentId", value)}>
+                    <SelectTrigger className="w-[170px]">
+                        <SelectValue placeholder="All components" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={ALL}>All components</SelectItem>
+                        {components.map((component) => (
+                            <SelectItem key={component.id} value={component.id}>
+                                {component.name}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            )}
+
+            {labels.length > 0 && (
+                <Select value={query.labelId ?? ALL} onValueChange={(value) => update("labelId", value)}>
+                    <SelectTrigger className="w-[150px]">
+                        <SelectValue placeholder="All labels" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={ALL}>All labels</SelectItem>
+                        {labels.map((label) => (
+                            <SelectItem key={label.id} value={label.id}>
+                                <span className="flex items-center gap-2">
+                                    <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: label.color }} />
+                                    {label.name}
+                                </span>
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            )}
+
+            {customFields.length > 0 && (
+                <div className="flex items-center gap-1">
+                    <Select
+                        value={query.fieldId ?? ALL}
+                        onValueChange={(value) =>
+                            onChange({ ...query, fieldId: value === ALL ? undefined : value, fieldValue: undefined })
+                        }
+                    >
+                        <SelectTrigger className="w-[150px]">
+                            <SelectValue placeholder="Any field" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ALL}>Any field</SelectItem>
+                            {customFields.map((field) => (
+                                <SelectItem key={field.id} value={field.id}>
+                                    {field.name}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    {filterField && (
+                        <CustomFieldInput
+                            field={filterField}
+                            value={query.fieldValue ?? ""}
+                            onChange={(value) => update("fieldValue", value)}
+                            teamMembers={teamMembers}
+                            emptyLabel="Any value"
+                            className="w-[150px]"
+                        />
+                    )}
+                </div>
+            )}
+
+            <div className="flex items-center gap-1">
+                <span className="text-sm text-muted-foreground">Due</span>
+                <Input
+                    type="date"
+                    value={query.dueFrom ?? ""}
+                    onChange={(e) => update("dueFrom", e.target.value)}
+                    className="w-[150px]"
+                    aria-label="Due from"
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                    type="date"
+                    value={query.dueTo ?? ""}
+                    onChange={(e) => update("dueTo", e.target.value)}
+                    className="w-[150px]"
+                    aria-label="Due to"
+                />
+            </div>
+
+            {!isEmptyTaskQuery(query) && (
+                <Button variant="ghost" size="sm" onClick={() => onChange({})}>
+                    <X className="h-4 w-4 mr-1" />
+                    Clear
+                </Button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,23 @@
+"use client";
+
+import type { LabelDefinition } from "@/lib/task-fields";
+
+interface TaskLabelChipsProps {
+    labels: LabelDefinition[];
+}
+
+export function TaskLabelChips({ labels }: TaskLabelChipsProps) {
+    return (
+        <div className="flex flex-wrap gap-1">
+            {labels.map((label) => (
+                <span
+                    key={label.id}
+                    className="inline-flex items-center rounded-full px-2 py-0.5 text-[10px] font-medium text-white"
+                    style={{ backgroundColor: label.color }}
+                >
+                    {label.name}
+                </span>
+            ))}
+        </div>
+    );
+}
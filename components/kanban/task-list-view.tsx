@@ -0,0 +1,127 @@
+"use client";
+
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Ban, Flag } from "lucide-react";
+import { Task, TaskPriority, User } from "@/types";
+import type { WorkflowColumn } from "@/lib/task-workflow";
+import type { TaskProgress } from "@/lib/task-progress";
+import type { LabelDefinition } from "@/lib/task-fields";
+import { TaskLabelChips } from "./task-label-chips";
+
+interface TaskListViewProps {
+    tasks: (Task & { assignee?: User | null })[];
+    columns: WorkflowColumn[];
+    sprints: { id: string; name: string }[];
+    blockers?: Record<string, string[]>; // Titles of open blocking tasks by task ID
+    progress?: Record<string, TaskProgress>; // Checklist and subtask roll-up by task ID
+    taskLabels?: Record<string, LabelDefinition[]>; // Labels by task ID
+    onTaskClick?: (task: Task) => void;
+}
+
+const priorityColors: Record<TaskPriority, string> = {
+    LOW: "text-blue-600 dark:text-blue-400",
+    MEDIUM: "text-yellow-600 dark:text-yellow-400",
+    HIGH: "text-red-600 dark:text-red-400",
+};
+
+export function TaskListView({ tasks, columns, sprints, blockers, progress, taskLabels, onTaskClick }: TaskListViewProps) {
+    const columnsByKey = new Map(columns.map((column) => [column.key, column]));
+    const sprintNames = new Map(sprints.map((sprint) => [sprint.id, sprint.name]));
+
+    if (tasks.length === 0) {
+        return (
+            <div className="flex items-center justify-center h-32 text-sm text-muted-foreground border rounded-lg border-gray-200 dark:border-gray-800">
+                No tasks
+            </div>
+        );
+    }
+
+    return (
+        <div className="overflow-x-auto border rounded-lg border-gray-200 dark:border-gray-800">
+            <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-900/50 text-left text-xs text-muted-foreground">
+                    <tr>
+                        <th className="px-4 py-2 font-medium">Task</th>
+                        <th className="px-4 py-2 font-medium">Status</th>
+                        <th className="px-4 py-2 font-medium">Priority</th>
+                        <th className="px-4 py-2 font-medium">Assignee</th>
+                        <th className="px-4 py-2 font-medium">Sprint</th>
+                        <th className="px-4 py-2 font-medium">Due</th>
+                        <th className="px-4 py-2 font-medium text-right">Progress</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                    {tasks.map((task) => {
+                        const column = columnsByKey.get(task.status);
+                        const taskProgress = progress?.[task.id];
+                        return (
+                            <tr
+                                key={task.id}
+                                onClick={() => onTaskClick?.(task)}
+                                className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-900/50"
+                            >
+                                <td className="px-4 py-2 max-w-[320px]">
+                                    <div className="flex items-center gap-1.5">
+                                        {blockers?.[task.id] && (
+                                            <Ban
+                                                className="h-3.5 w-3.5 flex-shrink-0 text-red-600"
+                                                aria-label={`Blocked by ${blockers[task.id].join(", ")}`}
+                                            />
+                                        )}
+                                        <span className="font-medium truncate">{task.title}</span>
+                                    </div>
+                                    {taskLabels?.[task.id] && (
+                                        <div className="mt-1">
+                                            <TaskLabelChips labels={taskLabels[task.id]} />
+                                        </div>
+                                    )}
+                                </td>
+                                <td className="px-4 py-2">
+                                    <Badge
+                                        variant="outline"
+                                        className="text-xs"
+                                        style={column ? { borderColor: column.color, color: column.color } : undefined}
+                                    >
+                                        {column?.name ?? task.status}
+                                    </Badge>
+                                </td>
+                                <td className="px-4 py-2">
+                                    <span className={`flex items-center gap-1 ${priorityColors[task.priority]}`}>
+                                        <Flag className="h-3.5 w-3.5" fill="currentColor" />
+                                        {task.priority.charAt(0) + task.priority.slice(1).toLowerCase()}
+                                    </span>
+                                </td>
+                                <td className="px-4 py-2">
+                                    {task.assignee ? (
+                                        <span className="flex items-center gap-2">
+                                            <Avatar className="h-5 w-5">
+                                                <AvatarImage src={task.assignee.image || undefined} />
+                                                <AvatarFallback className="text-[10px]">
+                                                    {task.assignee.name?.[0] || task.assignee.email[0].toUpperCase()}
+                                                </AvatarFallback>
+                                            </Avatar>
+                                            <span className="truncate">{task.assignee.name || task.assignee.email}</span>
+                                        </span>
+                                    ) : (
+                                        <span className="text-muted-foreground">Unassigned</span>
+                                    )}
+                                </td>
+                                <td className="px-4 py-2 text-muted-foreground">
+                                    {task.sprintId ? sprintNames.get(task.sprintId) ?? "" : "Backlog"}
+                                </td>
+                                <td className="px-4 py-2 text-muted-foreground whitespace-nowrap">
+                                    {task.dueDate ? format(new Date(task.dueDate), "MMM d, yyyy") : ""}
+                                </td>
+                                <td className="px-4 py-2 text-right text-muted-foreground">
+                                    {taskProgress && taskProgress.total > 0 ? `${taskProgress.percent}%` : ""}
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+}
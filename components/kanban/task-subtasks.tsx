@@ -0,0 +1,156 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ArrowDown, ArrowUp, ListTree, Plus } from "lucide-react";
+import type { WorkflowColumn } from "@/lib/task-workflow";
+
+interface Subtask {
+    id: string;
+    title: string;
+    status: string;
+}
+
+interface TaskSubtasksProps {
+    taskId: string;
+    columns: WorkflowColumn[];
+    onCreateSubtask?: (title: string) => Promise<void>;
+    refreshKey?: unknown; // Refetch when it changes, e.g. after subtasks move on the board
+}
+
+export function TaskSubtasks({ taskId, columns, onCreateSubtask, refreshKey }: TaskSubtasksProps) {
+    const [subtasks, setSubtasks] = useState<Subtask[]>([]);
+    const [newTitle, setNewTitle] = useState("");
+    const [isCreating, setIsCreating] = useState(false);
+
+    const fetchSubtasks = useCallback(async () => {
+        try {
+            const response = await fetch(`/api/tasks/${taskId}/subtasks`);
+            if (response.ok) {
+                const data = await response.json();
+                setSubtasks(data.subtasks);
+            }
+        } catch (error) {
+            console.error("Failed to fetch subtasks:", error);
+        }
+    }, [taskId]);
+
+    useEffect(() => {
+        fetchSubtasks();
+    }, [fetchSubtasks, refreshKey]);
+
+    const moveSubtask = async (index: number, offset: -1 | 1) => {
+        const reordered = [...subtasks];
+        [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+
+        // Optimistic update
+        const originalSubtasks = subtasks;
+        setSubtasks(reordered);
+
+        try {
+            const response = await fetch(`/api/tasks/${taskId}/subtasks`, {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ order: reordered.map((s) => s.id) }),
+            });
+
+            if (!response.ok) {
+                // Rollback on error
+                setSubtasks(originalSubtasks);
+                toast.error("Failed to reorder subtasks");
+            }
+        } catch (error) {
+            console.error("Failed to reorder subtasks:", error);
+            setSubtasks(originalSubtasks);
+            toast.error("Failed to reorder subtasks");
+        }
+    };
+
+    const createSubtask = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const title = newTitle.trim();
+        if (!title || !onCreateSubtask) return;
+
+        setIsCreating(true);
+        try {
+            await onCreateSubtask(title);
+            setNewTitle("");
+            await fetchSubtasks();
+        } catch (error) {
+            console.error("Failed to create subtask:", error);
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const columnByKey = new Map(columns.map((column) => [column.key, column]));
+
+    return (
+        <div className="space-y-2">
+            <h3 className="font-semibold text-sm flex items-center gap-2">
+                <ListTree className="h-4 w-4" />
+                Subtasks {subtasks.length > 0 && `(${subtasks.length})`}
+            </h3>
+            {subtasks.length > 0 && (
+                <ul className="space-y-1">
+                    {subtasks.map((subtask, index) => {
+                        const column = columnByKey.get(subtask.status);
+                        return (
+                            <li
+                                key={subtask.id}
+                                className="flex items-center gap-2 rounded border dark:border-gray-800 px-2 py-1"
+                            >
+                                <span
+                                    className={`flex-1 text-sm truncate ${column?.isDone ? "line-through text-muted-foreground" : ""}`}
+                                >
+                                    {subtask.title}
+                                </span>
+                                <Badge variant="outline" className="text-xs shrink-0">
+                                    {column?.name ?? subtask.status}
+                                </Badge>
+                                <div className="flex shrink-0">
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-6 w-6"
+                                        onClick={() => moveSubtask(index, -1)}
+                                        disabled={index === 0}
+                                        aria-label="Move subtask up"
+                                    >
+                                        <ArrowUp className="h-3 w-3" />
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-6 w-6"
+                                        onClick={() => moveSubtask(index, 1)}
+                                        disabled={index === subtasks.length - 1}
+                                        aria-label="Move subtask down"
+                                    >
+                                        <ArrowDown className="h-3 w-3" />
+                                    </Button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+            {onCreateSubtask && (
+                <form onSubmit={createSubtask} className="flex items-center gap-2">
+                    <Input
+                        value={newTitle}
+                        onChange={(e) => setNewTitle(e.target.value)}
+                        placeholder="Add a subtask"
+                        className="h-8 text-sm"
+                    />
+                    <Button type="submit" variant="outline" size="sm" disabled={isCreating || !newTitle.trim()}>
+                        <Plus className="h-4 w-4" />
+                    </Button>
+                </form>
+            )}
+        </div>
+    );
+}
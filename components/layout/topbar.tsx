@@ -24,6 +24,7 @@ import {
     Menu,
 } from "lucide-react";
 import { InvitationNotificationBadge } from "@/components/notifications/invitation-notification-badge";
+import { NotificationBell } from "@/components/notifications/notification-bell";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
 
 interface TopBarProps {
@@ -120,6 +121,7 @@ export function TopBar({ user, onMenuClick, showSearch = true }: TopBarProps) {
                     <ThemeToggle />
 
                     {/* Notifications */}
+                    <NotificationBell />
                     <InvitationNotificationBadge />
 
                     {/* User Menu */}
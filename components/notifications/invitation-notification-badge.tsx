@@ -8,7 +8,7 @@ import {
     DropdownMenuContent,
     DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Bell } from "lucide-react";
+import { Mail } from "lucide-react";
 import { ProjectInvitationsList } from "@/components/projects/project-invitations-list";
 import { TeamInvitationsList } from "@/components/teams/team-invitations-list";
 
@@ -56,8 +56,8 @@ export function InvitationNotificationBadge() {
     return (
         <DropdownMenu open={isOpen} onOpenChange={setIsOpen}>
             <DropdownMenuTrigger asChild>
-                <Button variant="ghost" size="sm" className="relative">
-                    <Bell className="h-5 w-5" />
+                <Button variant="ghost" size="sm" className="relative" aria-label="Invitations">
+                    <Mail className="h-5 w-5" />
                     {totalInvitations > 0 && (
                         <Badge
                             variant="destructive"
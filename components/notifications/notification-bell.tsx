@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { AlertTriangle, Bell, Clock } from "lucide-react";
+
+interface AppNotification {
+    id: string;
+    type: "TASK_DUE_SOON" | "TASK_OVERDUE_ESCALATION";
+    title: string;
+    message: string | null;
+    link: string | null;
+    readAt: string | null;
+    createdAt: string;
+}
+
+export function NotificationBell() {
+    const router = useRouter();
+    const [notifications, setNotifications] = useState<AppNotification[]>([]);
+    const [unreadCount, setUnreadCount] = useState(0);
+    const [isOpen, setIsOpen] = useState(false);
+
+    const fetchNotifications = async () => {
+        try {
+            const response = await fetch("/api/notifications");
+            if (response.ok) {
+                const data = await response.json();
+                setNotifications(data.notifications);
+                setUnreadCount(data.unreadCount);
+            }
+        } catch (error) {
+            console.error("Error fetching notifications:", error);
+        }
+    };
+
+    useEffect(() => {
+        fetchNotifications();
+        // Refresh every 30 seconds
+        const interval = setInterval(fetchNotifications, 30000);
+        return () => clearInterval(interval);
+    }, []);
+
+    // Refresh when dropdown is opened
+    useEffect(() => {
+        if (isOpen) {
+            fetchNotifications();
+        }
+    }, [isOpen]);
+
+    const markRead = async (ids?: string[]) => {
+        try {
+            const response = await fetch("/api/notifications", {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ ids }),
+            });
+            if (response.ok) {
+                const readAt = new Date().toISOString();
+                setNotifications((prev) =>
+                    prev.map((n) => (!ids || ids.includes(n.id) ? { ...n, readAt: n.readAt ?? readAt } : n))
+                );
+                setUnreadCount((prev) => (ids ? Math.max(0, prev - ids.length) : 0));
+            }
+        } catch (error) {
+            console.error("Error marking notifications as read:", error);
+        }
+    };
+
+    const handleOpen = (notification: AppNotification) => {
+        if (!notification.readAt) {
+            markRead([notification.id]);
+        }
+        if (notification.link) {
+            setIsOpen(false);
+            router.push(notification.link);
+        }
+    };
+
+    return (
+        <DropdownMenu open={isOpen} onOpenChange={setIsOpen}>
+            <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="relative" aria-label="Notifications">
+                    <Bell className="h-5 w-5" />
+                    {unreadCount > 0 && (
+                        <Badge
+                            variant="destructive"
+                            className="absolute -top-1 -right-1 h-5 min-w-5 flex items-center justify-center px-1 text-xs"
+                        >
+                            {unreadCount > 99 ? "99+" : unreadCount}
+                        </Badge>
+                    )}
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-96 max-h-[500px] overflow-y-auto">
+                <div className="p-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                        <h3 className="font-semibold text-lg">Notifications</h3>
+                        {unreadCount > 0 && (
+                            <Button variant="ghost" size="sm" onClick={() => markRead()}>
+                                Mark all read
+                            </Button>
+                        )}
+                    </div>
+                    {notifications.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-8">
+                            No notifications
+                        </p>
+                    ) : (
+                        <div className="space-y-1">
+                            {notifications.map((notification) => (
+                                <button
+                                    key={notification.id}
+                                    type="button"
+                                    onClick={() => handleOpen(notification)}
+                                    className={`w-full flex gap-3 rounded-md p-2 text-left hover:bg-muted ${
+                                        notification.readAt ? "opacity-60" : ""
+                                    }`}
+                                >
+                                    {notification.type === "TASK_OVERDUE_ESCALATION" ? (
+                                        <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-red-500" />
+                                    ) : (
+                                        <Clock className="h-4 w-4 mt-0.5 shrink-0 text-amber-500" />
+                                    )}
+                                    <div className="min-w-0 flex-1">
+                                        <p className="text-sm font-medium truncate">{notification.title}</p>
+                                        {notification.message && (
+                                            <p className="text-xs text-muted-foreground">{notification.message}</p>
+                                        )}
+                                        <p className="text-xs text-muted-foreground mt-0.5">
+                                            {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                                        </p>
+                                    </div>
+                                    {!notification.readAt && (
+                                        <span className="h-2 w-2 mt-1.5 shrink-0 rounded-full bg-emerald-500" />
+                                    )}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <div className="border-t pt-2 text-right">
+                        <Link
+                            href="/account"
+                            onClick={() => setIsOpen(false)}
+                            className="text-xs text-muted-foreground hover:underline"
+                        >
+                            Notification preferences
+                        </Link>
+                    </div>
+                </div>
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    DEFAULT_NOTIFICATION_PREFERENCES,
+    MAX_REMINDER_LEAD_HOURS,
+    type NotificationPreferences,
+} from "@/lib/notification-rules";
+
+export function NotificationPreferencesCard() {
+    const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        fetch("/api/notifications/preferences")
+            .then((res) => (res.ok ? res.json() : null))
+            .then((body) => body && setPreferences(body))
+            .catch((err) => console.error("Failed to load notification preferences", err))
+            .finally(() => setLoading(false));
+    }, []);
+
+    const update = (changes: Partial<NotificationPreferences>) => setPreferences({ ...preferences, ...changes });
+
+    const save = async () => {
+        setSaving(true);
+        try {
+            const res = await fetch("/api/notifications/preferences", {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(preferences),
+            });
+            if (res.ok) {
+                toast.success("Notification preferences saved");
+            } else {
+                const body = await res.json().catch(() => null);
+                toast.error(body?.details?.[0]?.message || body?.error || "Failed to save preferences");
+            }
+        } catch (err) {
+            console.error(err);
+            toast.error("Failed to save preferences");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Card className="p-6 mb-4">
+            <h2 className="text-lg font-semibold">Notifications</h2>
+            {loading ? (
+                <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : (
+                <div className="mt-3 space-y-4">
+                    <div className="flex items-start gap-3">
+                        <input
+                            id="dueReminders"
+                            type="checkbox"
+                            checked={preferences.dueReminders}
+                            onChange={(e) => update({ dueReminders: e.target.checked })}
+                            className="mt-1 h-4 w-4"
+                        />
+                        <div className="space-y-2">
+                            <Label htmlFor="dueReminders">Due date reminders</Label>
+                            <p className="text-sm text-muted-foreground">
+                                Remind me about tasks assigned to me before they are due.
+                            </p>
+                            <div className="flex items-center gap-2">
+                                <Input
+                                    type="number"
+                                    min={1}
+                                    max={MAX_REMINDER_LEAD_HOURS}
+                                    value={preferences.reminderLeadHours}
+                                    onChange={(e) => update({ reminderLeadHours: Number(e.target.value) })}
+                                    disabled={!preferences.dueReminders}
+                                    className="w-24"
+                                    aria-label="Hours before the due date"
+                                />
+                                <span className="text-sm text-muted-foreground">hours before the due date</span>
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="flex items-start gap-3">
+                        <input
+                            id="overdueEscalations"
+                            type="checkbox"
+                            checked={preferences.overdueEscalations}
+                            onChange={(e) => update({ overdueEscalations: e.target.checked })}
+                            className="mt-1 h-4 w-4"
+                        />
+                        <div className="space-y-1">
+                            <Label htmlFor="overdueEscalations">Overdue escalations</Label>
+                            <p className="text-sm text-muted-foreground">
+                                Tell me when a high-priority task in a project I own is overdue.
+                            </p>
+                        </div>
+                    </div>
+
+                    <div className="flex justify-end">
+                        <Button onClick={save} disabled={saving}>
+                            {saving ? "Saving..." : "Save Preferences"}
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </Card>
+    );
+}
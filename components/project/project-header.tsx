@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import {
     DropdownMenu,
@@ -35,6 +36,7 @@ interface ProjectHeaderProps {
 }
 
 export function ProjectHeader({ project, onProjectUpdate, onMenuClick }: ProjectHeaderProps) {
+    const router = useRouter();
     const [isInviteModalOpen, setIsInviteModalOpen] = useState(false);
 
     return (
@@ -95,7 +97,7 @@ export function ProjectHeader({ project, onProjectUpdate, onMenuClick }: Project
                                     </Button>
                                 </DropdownMenuTrigger>
                                 <DropdownMenuContent align="end">
-                                    <DropdownMenuItem>
+                                    <DropdownMenuItem onClick={() => router.push(`/projects/${project.id}/settings`)}>
                                         <Settings className="mr-2 h-4 w-4" />
                                         Project Settings
                                     </DropdownMenuItem>
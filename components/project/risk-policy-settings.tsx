@@ -0,0 +1,243 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card } from "@/components/ui/card";
+import { ShieldAlert, RotateCcw } from "lucide-react";
+import type { RiskFactorKey, RiskPolicy, ScoredRiskFactorKey } from "@/lib/risk-policy";
+
+interface RiskPolicySettingsProps {
+    projectId: string;
+}
+
+// Factors without a weight only raise risk factors and do not feed the score
+const FACTORS: Array<{ key: RiskFactorKey; label: string; unit: string; inverse?: boolean; weighted?: false }> = [
+    { key: "churn", label: "Architectural Churn", unit: "commits in window" },
+    { key: "decisions", label: "Decision Coverage", unit: "linked decisions", inverse: true },
+    { key: "coupling", label: "Coupling", unit: "dependencies" },
+    { key: "busFactor", label: "Bus Factor", unit: "people writing most of the last year's commits", inverse: true, weighted: false },
+    { key: "openTasks", label: "Open High-Priority Tasks", unit: "open high-priority tasks linked to the component", weighted: false },
+];
+
+export function RiskPolicySettings({ projectId }: RiskPolicySettingsProps) {
+    const [policy, setPolicy] = useState<RiskPolicy | null>(null);
+    const [canEdit, setCanEdit] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState("");
+
+    useEffect(() => {
+        async function fetchPolicy() {
+            try {
+                const response = await fetch(`/api/projects/${projectId}/risk-policy`);
+                if (response.ok) {
+                    const data = await response.json();
+                    setPolicy(data.policy);
+                    setCanEdit(data.canEdit);
+                } else {
+                    setError("Failed to load risk policy");
+                }
+            } catch {
+                setError("Failed to load risk policy");
+            } finally {
+                setLoading(false);
+            }
+        }
+
+        fetchPolicy();
+    }, [projectId]);
+
+    const updateThreshold = (factor: RiskFactorKey, level: "low" | "medium" | "high", value: string) => {
+        if (!policy) return;
+        setPolicy({
+            ...policy,
+            thresholds: {
+                ...policy.thresholds,
+                [factor]: { ...policy.thresholds[factor], [level]: Number(value) },
+            },
+        });
+    };
+
+    const updateWeight = (factor: ScoredRiskFactorKey, value: string) => {
+        if (!policy) return;
+        setPolicy({ ...policy, weights: { ...policy.weights, [factor]: Number(value) } });
+    };
+
+    const toggleFactor = (factor: RiskFactorKey) => {
+        if (!policy) return;
+        const enabledFactors = policy.enabledFactors.includes(factor)
+            ? policy.enabledFactors.filter((f) => f !== factor)
+            : [...policy.enabledFactors, factor];
+        setPolicy({ ...policy, enabledFactors });
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!policy) return;
+
+        setError("");
+        setSaving(true);
+        try {
+            const response = await fetch(`/api/projects/${projectId}/risk-policy`, {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(policy),
+            });
+
+            if (response.ok) {
+                const data = await response.json();
+                setPolicy(data.policy);
+                toast.success("Risk policy updated");
+            } else {
+                const data = await response.json().catch(() => null);
+                setError(data?.details?.[0]?.message || data?.error || "Failed to update risk policy");
+            }
+        } catch {
+            setError("An error occurred. Please try again.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleReset = async () => {
+        if (!confirm("Reset the risk policy to the default thresholds and weights?")) {
+            return;
+        }
+
+        setSaving(true);
+        try {
+            const response = await fetch(`/api/projects/${projectId}/risk-policy`, {
+                method: "DELETE",
+            });
+
+            if (response.ok) {
+                const data = await response.json();
+                setPolicy(data.policy);
+                toast.success("Risk policy reset to defaults");
+            } else {
+                toast.error("Failed to reset risk policy");
+            }
+        } catch {
+            toast.error("Failed to reset risk policy");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <Card className="p-6">
+                <div className="flex items-center justify-center h-32">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+                </div>
+            </Card>
+        );
+    }
+
+    if (!policy) {
+        return (
+            <Card className="p-6">
+                <p className="text-sm text-red-600">{error || "Risk policy unavailable"}</p>
+            </Card>
+        );
+    }
+
+    return (
+        <Card className="p-6">
+            <div className="flex items-center justify-between mb-4">
+                <div>
+                    <h2 className="text-lg font-semibold flex items-center gap-2">
+                        <ShieldAlert className="h-5 w-5" />
+                        Risk Policy
+                    </h2>
+                    <p className="text-sm text-muted-foreground mt-1">
+                        Thresholds and weights used for component risk scores and Architecture Map risk badges.
+                    </p>
+                </div>
+                {canEdit && (
+                    <Button variant="outline" size="sm" onClick={handleReset} disabled={saving}>
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Reset
+                    </Button>
+                )}
+            </div>
+
+            <form onSubmit={handleSave} className="space-y-6">
+                <div className="space-y-2 max-w-xs">
+                    <Label htmlFor="churnWindowDays">Churn window (days)</Label>
+                    <Input
+                        id="churnWindowDays"
+                        type="number"
+                        min={1}
+                        max={365}
+                        value={policy.churnWindowDays}
+                        onChange={(e) => setPolicy({ ...policy, churnWindowDays: Number(e.target.value) })}
+                        disabled={!canEdit}
+                    />
+                </div>
+
+                {FACTORS.map((factor) => {
+                    const enabled = policy.enabledFactors.includes(factor.key);
+                    return (
+                        <div key={factor.key} className="space-y-3 border-t pt-4 dark:border-gray-800">
+                            <label className="flex items-center gap-2 text-sm font-medium">
+                                <input
+                                    type="checkbox"
+                                    checked={enabled}
+                                    onChange={() => toggleFactor(factor.key)}
+                                    disabled={!canEdit}
+                                />
+                                {factor.label}
+                            </label>
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                                {(["low", "medium", "high"] as const).map((level) => (
+                                    <div key={level} className="space-y-1">
+                                        <Label htmlFor={`${factor.key}-${level}`} className="text-xs capitalize">
+                                            {level} ({factor.inverse ? "at most" : "at least"})
+                                        </Label>
+                                        <Input
+                                            id={`${factor.key}-${level}`}
+                                            type="number"
+                                            min={0}
+                                            value={policy.thresholds[factor.key][level]}
+                                            onChange={(e) => updateThreshold(factor.key, level, e.target.value)}
+                                            disabled={!canEdit || !enabled}
+                                        />
+                                    </div>
+                                ))}
+                                {factor.weighted !== false && (
+                                    <div className="space-y-1">
+                                        <Label htmlFor={`${factor.key}-weight`} className="text-xs">
+                                            Weight
+                                        </Label>
+                                        <Input
+                                            id={`${factor.key}-weight`}
+                                            type="number"
+                                            min={0}
+                                            step={0.05}
+                                            value={policy.weights[factor.key as ScoredRiskFactorKey]}
+                                            onChange={(e) => updateWeight(factor.key as ScoredRiskFactorKey, e.target.value)}
+                                            disabled={!canEdit || !enabled}
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                            <p className="text-xs text-muted-foreground">Measured in {factor.unit}</p>
+                        </div>
+                    );
+                })}
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                {canEdit && (
+                    <Button type="submit" disabled={saving}>
+                        {saving ? "Saving..." : "Save Risk Policy"}
+                    </Button>
+                )}
+            </form>
+        </Card>
+    );
+}
@@ -0,0 +1,301 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Plus, Tags, Trash2 } from "lucide-react";
+import type { CustomFieldDefinition, LabelDefinition } from "@/lib/task-fields";
+
+interface TaskFieldSettingsProps {
+    projectId: string;
+}
+
+// Entries not saved yet have no ID; `key` identifies rows while editing
+type EditableLabel = Omit<LabelDefinition, "id"> & { id?: string; key: string };
+type EditableField = Omit<CustomFieldDefinition, "id" | "options"> & { id?: string; key: string; options: string };
+
+const MAX_LABELS = 50;
+const MAX_CUSTOM_FIELDS = 20;
+
+const FIELD_TYPES: { value: CustomFieldDefinition["type"]; label: string }[] = [
+    { value: "NUMBER", label: "Number" },
+    { value: "SELECT", label: "Select" },
+    { value: "DATE", label: "Date" },
+    { value: "USER", label: "User" },
+    { value: "URL", label: "URL" },
+];
+
+let nextRowId = 0;
+
+function toEditable(data: { labels: LabelDefinition[]; customFields: CustomFieldDefinition[] }) {
+    return {
+        labels: data.labels.map((label) => ({ ...label, key: label.id })),
+        fields: data.customFields.map((field) => ({ ...field, key: field.id, options: field.options.join(", ") })),
+    };
+}
+
+export function TaskFieldSettings({ projectId }: TaskFieldSettingsProps) {
+    const [labels, setLabels] = useState<EditableLabel[] | null>(null);
+    const [fields, setFields] = useState<EditableField[]>([]);
+    const [canEdit, setCanEdit] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState("");
+
+    useEffect(() => {
+        async function fetchTaskFields() {
+            try {
+                const response = await fetch(`/api/projects/${projectId}/task-fields`);
+                if (response.ok) {
+                    const data = await response.json();
+                    const editable = toEditable(data);
+                    setLabels(editable.labels);
+                    setFields(editable.fields);
+                    setCanEdit(data.canEdit);
+                } else {
+                    setError("Failed to load labels and custom fields");
+                }
+            } catch {
+                setError("Failed to load labels and custom fields");
+            } finally {
+                setLoading(false);
+            }
+        }
+
+        fetchTaskFields();
+    }, [projectId]);
+
+    const updateLabel = (key: string, changes: Partial<EditableLabel>) => {
+        if (!labels) return;
+        setLabels(labels.map((label) => (label.key === key ? { ...label, ...changes } : label)));
+    };
+
+    const updateField = (key: string, changes: Partial<EditableField>) => {
+        setFields(fields.map((field) => (field.key === key ? { ...field, ...changes } : field)));
+    };
+
+    const moveField = (index: number, offset: -1 | 1) => {
+        const reordered = [...fields];
+        [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+        setFields(reordered);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!labels) return;
+
+        setError("");
+        setSaving(true);
+        try {
+            const response = await fetch(`/api/projects/${projectId}/task-fields`, {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    labels: labels.map(({ key, ...label }) => label),
+                    customFields: fields.map(({ key, options, ...field }) => ({
+                        ...field,
+                        options:
+                            field.type === "SELECT"
+                                ? options.split(",").map((option) => option.trim()).filter(Boolean)
+                                : [],
+                    })),
+                }),
+            });
+
+            if (response.ok) {
+                const editable = toEditable(await response.json());
+                setLabels(editable.labels);
+                setFields(editable.fields);
+                toast.success("Labels and custom fields updated");
+            } else {
+                const data = await response.json().catch(() => null);
+                setError(data?.details?.[0]?.message || data?.error || "Failed to update labels and custom fields");
+            }
+        } catch {
+            setError("An error occurred. Please try again.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <Card className="p-6">
+                <div className="flex items-center justify-center h-32">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+                </div>
+            </Card>
+        );
+    }
+
+    if (!labels) {
+        return (
+            <Card className="p-6">
+                <p className="text-sm text-red-600">{error || "Labels and custom fields unavailable"}</p>
+            </Card>
+        );
+    }
+
+    return (
+        <Card className="p-6">
+            <div className="mb-4">
+                <h2 className="text-lg font-semibold flex items-center gap-2">
+                    <Tags className="h-5 w-5" />
+                    Labels &amp; Custom Fields
+                </h2>
+                <p className="text-sm text-muted-foreground mt-1">
+                    Labels and fields every task of the project can use, and the board can filter by.
+                    Removing one clears it from all tasks, as does changing a field&apos;s type;
+                    removing a select option clears it where it was chosen.
+                </p>
+            </div>
+
+            <form onSubmit={handleSave} className="space-y-6">
+                <div className="space-y-2">
+                    <h3 className="text-sm font-medium">Labels</h3>
+                    {labels.length === 0 && <p className="text-sm text-muted-foreground">No labels yet.</p>}
+                    {labels.map((label) => (
+                        <div key={label.key} className="flex items-center gap-2">
+                            <input
+                                type="color"
+                                value={label.color}
+                                onChange={(e) => updateLabel(label.key, { color: e.target.value })}
+                                disabled={!canEdit}
+                                className="h-9 w-9 shrink-0 cursor-pointer rounded border bg-transparent p-1 disabled:cursor-default"
+                                aria-label="Label color"
+                            />
+                            <Input
+                                value={label.name}
+                                onChange={(e) => updateLabel(label.key, { name: e.target.value })}
+                                placeholder="Label name"
+                                maxLength={30}
+                                disabled={!canEdit}
+                            />
+                            {canEdit && (
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => setLabels(labels.filter((existing) => existing.key !== label.key))}
+                                    aria-label="Remove label"
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            )}
+                        </div>
+                    ))}
+                    {canEdit && (
+                        <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setLabels([...labels, { key: `new-${nextRowId++}`, name: "", color: "#6366f1" }])}
+                            disabled={labels.length >= MAX_LABELS}
+                        >
+                            <Plus className="h-4 w-4 mr-2" />
+                            Add Label
+                        </Button>
+                    )}
+                </div>
+
+                <div className="space-y-2">
+                    <h3 className="text-sm font-medium">Custom Fields</h3>
+                    {fields.length === 0 && <p className="text-sm text-muted-foreground">No custom fields yet.</p>}
+                    {fields.map((field, index) => (
+                        <div key={field.key} className="flex items-center gap-2">
+                            <Input
+                                value={field.name}
+                                onChange={(e) => updateField(field.key, { name: e.target.value })}
+                                placeholder="Field name"
+                                maxLength={40}
+                                disabled={!canEdit}
+                            />
+                            <Select
+                                value={field.type}
+                                onValueChange={(value) => updateField(field.key, { type: value as EditableField["type"] })}
+                                disabled={!canEdit}
+                            >
+                                <SelectTrigger className="w-32 shrink-0" aria-label="Field type">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {FIELD_TYPES.map((type) => (
+                                        <SelectItem key={type.value} value={type.value}>
+                                            {type.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            {field.type === "SELECT" && (
+                                <Input
+                                    value={field.options}
+                                    onChange={(e) => updateField(field.key, { options: e.target.value })}
+                                    placeholder="Options, comma separated"
+                                    disabled={!canEdit}
+                                />
+                            )}
+                            {canEdit && (
+                                <div className="flex shrink-0">
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => moveField(index, -1)}
+                                        disabled={index === 0}
+                                        aria-label="Move field up"
+                                    >
+                                        <ArrowUp className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => moveField(index, 1)}
+                                        disabled={index === fields.length - 1}
+                                        aria-label="Move field down"
+                                    >
+                                        <ArrowDown className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => setFields(fields.filter((existing) => existing.key !== field.key))}
+                                        aria-label="Remove field"
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                    {canEdit && (
+                        <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                                setFields([...fields, { key: `new-${nextRowId++}`, name: "", type: "NUMBER", options: "" }])
+                            }
+                            disabled={fields.length >= MAX_CUSTOM_FIELDS}
+                        >
+                            <Plus className="h-4 w-4 mr-2" />
+                            Add Field
+                        </Button>
+                    )}
+                </div>
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                {canEdit && (
+                    <Button type="submit" disabled={saving}>
+                        {saving ? "Saving..." : "Save Labels & Fields"}
+                    </Button>
+                )}
+            </form>
+        </Card>
+    );
+}
@@ -0,0 +1,441 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pencil, Plus, Repeat, Trash2 } from "lucide-react";
+import { WEEKDAY_LABELS, describeRecurrence, type RecurrenceRule } from "@/lib/task-recurrence";
+import type { TaskPriority, User } from "@/types";
+
+interface TaskTemplateSettingsProps {
+    projectId: string;
+}
+
+// Templates as returned by GET /api/projects/[id]/task-templates
+interface TaskTemplate {
+    id: string;
+    name: string;
+    title: string;
+    description: string | null;
+    priority: TaskPriority;
+    checklist: string[];
+    assigneeId: string | null;
+    assignee: Pick<User, "id" | "name" | "email" | "image"> | null;
+    recurrence: RecurrenceRule | null;
+    nextRunAt: string | null;
+    lastRunAt: string | null;
+}
+
+type Frequency = "none" | RecurrenceRule["frequency"];
+
+interface TemplateForm {
+    name: string;
+    title: string;
+    description: string;
+    priority: TaskPriority;
+    checklist: string; // One item per line
+    assigneeId: string;
+    frequency: Frequency;
+    time: string;
+    weekdays: number[];
+    dayOfMonth: number;
+    expression: string;
+}
+
+const EMPTY_FORM: TemplateForm = {
+    name: "",
+    title: "",
+    description: "",
+    priority: "MEDIUM",
+    checklist: "",
+    assigneeId: "unassigned",
+    frequency: "none",
+    time: "09:00",
+    weekdays: [1],
+    dayOfMonth: 1,
+    expression: "0 9 * * 1",
+};
+
+function toForm(template: TaskTemplate): TemplateForm {
+    const rule = template.recurrence;
+    return {
+        ...EMPTY_FORM,
+        name: template.name,
+        title: template.title,
+        description: template.description ?? "",
+        priority: template.priority,
+        checklist: template.checklist.join("\n"),
+        assigneeId: template.assigneeId ?? "unassigned",
+        frequency: rule?.frequency ?? "none",
+        ...(rule && rule.frequency !== "cron" && { time: rule.time }),
+        ...(rule?.frequency === "weekly" && { weekdays: rule.weekdays }),
+        ...(rule?.frequency === "monthly" && { dayOfMonth: rule.dayOfMonth }),
+        ...(rule?.frequency === "cron" && { expression: rule.expression }),
+    };
+}
+
+function toRule(form: TemplateForm): RecurrenceRule | null {
+    switch (form.frequency) {
+        case "none":
+            return null;
+        case "daily":
+            return { frequency: "daily", time: form.time };
+        case "weekly":
+            return { frequency: "weekly", weekdays: form.weekdays, time: form.time };
+        case "monthly":
+            return { frequency: "monthly", dayOfMonth: form.dayOfMonth, time: form.time };
+        case "cron":
+            return { frequency: "cron", expression: form.expression.trim() };
+    }
+}
+
+export function TaskTemplateSettings({ projectId }: TaskTemplateSettingsProps) {
+    const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+    const [members, setMembers] = useState<User[]>([]);
+    const [canEdit, setCanEdit] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [editing, setEditing] = useState<string | null>(null); // Template ID, or "new"
+    const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState("");
+
+    const fetchTemplates = async () => {
+        try {
+            const response = await fetch(`/api/projects/${projectId}/task-templates`);
+            if (response.ok) {
+                const data = await response.json();
+                setTemplates(data.templates);
+                setCanEdit(data.canEdit);
+            }
+        } catch (error) {
+            console.error("Failed to fetch task templates:", error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchTemplates();
+
+        fetch(`/api/projects/${projectId}`)
+            .then((response) => (response.ok ? response.json() : null))
+            .then((project) => setMembers(project?.team?.members?.map((m: any) => m.user) || []))
+            .catch((error) => console.error("Failed to fetch team members:", error));
+    }, [projectId]);
+
+    const updateForm = (changes: Partial<TemplateForm>) => setForm({ ...form, ...changes });
+
+    const startEditing = (template?: TaskTemplate) => {
+        setError("");
+        setForm(template ? toForm(template) : EMPTY_FORM);
+        setEditing(template?.id ?? "new");
+    };
+
+    const toggleWeekday = (day: number) => {
+        updateForm({
+            weekdays: form.weekdays.includes(day)
+                ? form.weekdays.filter((d) => d !== day)
+                : [...form.weekdays, day].sort((a, b) => a - b),
+        });
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError("");
+        setSaving(true);
+
+        try {
+            const response = await fetch(
+                editing === "new" ? `/api/projects/${projectId}/task-templates` : `/api/task-templates/${editing}`,
+                {
+                    method: editing === "new" ? "POST" : "PUT",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({
+                        name: form.name,
+                        title: form.title,
+                        description: form.description.trim() || null,
+                        priority: form.priority,
+                        checklist: form.checklist.split("\n").map((item) => item.trim()).filter(Boolean),
+                        assigneeId: form.assigneeId === "unassigned" ? null : form.assigneeId,
+                        recurrence: toRule(form),
+                    }),
+                }
+            );
+
+            if (response.ok) {
+                setEditing(null);
+                await fetchTemplates();
+                toast.success("Template saved");
+            } else {
+                const data = await response.json().catch(() => null);
+                setError(data?.details?.[0]?.message || data?.error || "Failed to save template");
+            }
+        } catch {
+            setError("An error occurred. Please try again.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (template: TaskTemplate) => {
+        if (!confirm(`Delete the template "${template.name}"? Tasks created from it are kept.`)) return;
+
+        try {
+            const response = await fetch(`/api/task-templates/${template.id}`, { method: "DELETE" });
+            if (response.ok) {
+                setTemplates(templates.filter((t) => t.id !== template.id));
+            } else {
+                toast.error("Failed to delete template");
+            }
+        } catch {
+            toast.error("Failed to delete template");
+        }
+    };
+
+    if (loading) {
+        return (
+            <Card className="p-6">
+                <div className="flex items-center justify-center h-32">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+                </div>
+            </Card>
+        );
+    }
+
+    return (
+        <Card className="p-6">
+            <div className="mb-4 flex items-start justify-between gap-4">
+                <div>
+                    <h2 className="text-lg font-semibold flex items-center gap-2">
+                        <Repeat className="h-5 w-5" />
+                        Task Templates
+                    </h2>
+                    <p className="text-sm text-muted-foreground mt-1">
+                        Reusable tasks with a checklist and default assignee. Pick a template when creating a
+                        task, or give it a schedule to have its task created automatically. Schedules use UTC.
+                    </p>
+                </div>
+                {canEdit && editing === null && (
+                    <Button variant="outline" size="sm" onClick={() => startEditing()}>
+                        <Plus className="h-4 w-4 mr-1" />
+                        New Template
+                    </Button>
+                )}
+            </div>
+
+            {editing !== null ? (
+                <form onSubmit={handleSave} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="templateName">Template Name *</Label>
+                            <Input
+                                id="templateName"
+                                value={form.name}
+                                onChange={(e) => updateForm({ name: e.target.value })}
+                                placeholder="Weekly ops rotation"
+                                required
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="templateTitle">Task Title *</Label>
+                            <Input
+                                id="templateTitle"
+                                value={form.title}
+                                onChange={(e) => updateForm({ title: e.target.value })}
+                                placeholder="Rotate on-call keys"
+                                required
+                            />
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="templateDescription">Description</Label>
+                        <textarea
+                            id="templateDescription"
+                            value={form.description}
+                            onChange={(e) => updateForm({ description: e.target.value })}
+                            className="w-full min-h-[70px] px-3 py-2 text-sm border rounded-md resize-none focus:outline-none focus:ring-2 focus:ring-ring bg-background dark:bg-gray-950 dark:border-gray-800"
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="templatePriority">Priority</Label>
+                            <Select
+                                value={form.priority}
+                                onValueChange={(value) => updateForm({ priority: value as TaskPriority })}
+                            >
+                                <SelectTrigger id="templatePriority">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="LOW">Low</SelectItem>
+                                    <SelectItem value="MEDIUM">Medium</SelectItem>
+                                    <SelectItem value="HIGH">High</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="templateAssignee">Default Assignee</Label>
+                            <Select value={form.assigneeId} onValueChange={(value) => updateForm({ assigneeId: value })}>
+                                <SelectTrigger id="templateAssignee">
+                                    <SelectValue placeholder="Unassigned" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                                    {members.map((member) => (
+                                        <SelectItem key={member.id} value={member.id}>
+                                            {member.name || member.email}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="templateChecklist">Checklist (one item per line)</Label>
+                        <textarea
+                            id="templateChecklist"
+                            value={form.checklist}
+                            onChange={(e) => updateForm({ checklist: e.target.value })}
+                            className="w-full min-h-[90px] px-3 py-2 text-sm border rounded-md resize-y focus:outline-none focus:ring-2 focus:ring-ring bg-background dark:bg-gray-950 dark:border-gray-800"
+                        />
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="templateFrequency">Repeat</Label>
+                        <div className="flex flex-wrap items-center gap-2">
+                            <Select
+                                value={form.frequency}
+                                onValueChange={(value) => updateForm({ frequency: value as Frequency })}
+                            >
+                                <SelectTrigger id="templateFrequency" className="w-[160px]">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="none">Never</SelectItem>
+                                    <SelectItem value="daily">Daily</SelectItem>
+                                    <SelectItem value="weekly">Weekly</SelectItem>
+                                    <SelectItem value="monthly">Monthly</SelectItem>
+                                    <SelectItem value="cron">Cron expression</SelectItem>
+                                </SelectContent>
+                            </Select>
+
+                            {form.frequency === "weekly" &&
+                                WEEKDAY_LABELS.map((label, day) => (
+                                    <Button
+                                        key={label}
+                                        type="button"
+                                        size="sm"
+                                        variant={form.weekdays.includes(day) ? "default" : "outline"}
+                                        onClick={() => toggleWeekday(day)}
+                                    >
+                                        {label}
+                                    </Button>
+                                ))}
+
+                            {form.frequency === "monthly" && (
+                                <Input
+                                    type="number"
+                                    min={1}
+                                    max={28}
+                                    value={form.dayOfMonth}
+                                    onChange={(e) => updateForm({ dayOfMonth: Number(e.target.value) })}
+                                    className="w-24"
+                                    aria-label="Day of month"
+                                />
+                            )}
+
+                            {form.frequency !== "none" && form.frequency !== "cron" && (
+                                <Input
+                                    type="time"
+                                    value={form.time}
+                                    onChange={(e) => updateForm({ time: e.target.value })}
+                                    className="w-32"
+                                    aria-label="Time (UTC)"
+                                />
+                            )}
+
+                            {form.frequency === "cron" && (
+                                <Input
+                                    value={form.expression}
+                                    onChange={(e) => updateForm({ expression: e.target.value })}
+                                    placeholder="minute hour day-of-month month day-of-week"
+                                    className="w-64 font-mono"
+                                />
+                            )}
+                        </div>
+                    </div>
+
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+
+                    <div className="flex justify-end gap-2">
+                        <Button type="button" variant="outline" onClick={() => setEditing(null)} disabled={saving}>
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={saving || !form.name.trim() || !form.title.trim()}>
+                            {saving ? "Saving..." : "Save Template"}
+                        </Button>
+                    </div>
+                </form>
+            ) : templates.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No templates yet.</p>
+            ) : (
+                <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                    {templates.map((template) => (
+                        <div key={template.id} className="flex items-center justify-between gap-4 py-3">
+                            <div className="min-w-0 space-y-1">
+                                <div className="flex items-center gap-2">
+                                    <p className="font-medium truncate">{template.name}</p>
+                                    {template.checklist.length > 0 && (
+                                        <Badge variant="outline" className="text-xs">
+                                            {template.checklist.length} checklist items
+                                        </Badge>
+                                    )}
+                                </div>
+                                <p className="text-xs text-muted-foreground truncate">
+                                    {template.title}
+                                    {template.assignee && ` · ${template.assignee.name || template.assignee.email}`}
+                                </p>
+                                {template.recurrence && (
+                                    <p className="text-xs text-muted-foreground">
+                                        {describeRecurrence(template.recurrence)}
+                                        {template.nextRunAt &&
+                                            ` · next ${format(new Date(template.nextRunAt), "MMM d, HH:mm")}`}
+                                    </p>
+                                )}
+                            </div>
+                            {canEdit && (
+                                <div className="flex shrink-0">
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => startEditing(template)}
+                                        aria-label="Edit template"
+                                    >
+                                        <Pencil className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => handleDelete(template)}
+                                        aria-label="Delete template"
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </Card>
+    );
+}
@@ -0,0 +1,249 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { ArrowDown, ArrowUp, Columns3, Plus, Trash2 } from "lucide-react";
+import type { WorkflowColumn } from "@/lib/task-workflow";
+
+interface WorkflowSettingsProps {
+    projectId: string;
+}
+
+// Columns not saved yet have no key; the server derives one from the name
+type EditableColumn = Omit<WorkflowColumn, "key"> & { key?: string; id: string };
+
+const MAX_COLUMNS = 12;
+
+let nextColumnId = 0;
+
+function toEditable(columns: WorkflowColumn[]): EditableColumn[] {
+    return columns.map((column) => ({ ...column, id: column.key }));
+}
+
+export function WorkflowSettings({ projectId }: WorkflowSettingsProps) {
+    const [columns, setColumns] = useState<EditableColumn[] | null>(null);
+    const [canEdit, setCanEdit] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState("");
+
+    useEffect(() => {
+        async function fetchWorkflow() {
+            try {
+                const response = await fetch(`/api/projects/${projectId}/workflow`);
+                if (response.ok) {
+                    const data = await response.json();
+                    setColumns(toEditable(data.columns));
+                    setCanEdit(data.canEdit);
+                } else {
+                    setError("Failed to load workflow");
+                }
+            } catch {
+                setError("Failed to load workflow");
+            } finally {
+                setLoading(false);
+            }
+        }
+
+        fetchWorkflow();
+    }, [projectId]);
+
+    const updateColumn = (id: string, changes: Partial<EditableColumn>) => {
+        if (!columns) return;
+        setColumns(columns.map((column) => (column.id === id ? { ...column, ...changes } : column)));
+    };
+
+    const moveColumn = (index: number, offset: -1 | 1) => {
+        if (!columns) return;
+        const reordered = [...columns];
+        [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+        setColumns(reordered);
+    };
+
+    const removeColumn = (id: string) => {
+        if (!columns) return;
+        setColumns(columns.filter((column) => column.id !== id));
+    };
+
+    const addColumn = () => {
+        if (!columns) return;
+        // Insert before the first done column so new work stages land mid-board
+        const doneIndex = columns.findIndex((column) => column.isDone);
+        const index = doneIndex === -1 ? columns.length : doneIndex;
+        const column: EditableColumn = {
+            id: `new-${nextColumnId++}`,
+            name: "",
+            color: "#6366f1",
+            isDone: false,
+            wipLimit: null,
+        };
+        setColumns([...columns.slice(0, index), column, ...columns.slice(index)]);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!columns) return;
+
+        setError("");
+        setSaving(true);
+        try {
+            const response = await fetch(`/api/projects/${projectId}/workflow`, {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    columns: columns.map(({ id, ...column }) => column),
+                }),
+            });
+
+            if (response.ok) {
+                const data = await response.json();
+                setColumns(toEditable(data.columns));
+                toast.success("Workflow updated");
+            } else {
+                const data = await response.json().catch(() => null);
+                setError(data?.details?.[0]?.message || data?.error || "Failed to update workflow");
+            }
+        } catch {
+            setError("An error occurred. Please try again.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <Card className="p-6">
+                <div className="flex items-center justify-center h-32">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+                </div>
+            </Card>
+        );
+    }
+
+    if (!columns) {
+        return (
+            <Card className="p-6">
+                <p className="text-sm text-red-600">{error || "Workflow unavailable"}</p>
+            </Card>
+        );
+    }
+
+    return (
+        <Card className="p-6">
+            <div className="mb-4">
+                <h2 className="text-lg font-semibold flex items-center gap-2">
+                    <Columns3 className="h-5 w-5" />
+                    Kanban Workflow
+                </h2>
+                <p className="text-sm text-muted-foreground mt-1">
+                    Board columns in order. Tasks in done columns count as completed in analytics;
+                    tasks in a removed column move to the first remaining column of the same kind.
+                    The board warns when a column holds more tasks than its WIP limit.
+                </p>
+            </div>
+
+            <form onSubmit={handleSave} className="space-y-4">
+                <div className="space-y-2">
+                    {columns.map((column, index) => (
+                        <div key={column.id} className="flex items-center gap-2">
+                            <input
+                                type="color"
+                                value={column.color}
+                                onChange={(e) => updateColumn(column.id, { color: e.target.value })}
+                                disabled={!canEdit}
+                                className="h-9 w-9 shrink-0 cursor-pointer rounded border bg-transparent p-1 disabled:cursor-default"
+                                aria-label="Column color"
+                            />
+                            <Input
+                                value={column.name}
+                                onChange={(e) => updateColumn(column.id, { name: e.target.value })}
+                                placeholder="Column name"
+                                maxLength={40}
+                                disabled={!canEdit}
+                            />
+                            <Input
+                                type="number"
+                                min={1}
+                                max={999}
+                                value={column.wipLimit ?? ""}
+                                onChange={(e) =>
+                                    updateColumn(column.id, { wipLimit: e.target.value ? Number(e.target.value) : null })
+                                }
+                                placeholder="No limit"
+                                className="w-28 shrink-0"
+                                aria-label="WIP limit"
+                                title="WIP limit: the board warns when the column holds more tasks"
+                                disabled={!canEdit || column.isDone}
+                            />
+                            <label className="flex items-center gap-1.5 text-sm whitespace-nowrap">
+                                <input
+                                    type="checkbox"
+                                    checked={column.isDone}
+                                    onChange={(e) =>
+                                        updateColumn(column.id, {
+                                            isDone: e.target.checked,
+                                            wipLimit: e.target.checked ? null : column.wipLimit,
+                                        })
+                                    }
+                                    disabled={!canEdit}
+                                />
+                                Done
+                            </label>
+                            {canEdit && (
+                                <div className="flex shrink-0">
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => moveColumn(index, -1)}
+                                        disabled={index === 0}
+                                        aria-label="Move column left"
+                                    >
+                                        <ArrowUp className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => moveColumn(index, 1)}
+                                        disabled={index === columns.length - 1}
+                                        aria-label="Move column right"
+                                    >
+                                        <ArrowDown className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => removeColumn(column.id)}
+                                        disabled={columns.length <= 2}
+                                        aria-label="Remove column"
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                {canEdit && (
+                    <div className="flex items-center gap-2">
+                        <Button type="button" variant="outline" onClick={addColumn} disabled={columns.length >= MAX_COLUMNS}>
+                            <Plus className="h-4 w-4 mr-2" />
+                            Add Column
+                        </Button>
+                        <Button type="submit" disabled={saving}>
+                            {saving ? "Saving..." : "Save Workflow"}
+                        </Button>
+                    </div>
+                )}
+            </form>
+        </Card>
+    );
+}
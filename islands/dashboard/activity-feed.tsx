@@ -5,7 +5,9 @@ import { Activity, ActivityType } from "@prisma/client";
 import {
     CheckCircle2,
     FileText,
+    GitBranch,
     GitCommit,
+    GitPullRequest,
     Lightbulb,
     ListTodo,
     UserPlus,
@@ -31,6 +33,10 @@ function getActivityIcon(type: ActivityType) {
             return <CheckCircle2 className="h-4 w-4" />;
         case "GIT_COMMIT":
             return <GitCommit className="h-4 w-4" />;
+        case "GIT_PULL_REQUEST":
+            return <GitPullRequest className="h-4 w-4" />;
+        case "GIT_BRANCH":
+            return <GitBranch className="h-4 w-4" />;
         case "MARKDOWN_CREATED":
         case "MARKDOWN_UPDATED":
             return <FileText className="h-4 w-4" />;
@@ -55,6 +61,10 @@ function getActivityMessage(activity: Activity): string {
             return `Task "${data.taskTitle}" was completed`;
         case "GIT_COMMIT":
             return `New commit: ${data.message}`;
+        case "GIT_PULL_REQUEST":
+            return `Pull request #${data.number} ${data.action}: ${data.title}`;
+        case "GIT_BRANCH":
+            return `Branch "${data.branch}" was ${data.action}`;
         case "MARKDOWN_CREATED":
             return `Document "${data.title}" was created`;
         case "MARKDOWN_UPDATED":
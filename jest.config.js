@@ -22,6 +22,16 @@ module.exports = {
                 esModuleInterop: true,
                 allowSyntheticDefaultImports: true,
             }
-        }]
+        }],
+        // Octokit ships as ES modules only
+        '^.+\\.js$': ['ts-jest', {
+            tsconfig: {
+                allowJs: true,
+                esModuleInterop: true,
+            }
+        }],
     },
+    transformIgnorePatterns: [
+        '/node_modules/(?!(@octokit|universal-user-agent|before-after-hook|fast-content-type-parse)/)',
+    ],
 };
@@ -28,6 +28,8 @@ export async function createComponent(input: CreateComponentInput): Promise<Comp
         data: {
             componentId,
             canvasId: input.canvasId,
+            shapeId: input.shapeId,
+            pathPatterns: input.pathPatterns,
             name: input.name,
             type: input.type,
             description: input.description,
@@ -42,6 +44,8 @@ export async function createComponent(input: CreateComponentInput): Promise<Comp
         position: component.position as { x: number; y: number },
         metadata: component.metadata as Record<string, any> | undefined,
         description: component.description || undefined,
+        shapeId: component.shapeId || undefined,
+        pathPatterns: component.pathPatterns,
     };
 }
 
@@ -63,6 +67,8 @@ export async function getComponentByComponentId(componentId: string): Promise<Co
         position: component.position as { x: number; y: number },
         metadata: component.metadata as Record<string, any> | undefined,
         description: component.description || undefined,
+        shapeId: component.shapeId || undefined,
+        pathPatterns: component.pathPatterns,
     };
 }
 
@@ -84,6 +90,8 @@ export async function getComponentById(id: string): Promise<Component | null> {
         position: component.position as { x: number; y: number },
         metadata: component.metadata as Record<string, any> | undefined,
         description: component.description || undefined,
+        shapeId: component.shapeId || undefined,
+        pathPatterns: component.pathPatterns,
     };
 }
 
@@ -102,6 +110,8 @@ export async function getComponentsByCanvasId(canvasId: string): Promise<Compone
         position: component.position as { x: number; y: number },
         metadata: component.metadata as Record<string, any> | undefined,
         description: component.description || undefined,
+        shapeId: component.shapeId || undefined,
+        pathPatterns: component.pathPatterns,
     }));
 }
 
@@ -115,6 +125,8 @@ export async function updateComponent(
     const component = await prisma.component.update({
         where: { id },
         data: {
+            shapeId: input.shapeId,
+            pathPatterns: input.pathPatterns,
             name: input.name,
             type: input.type,
             description: input.description,
@@ -129,6 +141,8 @@ export async function updateComponent(
         position: component.position as { x: number; y: number },
         metadata: component.metadata as Record<string, any> | undefined,
         description: component.description || undefined,
+        shapeId: component.shapeId || undefined,
+        pathPatterns: component.pathPatterns,
     };
 }
 
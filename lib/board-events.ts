@@ -0,0 +1,21 @@
+/**
+ * Board Events
+ *
+ * Lets server-side code that changes tasks outside a user's request, such as
+ * commit syncs, update open boards the way clients broadcast their own
+ * changes. server.js registers the socket server on globalThis, so route
+ * handlers and background jobs reach the same one; without it events are dropped.
+ */
+
+type BoardEmitter = (projectId: string, event: string, payload: unknown) => void;
+
+const globalForBoard = globalThis as unknown as {
+    boardEmitter: BoardEmitter | undefined;
+};
+
+/**
+ * Tell boards of a project that a task moved to another column
+ */
+export function broadcastTaskMove(projectId: string, taskId: string, status: string): void {
+    globalForBoard.boardEmitter?.(projectId, 'task:move', { taskId, status });
+}
@@ -0,0 +1,79 @@
+/**
+ * Branch Sync State
+ *
+ * Each branch is synced by walking its history newest-first from a pinned
+ * head commit, one page at a time. The cursor (pinned head + page) is
+ * persisted after every page so an interrupted walk resumes where it
+ * stopped, and pinning the head keeps pages stable while new commits land.
+ */
+
+export interface BranchSyncCursor {
+    syncedHeadSha: string | null;
+    lastCommittedAt: Date | null;
+    cursorSha: string | null;
+    cursorPage: number;
+    cursorSince: Date | null;
+}
+
+/**
+ * Get the branch name of a fully qualified ref (refs/heads/main -> main)
+ * Returns null for tags and other refs
+ */
+export function branchFromRef(ref: string | undefined | null): string | null {
+    if (!ref || !ref.startsWith('refs/heads/')) {
+        return null;
+    }
+    return ref.slice('refs/heads/'.length);
+}
+
+/**
+ * Decide whether a branch needs walking given its current head
+ * Returns the cursor to continue with, or null when the branch is up to date
+ */
+export function startBranchWalk(state: BranchSyncCursor, headSha: string): BranchSyncCursor | null {
+    // Resume an interrupted walk
+    if (state.cursorSha) {
+        return state;
+    }
+
+    if (state.syncedHeadSha === headSha) {
+        return null;
+    }
+
+    // Only fetch what is newer than the last walk; a first walk backfills everything
+    return {
+        ...state,
+        cursorSha: headSha,
+        cursorPage: 1,
+        cursorSince: state.lastCommittedAt,
+    };
+}
+
+/**
+ * Advance a cursor after a page of commits was ingested
+ */
+export function advanceBranchWalk(
+    state: BranchSyncCursor,
+    page: { committedAt: Date[]; hasMore: boolean }
+): BranchSyncCursor {
+    const newest = page.committedAt.reduce<Date | null>(
+        (latest, date) => (!latest || date > latest ? date : latest),
+        state.lastCommittedAt
+    );
+
+    if (page.hasMore) {
+        return {
+            ...state,
+            lastCommittedAt: newest,
+            cursorPage: state.cursorPage + 1,
+        };
+    }
+
+    return {
+        syncedHeadSha: state.cursorSha,
+        lastCommittedAt: newest,
+        cursorSha: null,
+        cursorPage: 1,
+        cursorSince: null,
+    };
+}
@@ -0,0 +1,190 @@
+/**
+ * Canvas Graph Builder
+ *
+ * Extracts dependency/dataflow edges from Architecture Map canvas state and
+ * resolves them to components through the persisted shape ID mapping.
+ * Supports both tldraw store snapshots and Excalidraw element arrays.
+ */
+
+export type CanvasEdgeKind = 'dependency' | 'dataflow';
+
+export interface CanvasEdge {
+    shapeId: string; // ID of the arrow/line shape that forms the edge
+    fromShapeId: string;
+    toShapeId: string;
+    kind: CanvasEdgeKind;
+    label?: string;
+}
+
+export interface ComponentCoupling {
+    fanIn: number; // Distinct components depending on this component
+    fanOut: number; // Distinct components this component depends on
+}
+
+export interface ComponentGraph {
+    edges: Array<{ from: string; to: string; kind: CanvasEdgeKind; shapeId: string }>;
+    coupling: Map<string, ComponentCoupling>;
+}
+
+/**
+ * Get all records from a canvas state
+ * tldraw snapshots keep records under `store` (or at the top level for older
+ * snapshots), Excalidraw keeps them in an `elements` array
+ */
+function getCanvasRecords(state: unknown): any[] {
+    if (!state || typeof state !== 'object') {
+        return [];
+    }
+
+    const s = state as any;
+
+    if (Array.isArray(s.elements)) {
+        return s.elements;
+    }
+
+    const records = s.store && typeof s.store === 'object' ? s.store : s;
+    return Object.values(records).filter((record) => record && typeof record === 'object');
+}
+
+/**
+ * Get the plain text label of a tldraw shape, if any
+ */
+function getShapeLabel(shape: any): string | undefined {
+    const text = shape.props?.text;
+    if (typeof text === 'string' && text.trim()) {
+        return text.trim();
+    }
+    return undefined;
+}
+
+/**
+ * Extract all arrow edges that are bound to a shape on both ends
+ * Unbound (dangling) arrows are ignored since they don't connect components
+ */
+export function extractCanvasEdges(state: unknown): CanvasEdge[] {
+    const records = getCanvasRecords(state);
+    const edges: CanvasEdge[] = [];
+
+    // Excalidraw: arrows carry their own start/end bindings
+    if (state && Array.isArray((state as any).elements)) {
+        records.forEach((element) => {
+            if ((element.type !== 'arrow' && element.type !== 'line') || element.isDeleted) {
+                return;
+            }
+
+            const fromShapeId = element.startBinding?.elementId;
+            const toShapeId = element.endBinding?.elementId;
+
+            if (fromShapeId && toShapeId && fromShapeId !== toShapeId) {
+                edges.push({
+                    shapeId: element.id,
+                    fromShapeId,
+                    toShapeId,
+                    kind: element.type === 'line' ? 'dataflow' : 'dependency',
+                });
+            }
+        });
+
+        return edges;
+    }
+
+    // tldraw: arrow bindings are separate records pointing from the arrow to a shape
+    const arrows = new Map<string, { shape: any; start?: string; end?: string }>();
+
+    records.forEach((record) => {
+        if (record.typeName === 'shape' && (record.type === 'arrow' || record.type === 'line')) {
+            arrows.set(record.id, {
+                shape: record,
+                // Older tldraw versions stored bindings inline on the arrow props
+                start: record.props?.start?.boundShapeId,
+                end: record.props?.end?.boundShapeId,
+            });
+        }
+    });
+
+    records.forEach((record) => {
+        if (record.typeName !== 'binding' || record.type !== 'arrow') {
+            return;
+        }
+
+        const arrow = arrows.get(record.fromId);
+        if (!arrow) {
+            return;
+        }
+
+        if (record.props?.terminal === 'start') {
+            arrow.start = record.toId;
+        } else if (record.props?.terminal === 'end') {
+            arrow.end = record.toId;
+        }
+    });
+
+    arrows.forEach(({ shape, start, end }, shapeId) => {
+        if (start && end && start !== end) {
+            edges.push({
+                shapeId,
+                fromShapeId: start,
+                toShapeId: end,
+                kind: shape.type === 'line' ? 'dataflow' : 'dependency',
+                label: getShapeLabel(shape),
+            });
+        }
+    });
+
+    return edges;
+}
+
+/**
+ * Build a component dependency graph from canvas edges
+ *
+ * @param edges - Edges extracted from the canvas state
+ * @param shapeToComponent - Map of canvas shape ID -> Component.componentId
+ */
+export function buildComponentGraph(
+    edges: CanvasEdge[],
+    shapeToComponent: Map<string, string>
+): ComponentGraph {
+    const outgoing = new Map<string, Set<string>>();
+    const incoming = new Map<string, Set<string>>();
+    const componentEdges: ComponentGraph['edges'] = [];
+
+    shapeToComponent.forEach((componentId) => {
+        outgoing.set(componentId, new Set());
+        incoming.set(componentId, new Set());
+    });
+
+    edges.forEach((edge) => {
+        const from = shapeToComponent.get(edge.fromShapeId);
+        const to = shapeToComponent.get(edge.toShapeId);
+
+        // Only edges between two distinct mapped components count
+        if (!from || !to || from === to) {
+            return;
+        }
+
+        componentEdges.push({ from, to, kind: edge.kind, shapeId: edge.shapeId });
+        outgoing.get(from)!.add(to);
+        incoming.get(to)!.add(from);
+    });
+
+    const coupling = new Map<string, ComponentCoupling>();
+    shapeToComponent.forEach((componentId) => {
+        coupling.set(componentId, {
+            fanIn: incoming.get(componentId)!.size,
+            fanOut: outgoing.get(componentId)!.size,
+        });
+    });
+
+    return { edges: componentEdges, coupling };
+}
+
+/**
+ * Coupling score used by risk analysis: the number of distinct edges
+ * into and out of a component
+ */
+export function getCouplingScore(coupling: ComponentCoupling | undefined): number {
+    if (!coupling) {
+        return 0;
+    }
+    return coupling.fanIn + coupling.fanOut;
+}
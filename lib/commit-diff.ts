@@ -0,0 +1,83 @@
+import { prisma } from "./prisma";
+import type { GitProviderType, ProviderFileChange } from "@/types/git";
+import { getRepositoryProvider } from "./git-provider";
+import { findOwningComponents } from "./path-ownership";
+
+// Per-file patch size kept in the cache; larger patches are dropped rather than cut mid-hunk
+const MAX_PATCH_LENGTH = 200_000;
+
+export interface CommitFileChange extends ProviderFileChange {
+    components: Array<{ id: string; componentId: string; name: string }>; // Owners by path rules
+}
+
+/**
+ * Changed files and patches of a commit
+ * Served from the cache when the commit is stored, otherwise fetched from the provider
+ * (and cached if the commit is stored). Owning components are resolved on every call,
+ * so edited path rules apply without refetching.
+ */
+export async function getCommitDiff(
+    repository: {
+        id: string;
+        projectId: string;
+        owner: string;
+        name: string;
+        provider: GitProviderType;
+        baseUrl: string | null;
+        accessToken: string;
+    },
+    sha: string
+): Promise<CommitFileChange[]> {
+    const commit = await prisma.gitCommit.findUnique({
+        where: {
+            repositoryId_sha: {
+                repositoryId: repository.id,
+                sha,
+            },
+        },
+        select: {
+            id: true,
+            diff: { select: { files: true } },
+        },
+    });
+
+    let files = commit?.diff?.files as ProviderFileChange[] | undefined;
+
+    if (!files) {
+        const provider = getRepositoryProvider(repository);
+        files = (await provider.getCommitDiff(repository.owner, repository.name, sha)).map((file) =>
+            file.patch && file.patch.length > MAX_PATCH_LENGTH ? { ...file, patch: null } : file
+        );
+
+        if (commit) {
+            await prisma.gitCommitDiff.upsert({
+                where: { commitId: commit.id },
+                update: {},
+                create: {
+                    commitId: commit.id,
+                    files: files as any,
+                },
+            });
+        }
+    }
+
+    const owners = await prisma.component.findMany({
+        where: {
+            canvas: { projectId: repository.projectId },
+            pathPatterns: { isEmpty: false },
+        },
+        select: { id: true, componentId: true, name: true, pathPatterns: true },
+    });
+
+    return files.map((file) => {
+        const paths = file.previousPath ? [file.path, file.previousPath] : [file.path];
+        const ownerIds = new Set(findOwningComponents(paths, owners));
+
+        return {
+            ...file,
+            components: owners
+                .filter((owner) => ownerIds.has(owner.id))
+                .map(({ id, componentId, name }) => ({ id, componentId, name })),
+        };
+    });
+}
@@ -0,0 +1,424 @@
+/**
+ * Commit References
+ *
+ * Parses commit messages for references to components, tasks and decisions
+ * and links synced commits to what they mention.
+ *
+ * Recognized references:
+ * - Component IDs in the `COMP-...` format produced by generateComponentId
+ * - Tasks as `task:<id>` / `task #<id>`, or by mentioning the task title
+ * - Decisions as `decision:<id>` / `ADR:<id>`, or by mentioning the decision title
+ *
+ * A task reference preceded by a closing keyword ("closes", "fixes",
+ * "resolves" and their variants) marks the commit as closing the task. When
+ * the repository has closing turned on, a commit on its default branch made
+ * since then also moves the task to DONE, unless open tasks still block it.
+ * Feature branches and backfilled history only link.
+ */
+
+import { prisma } from './prisma';
+import { logActivity } from './activity-logger';
+import { completedStatus, getProjectWorkflow, isDoneStatus, statusChangeData, type WorkflowColumn } from './task-workflow';
+import { completionBlockers, getBlockersByTask, type DependencyTask } from './task-dependencies';
+import { broadcastTaskMove } from './board-events';
+
+// Titles shorter than this are too generic to match reliably inside free text
+const MIN_TITLE_LENGTH = 8;
+
+const COMPONENT_ID_PATTERN = /\bCOMP-[A-Z0-9]+-[A-Z0-9]+\b/gi;
+const TASK_ID_PATTERN = /\btask\s*(?::|#)\s*([a-z0-9]+)/gi;
+const DECISION_ID_PATTERN = /\b(?:decision|adr)\s*(?::|#)\s*([a-z0-9]+)/gi;
+const CLOSING_KEYWORD_PATTERN = /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s*:?\s*["'`]?$/i;
+
+export interface ReferenceTarget {
+    id: string;
+    title: string;
+}
+
+export interface TaskReference {
+    taskId: string;
+    closes: boolean;
+}
+
+export interface CommitReferences {
+    componentIds: string[]; // Component IDs (COMP-...)
+    tasks: TaskReference[];
+    decisionIds: string[];
+}
+
+function isWordChar(char: string | undefined): boolean {
+    return !!char && /[a-z0-9]/i.test(char);
+}
+
+/**
+ * Whether the text just before a reference on the same line ends in a closing keyword
+ */
+function isPrecededByClosingKeyword(message: string, index: number): boolean {
+    const lineStart = message.lastIndexOf('\n', index - 1) + 1;
+    return CLOSING_KEYWORD_PATTERN.test(message.slice(lineStart, index));
+}
+
+/**
+ * Find every position a title is mentioned as a whole phrase (case-insensitive)
+ */
+function findTitleMentions(message: string, title: string): number[] {
+    const needle = title.trim().toLowerCase();
+    if (needle.length < MIN_TITLE_LENGTH) {
+        return [];
+    }
+
+    const haystack = message.toLowerCase();
+    const positions: number[] = [];
+
+    let index = haystack.indexOf(needle);
+    while (index !== -1) {
+        const before = haystack[index - 1];
+        const after = haystack[index + needle.length];
+        if (!isWordChar(before) && !isWordChar(after)) {
+            positions.push(index);
+        }
+        index = haystack.indexOf(needle, index + 1);
+    }
+
+    return positions;
+}
+
+/**
+ * Find the positions of explicit ID references that resolve to known targets
+ */
+function findIdMentions(
+    message: string,
+    pattern: RegExp,
+    targets: ReferenceTarget[]
+): Array<{ id: string; index: number }> {
+    const ids = new Map(targets.map((target) => [target.id.toLowerCase(), target.id]));
+    const mentions: Array<{ id: string; index: number }> = [];
+
+    for (const match of message.matchAll(pattern)) {
+        const id = ids.get(match[1].toLowerCase());
+        if (id) {
+            mentions.push({ id, index: match.index ?? 0 });
+        }
+    }
+
+    return mentions;
+}
+
+/**
+ * Parse a commit message for component, task and decision references
+ */
+export function parseCommitReferences(
+    message: string,
+    targets: { tasks: ReferenceTarget[]; decisions: ReferenceTarget[] }
+): CommitReferences {
+    const componentIds = Array.from(
+        new Set(Array.from(message.matchAll(COMPONENT_ID_PATTERN), (match) => match[0].toUpperCase()))
+    );
+
+    const tasks = new Map<string, TaskReference>();
+    const addTask = (taskId: string, index: number) => {
+        const closes = isPrecededByClosingKeyword(message, index);
+        const existing = tasks.get(taskId);
+        tasks.set(taskId, { taskId, closes: closes || !!existing?.closes });
+    };
+
+    findIdMentions(message, TASK_ID_PATTERN, targets.tasks).forEach(({ id, index }) => addTask(id, index));
+    targets.tasks.forEach((task) => {
+        findTitleMentions(message, task.title).forEach((index) => addTask(task.id, index));
+    });
+
+    const decisionIds = new Set<string>(
+        findIdMentions(message, DECISION_ID_PATTERN, targets.decisions).map(({ id }) => id)
+    );
+    targets.decisions.forEach((decision) => {
+        if (findTitleMentions(message, decision.title).length > 0) {
+            decisionIds.add(decision.id);
+        }
+    });
+
+    return {
+        componentIds,
+        tasks: Array.from(tasks.values()),
+        decisionIds: Array.from(decisionIds),
+    };
+}
+
+export interface TaskClosurePlan<T> {
+    complete: T[];
+    blocked: Array<{ task: T; blockers: DependencyTask[] }>; // Left open, with the open tasks blocking them
+}
+
+/**
+ * Decide which tasks closing references complete
+ * Tasks already done are skipped and blocked tasks stay open, unless every open
+ * blocker is completed by the same references.
+ */
+export function planTaskClosures<T extends { id: string; status: string }>(
+    references: TaskReference[],
+    tasks: T[],
+    workflow: WorkflowColumn[],
+    blockersByTask: Map<string, DependencyTask[]>
+): TaskClosurePlan<T> {
+    const doneStatus = completedStatus(workflow);
+    const closing = references
+        .filter((reference) => reference.closes)
+        .map((reference) => tasks.find((task) => task.id === reference.taskId))
+        .filter((task): task is T => !!task && !isDoneStatus(workflow, task.status));
+
+    const openBlockersOf = (task: T, completing: Set<string>) =>
+        completionBlockers(
+            workflow,
+            task.status,
+            doneStatus,
+            (blockersByTask.get(task.id) ?? []).filter((blocker) => !completing.has(blocker.id))
+        );
+
+    // Drop blocked tasks until the rest only wait on each other
+    const completing = new Set(closing.map((task) => task.id));
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const task of closing) {
+            if (completing.has(task.id) && openBlockersOf(task, completing).length > 0) {
+                completing.delete(task.id);
+                changed = true;
+            }
+        }
+    }
+
+    return {
+        complete: closing.filter((task) => completing.has(task.id)),
+        blocked: closing
+            .filter((task) => !completing.has(task.id))
+            .map((task) => ({ task, blockers: openBlockersOf(task, completing) })),
+    };
+}
+
+/**
+ * Project data commit references are resolved against, loaded once per sync
+ */
+export interface ReferenceContext {
+    projectId: string;
+    repositoryId: string;
+    components: Map<string, string>; // Component ID (COMP-...) -> database ID
+    tasks: Array<ReferenceTarget & { status: string }>;
+    decisions: ReferenceTarget[];
+    workflow: WorkflowColumn[];
+    closeTasks: CloseTasksSettings | null; // Null unless closing keywords move tasks
+}
+
+export interface CloseTasksSettings {
+    defaultBranch: string | null; // Null until a sync learned it, closing nothing meanwhile
+    enabledAt: Date | null;
+    enabledById: string | null;
+    memberIdsByEmail: Map<string, string>; // Commit authors who are project members get the moves credited
+}
+
+/**
+ * Whether a commit seen on a branch moves the tasks it closes
+ * Only commits on the default branch made after closing was turned on do
+ */
+export function commitClosesTasks(
+    settings: Pick<CloseTasksSettings, 'defaultBranch' | 'enabledAt'>,
+    commit: { committedAt: Date },
+    branch: string | undefined
+): boolean {
+    return (
+        !!branch &&
+        branch === settings.defaultBranch &&
+        !!settings.enabledAt &&
+        commit.committedAt >= settings.enabledAt
+    );
+}
+
+/**
+ * Users of a project: its team's members, or the creator of a personal project
+ */
+async function getProjectMembers(projectId: string): Promise<Array<{ id: string; email: string }>> {
+    const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        select: {
+            createdById: true,
+            team: { select: { members: { select: { user: { select: { id: true, email: true } } } } } },
+        },
+    });
+
+    if (!project) {
+        return [];
+    }
+    if (project.team) {
+        return project.team.members.map((member) => member.user);
+    }
+    return prisma.user.findMany({
+        where: { id: project.createdById },
+        select: { id: true, email: true },
+    });
+}
+
+/**
+ * Load the components, tasks and decisions of a project for reference resolution
+ */
+export async function loadReferenceContext(
+    projectId: string,
+    repositoryId: string
+): Promise<ReferenceContext> {
+    const [components, tasks, decisions, workflow, repository] = await Promise.all([
+        prisma.component.findMany({
+            where: { canvas: { projectId } },
+            select: { id: true, componentId: true },
+        }),
+        prisma.task.findMany({
+            where: { projectId },
+            select: { id: true, title: true, status: true },
+        }),
+        prisma.decisionRecord.findMany({
+            where: { projectId },
+            select: { id: true, title: true },
+        }),
+        getProjectWorkflow(projectId),
+        prisma.gitRepository.findUnique({
+            where: { id: repositoryId },
+            select: {
+                defaultBranch: true,
+                closeTasksFromCommits: true,
+                closeTasksEnabledById: true,
+                closeTasksEnabledAt: true,
+            },
+        }),
+    ]);
+
+    let closeTasks: ReferenceContext['closeTasks'] = null;
+    if (repository?.closeTasksFromCommits) {
+        const members = await getProjectMembers(projectId);
+        closeTasks = {
+            defaultBranch: repository.defaultBranch,
+            enabledAt: repository.closeTasksEnabledAt,
+            enabledById: repository.closeTasksEnabledById,
+            memberIdsByEmail: new Map(members.map((member) => [member.email.toLowerCase(), member.id])),
+        };
+    }
+
+    return {
+        projectId,
+        repositoryId,
+        components: new Map(components.map((c) => [c.componentId, c.id])),
+        tasks,
+        decisions,
+        workflow,
+        closeTasks,
+    };
+}
+
+/**
+ * Move tasks a commit closes to the first done column, the way a board move would
+ */
+async function closeReferencedTasks(
+    context: ReferenceContext,
+    closeTasks: CloseTasksSettings,
+    commit: { sha: string; authorEmail: string },
+    references: TaskReference[]
+): Promise<void> {
+    const closingIds = references.filter((r) => r.closes).map((r) => r.taskId);
+    if (closingIds.length === 0) {
+        return;
+    }
+
+    const plan = planTaskClosures(references, context.tasks, context.workflow, await getBlockersByTask(closingIds));
+
+    for (const { task, blockers } of plan.blocked) {
+        console.warn(
+            `Commit ${commit.sha} closes task ${task.id}, left open: blocked by ${blockers.map((b) => `"${b.title}"`).join(', ')}`
+        );
+    }
+
+    const doneStatus = completedStatus(context.workflow);
+    const changedById = closeTasks.memberIdsByEmail.get(commit.authorEmail.trim().toLowerCase()) ?? closeTasks.enabledById;
+    for (const task of plan.complete) {
+        await prisma.task.update({
+            where: { id: task.id },
+            data: await statusChangeData({ projectId: context.projectId, status: task.status }, doneStatus, changedById),
+        });
+        task.status = doneStatus;
+
+        broadcastTaskMove(context.projectId, task.id, doneStatus);
+        await logActivity(context.projectId, 'TASK_COMPLETED', {
+            taskId: task.id,
+            taskTitle: task.title,
+            commitSha: commit.sha,
+        });
+    }
+}
+
+interface ReferencingCommit {
+    sha: string;
+    message: string;
+    authorEmail: string;
+    committedAt: Date;
+}
+
+/**
+ * Move the tasks a commit closes, if it counts on the branch it was seen on
+ * Also used when an already linked commit reaches the default branch, e.g. through a merge
+ */
+export async function closeCommitTasks(
+    context: ReferenceContext,
+    commit: ReferencingCommit,
+    branch: string | undefined,
+    references: CommitReferences = parseCommitReferences(commit.message, context)
+): Promise<void> {
+    if (context.closeTasks && commitClosesTasks(context.closeTasks, commit, branch)) {
+        await closeReferencedTasks(context, context.closeTasks, commit, references.tasks);
+    }
+}
+
+/**
+ * Link a synced commit to the components, tasks and decisions its message references
+ * Returns the number of links created
+ *
+ * @param branch - Branch the commit was seen on; only default branch commits close tasks
+ */
+export async function linkCommitReferences(
+    context: ReferenceContext,
+    commit: ReferencingCommit,
+    branch?: string
+): Promise<number> {
+    const references = parseCommitReferences(commit.message, context);
+    const { repositoryId } = context;
+
+    const componentIds = references.componentIds
+        .map((componentId) => context.components.get(componentId))
+        .filter((id): id is string => !!id);
+
+    const [componentLinks, taskLinks, decisionLinks] = await prisma.$transaction([
+        prisma.componentCommit.createMany({
+            data: componentIds.map((componentId) => ({
+                componentId,
+                commitSha: commit.sha,
+                repositoryId,
+                autoDetected: true,
+            })),
+            skipDuplicates: true,
+        }),
+        prisma.taskCommit.createMany({
+            data: references.tasks.map((reference) => ({
+                taskId: reference.taskId,
+                commitSha: commit.sha,
+                repositoryId,
+                closesTask: reference.closes,
+            })),
+            skipDuplicates: true,
+        }),
+        prisma.decisionCommit.createMany({
+            data: references.decisionIds.map((decisionId) => ({
+                decisionId,
+                commitSha: commit.sha,
+                repositoryId,
+            })),
+            skipDuplicates: true,
+        }),
+    ]);
+
+    await closeCommitTasks(context, commit, branch, references);
+
+    return componentLinks.count + taskLinks.count + decisionLinks.count;
+}
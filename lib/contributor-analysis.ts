@@ -0,0 +1,212 @@
+/**
+ * Contributor Analysis
+ *
+ * Aggregates the authors of commits tagged to a component into per-person
+ * ownership shares and a bus factor: the fewest people who together wrote
+ * most of the component's recent commits. Commit authors are matched to
+ * project members by email.
+ */
+
+import { prisma } from './prisma';
+
+export const OWNERSHIP_WINDOW_DAYS = 365;
+export const BUS_FACTOR_SHARE = 0.5; // Share of commits the bus factor's people must cover
+export const BUS_FACTOR_MIN_COMMITS = 5; // Fewer commits are too little history to judge
+
+export interface CommitAuthorship {
+    author: string;
+    authorEmail: string;
+    committedAt: Date;
+}
+
+export interface ContributorUser {
+    id: string;
+    name: string | null;
+    email: string;
+    image: string | null;
+}
+
+export interface ComponentContributor {
+    key: string;
+    name: string; // Project member's name, else the latest commit author name
+    email: string;
+    user: ContributorUser | null; // Project member with the commit email
+    commitCount: number;
+    share: number; // 0-1 of the component's commits in the window
+    lastCommitAt: Date;
+}
+
+export interface ComponentOwnership {
+    totalCommits: number;
+    busFactor: number | null;
+    contributors: ComponentContributor[]; // Most commits first
+}
+
+/**
+ * Identify a commit author by email, or by name for commits without one
+ */
+export function contributorKey(author: string, authorEmail: string): string {
+    const email = authorEmail.trim().toLowerCase();
+    return email || `name:${author.trim().toLowerCase()}`;
+}
+
+/**
+ * Fewest contributors whose commits together exceed BUS_FACTOR_SHARE of all commits
+ * null when there are fewer than BUS_FACTOR_MIN_COMMITS commits
+ */
+export function computeBusFactor(commitCounts: number[]): number | null {
+    const total = commitCounts.reduce((sum, count) => sum + count, 0);
+    if (total < BUS_FACTOR_MIN_COMMITS) {
+        return null;
+    }
+
+    const sorted = [...commitCounts].sort((a, b) => b - a);
+    let covered = 0;
+    for (let i = 0; i < sorted.length; i++) {
+        covered += sorted[i];
+        if (covered > total * BUS_FACTOR_SHARE) {
+            return i + 1;
+        }
+    }
+
+    return sorted.length;
+}
+
+/**
+ * Group commits by author into contributors with ownership shares
+ *
+ * @param usersByEmail - Project members keyed by lowercased email
+ */
+export function computeOwnership(
+    commits: CommitAuthorship[],
+    usersByEmail: Map<string, ContributorUser> = new Map()
+): ComponentOwnership {
+    const byKey = new Map<string, Omit<ComponentContributor, 'share'>>();
+
+    for (const commit of commits) {
+        const key = contributorKey(commit.author, commit.authorEmail);
+        const existing = byKey.get(key);
+
+        if (!existing) {
+            const user = usersByEmail.get(commit.authorEmail.trim().toLowerCase()) ?? null;
+            byKey.set(key, {
+                key,
+                name: user?.name || commit.author,
+                email: commit.authorEmail,
+                user,
+                commitCount: 1,
+                lastCommitAt: commit.committedAt,
+            });
+            continue;
+        }
+
+        existing.commitCount++;
+        if (commit.committedAt > existing.lastCommitAt) {
+            existing.lastCommitAt = commit.committedAt;
+            if (!existing.user) {
+                existing.name = commit.author;
+            }
+        }
+    }
+
+    const totalCommits = commits.length;
+    const contributors = Array.from(byKey.values())
+        .map((contributor) => ({ ...contributor, share: contributor.commitCount / totalCommits }))
+        .sort((a, b) =>
+            b.commitCount - a.commitCount || b.lastCommitAt.getTime() - a.lastCommitAt.getTime()
+        );
+
+    return {
+        totalCommits,
+        busFactor: computeBusFactor(contributors.map((c) => c.commitCount)),
+        contributors,
+    };
+}
+
+function ownershipWindowStart(): Date {
+    const windowStart = new Date();
+    windowStart.setDate(windowStart.getDate() - OWNERSHIP_WINDOW_DAYS);
+    return windowStart;
+}
+
+/**
+ * Contributors and bus factor of one component, from its tagged commits
+ */
+export async function getComponentOwnership(componentId: string): Promise<ComponentOwnership> {
+    const component = await prisma.component.findUnique({
+        where: { id: componentId },
+        select: {
+            canvas: {
+                select: {
+                    project: { select: { id: true, createdById: true } },
+                },
+            },
+        },
+    });
+
+    if (!component) {
+        throw new Error(`Component ${componentId} not found`);
+    }
+
+    const tagged = await prisma.componentCommit.findMany({
+        where: {
+            componentId,
+            commit: { committedAt: { gte: ownershipWindowStart() } },
+        },
+        select: {
+            commit: { select: { author: true, authorEmail: true, committedAt: true } },
+        },
+    });
+
+    const commits = tagged.map((t) => t.commit);
+    const emails = Array.from(new Set(commits.map((c) => c.authorEmail.trim()).filter(Boolean)));
+    const { project } = component.canvas;
+
+    // Only project members are matched, so names of unrelated accounts never leak
+    const users = emails.length === 0 ? [] : await prisma.user.findMany({
+        where: {
+            email: { in: emails, mode: 'insensitive' },
+            OR: [
+                { id: project.createdById },
+                { teamMembers: { some: { team: { projects: { some: { id: project.id } } } } } },
+            ],
+        },
+        select: { id: true, name: true, email: true, image: true },
+    });
+
+    return computeOwnership(
+        commits,
+        new Map(users.map((user) => [user.email.toLowerCase(), user]))
+    );
+}
+
+/**
+ * Bus factor of every component on a canvas, in one query
+ */
+export async function getCanvasBusFactors(canvasId: string): Promise<Map<string, number | null>> {
+    const tagged = await prisma.componentCommit.findMany({
+        where: {
+            component: { canvasId },
+            commit: { committedAt: { gte: ownershipWindowStart() } },
+        },
+        select: {
+            componentId: true,
+            commit: { select: { author: true, authorEmail: true } },
+        },
+    });
+
+    const countsByComponent = new Map<string, Map<string, number>>();
+    for (const { componentId, commit } of tagged) {
+        const counts = countsByComponent.get(componentId) ?? new Map<string, number>();
+        const key = contributorKey(commit.author, commit.authorEmail);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+        countsByComponent.set(componentId, counts);
+    }
+
+    return new Map(
+        Array.from(countsByComponent, ([componentId, counts]) => [
+            componentId,
+            computeBusFactor(Array.from(counts.values())),
+        ])
+    );
+}
@@ -178,6 +178,14 @@ export async function getDecisionById(
             },
             supersededByRecord: true,
             supersedesRecords: true,
+            decisionCommits: {
+                include: { commit: true },
+                orderBy: { linkedAt: 'desc' },
+            },
+            decisionPullRequests: {
+                include: { pullRequest: true },
+                orderBy: { linkedAt: 'desc' },
+            },
         },
     });
 
@@ -185,9 +193,25 @@ export async function getDecisionById(
         throw new Error(`Decision Record not found: ${decisionId}`);
     }
 
+    const { decisionCommits, decisionPullRequests, ...record } = decision;
+
     return {
-        ...decision,
+        ...record,
         linkedComponentIds: decision.componentDecisions.map((cd) => cd.componentId),
+        linkedCommits: decisionCommits.map(({ commit }) => ({
+            sha: commit.sha,
+            message: commit.message,
+            author: commit.author,
+            committedAt: commit.committedAt,
+            url: commit.url,
+        })),
+        linkedPullRequests: decisionPullRequests.map(({ pullRequest }) => ({
+            number: pullRequest.number,
+            title: pullRequest.title,
+            state: pullRequest.state,
+            author: pullRequest.author,
+            url: pullRequest.url,
+        })),
         supersededByRecord: decision.supersededByRecord || null,
         supersedesRecord: decision.supersedesRecords[0] || null,
     };
@@ -0,0 +1,150 @@
+/**
+ * Unified Diff Parsing
+ *
+ * Splits `git diff` output into per-file changes for providers that only
+ * serve raw diffs (Gitea, local repositories), and parses patch hunks into
+ * numbered lines for the diff viewer.
+ */
+
+import type { ProviderFileChange } from '@/types/git';
+
+export interface DiffLine {
+    type: 'add' | 'delete' | 'context';
+    content: string; // Without the leading +, - or space
+    oldLine: number | null;
+    newLine: number | null;
+}
+
+export interface DiffHunk {
+    header: string; // The @@ line, including any function context
+    lines: DiffLine[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/**
+ * Count added and deleted lines of a patch
+ */
+export function countPatchLines(patch: string): { additions: number; deletions: number } {
+    let additions = 0;
+    let deletions = 0;
+
+    for (const hunk of parseHunks(patch)) {
+        for (const line of hunk.lines) {
+            if (line.type === 'add') {
+                additions++;
+            } else if (line.type === 'delete') {
+                deletions++;
+            }
+        }
+    }
+
+    return { additions, deletions };
+}
+
+/**
+ * Remove git's quoting from a path in a diff header
+ */
+function unquotePath(path: string): string {
+    if (!path.startsWith('"')) {
+        return path;
+    }
+    return path.slice(1, -1).replace(/\\(["\\])/g, '$1');
+}
+
+function headerPath(line: string, prefix: string): string | null {
+    const path = unquotePath(line.slice(4).replace(/\t.*$/, ''));
+    return path === '/dev/null' ? null : path.replace(new RegExp(`^${prefix}/`), '');
+}
+
+/**
+ * Split the output of `git diff` (or `git show`) into per-file changes
+ */
+export function parseUnifiedDiff(diff: string): ProviderFileChange[] {
+    const changes: ProviderFileChange[] = [];
+    const sections = diff.split(/^diff --git /m).slice(1);
+
+    for (const section of sections) {
+        const lines = section.split('\n');
+        const hunkStart = lines.findIndex((line) => line.startsWith('@@'));
+        const header = hunkStart === -1 ? lines : lines.slice(0, hunkStart);
+
+        let oldPath: string | null = null;
+        let newPath: string | null = null;
+        let status: ProviderFileChange['status'] = 'modified';
+        let binary = false;
+
+        for (const line of header) {
+            if (line.startsWith('--- ')) {
+                oldPath = headerPath(line, 'a');
+            } else if (line.startsWith('+++ ')) {
+                newPath = headerPath(line, 'b');
+            } else if (line.startsWith('rename from ')) {
+                oldPath = unquotePath(line.slice('rename from '.length));
+                status = 'renamed';
+            } else if (line.startsWith('rename to ')) {
+                newPath = unquotePath(line.slice('rename to '.length));
+            } else if (line.startsWith('new file mode')) {
+                status = 'added';
+            } else if (line.startsWith('deleted file mode')) {
+                status = 'removed';
+            } else if (line.startsWith('Binary files')) {
+                binary = true;
+            }
+        }
+
+        // Binary and mode-only changes have no ---/+++ lines; take the paths from the diff line
+        if (!oldPath && !newPath) {
+            const match = /^a\/(.+) b\/(.+)$/.exec(header[0]);
+            if (!match) {
+                continue;
+            }
+            oldPath = status === 'added' ? null : match[1];
+            newPath = status === 'removed' ? null : match[2];
+        }
+
+        const patch = hunkStart === -1 ? null : lines.slice(hunkStart).join('\n').replace(/\n$/, '');
+
+        changes.push({
+            path: (newPath ?? oldPath)!,
+            previousPath: status === 'renamed' ? oldPath : null,
+            status,
+            ...(patch ? countPatchLines(patch) : { additions: 0, deletions: 0 }),
+            patch: binary ? null : patch,
+        });
+    }
+
+    return changes;
+}
+
+/**
+ * Parse patch hunks into lines numbered on both sides
+ */
+export function parseHunks(patch: string): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
+    let current: DiffHunk | null = null;
+    let oldLine = 0;
+    let newLine = 0;
+
+    for (const line of patch.split('\n')) {
+        const header = HUNK_HEADER.exec(line);
+
+        if (header) {
+            current = { header: line, lines: [] };
+            hunks.push(current);
+            oldLine = Number(header[1]);
+            newLine = Number(header[2]);
+        } else if (!current || line === '' || line.startsWith('\\')) {
+            // Before the first hunk, a trailing newline, or "\ No newline at end of file"
+            continue;
+        } else if (line.startsWith('+')) {
+            current.lines.push({ type: 'add', content: line.slice(1), oldLine: null, newLine: newLine++ });
+        } else if (line.startsWith('-')) {
+            current.lines.push({ type: 'delete', content: line.slice(1), oldLine: oldLine++, newLine: null });
+        } else {
+            current.lines.push({ type: 'context', content: line.slice(1), oldLine: oldLine++, newLine: newLine++ });
+        }
+    }
+
+    return hunks;
+}
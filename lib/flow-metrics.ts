@@ -0,0 +1,166 @@
+/**
+ * Flow Metrics
+ *
+ * Lead time, cycle time and time spent in each workflow column, computed from
+ * recorded task status transitions:
+ * - Lead time: task creation until it last entered a done column
+ * - Cycle time: the first move out of the column the task started in until done
+ * - Time in column: how long tasks stayed in a column before leaving it, or
+ *   until now for tasks still in a column outside the done category
+ *
+ * Tasks created before transitions were recorded have no history and are left out.
+ */
+
+import type { WorkflowColumn } from './task-workflow';
+
+export const FLOW_WINDOW_DAYS = 90; // Completions and moves older than this are left out
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface TaskTransitionRecord {
+    fromStatus: string | null;
+    toStatus: string;
+    changedAt: Date;
+}
+
+export interface TaskFlowHistory {
+    createdAt: Date;
+    status: string;
+    transitions: TaskTransitionRecord[]; // Oldest first
+}
+
+export interface DurationStats {
+    count: number;
+    averageDays: number;
+    medianDays: number;
+    p85Days: number; // 85% of tasks took at most this long
+}
+
+export interface DurationBucket {
+    label: string;
+    count: number;
+}
+
+export interface FlowMetrics {
+    leadTime: DurationStats;
+    cycleTime: DurationStats;
+    leadTimeBuckets: DurationBucket[];
+    cycleTimeBuckets: DurationBucket[];
+    timeInColumn: Array<WorkflowColumn & DurationStats>; // Columns outside the done category
+}
+
+const BUCKETS: Array<{ label: string; maxDays: number }> = [
+    { label: '< 1d', maxDays: 1 },
+    { label: '1-3d', maxDays: 3 },
+    { label: '3-7d', maxDays: 7 },
+    { label: '1-2w', maxDays: 14 },
+    { label: '2-4w', maxDays: 28 },
+    { label: '> 4w', maxDays: Infinity },
+];
+
+function round(days: number): number {
+    return Math.round(days * 10) / 10;
+}
+
+/**
+ * Value at a percentile of sorted values, interpolating between neighbours
+ */
+function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) {
+        return 0;
+    }
+    const index = (sorted.length - 1) * p;
+    const lower = Math.floor(index);
+    const upper = Math.ceil(index);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+export function durationStats(days: number[]): DurationStats {
+    const sorted = [...days].sort((a, b) => a - b);
+    const total = sorted.reduce((sum, value) => sum + value, 0);
+
+    return {
+        count: sorted.length,
+        averageDays: sorted.length > 0 ? round(total / sorted.length) : 0,
+        medianDays: round(percentile(sorted, 0.5)),
+        p85Days: round(percentile(sorted, 0.85)),
+    };
+}
+
+export function durationBuckets(days: number[]): DurationBucket[] {
+    return BUCKETS.map((bucket, index) => {
+        const minDays = index === 0 ? -Infinity : BUCKETS[index - 1].maxDays;
+        return {
+            label: bucket.label,
+            count: days.filter((value) => value >= minDays && value < bucket.maxDays).length,
+        };
+    });
+}
+
+/**
+ * Compute flow metrics for tasks with their transitions
+ */
+export function computeFlowMetrics(
+    tasks: TaskFlowHistory[],
+    workflow: WorkflowColumn[],
+    now: Date = new Date()
+): FlowMetrics {
+    const done = new Set(workflow.filter((c) => c.isDone).map((c) => c.key));
+    const windowStart = now.getTime() - FLOW_WINDOW_DAYS * DAY_MS;
+
+    const leadTimes: number[] = [];
+    const cycleTimes: number[] = [];
+    const columnDurations = new Map<string, number[]>();
+
+    const addColumnDuration = (status: string, from: Date, to: Date) => {
+        if (done.has(status) || to.getTime() < windowStart) {
+            return;
+        }
+        const durations = columnDurations.get(status) ?? [];
+        durations.push((to.getTime() - from.getTime()) / DAY_MS);
+        columnDurations.set(status, durations);
+    };
+
+    for (const task of tasks) {
+        const { transitions } = task;
+        if (transitions.length === 0) {
+            continue;
+        }
+
+        // Time in each column between consecutive transitions; the column a task
+        // was created in is known from the first move when creation was not recorded
+        const first = transitions[0];
+        if (first.fromStatus !== null) {
+            addColumnDuration(first.fromStatus, task.createdAt, first.changedAt);
+        }
+        transitions.forEach((transition, index) => {
+            const next = transitions[index + 1];
+            addColumnDuration(transition.toStatus, transition.changedAt, next ? next.changedAt : now);
+        });
+
+        if (!done.has(task.status)) {
+            continue;
+        }
+
+        const completion = [...transitions].reverse().find((t) => done.has(t.toStatus) && !done.has(t.fromStatus ?? ''));
+        if (!completion || completion.changedAt.getTime() < windowStart) {
+            continue;
+        }
+
+        leadTimes.push((completion.changedAt.getTime() - task.createdAt.getTime()) / DAY_MS);
+
+        const startStatus = first.fromStatus ?? first.toStatus;
+        const started = transitions.find((t) => t.fromStatus !== null && t.toStatus !== startStatus) ?? completion;
+        cycleTimes.push((completion.changedAt.getTime() - started.changedAt.getTime()) / DAY_MS);
+    }
+
+    return {
+        leadTime: durationStats(leadTimes),
+        cycleTime: durationStats(cycleTimes),
+        leadTimeBuckets: durationBuckets(leadTimes),
+        cycleTimeBuckets: durationBuckets(cycleTimes),
+        timeInColumn: workflow
+            .filter((column) => !column.isDone)
+            .map((column) => ({ ...column, ...durationStats(columnDurations.get(column.key) ?? []) })),
+    };
+}
@@ -0,0 +1,111 @@
+import type { RateLimitInfo } from "@/types/git";
+
+/**
+ * Error raised by the fetch-based git provider clients
+ * Carries the HTTP status like Octokit's RequestError, so routes can handle
+ * auth failures and rate limits the same way for every provider
+ */
+export class GitProviderRequestError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number,
+        public readonly response?: { headers: Record<string, string>; data: unknown }
+    ) {
+        super(message);
+        this.name = "GitProviderRequestError";
+    }
+}
+
+/**
+ * Read the API quota from response headers
+ * GitHub and Gitea send x-ratelimit-*, GitLab sends ratelimit-*; resets are epoch seconds
+ */
+export function parseRateLimit(
+    headers: Record<string, string | number | undefined>
+): RateLimitInfo | null {
+    const remaining = headers["x-ratelimit-remaining"] ?? headers["ratelimit-remaining"];
+    if (remaining === undefined || remaining === "") {
+        return null;
+    }
+
+    const limit = headers["x-ratelimit-limit"] ?? headers["ratelimit-limit"];
+    const reset = headers["x-ratelimit-reset"] ?? headers["ratelimit-reset"];
+
+    return {
+        remaining: Number(remaining),
+        limit: limit === undefined ? null : Number(limit),
+        resetAt: reset === undefined ? null : new Date(Number(reset) * 1000),
+    };
+}
+
+/**
+ * GET a provider API resource, raising GitProviderRequestError for error responses
+ * onRateLimit receives the quota reported by every response, failed ones included
+ */
+async function get(
+    url: string,
+    headers: Record<string, string>,
+    accept: string,
+    onRateLimit?: (rateLimit: RateLimitInfo) => void
+): Promise<Response> {
+    const response = await fetch(url, {
+        headers: {
+            Accept: accept,
+            ...headers,
+        },
+    });
+
+    const rateLimit = parseRateLimit(Object.fromEntries(response.headers.entries()));
+    if (rateLimit) {
+        onRateLimit?.(rateLimit);
+    }
+
+    if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new GitProviderRequestError(
+            data?.message || data?.error || `${response.status} ${response.statusText}`,
+            response.status,
+            { headers: Object.fromEntries(response.headers.entries()), data }
+        );
+    }
+
+    return response;
+}
+
+/**
+ * GET a JSON resource from a provider API
+ */
+export async function getJson<T>(
+    url: string,
+    headers: Record<string, string>,
+    onRateLimit?: (rateLimit: RateLimitInfo) => void
+): Promise<T> {
+    const response = await get(url, headers, "application/json", onRateLimit);
+    return (await response.json()) as T;
+}
+
+/**
+ * GET a plain text resource, such as a raw diff, from a provider API
+ */
+export async function getText(
+    url: string,
+    headers: Record<string, string>,
+    onRateLimit?: (rateLimit: RateLimitInfo) => void
+): Promise<string> {
+    const response = await get(url, headers, "text/plain", onRateLimit);
+    return response.text();
+}
+
+/**
+ * Build a query string, skipping unset values
+ */
+export function toQuery(params: Record<string, string | number | boolean | undefined>): string {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined) {
+            query.set(key, String(value));
+        }
+    }
+    const encoded = query.toString();
+    return encoded ? `?${encoded}` : "";
+}
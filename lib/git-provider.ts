@@ -0,0 +1,42 @@
+import type { GitProvider, GitProviderType } from "@/types/git";
+import { decrypt } from "./encryption";
+import { GitHubClient } from "./github-client";
+import { GitLabClient, GITLAB_DEFAULT_URL } from "./gitlab-client";
+import { GiteaClient } from "./gitea-client";
+import { LocalGitClient } from "./local-git-client";
+
+/**
+ * Create the API client for a provider
+ * baseUrl points at a self-hosted instance; Gitea has no hosted default and requires it
+ * For LOCAL repositories baseUrl is the repository path, and no token is used
+ */
+export function createGitProvider(
+    provider: GitProviderType,
+    accessToken: string,
+    baseUrl?: string | null
+): GitProvider {
+    switch (provider) {
+        case "GITHUB":
+            return new GitHubClient(accessToken, baseUrl || undefined);
+        case "GITLAB":
+            return new GitLabClient(accessToken, baseUrl || GITLAB_DEFAULT_URL);
+        case "GITEA":
+            if (!baseUrl) {
+                throw new Error("Gitea repositories require an instance URL");
+            }
+            return new GiteaClient(accessToken, baseUrl);
+        case "LOCAL":
+            return new LocalGitClient(baseUrl || null);
+    }
+}
+
+/**
+ * Create the API client for a connected repository, decrypting its stored token
+ */
+export function getRepositoryProvider(repository: {
+    provider: GitProviderType;
+    baseUrl: string | null;
+    accessToken: string;
+}): GitProvider {
+    return createGitProvider(repository.provider, decrypt(repository.accessToken), repository.baseUrl);
+}
@@ -0,0 +1,301 @@
+import type {
+    GitProvider,
+    ProviderBranch,
+    ProviderCommit,
+    ProviderFileChange,
+    ProviderPullRequest,
+    ProviderPullRequestDetails,
+    ProviderRepository,
+    RateLimitInfo,
+} from "@/types/git";
+import { getJson, getText, toQuery } from "./git-http";
+import { parseUnifiedDiff } from "./diff";
+
+const MAX_PER_PAGE = 50; // Gitea's default MAX_RESPONSE_ITEMS
+
+// Gitea review states mapped onto GitHub's
+const REVIEW_STATES: Record<string, string> = {
+    APPROVED: "APPROVED",
+    REQUEST_CHANGES: "CHANGES_REQUESTED",
+    COMMENT: "COMMENTED",
+    PENDING: "PENDING",
+    REQUEST_REVIEW: "PENDING",
+};
+
+/**
+ * Gitea (and Forgejo) REST API (v1) client
+ */
+export class GiteaClient implements GitProvider {
+    readonly type = "GITEA" as const;
+    rateLimit: RateLimitInfo | null = null;
+    private apiUrl: string;
+
+    /**
+     * @param baseUrl Instance URL, e.g. https://gitea.example.com
+     */
+    constructor(private accessToken: string, baseUrl: string) {
+        this.apiUrl = `${baseUrl.replace(/\/$/, "")}/api/v1`;
+    }
+
+    private get<T>(path: string, params: Record<string, string | number | boolean | undefined> = {}) {
+        return getJson<T>(`${this.apiUrl}${path}${toQuery(params)}`, {
+            Authorization: `token ${this.accessToken}`,
+        }, (rateLimit) => {
+            this.rateLimit = rateLimit;
+        });
+    }
+
+    /**
+     * Fetch every page of a list endpoint
+     */
+    private async getAll<T>(path: string) {
+        const items: T[] = [];
+        let page = 1;
+
+        while (true) {
+            const batch = await this.get<T[]>(path, { page, limit: MAX_PER_PAGE });
+            items.push(...batch);
+            if (batch.length < MAX_PER_PAGE) {
+                return items;
+            }
+            page++;
+        }
+    }
+
+    private repoPath(owner: string, repo: string) {
+        return `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+    }
+
+    async getCommits(
+        owner: string,
+        repo: string,
+        options?: {
+            page?: number;
+            perPage?: number;
+            since?: Date;
+            until?: Date;
+            sha?: string;
+        }
+    ): Promise<{ commits: ProviderCommit[]; hasMore: boolean }> {
+        try {
+            const perPage = Math.min(options?.perPage || 30, MAX_PER_PAGE);
+            const data = await this.get<any[]>(`${this.repoPath(owner, repo)}/commits`, {
+                sha: options?.sha,
+                since: options?.since?.toISOString(),
+                until: options?.until?.toISOString(),
+                page: options?.page || 1,
+                limit: perPage,
+                // Skip per-commit stats and file lists, they make listing slow
+                stat: false,
+                files: false,
+                verification: false,
+            });
+
+            const commits: ProviderCommit[] = data.map((commit) => ({
+                sha: commit.sha,
+                message: commit.commit.message,
+                author: commit.commit.author?.name || "Unknown",
+                authorEmail: commit.commit.author?.email || "",
+                committedAt: new Date(commit.commit.author?.date || Date.now()),
+                url: commit.html_url,
+            }));
+
+            return { commits, hasMore: data.length === perPage };
+        } catch (error) {
+            console.error("Error fetching Gitea commits:", error);
+            throw error;
+        }
+    }
+
+    async getCommitFiles(owner: string, repo: string, sha: string): Promise<string[]> {
+        try {
+            const commit = await this.get<any>(
+                `${this.repoPath(owner, repo)}/git/commits/${encodeURIComponent(sha)}`
+            );
+
+            return (commit.files || []).map((file: any) => file.filename);
+        } catch (error) {
+            console.error("Error fetching Gitea commit files:", error);
+            throw error;
+        }
+    }
+
+    async getCommitDiff(owner: string, repo: string, sha: string): Promise<ProviderFileChange[]> {
+        try {
+            // The JSON commit API has no patches; the raw diff has everything
+            const diff = await getText(
+                `${this.apiUrl}${this.repoPath(owner, repo)}/git/commits/${encodeURIComponent(sha)}.diff`,
+                { Authorization: `token ${this.accessToken}` },
+                (rateLimit) => {
+                    this.rateLimit = rateLimit;
+                }
+            );
+
+            return parseUnifiedDiff(diff);
+        } catch (error) {
+            console.error("Error fetching Gitea commit diff:", error);
+            throw error;
+        }
+    }
+
+    async getBranches(
+        owner: string,
+        repo: string,
+        options?: {
+            page?: number;
+            perPage?: number;
+        }
+    ): Promise<{ branches: ProviderBranch[]; hasMore: boolean }> {
+        try {
+            const perPage = Math.min(options?.perPage || 30, MAX_PER_PAGE);
+            const data = await this.get<any[]>(`${this.repoPath(owner, repo)}/branches`, {
+                page: options?.page || 1,
+                limit: perPage,
+            });
+
+            const branches: ProviderBranch[] = data.map((branch) => ({
+                name: branch.name,
+                sha: branch.commit.id,
+                protected: branch.protected,
+            }));
+
+            return { branches, hasMore: data.length === perPage };
+        } catch (error) {
+            console.error("Error fetching Gitea branches:", error);
+            throw error;
+        }
+    }
+
+    async getPullRequests(
+        owner: string,
+        repo: string,
+        options?: {
+            page?: number;
+            perPage?: number;
+            state?: "open" | "closed" | "all";
+        }
+    ): Promise<{ pullRequests: ProviderPullRequest[]; hasMore: boolean }> {
+        try {
+            const perPage = Math.min(options?.perPage || 30, MAX_PER_PAGE);
+            const data = await this.get<any[]>(`${this.repoPath(owner, repo)}/pulls`, {
+                state: options?.state || "all",
+                sort: "recentupdate",
+                page: options?.page || 1,
+                limit: perPage,
+            });
+
+            const pullRequests: ProviderPullRequest[] = data.map((pr) => ({
+                number: pr.number,
+                title: pr.title,
+                state: pr.state,
+                author: pr.user?.login || "Unknown",
+                createdAt: new Date(pr.created_at),
+                updatedAt: new Date(pr.updated_at),
+                url: pr.html_url,
+                merged: !!pr.merged,
+            }));
+
+            return { pullRequests, hasMore: data.length === perPage };
+        } catch (error) {
+            console.error("Error fetching Gitea pull requests:", error);
+            throw error;
+        }
+    }
+
+    async getPullRequestDetails(
+        owner: string,
+        repo: string,
+        number: number
+    ): Promise<ProviderPullRequestDetails> {
+        try {
+            const path = `${this.repoPath(owner, repo)}/pulls/${number}`;
+
+            const [pr, reviews, files, commits] = await Promise.all([
+                this.get<any>(path),
+                this.getAll<any>(`${path}/reviews`),
+                this.getAll<any>(`${path}/files`),
+                this.getAll<any>(`${path}/commits`),
+            ]);
+
+            return {
+                number: pr.number,
+                title: pr.title,
+                body: pr.body || null,
+                state: pr.state,
+                draft: !!pr.draft,
+                merged: !!pr.merged,
+                author: pr.user?.login || "Unknown",
+                url: pr.html_url,
+                headBranch: pr.head.ref,
+                baseBranch: pr.base.ref,
+                mergeCommitSha: pr.merged ? pr.merge_commit_sha || null : null,
+                createdAt: new Date(pr.created_at),
+                updatedAt: new Date(pr.updated_at),
+                mergedAt: pr.merged_at ? new Date(pr.merged_at) : null,
+                closedAt: pr.closed_at ? new Date(pr.closed_at) : null,
+                requestedReviewers: (pr.requested_reviewers || []).map((reviewer: any) => reviewer.login),
+                reviews: reviews
+                    .filter((review) => !review.dismissed)
+                    .map((review) => ({
+                        login: review.user?.login || "Unknown",
+                        state: REVIEW_STATES[review.state] || "COMMENTED",
+                        submittedAt: review.submitted_at ? new Date(review.submitted_at) : null,
+                    })),
+                changedFiles: files.flatMap((file) =>
+                    file.previous_filename ? [file.filename, file.previous_filename] : [file.filename]
+                ),
+                commitShas: commits.map((commit) => commit.sha),
+            };
+        } catch (error) {
+            console.error("Error fetching Gitea pull request details:", error);
+            throw error;
+        }
+    }
+
+    async getRepository(owner: string, repo: string) {
+        try {
+            const repository = await this.get<any>(this.repoPath(owner, repo));
+
+            return {
+                id: repository.id.toString(),
+                name: repository.name,
+                fullName: repository.full_name,
+                description: repository.description || null,
+                private: repository.private,
+                url: repository.html_url,
+                defaultBranch: repository.default_branch || null,
+            };
+        } catch (error) {
+            console.error("Error fetching Gitea repository:", error);
+            throw error;
+        }
+    }
+
+    async listUserRepositories(options?: {
+        page?: number;
+        perPage?: number;
+    }): Promise<{ repositories: ProviderRepository[]; hasMore: boolean }> {
+        try {
+            const perPage = Math.min(options?.perPage || 30, MAX_PER_PAGE);
+            const data = await this.get<any[]>("/user/repos", {
+                page: options?.page || 1,
+                limit: perPage,
+            });
+
+            const repositories: ProviderRepository[] = data.map((repository) => ({
+                id: repository.id.toString(),
+                name: repository.name,
+                fullName: repository.full_name,
+                owner: repository.owner.login,
+                description: repository.description || null,
+                private: repository.private,
+                url: repository.html_url,
+            }));
+
+            return { repositories, hasMore: data.length === perPage };
+        } catch (error) {
+            console.error("Error fetching Gitea repositories:", error);
+            throw error;
+        }
+    }
+}
@@ -1,37 +1,44 @@
 import { Octokit } from "@octokit/rest";
+import type {
+    GitProvider,
+    ProviderBranch,
+    ProviderCommit,
+    ProviderFileChange,
+    ProviderPullRequest,
+    ProviderPullRequestDetails,
+    RateLimitInfo,
+} from "@/types/git";
+import { parseRateLimit } from "./git-http";
 
-export interface GitHubCommit {
-    sha: string;
-    message: string;
-    author: string;
-    authorEmail: string;
-    committedAt: Date;
-    url: string;
-}
-
-export interface GitHubBranch {
-    name: string;
-    sha: string;
-    protected: boolean;
-}
+// GitHub file statuses mapped onto the provider-neutral ones
+const FILE_STATUSES: Record<string, ProviderFileChange["status"]> = {
+    added: "added",
+    copied: "added",
+    removed: "removed",
+    renamed: "renamed",
+};
 
-export interface GitHubPullRequest {
-    number: number;
-    title: string;
-    state: string;
-    author: string;
-    createdAt: Date;
-    updatedAt: Date;
-    url: string;
-    merged: boolean;
-}
-
-export class GitHubClient {
+export class GitHubClient implements GitProvider {
+    readonly type = "GITHUB" as const;
+    rateLimit: RateLimitInfo | null = null;
     private octokit: Octokit;
 
-    constructor(accessToken: string) {
+    /**
+     * @param baseUrl API root for GitHub Enterprise Server, e.g. https://github.example.com/api/v3
+     */
+    constructor(accessToken: string, baseUrl?: string) {
         this.octokit = new Octokit({
             auth: accessToken,
+            ...(baseUrl && { baseUrl }),
+        });
+
+        // Track the quota from every response, including rate limit errors
+        this.octokit.hook.after("request", (response) => {
+            this.rateLimit = parseRateLimit(response.headers) ?? this.rateLimit;
+        });
+        this.octokit.hook.error("request", (error: any) => {
+            this.rateLimit = parseRateLimit(error.response?.headers ?? {}) ?? this.rateLimit;
+            throw error;
         });
     }
 
@@ -45,7 +52,7 @@ export class GitHubClient {
             until?: Date;
             sha?: string;
         }
-    ): Promise<{ commits: GitHubCommit[]; hasMore: boolean }> {
+    ): Promise<{ commits: ProviderCommit[]; hasMore: boolean }> {
         try {
             const response = await this.octokit.repos.listCommits({
                 owner,
@@ -57,7 +64,7 @@ export class GitHubClient {
                 sha: options?.sha,
             });
 
-            const commits: GitHubCommit[] = response.data.map((commit) => ({
+            const commits: ProviderCommit[] = response.data.map((commit) => ({
                 sha: commit.sha,
                 message: commit.commit.message,
                 author: commit.commit.author?.name || "Unknown",
@@ -77,6 +84,47 @@ export class GitHubClient {
         }
     }
 
+    async getCommitFiles(owner: string, repo: string, sha: string): Promise<string[]> {
+        try {
+            const response = await this.octokit.repos.getCommit({
+                owner,
+                repo,
+                ref: sha,
+            });
+
+            return (response.data.files || []).flatMap((file) =>
+                // Renames touch both the old and the new location
+                file.previous_filename ? [file.filename, file.previous_filename] : [file.filename]
+            );
+        } catch (error) {
+            console.error("Error fetching commit files:", error);
+            throw error;
+        }
+    }
+
+    async getCommitDiff(owner: string, repo: string, sha: string): Promise<ProviderFileChange[]> {
+        try {
+            const response = await this.octokit.repos.getCommit({
+                owner,
+                repo,
+                ref: sha,
+            });
+
+            return (response.data.files || []).map((file) => ({
+                path: file.filename,
+                previousPath: file.previous_filename ?? null,
+                status: FILE_STATUSES[file.status] ?? "modified",
+                additions: file.additions,
+                deletions: file.deletions,
+                // GitHub omits the patch for binary files and very large diffs
+                patch: file.patch ?? null,
+            }));
+        } catch (error) {
+            console.error("Error fetching commit diff:", error);
+            throw error;
+        }
+    }
+
     async getBranches(
         owner: string,
         repo: string,
@@ -84,7 +132,7 @@ export class GitHubClient {
             page?: number;
             perPage?: number;
         }
-    ): Promise<{ branches: GitHubBranch[]; hasMore: boolean }> {
+    ): Promise<{ branches: ProviderBranch[]; hasMore: boolean }> {
         try {
             const response = await this.octokit.repos.listBranches({
                 owner,
@@ -93,7 +141,7 @@ export class GitHubClient {
                 per_page: options?.perPage || 30,
             });
 
-            const branches: GitHubBranch[] = response.data.map((branch) => ({
+            const branches: ProviderBranch[] = response.data.map((branch) => ({
                 name: branch.name,
                 sha: branch.commit.sha,
                 protected: branch.protected,
@@ -116,7 +164,7 @@ export class GitHubClient {
             perPage?: number;
             state?: "open" | "closed" | "all";
         }
-    ): Promise<{ pullRequests: GitHubPullRequest[]; hasMore: boolean }> {
+    ): Promise<{ pullRequests: ProviderPullRequest[]; hasMore: boolean }> {
         try {
             const response = await this.octokit.pulls.list({
                 owner,
@@ -128,7 +176,7 @@ export class GitHubClient {
                 direction: "desc",
             });
 
-            const pullRequests: GitHubPullRequest[] = response.data.map((pr) => ({
+            const pullRequests: ProviderPullRequest[] = response.data.map((pr) => ({
                 number: pr.number,
                 title: pr.title,
                 state: pr.state,
@@ -148,6 +196,73 @@ export class GitHubClient {
         }
     }
 
+    async getPullRequestDetails(
+        owner: string,
+        repo: string,
+        number: number
+    ): Promise<ProviderPullRequestDetails> {
+        try {
+            const { data: pr } = await this.octokit.pulls.get({
+                owner,
+                repo,
+                pull_number: number,
+            });
+
+            const [reviews, files, commits] = await Promise.all([
+                this.octokit.paginate(this.octokit.pulls.listReviews, {
+                    owner,
+                    repo,
+                    pull_number: number,
+                    per_page: 100,
+                }),
+                this.octokit.paginate(this.octokit.pulls.listFiles, {
+                    owner,
+                    repo,
+                    pull_number: number,
+                    per_page: 100,
+                }),
+                this.octokit.paginate(this.octokit.pulls.listCommits, {
+                    owner,
+                    repo,
+                    pull_number: number,
+                    per_page: 100,
+                }),
+            ]);
+
+            return {
+                number: pr.number,
+                title: pr.title,
+                body: pr.body,
+                state: pr.state,
+                draft: pr.draft || false,
+                merged: pr.merged,
+                author: pr.user?.login || "Unknown",
+                url: pr.html_url,
+                headBranch: pr.head.ref,
+                baseBranch: pr.base.ref,
+                // GitHub fills merge_commit_sha with a test merge while the PR is open
+                mergeCommitSha: pr.merged ? pr.merge_commit_sha : null,
+                createdAt: new Date(pr.created_at),
+                updatedAt: new Date(pr.updated_at),
+                mergedAt: pr.merged_at ? new Date(pr.merged_at) : null,
+                closedAt: pr.closed_at ? new Date(pr.closed_at) : null,
+                requestedReviewers: (pr.requested_reviewers || []).map((reviewer) => reviewer.login),
+                reviews: reviews.map((review) => ({
+                    login: review.user?.login || "Unknown",
+                    state: review.state,
+                    submittedAt: review.submitted_at ? new Date(review.submitted_at) : null,
+                })),
+                changedFiles: files.flatMap((file) =>
+                    file.previous_filename ? [file.filename, file.previous_filename] : [file.filename]
+                ),
+                commitShas: commits.map((commit) => commit.sha),
+            };
+        } catch (error) {
+            console.error("Error fetching pull request details:", error);
+            throw error;
+        }
+    }
+
     async getRepository(owner: string, repo: string) {
         try {
             const response = await this.octokit.repos.get({
@@ -162,6 +277,7 @@ export class GitHubClient {
                 description: response.data.description,
                 private: response.data.private,
                 url: response.data.html_url,
+                defaultBranch: response.data.default_branch,
             };
         } catch (error) {
             console.error("Error fetching repository:", error);
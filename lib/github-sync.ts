@@ -1,18 +1,223 @@
+import { createHash } from "crypto";
 import { prisma } from "./prisma";
+import type { GitProvider, GitProviderType, ProviderCommit } from "@/types/git";
+import { getRepositoryProvider } from "./git-provider";
 import { decrypt } from "./encryption";
-import { GitHubClient } from "./github-client";
 import { logActivity } from "./activity-logger";
+import { findOwningComponents, type PathOwner } from "./path-ownership";
+import { closeCommitTasks, linkCommitReferences, loadReferenceContext } from "./commit-references";
+import { advanceBranchWalk, startBranchWalk } from "./branch-sync";
+import { syncPullRequests } from "./pull-request-sync";
+import { classifySyncError, isRateLimitLow, nextAttemptAt, runSyncQueue } from "./sync-scheduler";
 
 const SYNC_INTERVAL = 5 * 60 * 1000; // 5 minutes
-const MAX_COMMITS_PER_SYNC = 100;
+const RECONCILE_INTERVAL = 60 * 60 * 1000; // 1 hour, for repositories with webhooks
+const COMMITS_PER_PAGE = 100;
+const MAX_PAGES_PER_SYNC = 20; // Larger histories are backfilled over several syncs
 
+export type IngestedCommit = ProviderCommit & {
+    files?: string[]; // Changed file paths, when already known (e.g. from a push webhook)
+};
+
+interface IngestRepository {
+    id: string;
+    projectId: string;
+    owner: string;
+    name: string;
+}
+
+/**
+ * Tag a commit to every component whose path globs match one of its changed files
+ * Returns the number of component links created
+ */
+async function autoTagCommit(
+    provider: GitProvider,
+    repository: IngestRepository,
+    commit: IngestedCommit,
+    owners: PathOwner[]
+): Promise<number> {
+    const files = commit.files
+        ?? await provider.getCommitFiles(repository.owner, repository.name, commit.sha);
+    const componentIds = findOwningComponents(files, owners);
+
+    if (componentIds.length === 0) {
+        return 0;
+    }
+
+    // Manual tags win: existing links are left untouched
+    const result = await prisma.componentCommit.createMany({
+        data: componentIds.map((componentId) => ({
+            componentId,
+            commitSha: commit.sha,
+            repositoryId: repository.id,
+            autoDetected: true,
+        })),
+        skipDuplicates: true,
+    });
+
+    return result.count;
+}
+
+/**
+ * Store commits that are not yet known, log activity for them and link them
+ * to components, tasks and decisions
+ * Shared by polling sync and webhook deliveries, so ingesting the same commit twice
+ * only records the branch it was seen on. Stops before a commit whose changed files
+ * would have to be fetched once the quota runs low; `rateLimited` tells the caller
+ * the remaining commits are left for a later sync
+ */
+export async function ingestCommits(
+    repository: IngestRepository,
+    commits: IngestedCommit[],
+    provider: GitProvider,
+    branch?: string
+) {
+    const repositoryId = repository.id;
+
+    // Components declaring path globs get commits touching those paths tagged automatically
+    const owners: PathOwner[] = await prisma.component.findMany({
+        where: {
+            canvas: { projectId: repository.projectId },
+            pathPatterns: { isEmpty: false },
+        },
+        select: { id: true, pathPatterns: true },
+    });
+
+    // Components, tasks and decisions that commit messages may reference
+    const referenceContext = await loadReferenceContext(repository.projectId, repositoryId);
+
+    let newCommitsCount = 0;
+    let autoTaggedCount = 0;
+    let referenceLinkCount = 0;
+    let rateLimited = false;
+    for (const commit of commits) {
+        // Auto-tagging fetches the changed files of each commit
+        if (owners.length > 0 && !commit.files && isRateLimitLow(provider.rateLimit)) {
+            rateLimited = true;
+            break;
+        }
+
+        try {
+            const existing = await prisma.gitCommit.findUnique({
+                where: {
+                    repositoryId_sha: {
+                        repositoryId,
+                        sha: commit.sha,
+                    },
+                },
+                select: { id: true, branches: true },
+            });
+
+            if (existing) {
+                if (branch && !existing.branches.includes(branch)) {
+                    await prisma.gitCommit.update({
+                        where: { id: existing.id },
+                        data: { branches: { push: branch } },
+                    });
+
+                    // A commit linked on a feature branch closes its tasks once merged into the default branch
+                    try {
+                        await closeCommitTasks(referenceContext, commit, branch);
+                    } catch (error) {
+                        console.error(`Error closing tasks of commit ${commit.sha}:`, error);
+                    }
+                }
+                continue;
+            }
+
+            await prisma.gitCommit.upsert({
+                where: {
+                    repositoryId_sha: {
+                        repositoryId,
+                        sha: commit.sha,
+                    },
+                },
+                update: {},
+                create: {
+                    repositoryId,
+                    sha: commit.sha,
+                    message: commit.message,
+                    author: commit.author,
+                    authorEmail: commit.authorEmail,
+                    committedAt: commit.committedAt,
+                    url: commit.url,
+                    branches: branch ? [branch] : [],
+                },
+            });
+
+            // Log activity for new commit
+            await logActivity(
+                repository.projectId,
+                "GIT_COMMIT",
+                {
+                    sha: commit.sha,
+                    message: commit.message,
+                    author: commit.author,
+                    url: commit.url,
+                },
+            );
+
+            newCommitsCount++;
+
+            if (owners.length > 0) {
+                try {
+                    autoTaggedCount += await autoTagCommit(
+                        provider,
+                        repository,
+                        commit,
+                        owners
+                    );
+                } catch (error) {
+                    console.error(`Error auto-tagging commit ${commit.sha}:`, error);
+                }
+            }
+
+            try {
+                referenceLinkCount += await linkCommitReferences(referenceContext, commit, branch);
+            } catch (error) {
+                console.error(`Error linking references of commit ${commit.sha}:`, error);
+            }
+        } catch (error) {
+            console.error(`Error storing commit ${commit.sha}:`, error);
+        }
+    }
+
+    return { newCommitsCount, autoTaggedCount, referenceLinkCount, rateLimited };
+}
+
+/**
+ * List every branch of a repository across all pages
+ */
+async function listAllBranches(provider: GitProvider, owner: string, name: string) {
+    const branches: Array<{ name: string; sha: string }> = [];
+    let page = 1;
+    let hasMore = true;
+
+    while (hasMore) {
+        const result = await provider.getBranches(owner, name, { page, perPage: 100 });
+        branches.push(...result.branches);
+        hasMore = result.hasMore;
+        page++;
+    }
+
+    return branches;
+}
+
+/**
+ * Sync one repository and record the outcome on it: status, last error and,
+ * after a failure, when the scheduler should try again
+ */
 export async function syncGitHubRepository(repositoryId: string) {
+    let failureCount = 0;
+    let provider: GitProvider | null = null;
+
     try {
         // Get repository details
         const repository = await prisma.gitRepository.findUnique({
             where: { id: repositoryId },
             include: {
                 project: true,
+                branchSyncStates: true,
             },
         });
 
@@ -21,120 +226,276 @@ export async function syncGitHubRepository(repositoryId: string) {
             return;
         }
 
-        // Decrypt access token
-        const accessToken = decrypt(repository.accessToken);
-        const githubClient = new GitHubClient(accessToken);
+        failureCount = repository.syncFailureCount;
+        await prisma.gitRepository.update({
+            where: { id: repositoryId },
+            data: { syncStatus: "SYNCING" },
+        });
+
+        provider = getRepositoryProvider(repository);
+
+        // Closing tasks from commits is limited to the default branch, which can be renamed
+        const { defaultBranch } = await provider.getRepository(repository.owner, repository.name);
+        if (defaultBranch !== repository.defaultBranch) {
+            await prisma.gitRepository.update({
+                where: { id: repositoryId },
+                data: { defaultBranch },
+            });
+        }
+
+        const branches = await listAllBranches(provider, repository.owner, repository.name);
+        const branchNames = new Set(branches.map((b) => b.name));
 
-        // Get the last synced commit date
-        const lastCommit = await prisma.gitCommit.findFirst({
-            where: { repositoryId },
-            orderBy: { committedAt: "desc" },
+        // Forget the sync state of deleted branches
+        await prisma.gitBranchSyncState.deleteMany({
+            where: {
+                repositoryId,
+                branch: { notIn: Array.from(branchNames) },
+            },
         });
 
-        // Fetch new commits since last sync
-        const { commits } = await githubClient.getCommits(
-            repository.owner,
-            repository.name,
-            {
-                since: lastCommit?.committedAt || repository.createdAt,
-                perPage: MAX_COMMITS_PER_SYNC,
-            }
+        const statesByBranch = new Map(
+            repository.branchSyncStates.map((state) => [state.branch, state])
         );
 
-        // Store new commits in database
+        // Walk each branch page by page, persisting the cursor after every page
+        let pageBudget = MAX_PAGES_PER_SYNC;
         let newCommitsCount = 0;
-        for (const commit of commits) {
-            try {
-                await prisma.gitCommit.upsert({
-                    where: {
-                        repositoryId_sha: {
-                            repositoryId,
-                            sha: commit.sha,
-                        },
-                    },
-                    update: {},
-                    create: {
-                        repositoryId,
-                        sha: commit.sha,
-                        message: commit.message,
-                        author: commit.author,
-                        authorEmail: commit.authorEmail,
-                        committedAt: commit.committedAt,
-                        url: commit.url,
-                    },
-                });
+        let autoTaggedCount = 0;
+        let referenceLinkCount = 0;
+        let backfillPending = false;
 
-                // Log activity for new commit
-                await logActivity(
-                    repository.projectId,
-                    "GIT_COMMIT",
+        for (const branch of branches) {
+            const stored = statesByBranch.get(branch.name) ?? await prisma.gitBranchSyncState.create({
+                data: { repositoryId, branch: branch.name },
+            });
+
+            let cursor = startBranchWalk(stored, branch.sha);
+
+            // Stop early rather than spend the quota webhooks and users still need
+            while (cursor?.cursorSha && pageBudget > 0 && !isRateLimitLow(provider.rateLimit)) {
+                const { commits, hasMore } = await provider.getCommits(
+                    repository.owner,
+                    repository.name,
                     {
-                        sha: commit.sha,
-                        message: commit.message,
-                        author: commit.author,
-                        url: commit.url,
+                        sha: cursor.cursorSha,
+                        page: cursor.cursorPage,
+                        perPage: COMMITS_PER_PAGE,
+                        since: cursor.cursorSince ?? undefined,
+                    }
+                );
+                pageBudget--;
+
+                const result = await ingestCommits(repository, commits, provider, branch.name);
+                newCommitsCount += result.newCommitsCount;
+                autoTaggedCount += result.autoTaggedCount;
+                referenceLinkCount += result.referenceLinkCount;
+
+                // The cursor stays on a page cut short, the next sync ingests the rest of it
+                if (result.rateLimited) {
+                    break;
+                }
+
+                cursor = advanceBranchWalk(cursor, {
+                    committedAt: commits.map((c) => c.committedAt),
+                    hasMore,
+                });
+
+                await prisma.gitBranchSyncState.update({
+                    where: { id: stored.id },
+                    data: {
+                        syncedHeadSha: cursor.syncedHeadSha,
+                        lastCommittedAt: cursor.lastCommittedAt,
+                        cursorSha: cursor.cursorSha,
+                        cursorPage: cursor.cursorPage,
+                        cursorSince: cursor.cursorSince,
+                        ...(!cursor.cursorSha && { lastSyncedAt: new Date() }),
                     },
-            );
+                });
+            }
+
+            if (cursor?.cursorSha) {
+                backfillPending = true;
+            }
+        }
 
-                newCommitsCount++;
+        // Pull request failures should not hold back commit sync
+        let pullRequestCount = 0;
+        if (!isRateLimitLow(provider.rateLimit)) {
+            try {
+                ({ syncedCount: pullRequestCount } = await syncPullRequests(repository, provider));
             } catch (error) {
-                console.error(`Error storing commit ${commit.sha}:`, error);
+                console.error(`Error syncing pull requests for repository ${repository.fullName}:`, error);
             }
         }
 
-        // Update last synced timestamp
+        // A nearly spent quota holds the next scheduled sync back until it resets
+        const rateLimit = provider.rateLimit;
         await prisma.gitRepository.update({
             where: { id: repositoryId },
-            data: { lastSyncedAt: new Date() },
+            data: {
+                lastSyncedAt: new Date(),
+                syncStatus: "SUCCEEDED",
+                syncFailureCount: 0,
+                nextSyncAt: isRateLimitLow(rateLimit) ? rateLimit?.resetAt ?? null : null,
+            },
         });
 
         console.log(
-            `Synced ${newCommitsCount} new commits for repository ${repository.fullName}`
+            `Synced ${newCommitsCount} new commits across ${branches.length} branches and ${pullRequestCount} pull requests for repository ${repository.fullName} (${autoTaggedCount} auto-tagged component links, ${referenceLinkCount} message references${backfillPending ? ", backfill continues next sync" : ""})`
         );
 
-        return { success: true, newCommitsCount };
+        return {
+            success: true as const,
+            newCommitsCount,
+            autoTaggedCount,
+            referenceLinkCount,
+            backfillPending,
+            pullRequestCount,
+            rateLimit,
+        };
     } catch (error) {
         console.error(`Error syncing repository ${repositoryId}:`, error);
 
-        // Check if it's a rate limit error
-        if (error instanceof Error && error.message.includes("rate limit")) {
-            console.warn("GitHub API rate limit reached, will retry later");
+        const now = new Date();
+        const { rateLimited, retryAt } = classifySyncError(error, now);
+        const nextSyncAt = nextAttemptAt(failureCount + 1, now, retryAt);
+
+        if (rateLimited) {
+            console.warn(`API rate limit reached for repository ${repositoryId}, retrying at ${nextSyncAt.toISOString()}`);
+        }
+
+        try {
+            await prisma.gitRepository.update({
+                where: { id: repositoryId },
+                data: {
+                    syncStatus: rateLimited ? "RATE_LIMITED" : "FAILED",
+                    lastSyncError: error instanceof Error ? error.message : String(error),
+                    lastSyncErrorAt: now,
+                    syncFailureCount: failureCount + 1,
+                    nextSyncAt,
+                },
+            });
+        } catch (updateError) {
+            console.error(`Error recording sync failure for repository ${repositoryId}:`, updateError);
         }
 
-        return { success: false, error };
+        return {
+            success: false as const,
+            error,
+            rateLimited,
+            retryAt,
+            nextSyncAt,
+            rateLimit: provider?.rateLimit ?? null,
+        };
     }
 }
 
+/**
+ * Key grouping repositories that share an API quota: same provider, instance and token
+ * Local repositories have no quota and all share one key, which caps concurrent git processes
+ */
+function syncTokenKey(repository: {
+    id: string;
+    provider: GitProviderType;
+    baseUrl: string | null;
+    accessToken: string;
+}) {
+    try {
+        const token = createHash("sha256").update(decrypt(repository.accessToken)).digest("hex");
+        return `${repository.provider}:${repository.baseUrl ?? ""}:${token}`;
+    } catch {
+        // Undecryptable tokens fail on their own; keep them out of other queues
+        return repository.id;
+    }
+}
+
+/**
+ * Restart history backfill from scratch on every branch
+ * The next sync walks each branch's full history again
+ */
+export async function resetBranchSync(repositoryId: string) {
+    await prisma.gitBranchSyncState.deleteMany({
+        where: { repositoryId },
+    });
+}
+
+/**
+ * Sync every repository that is due, through the per-token queue
+ * Repositories backing off after a failure or rate limit wait until their nextSyncAt
+ */
 export async function syncAllRepositories() {
     try {
+        const now = new Date();
+
         // Get all repositories that need syncing
+        // Repositories receiving webhooks are only polled as a reconciliation pass
         const repositories = await prisma.gitRepository.findMany({
             where: {
-                OR: [
-                    { lastSyncedAt: null },
+                AND: [
+                    {
+                        OR: [
+                            { nextSyncAt: null },
+                            { nextSyncAt: { lte: now } },
+                        ],
+                    },
                     {
-                        lastSyncedAt: {
-                            lt: new Date(Date.now() - SYNC_INTERVAL),
-                        },
+                        OR: [
+                            { lastSyncedAt: null },
+                            {
+                                webhookSecret: null,
+                                lastSyncedAt: {
+                                    lt: new Date(now.getTime() - SYNC_INTERVAL),
+                                },
+                            },
+                            {
+                                lastSyncedAt: {
+                                    lt: new Date(now.getTime() - RECONCILE_INTERVAL),
+                                },
+                            },
+                            // Keep unfinished backfills moving on every pass
+                            {
+                                branchSyncStates: {
+                                    some: { cursorSha: { not: null } },
+                                },
+                            },
+                            // Retries after a failure are due regardless of the intervals
+                            { nextSyncAt: { lte: now } },
+                        ],
                     },
                 ],
             },
+            select: { id: true, provider: true, baseUrl: true, accessToken: true },
         });
 
         console.log(`Starting sync for ${repositories.length} repositories`);
 
-        const results = await Promise.allSettled(
-            repositories.map((repo) => syncGitHubRepository(repo.id))
+        const { successful, failed, deferred } = await runSyncQueue(
+            repositories.map((repo) => ({ id: repo.id, key: syncTokenKey(repo) })),
+            async (job) => {
+                const result = await syncGitHubRepository(job.id);
+                return {
+                    success: !!result?.success,
+                    rateLimit: result?.rateLimit,
+                    rateLimited: result?.success === false && result.rateLimited,
+                    retryAt: result?.success === false ? result.retryAt : null,
+                };
+            }
         );
 
-        const successful = results.filter((r) => r.status === "fulfilled").length;
-        const failed = results.filter((r) => r.status === "rejected").length;
+        // Repositories not started because their token ran out of quota
+        for (const { job, until } of deferred) {
+            await prisma.gitRepository.update({
+                where: { id: job.id },
+                data: { nextSyncAt: until },
+            });
+        }
 
         console.log(
-            `Sync completed: ${successful} successful, ${failed} failed`
+            `Sync completed: ${successful} successful, ${failed} failed, ${deferred.length} deferred by rate limits`
         );
 
-        return { successful, failed };
+        return { successful, failed, deferred: deferred.length };
     } catch (error) {
         console.error("Error in syncAllRepositories:", error);
         throw error;
@@ -0,0 +1,92 @@
+import type { GitProviderType } from "@/types/git";
+import { prisma } from "./prisma";
+import { getRepositoryProvider } from "./git-provider";
+import { logActivity } from "./activity-logger";
+import { ingestCommits } from "./github-sync";
+import { parsePushCommits } from "./github-webhooks";
+import { branchFromRef } from "./branch-sync";
+import { syncPullRequest } from "./pull-request-sync";
+
+export interface WebhookResult {
+    handled: boolean;
+    newCommitsCount?: number;
+}
+
+/**
+ * Process a verified webhook delivery for a repository
+ */
+export async function handleWebhookEvent(
+    repository: {
+        id: string;
+        projectId: string;
+        owner: string;
+        name: string;
+        provider: GitProviderType;
+        baseUrl: string | null;
+        accessToken: string;
+    },
+    event: string,
+    payload: any
+): Promise<WebhookResult> {
+    await prisma.gitRepository.update({
+        where: { id: repository.id },
+        data: { lastWebhookAt: new Date() },
+    });
+
+    switch (event) {
+        case "ping":
+            return { handled: true };
+
+        case "push": {
+            const commits = parsePushCommits(payload);
+            if (commits.length === 0) {
+                return { handled: true, newCommitsCount: 0 };
+            }
+
+            const provider = getRepositoryProvider(repository);
+            const branch = branchFromRef(payload.ref) ?? undefined;
+            const { newCommitsCount } = await ingestCommits(repository, commits, provider, branch);
+
+            return { handled: true, newCommitsCount };
+        }
+
+        case "pull_request":
+        case "pull_request_review": {
+            const pullRequest = payload.pull_request;
+            const provider = getRepositoryProvider(repository);
+            await syncPullRequest(repository, provider, pullRequest.number);
+
+            if (event === "pull_request_review") {
+                return { handled: true };
+            }
+
+            await logActivity(repository.projectId, "GIT_PULL_REQUEST", {
+                action: pullRequest?.merged && payload.action === "closed" ? "merged" : payload.action,
+                number: payload.number,
+                title: pullRequest?.title,
+                author: pullRequest?.user?.login,
+                url: pullRequest?.html_url,
+            });
+
+            return { handled: true };
+        }
+
+        case "create":
+        case "delete": {
+            if (payload.ref_type !== "branch") {
+                return { handled: false };
+            }
+
+            await logActivity(repository.projectId, "GIT_BRANCH", {
+                action: event === "create" ? "created" : "deleted",
+                branch: payload.ref,
+                author: payload.sender?.login,
+            });
+
+            return { handled: true };
+        }
+
+        default:
+            return { handled: false };
+    }
+}
@@ -0,0 +1,62 @@
+import crypto from "crypto";
+import type { IngestedCommit } from "./github-sync";
+
+export const SIGNATURE_HEADER = "x-hub-signature-256";
+export const EVENT_HEADER = "x-github-event";
+export const DELIVERY_HEADER = "x-github-delivery";
+
+/**
+ * Generate a new random webhook secret
+ */
+export function generateWebhookSecret(): string {
+    return crypto.randomBytes(32).toString("hex");
+}
+
+/**
+ * Compute the `sha256=` signature GitHub sends for a payload
+ */
+export function signWebhookPayload(payload: string, secret: string): string {
+    const digest = crypto.createHmac("sha256", secret).update(payload, "utf8").digest("hex");
+    return `sha256=${digest}`;
+}
+
+/**
+ * Verify a webhook delivery's signature against the repository's secret
+ */
+export function verifyWebhookSignature(
+    payload: string,
+    signature: string | null,
+    secret: string
+): boolean {
+    if (!signature) {
+        return false;
+    }
+
+    const expected = Buffer.from(signWebhookPayload(payload, secret));
+    const received = Buffer.from(signature);
+
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Convert the commits of a push payload, including the files each one touched
+ */
+export function parsePushCommits(payload: any): IngestedCommit[] {
+    if (!Array.isArray(payload?.commits)) {
+        return [];
+    }
+
+    return payload.commits.map((commit: any) => ({
+        sha: commit.id,
+        message: commit.message,
+        author: commit.author?.name || "Unknown",
+        authorEmail: commit.author?.email || "",
+        committedAt: new Date(commit.timestamp || Date.now()),
+        url: commit.url,
+        files: [
+            ...(commit.added || []),
+            ...(commit.modified || []),
+            ...(commit.removed || []),
+        ],
+    }));
+}
@@ -0,0 +1,321 @@
+import type {
+    GitProvider,
+    ProviderBranch,
+    ProviderCommit,
+    ProviderFileChange,
+    ProviderPullRequest,
+    ProviderPullRequestDetails,
+    ProviderPullRequestReview,
+    ProviderRepository,
+    RateLimitInfo,
+} from "@/types/git";
+import { getJson, toQuery } from "./git-http";
+import { countPatchLines } from "./diff";
+
+export const GITLAB_DEFAULT_URL = "https://gitlab.com";
+
+const MAX_PER_PAGE = 100;
+
+/**
+ * GitLab REST API (v4) client
+ * Merge requests are exposed as pull requests, numbered by their iid
+ */
+export class GitLabClient implements GitProvider {
+    readonly type = "GITLAB" as const;
+    rateLimit: RateLimitInfo | null = null;
+    private apiUrl: string;
+
+    /**
+     * @param baseUrl Instance URL for self-hosted GitLab, e.g. https://gitlab.example.com
+     */
+    constructor(private accessToken: string, baseUrl: string = GITLAB_DEFAULT_URL) {
+        this.apiUrl = `${baseUrl.replace(/\/$/, "")}/api/v4`;
+    }
+
+    private get<T>(path: string, params: Record<string, string | number | boolean | undefined> = {}) {
+        return getJson<T>(`${this.apiUrl}${path}${toQuery(params)}`, {
+            Authorization: `Bearer ${this.accessToken}`,
+        }, (rateLimit) => {
+            this.rateLimit = rateLimit;
+        });
+    }
+
+    /**
+     * Fetch every page of a list endpoint
+     */
+    private async getAll<T>(path: string, params: Record<string, string | number | undefined> = {}) {
+        const items: T[] = [];
+        let page = 1;
+
+        while (true) {
+            const batch = await this.get<T[]>(path, { ...params, page, per_page: MAX_PER_PAGE });
+            items.push(...batch);
+            if (batch.length < MAX_PER_PAGE) {
+                return items;
+            }
+            page++;
+        }
+    }
+
+    private projectPath(owner: string, repo: string) {
+        return `/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+    }
+
+    async getCommits(
+        owner: string,
+        repo: string,
+        options?: {
+            page?: number;
+            perPage?: number;
+            since?: Date;
+            until?: Date;
+            sha?: string;
+        }
+    ): Promise<{ commits: ProviderCommit[]; hasMore: boolean }> {
+        try {
+            const perPage = options?.perPage || 30;
+            const data = await this.get<any[]>(`${this.projectPath(owner, repo)}/repository/commits`, {
+                ref_name: options?.sha,
+                since: options?.since?.toISOString(),
+                until: options?.until?.toISOString(),
+                page: options?.page || 1,
+                per_page: perPage,
+            });
+
+            const commits: ProviderCommit[] = data.map((commit) => ({
+                sha: commit.id,
+                message: commit.message,
+                author: commit.author_name || "Unknown",
+                authorEmail: commit.author_email || "",
+                committedAt: new Date(commit.authored_date || commit.committed_date || Date.now()),
+                url: commit.web_url,
+            }));
+
+            return { commits, hasMore: data.length === perPage };
+        } catch (error) {
+            console.error("Error fetching GitLab commits:", error);
+            throw error;
+        }
+    }
+
+    async getCommitFiles(owner: string, repo: string, sha: string): Promise<string[]> {
+        try {
+            const diffs = await this.getAll<any>(
+                `${this.projectPath(owner, repo)}/repository/commits/${encodeURIComponent(sha)}/diff`
+            );
+
+            return diffs.flatMap((diff) =>
+                diff.renamed_file && diff.old_path !== diff.new_path
+                    ? [diff.new_path, diff.old_path]
+                    : [diff.new_path]
+            );
+        } catch (error) {
+            console.error("Error fetching GitLab commit files:", error);
+            throw error;
+        }
+    }
+
+    async getCommitDiff(owner: string, repo: string, sha: string): Promise<ProviderFileChange[]> {
+        try {
+            const diffs = await this.getAll<any>(
+                `${this.projectPath(owner, repo)}/repository/commits/${encodeURIComponent(sha)}/diff`
+            );
+
+            return diffs.map((diff) => {
+                // Binary files and diffs over the instance's size limit come back empty
+                const patch = diff.diff && !diff.too_large ? diff.diff : null;
+                return {
+                    path: diff.deleted_file ? diff.old_path : diff.new_path,
+                    previousPath: diff.renamed_file ? diff.old_path : null,
+                    status: diff.new_file
+                        ? "added"
+                        : diff.deleted_file
+                            ? "removed"
+                            : diff.renamed_file ? "renamed" : "modified",
+                    ...(patch ? countPatchLines(patch) : { additions: 0, deletions: 0 }),
+                    patch,
+                };
+            });
+        } catch (error) {
+            console.error("Error fetching GitLab commit diff:", error);
+            throw error;
+        }
+    }
+
+    async getBranches(
+        owner: string,
+        repo: string,
+        options?: {
+            page?: number;
+            perPage?: number;
+        }
+    ): Promise<{ branches: ProviderBranch[]; hasMore: boolean }> {
+        try {
+            const perPage = options?.perPage || 30;
+            const data = await this.get<any[]>(`${this.projectPath(owner, repo)}/repository/branches`, {
+                page: options?.page || 1,
+                per_page: perPage,
+            });
+
+            const branches: ProviderBranch[] = data.map((branch) => ({
+                name: branch.name,
+                sha: branch.commit.id,
+                protected: branch.protected,
+            }));
+
+            return { branches, hasMore: data.length === perPage };
+        } catch (error) {
+            console.error("Error fetching GitLab branches:", error);
+            throw error;
+        }
+    }
+
+    async getPullRequests(
+        owner: string,
+        repo: string,
+        options?: {
+            page?: number;
+            perPage?: number;
+            state?: "open" | "closed" | "all";
+        }
+    ): Promise<{ pullRequests: ProviderPullRequest[]; hasMore: boolean }> {
+        try {
+            const perPage = options?.perPage || 30;
+            const state = options?.state || "all";
+            const data = await this.get<any[]>(`${this.projectPath(owner, repo)}/merge_requests`, {
+                // GitLab's "closed" excludes merged merge requests, so filter that case locally
+                state: state === "open" ? "opened" : "all",
+                order_by: "updated_at",
+                sort: "desc",
+                page: options?.page || 1,
+                per_page: perPage,
+            });
+
+            const pullRequests: ProviderPullRequest[] = data
+                .map((mr) => ({
+                    number: mr.iid,
+                    title: mr.title,
+                    state: mr.state === "opened" || mr.state === "locked" ? "open" : "closed",
+                    author: mr.author?.username || "Unknown",
+                    createdAt: new Date(mr.created_at),
+                    updatedAt: new Date(mr.updated_at),
+                    url: mr.web_url,
+                    merged: mr.state === "merged",
+                }))
+                .filter((pr) => state !== "closed" || pr.state === "closed");
+
+            return { pullRequests, hasMore: data.length === perPage };
+        } catch (error) {
+            console.error("Error fetching GitLab merge requests:", error);
+            throw error;
+        }
+    }
+
+    async getPullRequestDetails(
+        owner: string,
+        repo: string,
+        number: number
+    ): Promise<ProviderPullRequestDetails> {
+        try {
+            const path = `${this.projectPath(owner, repo)}/merge_requests/${number}`;
+
+            const [mr, approvals, diffs, commits] = await Promise.all([
+                this.get<any>(path),
+                this.get<any>(`${path}/approvals`),
+                this.getAll<any>(`${path}/diffs`),
+                this.getAll<any>(`${path}/commits`),
+            ]);
+
+            // GitLab has approvals rather than reviews; pending reviewers are still requested
+            const approvedBy: string[] = (approvals.approved_by || []).map((a: any) => a.user.username);
+            const reviews: ProviderPullRequestReview[] = approvedBy.map((login) => ({
+                login,
+                state: "APPROVED",
+                submittedAt: approvals.updated_at ? new Date(approvals.updated_at) : null,
+            }));
+
+            const merged = mr.state === "merged";
+
+            return {
+                number: mr.iid,
+                title: mr.title,
+                body: mr.description || null,
+                state: mr.state === "opened" || mr.state === "locked" ? "open" : "closed",
+                draft: mr.draft || mr.work_in_progress || false,
+                merged,
+                author: mr.author?.username || "Unknown",
+                url: mr.web_url,
+                headBranch: mr.source_branch,
+                baseBranch: mr.target_branch,
+                mergeCommitSha: merged ? mr.merge_commit_sha || mr.squash_commit_sha || null : null,
+                createdAt: new Date(mr.created_at),
+                updatedAt: new Date(mr.updated_at),
+                mergedAt: mr.merged_at ? new Date(mr.merged_at) : null,
+                closedAt: mr.closed_at ? new Date(mr.closed_at) : merged && mr.merged_at ? new Date(mr.merged_at) : null,
+                requestedReviewers: (mr.reviewers || [])
+                    .map((reviewer: any) => reviewer.username)
+                    .filter((login: string) => !approvedBy.includes(login)),
+                reviews,
+                changedFiles: diffs.flatMap((diff) =>
+                    diff.renamed_file && diff.old_path !== diff.new_path
+                        ? [diff.new_path, diff.old_path]
+                        : [diff.new_path]
+                ),
+                commitShas: commits.map((commit) => commit.id),
+            };
+        } catch (error) {
+            console.error("Error fetching GitLab merge request details:", error);
+            throw error;
+        }
+    }
+
+    async getRepository(owner: string, repo: string) {
+        try {
+            const project = await this.get<any>(this.projectPath(owner, repo));
+
+            return {
+                id: project.id.toString(),
+                name: project.path,
+                fullName: project.path_with_namespace,
+                description: project.description || null,
+                private: project.visibility !== "public",
+                url: project.web_url,
+                defaultBranch: project.default_branch || null,
+            };
+        } catch (error) {
+            console.error("Error fetching GitLab project:", error);
+            throw error;
+        }
+    }
+
+    async listUserRepositories(options?: {
+        page?: number;
+        perPage?: number;
+    }): Promise<{ repositories: ProviderRepository[]; hasMore: boolean }> {
+        try {
+            const perPage = options?.perPage || 30;
+            const data = await this.get<any[]>("/projects", {
+                membership: true,
+                order_by: "last_activity_at",
+                sort: "desc",
+                page: options?.page || 1,
+                per_page: perPage,
+            });
+
+            const repositories: ProviderRepository[] = data.map((project) => ({
+                id: project.id.toString(),
+                name: project.path,
+                fullName: project.path_with_namespace,
+                owner: project.namespace.full_path,
+                description: project.description || null,
+                private: project.visibility !== "public",
+                url: project.web_url,
+            }));
+
+            return { repositories, hasMore: data.length === perPage };
+        } catch (error) {
+            console.error("Error fetching GitLab projects:", error);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,335 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { realpathSync } from "fs";
+import { readdir, realpath } from "fs/promises";
+import path from "path";
+import type {
+    GitProvider,
+    ProviderBranch,
+    ProviderCommit,
+    ProviderFileChange,
+    ProviderPullRequest,
+    ProviderPullRequestDetails,
+    ProviderRepository,
+} from "@/types/git";
+import { parseUnifiedDiff } from "./diff";
+
+const execFileAsync = promisify(execFile);
+
+// Field and record separators for git's --format output
+const FIELD = "\x1f";
+const RECORD = "\x1e";
+
+const MAX_OUTPUT = 64 * 1024 * 1024;
+
+/**
+ * Directories whose repositories may be connected, from LOCAL_GIT_ROOTS
+ * Local repositories are disabled when none are configured
+ */
+export function getLocalGitRoots(): string[] {
+    return (process.env.LOCAL_GIT_ROOTS || "")
+        .split(",")
+        .map((root) => root.trim())
+        .filter(Boolean)
+        .map((root) => path.resolve(root));
+}
+
+function realPathOrNull(target: string): string | null {
+    try {
+        return realpathSync(target);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Whether a path lies inside one of the configured roots
+ * Symlinks are followed first, so a link inside a root cannot point git elsewhere
+ */
+export function isWithinLocalGitRoots(repoPath: string, roots: string[] = getLocalGitRoots()): boolean {
+    const resolved = realPathOrNull(path.resolve(repoPath));
+    if (!resolved) {
+        return false;
+    }
+
+    return roots.some((root) => {
+        const realRoot = realPathOrNull(root);
+        return !!realRoot && (resolved === realRoot || resolved.startsWith(realRoot + path.sep));
+    });
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+    // Mounted repositories are often owned by another user; the roots are trusted by configuration
+    const { stdout } = await execFileAsync("git", ["-c", `safe.directory=${cwd}`, ...args], {
+        cwd,
+        maxBuffer: MAX_OUTPUT,
+    });
+    return stdout;
+}
+
+/**
+ * Whether a directory is itself a repository, bare or with a .git directory,
+ * rather than somewhere inside one
+ */
+async function isRepositoryRoot(dir: string): Promise<boolean> {
+    try {
+        const gitDir = (await git(dir, ["rev-parse", "--absolute-git-dir"])).trim();
+        const resolved = await realpath(dir);
+        return gitDir === resolved || gitDir === path.join(resolved, ".git");
+    } catch {
+        return false;
+    }
+}
+
+function assertRevision(revision: string) {
+    if (revision.startsWith("-")) {
+        throw new Error(`Invalid revision: ${revision}`);
+    }
+}
+
+/**
+ * Changed paths from `git diff-tree --name-status` output
+ * Renames and copies touch both the old and the new location
+ */
+export function parseNameStatus(output: string): string[] {
+    return output
+        .split("\n")
+        .filter(Boolean)
+        .flatMap((line) => {
+            const [status, ...paths] = line.split("\t");
+            return /^[RC]/.test(status) ? [paths[1], paths[0]] : [paths[0]];
+        });
+}
+
+/**
+ * Reads a repository on the local filesystem (bare or not) through the git CLI,
+ * for servers the app cannot reach through a hosted API
+ *
+ * Local repositories have no web UI, so commit URLs are empty, and no pull requests.
+ */
+export class LocalGitClient implements GitProvider {
+    readonly type = "LOCAL" as const;
+    readonly rateLimit = null;
+
+    /**
+     * @param repoPath Repository path; may be omitted when only listing repositories
+     */
+    constructor(private repoPath: string | null, private roots: string[] = getLocalGitRoots()) {
+        if (repoPath && !isWithinLocalGitRoots(repoPath, roots)) {
+            throw new Error("Repository path is outside the configured LOCAL_GIT_ROOTS");
+        }
+    }
+
+    private run(args: string[]) {
+        if (!this.repoPath) {
+            throw new Error("No local repository path configured");
+        }
+        return git(this.repoPath, args);
+    }
+
+    async getCommits(
+        _owner: string,
+        _repo: string,
+        options?: {
+            page?: number;
+            perPage?: number;
+            since?: Date;
+            until?: Date;
+            sha?: string;
+        }
+    ): Promise<{ commits: ProviderCommit[]; hasMore: boolean }> {
+        try {
+            const page = options?.page || 1;
+            const perPage = options?.perPage || 30;
+            const revision = options?.sha || "HEAD";
+            assertRevision(revision);
+
+            // One extra commit tells whether another page follows
+            const output = await this.run([
+                "log",
+                `--format=%H${FIELD}%an${FIELD}%ae${FIELD}%aI${FIELD}%B${RECORD}`,
+                `--skip=${(page - 1) * perPage}`,
+                `--max-count=${perPage + 1}`,
+                ...(options?.since ? [`--since=${options.since.toISOString()}`] : []),
+                ...(options?.until ? [`--until=${options.until.toISOString()}`] : []),
+                revision,
+                "--",
+            ]);
+
+            const records = output.split(RECORD).map((r) => r.trim()).filter(Boolean);
+
+            const commits: ProviderCommit[] = records.slice(0, perPage).map((record) => {
+                const [sha, author, authorEmail, date, message] = record.split(FIELD);
+                return {
+                    sha,
+                    message: message.trim(),
+                    author: author || "Unknown",
+                    authorEmail,
+                    committedAt: new Date(date),
+                    url: "",
+                };
+            });
+
+            return { commits, hasMore: records.length > perPage };
+        } catch (error) {
+            console.error("Error reading local commits:", error);
+            throw error;
+        }
+    }
+
+    async getCommitFiles(_owner: string, _repo: string, sha: string): Promise<string[]> {
+        try {
+            assertRevision(sha);
+            const output = await this.run([
+                "diff-tree",
+                "--no-commit-id",
+                "--name-status",
+                "-r",
+                "-M",
+                "--root",
+                sha,
+            ]);
+
+            return parseNameStatus(output);
+        } catch (error) {
+            console.error("Error reading local commit files:", error);
+            throw error;
+        }
+    }
+
+    async getCommitDiff(_owner: string, _repo: string, sha: string): Promise<ProviderFileChange[]> {
+        try {
+            assertRevision(sha);
+            const output = await this.run([
+                "diff-tree",
+                "--no-commit-id",
+                "--no-color",
+                "--patch",
+                "-r",
+                "-M",
+                "--root",
+                sha,
+            ]);
+
+            return parseUnifiedDiff(output);
+        } catch (error) {
+            console.error("Error reading local commit diff:", error);
+            throw error;
+        }
+    }
+
+    async getBranches(
+        _owner: string,
+        _repo: string,
+        options?: {
+            page?: number;
+            perPage?: number;
+        }
+    ): Promise<{ branches: ProviderBranch[]; hasMore: boolean }> {
+        try {
+            const page = options?.page || 1;
+            const perPage = options?.perPage || 30;
+
+            const output = await this.run([
+                "for-each-ref",
+                `--format=%(refname:short)${FIELD}%(objectname)`,
+                "refs/heads",
+            ]);
+
+            const all = output.split("\n").filter(Boolean).map((line) => {
+                const [name, sha] = line.split(FIELD);
+                return { name, sha, protected: false };
+            });
+
+            return {
+                branches: all.slice((page - 1) * perPage, page * perPage),
+                hasMore: all.length > page * perPage,
+            };
+        } catch (error) {
+            console.error("Error reading local branches:", error);
+            throw error;
+        }
+    }
+
+    async getPullRequests(): Promise<{ pullRequests: ProviderPullRequest[]; hasMore: boolean }> {
+        return { pullRequests: [], hasMore: false };
+    }
+
+    async getPullRequestDetails(): Promise<ProviderPullRequestDetails> {
+        throw new Error("Local repositories have no pull requests");
+    }
+
+    async getRepository() {
+        if (!this.repoPath) {
+            throw new Error("No local repository path configured");
+        }
+
+        if (!(await isRepositoryRoot(path.resolve(this.repoPath)))) {
+            throw new Error(`Not a git repository: ${this.repoPath}`);
+        }
+
+        // HEAD names the default branch of bare repositories, and the checked-out one otherwise
+        let defaultBranch: string | null = null;
+        try {
+            defaultBranch = (await this.run(["symbolic-ref", "--quiet", "--short", "HEAD"])).trim() || null;
+        } catch {
+            // Detached HEAD: no default branch
+        }
+
+        return {
+            id: path.resolve(this.repoPath),
+            name: path.basename(this.repoPath).replace(/\.git$/, ""),
+            fullName: path.resolve(this.repoPath),
+            description: null,
+            private: true,
+            url: "",
+            defaultBranch,
+        };
+    }
+
+    /**
+     * Git repositories directly inside the configured roots
+     */
+    async listUserRepositories(options?: {
+        page?: number;
+        perPage?: number;
+    }): Promise<{ repositories: ProviderRepository[]; hasMore: boolean }> {
+        try {
+            const page = options?.page || 1;
+            const perPage = options?.perPage || 30;
+            const repositories: ProviderRepository[] = [];
+
+            for (const root of this.roots) {
+                const entries = await readdir(root, { withFileTypes: true }).catch(() => []);
+
+                for (const entry of entries) {
+                    if (!entry.isDirectory()) {
+                        continue;
+                    }
+
+                    const repoPath = path.join(root, entry.name);
+
+                    if (await isRepositoryRoot(repoPath)) {
+                        repositories.push({
+                            id: repoPath,
+                            name: entry.name.replace(/\.git$/, ""),
+                            fullName: repoPath,
+                            owner: root,
+                            description: null,
+                            private: true,
+                            url: "",
+                        });
+                    }
+                }
+            }
+
+            return {
+                repositories: repositories.slice((page - 1) * perPage, page * perPage),
+                hasMore: repositories.length > page * perPage,
+            };
+        } catch (error) {
+            console.error("Error listing local repositories:", error);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,133 @@
+/**
+ * Notification Rules
+ *
+ * Decides which due-date notifications a scheduler run should send: assignees
+ * are reminded when an open task's due date is within their lead time, and
+ * overdue HIGH-priority tasks are escalated to the project's owners for a
+ * week after their due date. Each event carries a dedupe key so it is only
+ * notified once per user; moving a due date makes it a new event.
+ */
+
+import { z } from 'zod';
+import { formatDistanceStrict } from 'date-fns';
+import type { NotificationType, TaskPriority } from '@prisma/client';
+
+const HOUR_MS = 1000 * 60 * 60;
+
+export const MAX_REMINDER_LEAD_HOURS = 24 * 7;
+// Tasks overdue for longer are not escalated anymore
+export const OVERDUE_ESCALATION_WINDOW_HOURS = 24 * 7;
+
+export const notificationPreferencesSchema = z.object({
+    dueReminders: z.boolean(),
+    reminderLeadHours: z.number().int().min(1).max(MAX_REMINDER_LEAD_HOURS),
+    overdueEscalations: z.boolean(),
+});
+
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+    dueReminders: true,
+    reminderLeadHours: 24,
+    overdueEscalations: true,
+};
+
+export interface DueTask {
+    id: string;
+    title: string;
+    priority: TaskPriority;
+    dueDate: Date;
+    assigneeId: string | null;
+    projectId: string;
+    projectName: string;
+    done: boolean; // In a done column of the project's workflow
+}
+
+export interface NotificationDraft {
+    userId: string;
+    type: NotificationType;
+    title: string;
+    message: string;
+    link: string;
+    projectId: string;
+    taskId: string;
+    dedupeKey: string;
+}
+
+function taskLink(task: DueTask): string {
+    return `/projects/${task.projectId}/kanban`;
+}
+
+/**
+ * Reminders for assignees of open tasks due within their lead time
+ */
+export function planDueReminders(
+    tasks: DueTask[],
+    preferencesOf: (userId: string) => NotificationPreferences,
+    now: Date
+): NotificationDraft[] {
+    const drafts: NotificationDraft[] = [];
+
+    for (const task of tasks) {
+        if (task.done || !task.assigneeId || task.dueDate <= now) {
+            continue;
+        }
+
+        const preferences = preferencesOf(task.assigneeId);
+        const hoursLeft = (task.dueDate.getTime() - now.getTime()) / HOUR_MS;
+        if (!preferences.dueReminders || hoursLeft > preferences.reminderLeadHours) {
+            continue;
+        }
+
+        drafts.push({
+            userId: task.assigneeId,
+            type: 'TASK_DUE_SOON',
+            title: `"${task.title}" is due soon`,
+            message: `Due ${formatDistanceStrict(task.dueDate, now, { addSuffix: true })} in ${task.projectName}`,
+            link: taskLink(task),
+            projectId: task.projectId,
+            taskId: task.id,
+            dedupeKey: `due:${task.id}:${task.dueDate.toISOString()}`,
+        });
+    }
+
+    return drafts;
+}
+
+/**
+ * Escalations of HIGH-priority tasks overdue within the escalation window to the owners of their project
+ */
+export function planOverdueEscalations(
+    tasks: DueTask[],
+    ownersOf: (projectId: string) => string[],
+    preferencesOf: (userId: string) => NotificationPreferences,
+    now: Date
+): NotificationDraft[] {
+    const drafts: NotificationDraft[] = [];
+
+    for (const task of tasks) {
+        const hoursOverdue = (now.getTime() - task.dueDate.getTime()) / HOUR_MS;
+        if (task.done || task.priority !== 'HIGH' || hoursOverdue < 0 || hoursOverdue > OVERDUE_ESCALATION_WINDOW_HOURS) {
+            continue;
+        }
+
+        for (const ownerId of ownersOf(task.projectId)) {
+            if (!preferencesOf(ownerId).overdueEscalations) {
+                continue;
+            }
+
+            drafts.push({
+                userId: ownerId,
+                type: 'TASK_OVERDUE_ESCALATION',
+                title: `High-priority task overdue: "${task.title}"`,
+                message: `Was due ${formatDistanceStrict(task.dueDate, now, { addSuffix: true })} in ${task.projectName}`,
+                link: taskLink(task),
+                projectId: task.projectId,
+                taskId: task.id,
+                dedupeKey: `overdue:${task.id}:${task.dueDate.toISOString()}`,
+            });
+        }
+    }
+
+    return drafts;
+}
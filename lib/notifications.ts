@@ -0,0 +1,230 @@
+/**
+ * Notification Service
+ *
+ * In-app notifications and the scheduler that feeds them from task due
+ * dates. Each run reminds assignees of tasks coming due and escalates overdue
+ * HIGH-priority tasks to project owners, following each user's preferences.
+ * Read notifications are pruned once they are old.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { doneStatuses, getProjectWorkflow, isDoneStatus } from './task-workflow';
+import {
+    DEFAULT_NOTIFICATION_PREFERENCES,
+    MAX_REMINDER_LEAD_HOURS,
+    OVERDUE_ESCALATION_WINDOW_HOURS,
+    planDueReminders,
+    planOverdueEscalations,
+    type DueTask,
+    type NotificationPreferences,
+} from './notification-rules';
+
+const NOTIFICATION_CHECK_INTERVAL = 15 * 60 * 1000; // 15 minutes
+const READ_RETENTION_DAYS = 90;
+
+export const NOTIFICATION_PAGE_SIZE = 30;
+
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+    const preferences = await prisma.notificationPreference.findUnique({
+        where: { userId },
+        select: { dueReminders: true, reminderLeadHours: true, overdueEscalations: true },
+    });
+
+    return preferences ?? DEFAULT_NOTIFICATION_PREFERENCES;
+}
+
+export async function updateNotificationPreferences(userId: string, data: NotificationPreferences) {
+    return prisma.notificationPreference.upsert({
+        where: { userId },
+        create: { userId, ...data },
+        update: data,
+        select: { dueReminders: true, reminderLeadHours: true, overdueEscalations: true },
+    });
+}
+
+/**
+ * Most recent notifications of a user, with the number still unread
+ */
+export async function getNotifications(userId: string) {
+    const [notifications, unreadCount] = await Promise.all([
+        prisma.notification.findMany({
+            where: { userId },
+            orderBy: { createdAt: 'desc' },
+            take: NOTIFICATION_PAGE_SIZE,
+        }),
+        prisma.notification.count({ where: { userId, readAt: null } }),
+    ]);
+
+    return { notifications, unreadCount };
+}
+
+/**
+ * Mark some or, without IDs, all of a user's notifications as read
+ */
+export async function markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+    const result = await prisma.notification.updateMany({
+        where: {
+            userId,
+            readAt: null,
+            ...(ids && { id: { in: ids } }),
+        },
+        data: { readAt: new Date() },
+    });
+
+    return result.count;
+}
+
+/**
+ * Send the due-date reminders and overdue escalations that are due
+ */
+export async function runDueDateChecks(now: Date = new Date()): Promise<number> {
+    const horizon = new Date(now.getTime() + MAX_REMINDER_LEAD_HOURS * 60 * 60 * 1000);
+    const escalationCutoff = new Date(now.getTime() - OVERDUE_ESCALATION_WINDOW_HOURS * 60 * 60 * 1000);
+    const dueWithinChecks: Prisma.TaskWhereInput = {
+        OR: [
+            { dueDate: { gt: now, lte: horizon }, assigneeId: { not: null } },
+            { dueDate: { gte: escalationCutoff, lte: now }, priority: 'HIGH' },
+        ],
+    };
+
+    // Done columns differ per project, so tasks in them are filtered out project by project
+    const candidates = await prisma.task.findMany({
+        where: dueWithinChecks,
+        distinct: ['projectId'],
+        select: { projectId: true },
+    });
+
+    if (candidates.length === 0) {
+        return 0;
+    }
+
+    const workflows = new Map(
+        await Promise.all(
+            candidates.map(async ({ projectId }) => [projectId, await getProjectWorkflow(projectId)] as const)
+        )
+    );
+
+    const tasks = await prisma.task.findMany({
+        where: {
+            ...dueWithinChecks,
+            AND: {
+                OR: Array.from(workflows, ([projectId, workflow]) => ({
+                    projectId,
+                    status: { notIn: doneStatuses(workflow) },
+                })),
+            },
+        },
+        select: {
+            id: true,
+            title: true,
+            status: true,
+            priority: true,
+            dueDate: true,
+            assigneeId: true,
+            projectId: true,
+            project: {
+                select: {
+                    name: true,
+                    teamId: true,
+                    createdById: true,
+                    team: {
+                        select: {
+                            members: { where: { role: 'OWNER' }, select: { userId: true } },
+                        },
+                    },
+                },
+            },
+        },
+    });
+
+    if (tasks.length === 0) {
+        return 0;
+    }
+
+    // Personal projects are owned by their creator
+    const owners = new Map<string, string[]>();
+    for (const { projectId, project } of tasks) {
+        owners.set(
+            projectId,
+            project.teamId ? (project.team?.members.map((member) => member.userId) ?? []) : [project.createdById]
+        );
+    }
+
+    const dueTasks: DueTask[] = tasks.map((task) => ({
+        id: task.id,
+        title: task.title,
+        priority: task.priority,
+        dueDate: task.dueDate!,
+        assigneeId: task.assigneeId,
+        projectId: task.projectId,
+        projectName: task.project.name,
+        done: isDoneStatus(workflows.get(task.projectId)!, task.status),
+    }));
+
+    const userIds = new Set<string>();
+    dueTasks.forEach((task) => task.assigneeId && userIds.add(task.assigneeId));
+    owners.forEach((ids) => ids.forEach((id) => userIds.add(id)));
+
+    const stored = await prisma.notificationPreference.findMany({
+        where: { userId: { in: Array.from(userIds) } },
+    });
+    const preferences = new Map(stored.map((row) => [row.userId, row]));
+    const preferencesOf = (userId: string) => preferences.get(userId) ?? DEFAULT_NOTIFICATION_PREFERENCES;
+
+    const drafts = [
+        ...planDueReminders(dueTasks, preferencesOf, now),
+        ...planOverdueEscalations(dueTasks, (projectId) => owners.get(projectId) ?? [], preferencesOf, now),
+    ];
+
+    if (drafts.length === 0) {
+        return 0;
+    }
+
+    // Events already notified are skipped by the unique dedupe key
+    const created = await prisma.notification.createMany({ data: drafts, skipDuplicates: true });
+    return created.count;
+}
+
+async function pruneReadNotifications(now: Date): Promise<number> {
+    const cutoff = new Date(now.getTime() - READ_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const result = await prisma.notification.deleteMany({
+        where: { readAt: { lt: cutoff } },
+    });
+    return result.count;
+}
+
+async function runNotificationChecks() {
+    const now = new Date();
+    const created = await runDueDateChecks(now);
+    if (created > 0) {
+        console.log(`Sent ${created} due date notifications`);
+    }
+    await pruneReadNotifications(now);
+}
+
+// Start the notification scheduler if in production
+let notificationInterval: NodeJS.Timeout | null = null;
+
+export function startPeriodicNotificationChecks() {
+    if (notificationInterval) {
+        console.warn('Notification scheduler already running');
+        return;
+    }
+
+    console.log('Starting notification scheduler (every 15 minutes)');
+
+    runNotificationChecks().catch(console.error);
+
+    notificationInterval = setInterval(() => {
+        runNotificationChecks().catch(console.error);
+    }, NOTIFICATION_CHECK_INTERVAL);
+}
+
+export function stopPeriodicNotificationChecks() {
+    if (notificationInterval) {
+        clearInterval(notificationInterval);
+        notificationInterval = null;
+        console.log('Stopped notification scheduler');
+    }
+}
@@ -0,0 +1,79 @@
+/**
+ * Path Ownership
+ *
+ * Matches changed file paths against the path globs components declare
+ * (e.g. `services/billing/**`) so commits can be tagged to the components
+ * they touch without manual tagging.
+ *
+ * Supported glob syntax:
+ * - `**` matches any number of path segments (including none)
+ * - `*` matches anything within a single path segment
+ * - `?` matches a single character other than `/`
+ * - A pattern ending in `/` matches everything below that directory
+ */
+
+export interface PathOwner {
+    id: string; // Component database ID
+    pathPatterns: string[];
+}
+
+function escapeRegExp(char: string): string {
+    return /[.+^${}()|[\]\\]/.test(char) ? `\\${char}` : char;
+}
+
+/**
+ * Compile a path glob into an anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let glob = pattern.trim().replace(/^\.?\//, '');
+    if (glob.endsWith('/')) {
+        glob += '**';
+    }
+
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                // `**/` matches zero or more directories, a trailing `**` matches everything
+                if (glob[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i += 1;
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Get the IDs of the components owning at least one of the changed files
+ */
+export function findOwningComponents(files: string[], owners: PathOwner[]): string[] {
+    const compiled = owners
+        .filter((owner) => owner.pathPatterns.length > 0)
+        .map((owner) => ({
+            id: owner.id,
+            regexps: owner.pathPatterns.map(globToRegExp),
+        }));
+
+    return compiled
+        .filter((owner) =>
+            files.some((file) => {
+                const path = file.replace(/^\.?\//, '');
+                return owner.regexps.some((regexp) => regexp.test(path));
+            })
+        )
+        .map((owner) => owner.id);
+}
@@ -0,0 +1,196 @@
+import { prisma } from "./prisma";
+import type { GitProvider, ProviderPullRequestDetails } from "@/types/git";
+import { findOwningComponents, type PathOwner } from "./path-ownership";
+import { parseCommitReferences, loadReferenceContext, type ReferenceContext } from "./commit-references";
+import { pullRequestState, summarizeReviews } from "./pull-requests";
+
+const PULL_REQUESTS_PER_PAGE = 50;
+const MAX_PULL_REQUEST_PAGES = 4; // The first sync imports the 200 most recently updated pull requests
+
+interface PullRequestRepository {
+    id: string;
+    projectId: string;
+    owner: string;
+    name: string;
+}
+
+interface PullRequestLinkContext {
+    owners: PathOwner[];
+    references: ReferenceContext;
+}
+
+async function loadLinkContext(repository: PullRequestRepository): Promise<PullRequestLinkContext> {
+    const [owners, references] = await Promise.all([
+        prisma.component.findMany({
+            where: {
+                canvas: { projectId: repository.projectId },
+                pathPatterns: { isEmpty: false },
+            },
+            select: { id: true, pathPatterns: true },
+        }),
+        loadReferenceContext(repository.projectId, repository.id),
+    ]);
+
+    return { owners, references };
+}
+
+/**
+ * Upsert a pull request and refresh its automatic component and decision links
+ * Components are linked when they own a changed file or are referenced by ID in the
+ * title or description; manual tags are never removed
+ */
+async function storePullRequest(
+    repository: PullRequestRepository,
+    details: ProviderPullRequestDetails,
+    context: PullRequestLinkContext
+) {
+    const { reviewState, reviewers } = summarizeReviews(details.reviews, details.requestedReviewers);
+
+    const data = {
+        title: details.title,
+        body: details.body,
+        state: pullRequestState(details),
+        draft: details.draft,
+        author: details.author,
+        url: details.url,
+        headBranch: details.headBranch,
+        baseBranch: details.baseBranch,
+        mergeCommitSha: details.mergeCommitSha,
+        reviewState,
+        reviewers: reviewers as any,
+        requestedReviewers: details.requestedReviewers,
+        changedFiles: details.changedFiles,
+        commitShas: details.commitShas,
+        openedAt: details.createdAt,
+        mergedAt: details.mergedAt,
+        closedAt: details.closedAt,
+        githubUpdatedAt: details.updatedAt,
+    };
+
+    const pullRequest = await prisma.gitPullRequest.upsert({
+        where: {
+            repositoryId_number: {
+                repositoryId: repository.id,
+                number: details.number,
+            },
+        },
+        update: data,
+        create: {
+            repositoryId: repository.id,
+            number: details.number,
+            ...data,
+        },
+    });
+
+    const references = parseCommitReferences(
+        `${details.title}\n\n${details.body || ""}`,
+        context.references
+    );
+
+    const componentIds = Array.from(new Set([
+        ...findOwningComponents(details.changedFiles, context.owners),
+        ...references.componentIds
+            .map((componentId) => context.references.components.get(componentId))
+            .filter((id): id is string => !!id),
+    ]));
+
+    await prisma.$transaction([
+        // Files can drop out of a pull request after a force push
+        prisma.componentPullRequest.deleteMany({
+            where: {
+                pullRequestId: pullRequest.id,
+                autoDetected: true,
+                componentId: { notIn: componentIds },
+            },
+        }),
+        prisma.componentPullRequest.createMany({
+            data: componentIds.map((componentId) => ({
+                componentId,
+                pullRequestId: pullRequest.id,
+                autoDetected: true,
+            })),
+            skipDuplicates: true,
+        }),
+        prisma.decisionPullRequest.createMany({
+            data: references.decisionIds.map((decisionId) => ({
+                decisionId,
+                pullRequestId: pullRequest.id,
+            })),
+            skipDuplicates: true,
+        }),
+    ]);
+
+    return pullRequest;
+}
+
+/**
+ * Fetch and store a single pull request, e.g. when a pull_request webhook arrives
+ */
+export async function syncPullRequest(
+    repository: PullRequestRepository,
+    provider: GitProvider,
+    number: number
+) {
+    const [details, context] = await Promise.all([
+        provider.getPullRequestDetails(repository.owner, repository.name, number),
+        loadLinkContext(repository),
+    ]);
+
+    return storePullRequest(repository, details, context);
+}
+
+/**
+ * Store pull requests updated since the last sync
+ * Pull requests are listed most recently updated first, so the walk stops at the
+ * first one that is already up to date
+ */
+export async function syncPullRequests(
+    repository: PullRequestRepository,
+    provider: GitProvider
+) {
+    const stored = await prisma.gitPullRequest.findMany({
+        where: { repositoryId: repository.id },
+        select: { number: true, githubUpdatedAt: true },
+    });
+    const storedUpdatedAt = new Map(stored.map((pr) => [pr.number, pr.githubUpdatedAt.getTime()]));
+
+    const context = await loadLinkContext(repository);
+
+    let syncedCount = 0;
+    let page = 1;
+    let hasMore = true;
+    let upToDate = false;
+
+    while (hasMore && !upToDate && page <= MAX_PULL_REQUEST_PAGES) {
+        const result = await provider.getPullRequests(repository.owner, repository.name, {
+            page,
+            perPage: PULL_REQUESTS_PER_PAGE,
+            state: "all",
+        });
+
+        for (const pr of result.pullRequests) {
+            const known = storedUpdatedAt.get(pr.number);
+            if (known !== undefined && known >= pr.updatedAt.getTime()) {
+                upToDate = true;
+                break;
+            }
+
+            try {
+                const details = await provider.getPullRequestDetails(
+                    repository.owner,
+                    repository.name,
+                    pr.number
+                );
+                await storePullRequest(repository, details, context);
+                syncedCount++;
+            } catch (error) {
+                console.error(`Error storing pull request #${pr.number}:`, error);
+            }
+        }
+
+        hasMore = result.hasMore;
+        page++;
+    }
+
+    return { syncedCount };
+}
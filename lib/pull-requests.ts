@@ -0,0 +1,81 @@
+export type PullRequestState = "open" | "closed" | "merged";
+
+export type ReviewState = "approved" | "changes_requested" | "review_required";
+
+export type ReviewerState = "approved" | "changes_requested" | "commented" | "dismissed";
+
+export interface SubmittedReview {
+    login: string;
+    state: string;
+    submittedAt: Date | null;
+}
+
+export interface ReviewerSummary {
+    login: string;
+    state: ReviewerState;
+    submittedAt: string | null;
+}
+
+export interface ReviewSummary {
+    reviewState: ReviewState | null;
+    reviewers: ReviewerSummary[];
+}
+
+/**
+ * Collapse GitHub's open/closed state and merged flag into a single state
+ */
+export function pullRequestState(pr: { state: string; merged: boolean }): PullRequestState {
+    if (pr.merged) {
+        return "merged";
+    }
+    return pr.state === "open" ? "open" : "closed";
+}
+
+/**
+ * Reduce a pull request's review history to each reviewer's latest verdict and
+ * an overall review state.
+ *
+ * Like GitHub, a comment does not replace an earlier approval or change request,
+ * and a reviewer whose review was requested again no longer counts towards the
+ * outcome until they review again.
+ */
+export function summarizeReviews(
+    reviews: SubmittedReview[],
+    requestedReviewers: string[]
+): ReviewSummary {
+    const latest = new Map<string, ReviewerSummary>();
+
+    const ordered = reviews
+        .filter((review) => review.state !== "PENDING")
+        .sort((a, b) => (a.submittedAt?.getTime() ?? 0) - (b.submittedAt?.getTime() ?? 0));
+
+    for (const review of ordered) {
+        const state = review.state.toLowerCase() as ReviewerState;
+        const previous = latest.get(review.login);
+
+        if (state === "commented" && previous && previous.state !== "commented") {
+            continue;
+        }
+
+        latest.set(review.login, {
+            login: review.login,
+            state,
+            submittedAt: review.submittedAt?.toISOString() ?? null,
+        });
+    }
+
+    const reviewers = Array.from(latest.values());
+    const requested = new Set(requestedReviewers);
+    const verdicts = reviewers.filter((reviewer) => !requested.has(reviewer.login));
+
+    let reviewState: ReviewState | null = null;
+    if (verdicts.some((reviewer) => reviewer.state === "changes_requested")) {
+        reviewState = "changes_requested";
+    } else if (requested.size > 0) {
+        reviewState = "review_required";
+    } else if (verdicts.some((reviewer) => reviewer.state === "approved")) {
+        reviewState = "approved";
+    }
+
+    return { reviewState, reviewers };
+}
@@ -0,0 +1,333 @@
+/**
+ * Relationship Service
+ *
+ * Manages persisted dependencies and data flows between Architecture Map
+ * components. Relationships are created either through the API or by drawing
+ * arrows between components on the canvas, which are kept in sync on save.
+ */
+
+import { prisma } from './prisma';
+import { buildComponentGraph, extractCanvasEdges, type ComponentCoupling } from './canvas-graph';
+import type {
+    ComponentRelationship,
+    CreateRelationshipInput,
+    RelationshipKind,
+    UpdateRelationshipInput,
+} from '@/types/architecture';
+
+/**
+ * Error raised when a relationship request is invalid, as opposed to a failure to store it
+ * Routes answer these with a client error status and the message
+ */
+export class RelationshipValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RelationshipValidationError';
+    }
+}
+
+function toRelationship(relationship: any): ComponentRelationship {
+    return {
+        ...relationship,
+        kind: relationship.kind as RelationshipKind,
+        protocol: relationship.protocol || undefined,
+        label: relationship.label || undefined,
+        metadata: relationship.metadata as Record<string, any> | undefined,
+        shapeId: relationship.shapeId || undefined,
+    };
+}
+
+/**
+ * Create a relationship between two components on the same canvas
+ */
+export async function createRelationship(
+    input: CreateRelationshipInput
+): Promise<ComponentRelationship> {
+    if (input.sourceComponentId === input.targetComponentId) {
+        throw new RelationshipValidationError('A component cannot have a relationship with itself');
+    }
+
+    const components = await prisma.component.findMany({
+        where: { id: { in: [input.sourceComponentId, input.targetComponentId] } },
+        select: { id: true, canvasId: true },
+    });
+
+    if (components.length !== 2) {
+        throw new RelationshipValidationError('Component not found');
+    }
+
+    if (components[0].canvasId !== components[1].canvasId) {
+        throw new RelationshipValidationError('Components must belong to the same Architecture Map');
+    }
+
+    const relationship = await prisma.componentRelationship.create({
+        data: {
+            sourceComponentId: input.sourceComponentId,
+            targetComponentId: input.targetComponentId,
+            kind: input.kind || 'DEPENDENCY',
+            protocol: input.protocol,
+            label: input.label,
+            metadata: input.metadata,
+        },
+    });
+
+    return toRelationship(relationship);
+}
+
+/**
+ * Get a relationship by its database ID
+ */
+export async function getRelationshipById(id: string): Promise<ComponentRelationship | null> {
+    const relationship = await prisma.componentRelationship.findUnique({
+        where: { id },
+    });
+
+    return relationship ? toRelationship(relationship) : null;
+}
+
+/**
+ * Update a relationship's kind, protocol, label or metadata
+ * The kind of a relationship drawn on the canvas follows its arrow, so it cannot be changed here
+ */
+export async function updateRelationship(
+    id: string,
+    input: UpdateRelationshipInput
+): Promise<ComponentRelationship> {
+    if (input.kind) {
+        const current = await prisma.componentRelationship.findUnique({
+            where: { id },
+            select: { kind: true, shapeId: true },
+        });
+        if (current?.shapeId && current.kind !== input.kind) {
+            throw new RelationshipValidationError(
+                'The kind of a relationship drawn on the Architecture Map is set by its arrow'
+            );
+        }
+    }
+
+    const relationship = await prisma.componentRelationship.update({
+        where: { id },
+        data: {
+            kind: input.kind,
+            protocol: input.protocol,
+            label: input.label,
+            metadata: input.metadata,
+        },
+    });
+
+    return toRelationship(relationship);
+}
+
+/**
+ * Delete a relationship
+ */
+export async function deleteRelationship(id: string): Promise<void> {
+    await prisma.componentRelationship.delete({
+        where: { id },
+    });
+}
+
+/**
+ * Get all relationships going out of and coming into a component
+ */
+export async function getComponentRelationships(componentId: string) {
+    const [outgoing, incoming] = await Promise.all([
+        prisma.componentRelationship.findMany({
+            where: { sourceComponentId: componentId },
+            include: {
+                target: { select: { id: true, componentId: true, name: true, type: true } },
+            },
+            orderBy: { createdAt: 'asc' },
+        }),
+        prisma.componentRelationship.findMany({
+            where: { targetComponentId: componentId },
+            include: {
+                source: { select: { id: true, componentId: true, name: true, type: true } },
+            },
+            orderBy: { createdAt: 'asc' },
+        }),
+    ]);
+
+    return { outgoing, incoming };
+}
+
+/**
+ * Count the distinct components depending on and depended on by a component
+ *
+ * @param relationships - Relationships involving the component
+ */
+export function countComponentCoupling(
+    componentId: string,
+    relationships: Array<{ sourceComponentId: string; targetComponentId: string }>
+): ComponentCoupling {
+    const dependents = new Set<string>();
+    const dependencies = new Set<string>();
+
+    relationships.forEach((r) => {
+        if (r.sourceComponentId === componentId) {
+            dependencies.add(r.targetComponentId);
+        } else if (r.targetComponentId === componentId) {
+            dependents.add(r.sourceComponentId);
+        }
+    });
+
+    return { fanIn: dependents.size, fanOut: dependencies.size };
+}
+
+/**
+ * Get the number of distinct components depending on and depended on by a component
+ */
+export async function getComponentCoupling(componentId: string): Promise<ComponentCoupling> {
+    const relationships = await prisma.componentRelationship.findMany({
+        where: {
+            OR: [
+                { sourceComponentId: componentId },
+                { targetComponentId: componentId },
+            ],
+        },
+        select: {
+            sourceComponentId: true,
+            targetComponentId: true,
+        },
+    });
+
+    return countComponentCoupling(componentId, relationships);
+}
+
+export interface CanvasRelationshipRecord {
+    id: string;
+    sourceComponentId: string;
+    targetComponentId: string;
+    kind: string;
+    label: string | null;
+    shapeId: string | null; // Arrow the relationship was drawn as, null when created through the API
+}
+
+export interface CanvasRelationshipSyncPlan {
+    created: Array<{
+        sourceComponentId: string;
+        targetComponentId: string;
+        kind: RelationshipKind;
+        shapeId: string;
+        label?: string;
+    }>;
+    staleIds: string[]; // Relationships whose arrows were deleted
+    labelUpdates: Array<{ id: string; label: string | null }>;
+}
+
+/**
+ * Work out the relationship changes that bring a canvas in line with the arrows in its state
+ * An arrow whose kind changed is a different relationship, so the old one is
+ * replaced. Relationships created through the API are never touched.
+ *
+ * @param shapeToComponent - Map of canvas shape ID -> Component ID
+ * @param existing - Relationships between components of the canvas
+ */
+export function planCanvasRelationshipSync(
+    state: unknown,
+    shapeToComponent: Map<string, string>,
+    existing: CanvasRelationshipRecord[]
+): CanvasRelationshipSyncPlan {
+    const edges = extractCanvasEdges(state);
+    const labels = new Map(edges.map((edge) => [edge.shapeId, edge.label]));
+    const graph = buildComponentGraph(edges, shapeToComponent);
+
+    const relationshipKey = (source: string, target: string, kind: string) =>
+        `${source}:${target}:${kind}`;
+
+    // Multiple arrows between the same pair collapse into one relationship
+    const drawn = new Map<string, { source: string; target: string; kind: RelationshipKind; shapeId: string }>();
+    graph.edges.forEach((edge) => {
+        const kind: RelationshipKind = edge.kind === 'dataflow' ? 'DATAFLOW' : 'DEPENDENCY';
+        const key = relationshipKey(edge.from, edge.to, kind);
+        if (!drawn.has(key)) {
+            drawn.set(key, { source: edge.from, target: edge.to, kind, shapeId: edge.shapeId });
+        }
+    });
+
+    const existingKeys = new Set<string>();
+    const staleIds: string[] = [];
+    const labelUpdates: Array<{ id: string; label: string | null }> = [];
+
+    existing.forEach((r) => {
+        const key = relationshipKey(r.sourceComponentId, r.targetComponentId, r.kind);
+        existingKeys.add(key);
+
+        // Only relationships that came from the canvas are managed by it
+        if (!r.shapeId) {
+            return;
+        }
+
+        const arrow = drawn.get(key);
+        if (!arrow) {
+            staleIds.push(r.id);
+            return;
+        }
+
+        const label = labels.get(arrow.shapeId) ?? null;
+        if (label !== r.label) {
+            labelUpdates.push({ id: r.id, label });
+        }
+    });
+
+    const created = Array.from(drawn.entries())
+        .filter(([key]) => !existingKeys.has(key))
+        .map(([, arrow]) => ({
+            sourceComponentId: arrow.source,
+            targetComponentId: arrow.target,
+            kind: arrow.kind,
+            shapeId: arrow.shapeId,
+            label: labels.get(arrow.shapeId),
+        }));
+
+    return { created, staleIds, labelUpdates };
+}
+
+/**
+ * Sync canvas-drawn relationships with the arrows in a canvas state
+ * Creates relationships for new arrows between components and removes those
+ * whose arrows were deleted. Relationships created through the API are left untouched.
+ */
+export async function syncCanvasRelationships(canvasId: string, state: unknown): Promise<void> {
+    const components = await prisma.component.findMany({
+        where: { canvasId, shapeId: { not: null } },
+        select: { id: true, shapeId: true },
+    });
+
+    const shapeToComponent = new Map<string, string>();
+    components.forEach((c) => {
+        if (c.shapeId) {
+            shapeToComponent.set(c.shapeId, c.id);
+        }
+    });
+
+    const existing = await prisma.componentRelationship.findMany({
+        where: { source: { canvasId } },
+        select: {
+            id: true,
+            sourceComponentId: true,
+            targetComponentId: true,
+            kind: true,
+            label: true,
+            shapeId: true,
+        },
+    });
+
+    const { created, staleIds, labelUpdates } = planCanvasRelationshipSync(state, shapeToComponent, existing);
+
+    await prisma.$transaction([
+        prisma.componentRelationship.deleteMany({
+            where: { id: { in: staleIds } },
+        }),
+        prisma.componentRelationship.createMany({
+            data: created,
+            skipDuplicates: true,
+        }),
+        ...labelUpdates.map((update) =>
+            prisma.componentRelationship.update({
+                where: { id: update.id },
+                data: { label: update.label },
+            })
+        ),
+    ]);
+}
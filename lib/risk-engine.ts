@@ -0,0 +1,279 @@
+/**
+ * Risk Engine
+ *
+ * Pure risk computation shared by the single-component and project-wide
+ * risk analysis paths. Takes pre-loaded metrics and a risk policy and
+ * produces ComponentRiskMetrics without touching the database, so a whole
+ * project can be scored in memory from a handful of batched queries.
+ */
+
+import type { ComponentCoupling } from './canvas-graph';
+import type { RiskPolicy, ScoredRiskFactorKey } from './risk-policy';
+
+export type RiskSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface RiskFactor {
+    type: 'high_churn' | 'low_decision_coverage' | 'high_coupling' | 'low_bus_factor' | 'open_high_priority_tasks';
+    description: string;
+    metric: number;
+    severity: RiskSeverity;
+}
+
+export interface ComponentRiskMetrics {
+    componentId: string;
+    componentName?: string;
+    churnRate: number;
+    decisionCount: number;
+    couplingScore: number;
+    busFactor: number | null; // null without enough tagged commits to judge
+    openHighPriorityTasks: number; // Open HIGH priority tasks linked to the component
+    riskFactors: RiskFactor[];
+    overallSeverity: RiskSeverity;
+    riskScore: number; // 0-100
+}
+
+export interface ComponentRiskInputs {
+    churnRate: number;
+    decisionCount: number;
+    couplingScore: number;
+    busFactor?: number | null;
+    openHighPriorityTasks?: number;
+}
+
+export interface ProjectRiskInput {
+    components: Array<{ id: string; componentId: string; name: string }>;
+    churnCounts: Map<string, number>; // Component database ID -> commits in churn window
+    decisionCounts: Map<string, number>; // Component database ID -> linked decisions
+    relationships: Array<{ sourceComponentId: string; targetComponentId: string }>;
+    busFactors?: Map<string, number | null>; // Component database ID -> bus factor
+    openHighPriorityTaskCounts?: Map<string, number>; // Component database ID -> open HIGH priority tasks
+}
+
+/**
+ * Determine severity level based on metric value and thresholds
+ */
+export function determineSeverity(
+    metric: number,
+    thresholds: { low: number; medium: number; high: number },
+    inverse: boolean = false
+): RiskSeverity {
+    if (inverse) {
+        // For metrics where lower is worse (e.g., decision coverage)
+        if (metric <= thresholds.low) return 'critical';
+        if (metric <= thresholds.medium) return 'high';
+        if (metric <= thresholds.high) return 'medium';
+        return 'low';
+    } else {
+        // For metrics where higher is worse (e.g., churn, coupling)
+        if (metric >= thresholds.high) return 'critical';
+        if (metric >= thresholds.medium) return 'high';
+        if (metric >= thresholds.low) return 'medium';
+        return 'low';
+    }
+}
+
+/**
+ * Calculate risk score (0-100) based on all enabled factors
+ * Weights of enabled factors are normalized so they always sum to 1
+ */
+export function calculateRiskScore(
+    churnRate: number,
+    decisionCount: number,
+    couplingScore: number,
+    policy: RiskPolicy
+): number {
+    const { thresholds, weights, enabledFactors } = policy;
+
+    // Normalize each metric to 0-100 scale
+    const scores = {
+        churn: thresholds.churn.high > 0
+            ? Math.min((churnRate / thresholds.churn.high) * 100, 100)
+            : (churnRate > 0 ? 100 : 0),
+        decisions: decisionCount === 0
+            ? 100
+            : thresholds.decisions.high > 0
+                ? Math.max(0, 100 - (decisionCount / thresholds.decisions.high) * 100)
+                : 0,
+        coupling: thresholds.coupling.high > 0
+            ? Math.min((couplingScore / thresholds.coupling.high) * 100, 100)
+            : (couplingScore > 0 ? 100 : 0),
+    };
+
+    // The bus factor and open tasks raise risk factors but carry no weight
+    const scoredFactors = enabledFactors.filter(
+        (factor): factor is ScoredRiskFactorKey => factor in scores
+    );
+
+    const totalWeight = scoredFactors.reduce((sum, factor) => sum + weights[factor], 0);
+    if (totalWeight === 0) {
+        return 0;
+    }
+
+    const totalScore = scoredFactors.reduce(
+        (sum, factor) => sum + scores[factor] * (weights[factor] / totalWeight),
+        0
+    );
+
+    return Math.round(totalScore);
+}
+
+/**
+ * Build the risk metrics for one component from its raw inputs
+ */
+export function assessComponentRisk(
+    component: { componentId: string; name: string },
+    inputs: ComponentRiskInputs,
+    policy: RiskPolicy
+): ComponentRiskMetrics {
+    const { churnRate, decisionCount, couplingScore } = inputs;
+    const busFactor = inputs.busFactor ?? null;
+    const openHighPriorityTasks = inputs.openHighPriorityTasks ?? 0;
+    const { thresholds, enabledFactors } = policy;
+
+    const riskFactors: RiskFactor[] = [];
+
+    // Check for high churn
+    const churnSeverity = determineSeverity(churnRate, thresholds.churn);
+    if (enabledFactors.includes('churn') && churnSeverity !== 'low') {
+        riskFactors.push({
+            type: 'high_churn',
+            description: `High change frequency: ${churnRate} commits in last ${policy.churnWindowDays} days`,
+            metric: churnRate,
+            severity: churnSeverity,
+        });
+    }
+
+    // Check for low decision coverage
+    const decisionSeverity = determineSeverity(decisionCount, thresholds.decisions, true);
+    if (enabledFactors.includes('decisions') && decisionSeverity !== 'low') {
+        riskFactors.push({
+            type: 'low_decision_coverage',
+            description: `Low decision coverage: ${decisionCount} decision${decisionCount === 1 ? '' : 's'}`,
+            metric: decisionCount,
+            severity: decisionSeverity,
+        });
+    }
+
+    // Check for high coupling
+    const couplingSeverity = determineSeverity(couplingScore, thresholds.coupling);
+    if (enabledFactors.includes('coupling') && couplingSeverity !== 'low') {
+        riskFactors.push({
+            type: 'high_coupling',
+            description: `High coupling: ${couplingScore} dependencies`,
+            metric: couplingScore,
+            severity: couplingSeverity,
+        });
+    }
+
+    // Check for knowledge concentrated in few people
+    if (busFactor !== null && enabledFactors.includes('busFactor')) {
+        const busFactorSeverity = determineSeverity(busFactor, thresholds.busFactor, true);
+        if (busFactorSeverity !== 'low') {
+            riskFactors.push({
+                type: 'low_bus_factor',
+                description: busFactor === 1
+                    ? 'Low bus factor: one person wrote most commits'
+                    : `Low bus factor: ${busFactor} people wrote most commits`,
+                metric: busFactor,
+                severity: busFactorSeverity,
+            });
+        }
+    }
+
+    // Check for urgent work still open against the component
+    if (enabledFactors.includes('openTasks')) {
+        const openTasksSeverity = determineSeverity(openHighPriorityTasks, thresholds.openTasks);
+        if (openTasksSeverity !== 'low') {
+            riskFactors.push({
+                type: 'open_high_priority_tasks',
+                description: `Open high-priority work: ${openHighPriorityTasks} task${openHighPriorityTasks === 1 ? '' : 's'}`,
+                metric: openHighPriorityTasks,
+                severity: openTasksSeverity,
+            });
+        }
+    }
+
+    // Calculate overall severity (highest severity among all factors)
+    const severityLevels: RiskSeverity[] = ['low', 'medium', 'high', 'critical'];
+    const maxSeverityIndex = Math.max(
+        ...riskFactors.map(rf => severityLevels.indexOf(rf.severity)),
+        0
+    );
+
+    return {
+        componentId: component.componentId,
+        componentName: component.name,
+        churnRate,
+        decisionCount,
+        couplingScore,
+        busFactor,
+        openHighPriorityTasks,
+        riskFactors,
+        overallSeverity: severityLevels[maxSeverityIndex],
+        riskScore: calculateRiskScore(churnRate, decisionCount, couplingScore, policy),
+    };
+}
+
+/**
+ * Count the distinct components depending on (fan-in) and depended on by
+ * (fan-out) each of the given components
+ */
+export function computeCouplingMap(
+    componentIds: string[],
+    relationships: Array<{ sourceComponentId: string; targetComponentId: string }>
+): Map<string, ComponentCoupling> {
+    const dependents = new Map<string, Set<string>>();
+    const dependencies = new Map<string, Set<string>>();
+
+    componentIds.forEach((id) => {
+        dependents.set(id, new Set());
+        dependencies.set(id, new Set());
+    });
+
+    relationships.forEach(({ sourceComponentId, targetComponentId }) => {
+        if (sourceComponentId === targetComponentId) {
+            return;
+        }
+        dependencies.get(sourceComponentId)?.add(targetComponentId);
+        dependents.get(targetComponentId)?.add(sourceComponentId);
+    });
+
+    const coupling = new Map<string, ComponentCoupling>();
+    componentIds.forEach((id) => {
+        coupling.set(id, {
+            fanIn: dependents.get(id)!.size,
+            fanOut: dependencies.get(id)!.size,
+        });
+    });
+
+    return coupling;
+}
+
+/**
+ * Score every component of a project in memory
+ */
+export function computeProjectRisks(
+    input: ProjectRiskInput,
+    policy: RiskPolicy
+): ComponentRiskMetrics[] {
+    const coupling = computeCouplingMap(
+        input.components.map((c) => c.id),
+        input.relationships
+    );
+
+    return input.components.map((component) => {
+        const componentCoupling = coupling.get(component.id)!;
+
+        return assessComponentRisk(
+            component,
+            {
+                churnRate: input.churnCounts.get(component.id) || 0,
+                decisionCount: input.decisionCounts.get(component.id) || 0,
+                couplingScore: componentCoupling.fanIn + componentCoupling.fanOut,
+                busFactor: input.busFactors?.get(component.id) ?? null,
+                openHighPriorityTasks: input.openHighPriorityTaskCounts?.get(component.id) ?? 0,
+            },
+            policy
+        );
+    });
+}
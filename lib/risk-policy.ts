@@ -0,0 +1,166 @@
+/**
+ * Risk Policy Service
+ *
+ * Per-project configuration for risk analysis: severity thresholds, factor
+ * weights, the churn window and which risk factors are enabled. Projects
+ * without a stored policy use the defaults.
+ *
+ * The bus factor only raises risk factors and has no weight: it is unknown for
+ * components without enough tagged commits, and scores stay comparable
+ * between components with and without git history. Open high-priority tasks
+ * linked to a component are unweighted as well, since many components have
+ * no linked tasks at all.
+ */
+
+import { z } from 'zod';
+import { prisma } from './prisma';
+
+export type RiskFactorKey = 'churn' | 'decisions' | 'coupling' | 'busFactor' | 'openTasks';
+export type ScoredRiskFactorKey = Exclude<RiskFactorKey, 'busFactor' | 'openTasks'>;
+
+export interface RiskThresholds {
+    low: number;
+    medium: number;
+    high: number;
+}
+
+export interface RiskPolicy {
+    thresholds: Record<RiskFactorKey, RiskThresholds>;
+    weights: Record<ScoredRiskFactorKey, number>;
+    churnWindowDays: number;
+    enabledFactors: RiskFactorKey[];
+}
+
+export const RISK_FACTOR_KEYS: RiskFactorKey[] = ['churn', 'decisions', 'coupling', 'busFactor', 'openTasks'];
+
+export const DEFAULT_RISK_POLICY: RiskPolicy = {
+    thresholds: {
+        churn: {
+            low: 5,      // commits per churn window
+            medium: 10,
+            high: 20,
+        },
+        decisions: {
+            low: 0,      // decisions per component
+            medium: 1,
+            high: 3,
+        },
+        coupling: {
+            low: 3,      // number of dependencies
+            medium: 6,
+            high: 10,
+        },
+        busFactor: {
+            low: 0,      // people who wrote most of a component's commits
+            medium: 1,
+            high: 2,
+        },
+        openTasks: {
+            low: 1,      // open high-priority tasks linked to a component
+            medium: 3,
+            high: 5,
+        },
+    },
+    weights: {
+        churn: 0.4,
+        decisions: 0.4,
+        coupling: 0.2,
+    },
+    churnWindowDays: 30,
+    enabledFactors: ['churn', 'decisions', 'coupling', 'busFactor', 'openTasks'],
+};
+
+const thresholdsSchema = z
+    .object({
+        low: z.number().min(0),
+        medium: z.number().min(0),
+        high: z.number().min(0),
+    })
+    .refine((t) => t.low <= t.medium && t.medium <= t.high, {
+        message: 'Thresholds must be ordered low <= medium <= high',
+    });
+
+export const riskPolicySchema = z.object({
+    thresholds: z.object({
+        churn: thresholdsSchema,
+        decisions: thresholdsSchema,
+        coupling: thresholdsSchema,
+        busFactor: thresholdsSchema,
+        openTasks: thresholdsSchema,
+    }),
+    weights: z.object({
+        churn: z.number().min(0),
+        decisions: z.number().min(0),
+        coupling: z.number().min(0),
+    }),
+    churnWindowDays: z.number().int().min(1).max(365),
+    enabledFactors: z.array(z.enum(['churn', 'decisions', 'coupling', 'busFactor', 'openTasks'])),
+});
+
+/**
+ * Merge a partially stored policy over the defaults
+ */
+export function resolveRiskPolicy(stored?: Partial<RiskPolicy> | null): RiskPolicy {
+    if (!stored) {
+        return DEFAULT_RISK_POLICY;
+    }
+
+    return {
+        thresholds: { ...DEFAULT_RISK_POLICY.thresholds, ...stored.thresholds },
+        weights: { ...DEFAULT_RISK_POLICY.weights, ...stored.weights },
+        churnWindowDays: stored.churnWindowDays ?? DEFAULT_RISK_POLICY.churnWindowDays,
+        enabledFactors: stored.enabledFactors ?? DEFAULT_RISK_POLICY.enabledFactors,
+    };
+}
+
+/**
+ * Get the risk policy for a project, falling back to the defaults
+ */
+export async function getProjectRiskPolicy(projectId: string): Promise<RiskPolicy> {
+    const policy = await prisma.riskPolicy.findUnique({
+        where: { projectId },
+    });
+
+    if (!policy) {
+        return DEFAULT_RISK_POLICY;
+    }
+
+    return resolveRiskPolicy({
+        thresholds: policy.thresholds as unknown as RiskPolicy['thresholds'],
+        weights: policy.weights as unknown as RiskPolicy['weights'],
+        churnWindowDays: policy.churnWindowDays,
+        enabledFactors: policy.enabledFactors as RiskFactorKey[],
+    });
+}
+
+/**
+ * Create or replace the risk policy for a project
+ */
+export async function updateProjectRiskPolicy(
+    projectId: string,
+    policy: RiskPolicy
+): Promise<RiskPolicy> {
+    const data = {
+        thresholds: policy.thresholds as any,
+        weights: policy.weights as any,
+        churnWindowDays: policy.churnWindowDays,
+        enabledFactors: policy.enabledFactors,
+    };
+
+    await prisma.riskPolicy.upsert({
+        where: { projectId },
+        update: data,
+        create: { projectId, ...data },
+    });
+
+    return policy;
+}
+
+/**
+ * Remove a project's risk policy so it reverts to the defaults
+ */
+export async function resetProjectRiskPolicy(projectId: string): Promise<void> {
+    await prisma.riskPolicy.deleteMany({
+        where: { projectId },
+    });
+}
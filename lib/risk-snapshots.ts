@@ -0,0 +1,241 @@
+/**
+ * Risk Snapshot Service
+ *
+ * Periodically persists per-component risk metrics so risk can be tracked
+ * over time, and builds risk-score time series from the stored snapshots.
+ */
+
+import { prisma } from './prisma';
+import { calculateProjectRisks } from './risk-analysis';
+
+const SNAPSHOT_INTERVAL = 24 * 60 * 60 * 1000; // 24 hours
+const DEFAULT_TREND_DAYS = 90;
+
+export interface RiskTrendPoint {
+    capturedAt: string;
+    riskScore: number;
+    overallSeverity: string;
+}
+
+export interface ComponentRiskTrend {
+    componentId: string; // Unique Component ID (COMP-...)
+    componentName: string;
+    points: RiskTrendPoint[];
+    change: number; // Latest score minus earliest score in the range
+}
+
+export interface ProjectRiskTrendPoint {
+    date: string; // yyyy-mm-dd
+    averageRiskScore: number;
+    componentCount: number;
+}
+
+export interface RiskSnapshotRow {
+    riskScore: number;
+    overallSeverity: string;
+    capturedAt: Date;
+    component: {
+        componentId: string;
+        name: string;
+    };
+}
+
+/**
+ * Capture a risk snapshot for every component in a project
+ * Returns the number of snapshots stored
+ */
+export async function captureProjectRiskSnapshots(projectId: string): Promise<number> {
+    const [risks, canvas] = await Promise.all([
+        calculateProjectRisks(projectId),
+        prisma.canvas.findUnique({
+            where: { projectId },
+            select: {
+                components: {
+                    select: { id: true, componentId: true },
+                },
+            },
+        }),
+    ]);
+
+    if (!canvas || risks.length === 0) {
+        return 0;
+    }
+
+    // Risk metrics are keyed by Component ID, snapshots reference the database ID
+    const idByComponentId = new Map(canvas.components.map((c) => [c.componentId, c.id]));
+    const capturedAt = new Date();
+
+    const data = risks
+        .filter((risk) => idByComponentId.has(risk.componentId))
+        .map((risk) => ({
+            projectId,
+            componentId: idByComponentId.get(risk.componentId)!,
+            riskScore: risk.riskScore,
+            overallSeverity: risk.overallSeverity,
+            churnRate: risk.churnRate,
+            decisionCount: risk.decisionCount,
+            couplingScore: risk.couplingScore,
+            capturedAt,
+        }));
+
+    const result = await prisma.riskSnapshot.createMany({ data });
+
+    return result.count;
+}
+
+/**
+ * Capture snapshots for all projects whose latest snapshot is older than the interval
+ */
+export async function captureAllRiskSnapshots() {
+    try {
+        const cutoff = new Date(Date.now() - SNAPSHOT_INTERVAL);
+
+        const projects = await prisma.project.findMany({
+            where: {
+                canvas: {
+                    components: { some: {} },
+                },
+                riskSnapshots: {
+                    none: {
+                        capturedAt: { gte: cutoff },
+                    },
+                },
+            },
+            select: { id: true },
+        });
+
+        console.log(`Capturing risk snapshots for ${projects.length} projects`);
+
+        const results = await Promise.allSettled(
+            projects.map((project) => captureProjectRiskSnapshots(project.id))
+        );
+
+        const successful = results.filter((r) => r.status === 'fulfilled').length;
+        const failed = results.filter((r) => r.status === 'rejected').length;
+
+        console.log(
+            `Risk snapshots completed: ${successful} successful, ${failed} failed`
+        );
+
+        return { successful, failed };
+    } catch (error) {
+        console.error('Error in captureAllRiskSnapshots:', error);
+        throw error;
+    }
+}
+
+/**
+ * Build per-component and project-wide risk series from snapshots
+ * Snapshots must be ordered by capturedAt ascending
+ */
+export function buildRiskTrend(snapshots: RiskSnapshotRow[]): {
+    components: ComponentRiskTrend[];
+    project: ProjectRiskTrendPoint[];
+} {
+    const byComponent = new Map<string, ComponentRiskTrend>();
+    // Latest score of each component per day, so components captured more often don't weigh more
+    const byDay = new Map<string, Map<string, number>>();
+
+    snapshots.forEach((snapshot) => {
+        const key = snapshot.component.componentId;
+        let trend = byComponent.get(key);
+        if (!trend) {
+            trend = {
+                componentId: key,
+                componentName: snapshot.component.name,
+                points: [],
+                change: 0,
+            };
+            byComponent.set(key, trend);
+        }
+
+        trend.points.push({
+            capturedAt: snapshot.capturedAt.toISOString(),
+            riskScore: snapshot.riskScore,
+            overallSeverity: snapshot.overallSeverity,
+        });
+
+        const day = snapshot.capturedAt.toISOString().slice(0, 10);
+        const scores = byDay.get(day) || new Map<string, number>();
+        scores.set(key, snapshot.riskScore);
+        byDay.set(day, scores);
+    });
+
+    const components = Array.from(byComponent.values()).map((trend) => ({
+        ...trend,
+        change: trend.points[trend.points.length - 1].riskScore - trend.points[0].riskScore,
+    }));
+
+    const project = Array.from(byDay.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, scores]) => {
+            const total = Array.from(scores.values()).reduce((sum, score) => sum + score, 0);
+            return {
+                date,
+                averageRiskScore: Math.round(total / scores.size),
+                componentCount: scores.size,
+            };
+        });
+
+    return { components, project };
+}
+
+/**
+ * Get the risk-score time series for a project, optionally for one component
+ */
+export async function getRiskTrend(
+    projectId: string,
+    options: { componentId?: string; days?: number } = {}
+) {
+    const since = new Date();
+    since.setDate(since.getDate() - (options.days || DEFAULT_TREND_DAYS));
+
+    const snapshots = await prisma.riskSnapshot.findMany({
+        where: {
+            projectId,
+            capturedAt: { gte: since },
+            ...(options.componentId && {
+                component: { componentId: options.componentId },
+            }),
+        },
+        select: {
+            riskScore: true,
+            overallSeverity: true,
+            capturedAt: true,
+            component: {
+                select: { componentId: true, name: true },
+            },
+        },
+        orderBy: { capturedAt: 'asc' },
+    });
+
+    return buildRiskTrend(snapshots);
+}
+
+// Start periodic risk snapshots if in production
+let snapshotInterval: NodeJS.Timeout | null = null;
+
+export function startPeriodicRiskSnapshots() {
+    if (snapshotInterval) {
+        console.warn('Periodic risk snapshots already running');
+        return;
+    }
+
+    console.log('Starting periodic risk snapshots (every 24 hours)');
+
+    // Run initial capture
+    captureAllRiskSnapshots().catch(console.error);
+
+    // Check hourly so a restart never delays a snapshot by a full interval
+    snapshotInterval = setInterval(() => {
+        captureAllRiskSnapshots().catch(console.error);
+    }, 60 * 60 * 1000);
+}
+
+export function stopPeriodicRiskSnapshots() {
+    if (snapshotInterval) {
+        clearInterval(snapshotInterval);
+        snapshotInterval = null;
+        console.log('Stopped periodic risk snapshots');
+    }
+}
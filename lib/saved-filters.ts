@@ -0,0 +1,52 @@
+/**
+ * Saved Filter Service
+ *
+ * Named board queries with the view and swimlanes they were saved with. Any
+ * project member can save filters for themselves; sharing one with the whole
+ * project needs write access, which the routes check.
+ */
+
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { SWIMLANES, TASK_VIEWS, taskQuerySchema } from './task-query';
+
+export const savedFilterSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    query: taskQuerySchema,
+    view: z.enum(TASK_VIEWS).default('board'),
+    swimlanes: z.enum(SWIMLANES).default('none'),
+    shared: z.boolean().default(false),
+});
+
+export type SavedFilterInput = z.infer<typeof savedFilterSchema>;
+
+/**
+ * Filters of a project the user can use: their own and the shared ones
+ */
+export async function getSavedFilters(projectId: string, userId: string) {
+    return prisma.savedTaskFilter.findMany({
+        where: {
+            projectId,
+            OR: [{ userId }, { shared: true }],
+        },
+        include: {
+            user: {
+                select: { id: true, name: true, email: true },
+            },
+        },
+        orderBy: { name: 'asc' },
+    });
+}
+
+export async function createSavedFilter(projectId: string, userId: string, data: SavedFilterInput) {
+    return prisma.savedTaskFilter.create({
+        data: { projectId, userId, ...data },
+    });
+}
+
+export async function updateSavedFilter(filterId: string, data: SavedFilterInput) {
+    return prisma.savedTaskFilter.update({
+        where: { id: filterId },
+        data,
+    });
+}
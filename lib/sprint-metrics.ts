@@ -0,0 +1,170 @@
+/**
+ * Sprint Metrics
+ *
+ * Burndown and velocity computed from story-point estimates and recorded task
+ * status transitions:
+ * - Burndown: story points of the sprint's tasks not in a done column at the
+ *   end of each sprint day, against an ideal line from the full scope to zero
+ * - Velocity: points committed and completed by each closed sprint
+ *
+ * Tasks without an estimate count as zero points. A closed sprint keeps the
+ * points it was committed to when it closed, so tasks carried over to a later
+ * sprint still count towards its scope.
+ */
+
+import type { TaskTransitionRecord } from './flow-metrics';
+import type { WorkflowColumn } from './task-workflow';
+
+export const VELOCITY_SPRINTS = 10; // Closed sprints shown in the velocity chart
+export const VELOCITY_AVERAGE_SPRINTS = 3; // Recent sprints averaged into the velocity
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface SprintTaskHistory {
+    storyPoints: number | null;
+    status: string;
+    transitions: TaskTransitionRecord[]; // Oldest first
+}
+
+export interface SprintWindow {
+    id: string;
+    name: string;
+    startDate: Date;
+    endDate: Date;
+    status: 'PLANNED' | 'ACTIVE' | 'CLOSED';
+    committedPoints: number | null;
+    completedPoints: number | null;
+    closedAt: Date | null;
+}
+
+export interface BurndownPoint {
+    date: string; // YYYY-MM-DD
+    ideal: number;
+    remaining: number | null; // Null for days that have not ended yet
+}
+
+export interface SprintBurndown {
+    sprintId: string;
+    name: string;
+    status: SprintWindow['status'];
+    scope: number;
+    points: BurndownPoint[];
+}
+
+export interface VelocityEntry {
+    sprintId: string;
+    name: string;
+    committed: number;
+    completed: number;
+}
+
+export interface SprintVelocity {
+    sprints: VelocityEntry[]; // Oldest first
+    averageVelocity: number;
+}
+
+function round(points: number): number {
+    return Math.round(points * 10) / 10;
+}
+
+/**
+ * Workflow column a task was in at a point in time
+ */
+export function statusAt(task: SprintTaskHistory, at: Date): string {
+    const { transitions } = task;
+    if (transitions.length === 0) {
+        return task.status;
+    }
+
+    const last = [...transitions].reverse().find((t) => t.changedAt.getTime() <= at.getTime());
+    if (last) {
+        return last.toStatus;
+    }
+
+    const first = transitions[0];
+    return first.fromStatus ?? first.toStatus;
+}
+
+/**
+ * Days of a sprint as UTC midnights, from the start day to the end day
+ */
+export function sprintDays(startDate: Date, endDate: Date): Date[] {
+    const start = Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), startDate.getUTCDate());
+    const end = Date.UTC(endDate.getUTCFullYear(), endDate.getUTCMonth(), endDate.getUTCDate());
+
+    const days: Date[] = [];
+    for (let day = start; day <= end; day += DAY_MS) {
+        days.push(new Date(day));
+    }
+    return days;
+}
+
+/**
+ * Compute the burndown of a sprint from the tasks currently in it
+ */
+export function computeBurndown(
+    sprint: SprintWindow,
+    tasks: SprintTaskHistory[],
+    workflow: WorkflowColumn[],
+    now: Date = new Date()
+): SprintBurndown {
+    const done = new Set(workflow.filter((c) => c.isDone).map((c) => c.key));
+    const memberPoints = tasks.reduce((sum, task) => sum + (task.storyPoints ?? 0), 0);
+    const scope = sprint.status === 'CLOSED' && sprint.committedPoints !== null ? sprint.committedPoints : memberPoints;
+
+    // Closed sprints stop burning down when they close
+    const cutoff = sprint.closedAt && sprint.closedAt.getTime() < now.getTime() ? sprint.closedAt : now;
+
+    const days = sprintDays(sprint.startDate, sprint.endDate);
+    const points = days.map((day, index) => {
+        const ideal = days.length > 1 ? scope * (1 - index / (days.length - 1)) : 0;
+        const dayEnd = new Date(day.getTime() + DAY_MS - 1);
+
+        if (day.getTime() > cutoff.getTime()) {
+            return { date: day.toISOString().slice(0, 10), ideal: round(ideal), remaining: null };
+        }
+
+        const at = dayEnd.getTime() < cutoff.getTime() ? dayEnd : cutoff;
+        const donePoints = tasks
+            .filter((task) => done.has(statusAt(task, at)))
+            .reduce((sum, task) => sum + (task.storyPoints ?? 0), 0);
+
+        return {
+            date: day.toISOString().slice(0, 10),
+            ideal: round(ideal),
+            remaining: Math.max(0, scope - donePoints),
+        };
+    });
+
+    return {
+        sprintId: sprint.id,
+        name: sprint.name,
+        status: sprint.status,
+        scope,
+        points,
+    };
+}
+
+/**
+ * Committed and completed points of closed sprints, with the average
+ * completed points of the most recent ones
+ */
+export function computeVelocity(sprints: SprintWindow[]): SprintVelocity {
+    const closed = sprints
+        .filter((sprint) => sprint.status === 'CLOSED')
+        .sort((a, b) => a.endDate.getTime() - b.endDate.getTime())
+        .slice(-VELOCITY_SPRINTS)
+        .map((sprint) => ({
+            sprintId: sprint.id,
+            name: sprint.name,
+            committed: sprint.committedPoints ?? 0,
+            completed: sprint.completedPoints ?? 0,
+        }));
+
+    const recent = closed.slice(-VELOCITY_AVERAGE_SPRINTS);
+    const averageVelocity = recent.length > 0
+        ? round(recent.reduce((sum, entry) => sum + entry.completed, 0) / recent.length)
+        : 0;
+
+    return { sprints: closed, averageVelocity };
+}
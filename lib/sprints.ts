@@ -0,0 +1,269 @@
+/**
+ * Sprint Service
+ *
+ * Time-boxed iterations a project's tasks can be planned into. A project has
+ * at most one active sprint; tasks outside any sprint form the product
+ * backlog. Closing a sprint records the points it was committed to and
+ * completed, and carries its unfinished tasks over to another open sprint or
+ * back to the backlog.
+ */
+
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { doneStatuses, type WorkflowColumn } from './task-workflow';
+import {
+    computeBurndown,
+    computeVelocity,
+    type SprintBurndown,
+    type SprintVelocity,
+} from './sprint-metrics';
+
+/**
+ * Error raised when a sprint request does not fit the project's sprints, as opposed to a failure to store it
+ * Routes answer these with 400 and the message
+ */
+export class SprintValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SprintValidationError';
+    }
+}
+
+export const MAX_SPRINT_DAYS = 90;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const sprintSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    goal: z.string().max(2000).nullable().optional(),
+    startDate: z.string(),
+    endDate: z.string(),
+});
+
+export const sprintUpdateSchema = sprintSchema.partial().extend({
+    status: z.literal('ACTIVE').optional(), // Starts a planned sprint
+});
+
+export interface SprintSummary {
+    id: string;
+    name: string;
+    goal: string | null;
+    startDate: Date;
+    endDate: Date;
+    status: 'PLANNED' | 'ACTIVE' | 'CLOSED';
+    committedPoints: number | null;
+    completedPoints: number | null;
+    closedAt: Date | null;
+    taskCount: number;
+    doneCount: number;
+    totalPoints: number;
+    donePoints: number;
+}
+
+/**
+ * Check that a sprint ends after it starts and fits the maximum length
+ */
+export function validateSprintDates(startDate: Date, endDate: Date): void {
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+        throw new SprintValidationError('Sprint dates must be valid dates');
+    }
+    if (endDate.getTime() < startDate.getTime()) {
+        throw new SprintValidationError('A sprint cannot end before it starts');
+    }
+    if ((endDate.getTime() - startDate.getTime()) / DAY_MS > MAX_SPRINT_DAYS) {
+        throw new SprintValidationError(`A sprint can last at most ${MAX_SPRINT_DAYS} days`);
+    }
+}
+
+/**
+ * Check that tasks can be planned into a sprint: it must belong to the project and not be closed
+ */
+export async function assertSprintOpen(sprintId: string, projectId: string): Promise<void> {
+    const sprint = await prisma.sprint.findUnique({
+        where: { id: sprintId },
+        select: { projectId: true, status: true },
+    });
+
+    if (!sprint || sprint.projectId !== projectId) {
+        throw new SprintValidationError('Sprint not found in this project');
+    }
+    if (sprint.status === 'CLOSED') {
+        throw new SprintValidationError('Tasks cannot be added to a closed sprint');
+    }
+}
+
+/**
+ * Sprints of a project, newest first, with their task and point totals
+ */
+export async function getProjectSprints(projectId: string, workflow: WorkflowColumn[]): Promise<SprintSummary[]> {
+    const done = new Set(doneStatuses(workflow));
+
+    const sprints = await prisma.sprint.findMany({
+        where: { projectId },
+        include: {
+            tasks: {
+                select: { status: true, storyPoints: true },
+            },
+        },
+        orderBy: { startDate: 'desc' },
+    });
+
+    return sprints.map(({ tasks, ...sprint }) => {
+        const doneTasks = tasks.filter((task) => done.has(task.status));
+        return {
+            ...sprint,
+            taskCount: tasks.length,
+            doneCount: doneTasks.length,
+            totalPoints: tasks.reduce((sum, task) => sum + (task.storyPoints ?? 0), 0),
+            donePoints: doneTasks.reduce((sum, task) => sum + (task.storyPoints ?? 0), 0),
+        };
+    });
+}
+
+export async function createSprint(projectId: string, data: z.infer<typeof sprintSchema>) {
+    const startDate = new Date(data.startDate);
+    const endDate = new Date(data.endDate);
+    validateSprintDates(startDate, endDate);
+
+    return prisma.sprint.create({
+        data: {
+            projectId,
+            name: data.name,
+            goal: data.goal || null,
+            startDate,
+            endDate,
+        },
+    });
+}
+
+/**
+ * Update a sprint's details or start it
+ * Closed sprints are read-only, and only one sprint of a project can be active
+ */
+export async function updateSprint(sprintId: string, data: z.infer<typeof sprintUpdateSchema>) {
+    const sprint = await prisma.sprint.findUnique({ where: { id: sprintId } });
+    if (!sprint) {
+        throw new SprintValidationError('Sprint not found');
+    }
+    if (sprint.status === 'CLOSED') {
+        throw new SprintValidationError('A closed sprint cannot be changed');
+    }
+
+    const startDate = data.startDate ? new Date(data.startDate) : sprint.startDate;
+    const endDate = data.endDate ? new Date(data.endDate) : sprint.endDate;
+    validateSprintDates(startDate, endDate);
+
+    if (data.status === 'ACTIVE' && sprint.status !== 'ACTIVE') {
+        const active = await prisma.sprint.findFirst({
+            where: { projectId: sprint.projectId, status: 'ACTIVE' },
+            select: { name: true },
+        });
+        if (active) {
+            throw new SprintValidationError(`Close ${active.name} before starting another sprint`);
+        }
+    }
+
+    return prisma.sprint.update({
+        where: { id: sprintId },
+        data: {
+            name: data.name,
+            goal: data.goal === undefined ? undefined : data.goal || null,
+            startDate,
+            endDate,
+            status: data.status,
+        },
+    });
+}
+
+/**
+ * Close the active sprint, moving its unfinished tasks to another open sprint
+ * of the project or, when no target is given, back to the backlog
+ */
+export async function closeSprint(
+    sprintId: string,
+    carryOverSprintId: string | null,
+    workflow: WorkflowColumn[]
+): Promise<{ carriedOver: number; committedPoints: number; completedPoints: number }> {
+    const sprint = await prisma.sprint.findUnique({
+        where: { id: sprintId },
+        include: {
+            tasks: {
+                select: { id: true, status: true, storyPoints: true },
+            },
+        },
+    });
+
+    if (!sprint) {
+        throw new SprintValidationError('Sprint not found');
+    }
+    if (sprint.status !== 'ACTIVE') {
+        throw new SprintValidationError('Only the active sprint can be closed');
+    }
+
+    if (carryOverSprintId) {
+        if (carryOverSprintId === sprintId) {
+            throw new SprintValidationError('Unfinished tasks must be carried over to another sprint');
+        }
+        await assertSprintOpen(carryOverSprintId, sprint.projectId);
+    }
+
+    const done = new Set(doneStatuses(workflow));
+    const unfinished = sprint.tasks.filter((task) => !done.has(task.status));
+    const committedPoints = sprint.tasks.reduce((sum, task) => sum + (task.storyPoints ?? 0), 0);
+    const completedPoints = sprint.tasks
+        .filter((task) => done.has(task.status))
+        .reduce((sum, task) => sum + (task.storyPoints ?? 0), 0);
+
+    await prisma.$transaction([
+        prisma.task.updateMany({
+            where: { id: { in: unfinished.map((task) => task.id) } },
+            data: { sprintId: carryOverSprintId },
+        }),
+        prisma.sprint.update({
+            where: { id: sprintId },
+            data: {
+                status: 'CLOSED',
+                closedAt: new Date(),
+                committedPoints,
+                completedPoints,
+            },
+        }),
+    ]);
+
+    return { carriedOver: unfinished.length, committedPoints, completedPoints };
+}
+
+/**
+ * Burndown of the active sprint, or the most recently closed one, and the project's velocity
+ */
+export async function getSprintReport(
+    projectId: string,
+    workflow: WorkflowColumn[]
+): Promise<{ burndown: SprintBurndown | null; velocity: SprintVelocity }> {
+    const sprints = await prisma.sprint.findMany({
+        where: { projectId, status: { in: ['ACTIVE', 'CLOSED'] } },
+        orderBy: { endDate: 'asc' },
+    });
+
+    const velocity = computeVelocity(sprints);
+    const current = sprints.find((sprint) => sprint.status === 'ACTIVE')
+        ?? [...sprints].reverse().find((sprint) => sprint.status === 'CLOSED');
+
+    if (!current) {
+        return { burndown: null, velocity };
+    }
+
+    const tasks = await prisma.task.findMany({
+        where: { sprintId: current.id },
+        select: {
+            status: true,
+            storyPoints: true,
+            transitions: {
+                select: { fromStatus: true, toStatus: true, changedAt: true },
+                orderBy: { changedAt: 'asc' },
+            },
+        },
+    });
+
+    return { burndown: computeBurndown(current, tasks, workflow), velocity };
+}
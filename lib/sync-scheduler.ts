@@ -0,0 +1,131 @@
+import type { RateLimitInfo } from "@/types/git";
+import { parseRateLimit } from "./git-http";
+
+export const BACKOFF_BASE = 5 * 60 * 1000; // First retry after 5 minutes
+export const BACKOFF_MAX = 6 * 60 * 60 * 1000; // Never wait longer than 6 hours
+export const RATE_LIMIT_RESERVE = 50; // Requests left for webhooks and interactive use
+export const SYNC_CONCURRENCY_PER_TOKEN = 2;
+
+/**
+ * Whether a quota is nearly spent and syncing should pause until it resets
+ */
+export function isRateLimitLow(rateLimit: RateLimitInfo | null | undefined): boolean {
+    return !!rateLimit && rateLimit.remaining <= RATE_LIMIT_RESERVE;
+}
+
+/**
+ * Recognise rate limit errors from Octokit and the fetch-based clients
+ * retryAt is when the provider allows requests again, when it says so
+ */
+export function classifySyncError(
+    error: unknown,
+    now: Date = new Date()
+): { rateLimited: boolean; retryAt: Date | null } {
+    const err = error as any;
+    const status = err?.status ?? err?.response?.status;
+    const headers: Record<string, string | number | undefined> = err?.response?.headers ?? {};
+    const rateLimit = parseRateLimit(headers);
+
+    const rateLimited =
+        status === 429 ||
+        (status === 403 && (rateLimit?.remaining === 0 || /rate limit/i.test(err?.message ?? "")));
+
+    if (!rateLimited) {
+        return { rateLimited: false, retryAt: null };
+    }
+
+    // Secondary limits send retry-after in seconds instead of a reset time
+    const retryAfter = Number(headers["retry-after"]);
+    if (retryAfter > 0) {
+        return { rateLimited, retryAt: new Date(now.getTime() + retryAfter * 1000) };
+    }
+
+    return { rateLimited, retryAt: rateLimit?.resetAt ?? null };
+}
+
+/**
+ * When to try again after consecutive failures
+ * Doubles from BACKOFF_BASE up to BACKOFF_MAX, but never earlier than a known rate limit reset
+ */
+export function nextAttemptAt(failureCount: number, now: Date, retryAt?: Date | null): Date {
+    const delay = Math.min(BACKOFF_BASE * 2 ** Math.max(failureCount - 1, 0), BACKOFF_MAX);
+    const backoff = new Date(now.getTime() + delay);
+
+    return retryAt && retryAt > backoff ? retryAt : backoff;
+}
+
+export interface SyncJob {
+    id: string;
+    key: string; // Jobs sharing a key share a token, and so a rate limit
+}
+
+export interface SyncOutcome {
+    success: boolean;
+    rateLimit?: RateLimitInfo | null; // Quota left after the job
+    rateLimited?: boolean; // The job hit a rate limit
+    retryAt?: Date | null; // When the rate limit lifts, if known
+}
+
+/**
+ * Run sync jobs at most `concurrency` at a time per token
+ * When a token's quota runs low or a job hits its rate limit, the token's remaining
+ * jobs are deferred until the reset instead of being started
+ */
+export async function runSyncQueue<J extends SyncJob>(
+    jobs: J[],
+    run: (job: J) => Promise<SyncOutcome>,
+    options: { concurrency?: number; now?: () => Date } = {}
+) {
+    const concurrency = options.concurrency ?? SYNC_CONCURRENCY_PER_TOKEN;
+    const now = options.now ?? (() => new Date());
+
+    const groups = new Map<string, J[]>();
+    for (const job of jobs) {
+        groups.set(job.key, [...(groups.get(job.key) ?? []), job]);
+    }
+
+    let successful = 0;
+    let failed = 0;
+    const deferred: Array<{ job: J; until: Date }> = [];
+
+    await Promise.all(
+        Array.from(groups.values()).map(async (queue) => {
+            let pausedUntil: Date | null = null;
+
+            const worker = async () => {
+                for (let job = queue.shift(); job; job = queue.shift()) {
+                    if (pausedUntil) {
+                        deferred.push({ job, until: pausedUntil });
+                        continue;
+                    }
+
+                    let outcome: SyncOutcome;
+                    try {
+                        outcome = await run(job);
+                    } catch (error) {
+                        console.error(`Sync job ${job.id} failed:`, error);
+                        outcome = { success: false, ...classifySyncError(error, now()) };
+                    }
+
+                    if (outcome.success) {
+                        successful++;
+                    } else {
+                        failed++;
+                    }
+
+                    if (outcome.rateLimited || isRateLimitLow(outcome.rateLimit)) {
+                        pausedUntil = outcome.retryAt
+                            ?? outcome.rateLimit?.resetAt
+                            ?? new Date(now().getTime() + BACKOFF_BASE);
+                    }
+                }
+            };
+
+            await Promise.all(
+                Array.from({ length: Math.min(concurrency, queue.length) }, worker)
+            );
+        })
+    );
+
+    return { successful, failed, deferred };
+}
@@ -0,0 +1,152 @@
+/**
+ * Task Creation
+ *
+ * The single path new tasks take, whether created on the board, from a
+ * template or by the recurrence scheduler: the column, parent and sprint are
+ * checked, the task goes to the end of its column with its starting column
+ * recorded for flow metrics, checklist items are copied in, and the creation
+ * is logged as project activity.
+ */
+
+import { prisma } from './prisma';
+import { getProjectWorkflow, initialStatus } from './task-workflow';
+import { prepareSubtaskOf } from './task-hierarchy';
+import { TaskValidationError } from './task-errors';
+import { assertSprintOpen } from './sprints';
+import type { TaskPriority } from '@prisma/client';
+
+export interface CreateTaskInput {
+    title: string;
+    description?: string | null;
+    priority?: TaskPriority;
+    status?: string; // Workflow column key, defaults to the initial column
+    assigneeId?: string | null;
+    dueDate?: string | null;
+    parentId?: string;
+    sprintId?: string;
+    storyPoints?: number;
+    templateId?: string;
+    checklist?: string[]; // Titles of checklist items to create
+}
+
+// Relations the board needs with every task
+export const BOARD_TASK_INCLUDE = {
+    assignee: {
+        select: {
+            id: true,
+            name: true,
+            email: true,
+            image: true,
+        },
+    },
+    createdBy: {
+        select: {
+            id: true,
+            name: true,
+            email: true,
+        },
+    },
+    blockedBy: {
+        select: { blockingTaskId: true },
+    },
+    checklistItems: {
+        select: { done: true },
+    },
+    taskComponents: {
+        select: { componentId: true },
+    },
+    taskDecisions: {
+        select: { decisionId: true },
+    },
+    labels: {
+        select: { labelId: true },
+    },
+    fieldValues: {
+        select: { fieldId: true, value: true },
+    },
+} as const;
+
+/**
+ * Create a task in a project on behalf of a user
+ * Throws a TaskValidationError or SprintValidationError when the input does not fit the project
+ *
+ * @param recurring - Whether the recurrence scheduler created the task, recorded in the activity
+ */
+export async function createProjectTask(
+    projectId: string,
+    user: { id: string; name: string | null; email: string },
+    input: CreateTaskInput,
+    recurring: boolean = false
+) {
+    const workflow = await getProjectWorkflow(projectId);
+    const status = input.status ?? initialStatus(workflow);
+    if (!workflow.some((column) => column.key === status)) {
+        throw new TaskValidationError(`Unknown workflow column: ${status}`);
+    }
+
+    const subtaskPosition = input.parentId ? await prepareSubtaskOf(null, input.parentId, projectId) : 0;
+
+    if (input.sprintId) {
+        await assertSprintOpen(input.sprintId, projectId);
+    }
+
+    // Get the highest position for the status
+    const lastTask = await prisma.task.findFirst({
+        where: {
+            projectId,
+            status,
+        },
+        orderBy: { position: 'desc' },
+    });
+
+    const position = lastTask ? lastTask.position + 1 : 0;
+    const checklist = (input.checklist ?? []).map((title) => title.trim()).filter(Boolean);
+
+    const task = await prisma.task.create({
+        data: {
+            title: input.title,
+            description: input.description,
+            priority: input.priority ?? 'MEDIUM',
+            status,
+            position,
+            projectId,
+            parentId: input.parentId,
+            subtaskPosition,
+            sprintId: input.sprintId,
+            storyPoints: input.storyPoints,
+            templateId: input.templateId,
+            assigneeId: input.assigneeId,
+            dueDate: input.dueDate ? new Date(input.dueDate) : null,
+            createdById: user.id,
+            // Record the starting column so time in it counts toward flow metrics
+            transitions: {
+                create: {
+                    toStatus: status,
+                    changedById: user.id,
+                },
+            },
+            checklistItems: checklist.length > 0
+                ? { create: checklist.map((title, index) => ({ title, position: index })) }
+                : undefined,
+        },
+        include: BOARD_TASK_INCLUDE,
+    });
+
+    // Log activity
+    await prisma.activity.create({
+        data: {
+            projectId,
+            type: 'TASK_CREATED',
+            data: {
+                taskId: task.id,
+                taskTitle: task.title,
+                userId: user.id,
+                userName: user.name || user.email,
+                ...(input.templateId && { templateId: input.templateId }),
+                ...(recurring && { recurring: true }),
+            },
+        },
+    });
+
+    return task;
+}
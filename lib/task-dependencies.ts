@@ -0,0 +1,262 @@
+/**
+ * Task Dependency Service
+ *
+ * "Blocks / blocked by" links between tasks of a project. Links may not form
+ * a cycle, since no task in it could ever be completed. A task is blocked
+ * while any task blocking it is outside the done category of the workflow;
+ * blocked tasks cannot be moved into a done column.
+ */
+
+import { prisma } from './prisma';
+import { isDoneStatus, type WorkflowColumn } from './task-workflow';
+import { TaskValidationError } from './task-errors';
+
+export interface DependencyEdge {
+    blockingTaskId: string;
+    blockedTaskId: string;
+}
+
+export interface DependencyTask {
+    id: string;
+    title: string;
+    status: string;
+}
+
+export interface TaskDependencyLink {
+    id: string; // Dependency ID, used to remove the link
+    task: DependencyTask;
+    open: boolean; // Outside the done category
+}
+
+export interface BlockedTask {
+    task: DependencyTask;
+    blockers: DependencyTask[]; // Open tasks blocking it
+}
+
+/**
+ * Chain of tasks from one task to another following "blocks" links
+ * Returns the task IDs along the chain, or null when the second task is not reachable
+ */
+export function findBlockingChain(edges: DependencyEdge[], fromTaskId: string, toTaskId: string): string[] | null {
+    const blocks = new Map<string, string[]>();
+    for (const edge of edges) {
+        const blocked = blocks.get(edge.blockingTaskId) ?? [];
+        blocked.push(edge.blockedTaskId);
+        blocks.set(edge.blockingTaskId, blocked);
+    }
+
+    // Breadth-first, so the shortest chain is reported
+    const previous = new Map<string, string | null>([[fromTaskId, null]]);
+    const queue = [fromTaskId];
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        if (current === toTaskId) {
+            const chain: string[] = [];
+            for (let id: string | null = current; id !== null; id = previous.get(id) ?? null) {
+                chain.unshift(id);
+            }
+            return chain;
+        }
+        for (const next of blocks.get(current) ?? []) {
+            if (!previous.has(next)) {
+                previous.set(next, current);
+                queue.push(next);
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Chain of tasks that would form a cycle if the blocking task started blocking the blocked one
+ * The chain runs from the blocked task back to the blocking task; null when no cycle forms
+ */
+export function findDependencyCycle(
+    edges: DependencyEdge[],
+    blockingTaskId: string,
+    blockedTaskId: string
+): string[] | null {
+    return findBlockingChain(edges, blockedTaskId, blockingTaskId);
+}
+
+export function openBlockers<T extends { status: string }>(blockers: T[], workflow: WorkflowColumn[]): T[] {
+    return blockers.filter((blocker) => !isDoneStatus(workflow, blocker.status));
+}
+
+/**
+ * Whether moving a task between two statuses completes it, the only kind of move blockers hold back
+ */
+export function completesTask(workflow: WorkflowColumn[], fromStatus: string, toStatus: string): boolean {
+    return isDoneStatus(workflow, toStatus) && !isDoneStatus(workflow, fromStatus);
+}
+
+/**
+ * Open blockers that keep a task from moving between two statuses
+ */
+export function completionBlockers<T extends { status: string }>(
+    workflow: WorkflowColumn[],
+    fromStatus: string,
+    toStatus: string,
+    blockers: T[]
+): T[] {
+    return completesTask(workflow, fromStatus, toStatus) ? openBlockers(blockers, workflow) : [];
+}
+
+/**
+ * Make one task block another task of the same project
+ */
+export async function addTaskDependency(input: {
+    blockingTaskId: string;
+    blockedTaskId: string;
+    createdById: string;
+}) {
+    const { blockingTaskId, blockedTaskId } = input;
+
+    if (blockingTaskId === blockedTaskId) {
+        throw new TaskValidationError('A task cannot block itself');
+    }
+
+    const tasks = await prisma.task.findMany({
+        where: { id: { in: [blockingTaskId, blockedTaskId] } },
+        select: { id: true, title: true, projectId: true },
+    });
+
+    if (tasks.length !== 2) {
+        throw new TaskValidationError('Task not found');
+    }
+
+    if (tasks[0].projectId !== tasks[1].projectId) {
+        throw new TaskValidationError('Tasks must belong to the same project');
+    }
+
+    const edges = await prisma.taskDependency.findMany({
+        where: { blockedTask: { projectId: tasks[0].projectId } },
+        select: { blockingTaskId: true, blockedTaskId: true },
+    });
+
+    const cycle = findDependencyCycle(edges, blockingTaskId, blockedTaskId);
+    if (cycle) {
+        const titles = await prisma.task.findMany({
+            where: { id: { in: cycle } },
+            select: { id: true, title: true },
+        });
+        const titleById = new Map(titles.map((t) => [t.id, t.title]));
+        const chain = [...cycle, blockedTaskId].map((id) => `"${titleById.get(id) ?? id}"`);
+        throw new TaskValidationError(`This would create a dependency cycle: ${chain.join(' blocks ')}`);
+    }
+
+    return prisma.taskDependency.create({
+        data: input,
+    });
+}
+
+export async function removeTaskDependency(id: string): Promise<void> {
+    await prisma.taskDependency.delete({
+        where: { id },
+    });
+}
+
+const dependencyTaskSelect = { id: true, title: true, status: true } as const;
+
+/**
+ * Tasks blocking and blocked by a task
+ */
+export async function getTaskDependencies(
+    taskId: string,
+    workflow: WorkflowColumn[]
+): Promise<{ blockedBy: TaskDependencyLink[]; blocks: TaskDependencyLink[] }> {
+    const [blockedBy, blocks] = await Promise.all([
+        prisma.taskDependency.findMany({
+            where: { blockedTaskId: taskId },
+            select: { id: true, blockingTask: { select: dependencyTaskSelect } },
+            orderBy: { createdAt: 'asc' },
+        }),
+        prisma.taskDependency.findMany({
+            where: { blockingTaskId: taskId },
+            select: { id: true, blockedTask: { select: dependencyTaskSelect } },
+            orderBy: { createdAt: 'asc' },
+        }),
+    ]);
+
+    return {
+        blockedBy: blockedBy.map((d) => ({
+            id: d.id,
+            task: d.blockingTask,
+            open: !isDoneStatus(workflow, d.blockingTask.status),
+        })),
+        blocks: blocks.map((d) => ({
+            id: d.id,
+            task: d.blockedTask,
+            open: !isDoneStatus(workflow, d.blockedTask.status),
+        })),
+    };
+}
+
+/**
+ * Open tasks blocking a task
+ */
+export async function getOpenBlockers(taskId: string, workflow: WorkflowColumn[]): Promise<DependencyTask[]> {
+    const dependencies = await prisma.taskDependency.findMany({
+        where: { blockedTaskId: taskId },
+        select: { blockingTask: { select: dependencyTaskSelect } },
+    });
+
+    return openBlockers(dependencies.map((d) => d.blockingTask), workflow);
+}
+
+/**
+ * Open tasks that keep a task from moving to a status; empty unless the move completes it
+ * Shared by every path that changes task statuses, so none can finish a blocked task
+ */
+export async function getCompletionBlockers(
+    task: { id: string; status: string },
+    toStatus: string,
+    workflow: WorkflowColumn[]
+): Promise<DependencyTask[]> {
+    if (!completesTask(workflow, task.status, toStatus)) {
+        return [];
+    }
+    return getOpenBlockers(task.id, workflow);
+}
+
+/**
+ * Tasks blocking each of the given tasks, open or not
+ */
+export async function getBlockersByTask(taskIds: string[]): Promise<Map<string, DependencyTask[]>> {
+    const dependencies = await prisma.taskDependency.findMany({
+        where: { blockedTaskId: { in: taskIds } },
+        select: { blockedTaskId: true, blockingTask: { select: dependencyTaskSelect } },
+    });
+
+    const blockers = new Map<string, DependencyTask[]>();
+    for (const { blockedTaskId, blockingTask } of dependencies) {
+        blockers.set(blockedTaskId, [...(blockers.get(blockedTaskId) ?? []), blockingTask]);
+    }
+    return blockers;
+}
+
+/**
+ * Open tasks of a project that are blocked by other open tasks
+ */
+export async function getBlockedTasks(projectId: string, workflow: WorkflowColumn[]): Promise<BlockedTask[]> {
+    const dependencies = await prisma.taskDependency.findMany({
+        where: { blockedTask: { projectId } },
+        select: {
+            blockingTask: { select: dependencyTaskSelect },
+            blockedTask: { select: dependencyTaskSelect },
+        },
+    });
+
+    const blocked = new Map<string, BlockedTask>();
+    for (const { blockingTask, blockedTask } of dependencies) {
+        if (isDoneStatus(workflow, blockedTask.status) || isDoneStatus(workflow, blockingTask.status)) {
+            continue;
+        }
+        const entry = blocked.get(blockedTask.id) ?? { task: blockedTask, blockers: [] };
+        entry.blockers.push(blockingTask);
+        blocked.set(blockedTask.id, entry);
+    }
+
+    return Array.from(blocked.values());
+}
@@ -0,0 +1,14 @@
+/**
+ * Task Errors
+ *
+ * Raised by the task services when a request does not fit the project, as
+ * opposed to failures to read or store it. Routes answer these with 400 and
+ * the message; anything else is a server error.
+ */
+
+export class TaskValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TaskValidationError';
+    }
+}
@@ -0,0 +1,292 @@
+/**
+ * Task Label and Custom Field Service
+ *
+ * Project-defined ways to categorize tasks beyond priority: colored labels,
+ * and typed custom fields (number, select, date, user or URL) every task of
+ * the project can fill in. Values are stored as strings normalized for their
+ * field's type, so the board can filter on them by equality.
+ *
+ * Like workflow columns, a project's labels and fields are replaced as a
+ * whole. Values that no longer fit a changed field (a new type, or a select
+ * option that was removed) are dropped.
+ */
+
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { TaskValidationError } from './task-errors';
+import type { CustomFieldType, Prisma } from '@prisma/client';
+
+export const CUSTOM_FIELD_TYPES = ['NUMBER', 'SELECT', 'DATE', 'USER', 'URL'] as const;
+
+export const MAX_LABELS = 50;
+export const MAX_CUSTOM_FIELDS = 20;
+export const MAX_SELECT_OPTIONS = 30;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface LabelDefinition {
+    id: string;
+    name: string;
+    color: string;
+}
+
+export interface CustomFieldDefinition {
+    id: string;
+    name: string;
+    type: CustomFieldType;
+    options: string[];
+}
+
+const uniqueNames = (items: { name: string }[]) =>
+    new Set(items.map((item) => item.name.toLowerCase())).size === items.length;
+
+export const taskFieldsSchema = z.object({
+    labels: z
+        .array(
+            z.object({
+                id: z.string().optional(), // Omitted for new labels
+                name: z.string().trim().min(1).max(30),
+                color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex color'),
+            })
+        )
+        .max(MAX_LABELS)
+        .refine(uniqueNames, { message: 'Label names must be unique' }),
+    customFields: z
+        .array(
+            z.object({
+                id: z.string().optional(), // Omitted for new fields
+                name: z.string().trim().min(1).max(40),
+                type: z.enum(CUSTOM_FIELD_TYPES),
+                options: z.array(z.string().trim().min(1).max(40)).max(MAX_SELECT_OPTIONS).default([]),
+            })
+        )
+        .max(MAX_CUSTOM_FIELDS)
+        .refine(uniqueNames, { message: 'Custom field names must be unique' })
+        .refine((fields) => fields.every((f) => f.type !== 'SELECT' || f.options.length > 0), {
+            message: 'Select fields need at least one option',
+        })
+        .refine((fields) => fields.every((f) => new Set(f.options).size === f.options.length), {
+            message: 'Select options must be unique',
+        }),
+});
+
+export type TaskFieldsInput = z.infer<typeof taskFieldsSchema>;
+
+/**
+ * Normalize a value for a custom field
+ * Throws with a message suitable for the client when the value does not fit the field
+ *
+ * @param memberIds - Users of the project, the only valid values of USER fields
+ */
+export function normalizeFieldValue(field: CustomFieldDefinition, value: string, memberIds: string[]): string {
+    const trimmed = value.trim();
+
+    switch (field.type) {
+        case 'NUMBER': {
+            const number = Number(trimmed);
+            if (trimmed === '' || !Number.isFinite(number)) {
+                throw new TaskValidationError(`${field.name} must be a number`);
+            }
+            return String(number);
+        }
+        case 'SELECT':
+            if (!field.options.includes(trimmed)) {
+                throw new TaskValidationError(`${field.name} must be one of: ${field.options.join(', ')}`);
+            }
+            return trimmed;
+        case 'DATE': {
+            const date = new Date(`${trimmed}T00:00:00.000Z`);
+            if (!DATE_PATTERN.test(trimmed) || isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== trimmed) {
+                throw new TaskValidationError(`${field.name} must be a date (YYYY-MM-DD)`);
+            }
+            return trimmed;
+        }
+        case 'USER':
+            if (!memberIds.includes(trimmed)) {
+                throw new TaskValidationError(`${field.name} must be a member of the project`);
+            }
+            return trimmed;
+        case 'URL': {
+            let url: URL | null = null;
+            try {
+                url = new URL(trimmed);
+            } catch {
+                // Reported below
+            }
+            if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:') || trimmed.length > 2000) {
+                throw new TaskValidationError(`${field.name} must be an http or https URL`);
+            }
+            return trimmed;
+        }
+    }
+}
+
+/**
+ * Get the labels and custom fields of a project, fields in form order
+ */
+export async function getTaskFields(
+    projectId: string
+): Promise<{ labels: LabelDefinition[]; customFields: CustomFieldDefinition[] }> {
+    const [labels, customFields] = await Promise.all([
+        prisma.label.findMany({
+            where: { projectId },
+            select: { id: true, name: true, color: true },
+            orderBy: { name: 'asc' },
+        }),
+        prisma.customField.findMany({
+            where: { projectId },
+            select: { id: true, name: true, type: true, options: true },
+            orderBy: { position: 'asc' },
+        }),
+    ]);
+
+    return { labels, customFields };
+}
+
+/**
+ * Replace the labels and custom fields of a project
+ * Existing entries are matched by ID; removed ones disappear from every task.
+ */
+export async function updateTaskFields(projectId: string, input: TaskFieldsInput) {
+    const current = await getTaskFields(projectId);
+    const currentLabels = new Set(current.labels.map((label) => label.id));
+    const currentFields = new Map(current.customFields.map((field) => [field.id, field]));
+
+    for (const label of input.labels) {
+        if (label.id && !currentLabels.has(label.id)) {
+            throw new TaskValidationError(`Unknown label: ${label.name}`);
+        }
+    }
+    for (const field of input.customFields) {
+        if (field.id && !currentFields.has(field.id)) {
+            throw new TaskValidationError(`Unknown custom field: ${field.name}`);
+        }
+    }
+
+    const keptLabels = input.labels.flatMap((label) => (label.id ? [label.id] : []));
+    const keptFields = input.customFields.flatMap((field) => (field.id ? [field.id] : []));
+
+    await prisma.$transaction([
+        prisma.label.deleteMany({ where: { projectId, id: { notIn: keptLabels } } }),
+        prisma.customField.deleteMany({ where: { projectId, id: { notIn: keptFields } } }),
+        ...input.labels.map((label) =>
+            label.id
+                ? prisma.label.update({
+                    where: { id: label.id },
+                    data: { name: label.name, color: label.color },
+                })
+                : prisma.label.create({
+                    data: { projectId, name: label.name, color: label.color },
+                })
+        ),
+        ...input.customFields.flatMap((field, position) => {
+            const options = field.type === 'SELECT' ? field.options : [];
+            if (!field.id) {
+                return [prisma.customField.create({
+                    data: { projectId, name: field.name, type: field.type, options, position },
+                })];
+            }
+
+            // Drop values that no longer fit the field
+            const previous = currentFields.get(field.id)!;
+            const dropValues = previous.type !== field.type
+                ? [prisma.customFieldValue.deleteMany({ where: { fieldId: field.id } })]
+                : field.type === 'SELECT'
+                    ? [prisma.customFieldValue.deleteMany({ where: { fieldId: field.id, value: { notIn: options } } })]
+                    : [];
+
+            return [
+                ...dropValues,
+                prisma.customField.update({
+                    where: { id: field.id },
+                    data: { name: field.name, type: field.type, options, position },
+                }),
+            ];
+        }),
+    ]);
+
+    return getTaskFields(projectId);
+}
+
+/**
+ * Users who can be picked in USER fields of a project
+ */
+async function getProjectMemberIds(projectId: string): Promise<string[]> {
+    const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        select: {
+            createdById: true,
+            team: { select: { members: { select: { userId: true } } } },
+        },
+    });
+
+    if (!project) {
+        return [];
+    }
+    return project.team ? project.team.members.map((member) => member.userId) : [project.createdById];
+}
+
+/**
+ * Validate new labels and/or custom field values for a task, returning the writes that store them
+ * The caller runs them, so they can share a transaction with the task's other changes.
+ * Labels that are not given are left unchanged, as are fields missing from `customFields`;
+ * a null or empty value clears the field.
+ */
+export async function prepareTaskFieldValues(
+    taskId: string,
+    projectId: string,
+    values: { labelIds?: string[]; customFields?: Record<string, string | null> }
+): Promise<Prisma.PrismaPromise<unknown>[]> {
+    const labelIds = values.labelIds ? Array.from(new Set(values.labelIds)) : undefined;
+
+    if (labelIds && labelIds.length > 0) {
+        const count = await prisma.label.count({
+            where: { id: { in: labelIds }, projectId },
+        });
+        if (count !== labelIds.length) {
+            throw new TaskValidationError('Labels must belong to the same project as the task');
+        }
+    }
+
+    const set: { fieldId: string; value: string }[] = [];
+    const cleared: string[] = [];
+
+    if (values.customFields && Object.keys(values.customFields).length > 0) {
+        const { customFields } = await getTaskFields(projectId);
+        const fields = new Map(customFields.map((field) => [field.id, field]));
+        const memberIds = customFields.some((field) => field.type === 'USER')
+            ? await getProjectMemberIds(projectId)
+            : [];
+
+        for (const [fieldId, value] of Object.entries(values.customFields)) {
+            const field = fields.get(fieldId);
+            if (!field) {
+                throw new TaskValidationError('Custom fields must belong to the same project as the task');
+            }
+            if (value === null || value.trim() === '') {
+                cleared.push(fieldId);
+            } else {
+                set.push({ fieldId, value: normalizeFieldValue(field, value, memberIds) });
+            }
+        }
+    }
+
+    return [
+        ...(labelIds
+            ? [
+                prisma.taskLabel.deleteMany({ where: { taskId } }),
+                prisma.taskLabel.createMany({
+                    data: labelIds.map((labelId) => ({ taskId, labelId })),
+                }),
+            ]
+            : []),
+        prisma.customFieldValue.deleteMany({ where: { taskId, fieldId: { in: cleared } } }),
+        ...set.map(({ fieldId, value }) =>
+            prisma.customFieldValue.upsert({
+                where: { taskId_fieldId: { taskId, fieldId } },
+                create: { taskId, fieldId, value },
+                update: { value },
+            })
+        ),
+    ];
+}
@@ -0,0 +1,156 @@
+/**
+ * Task Hierarchy Service
+ *
+ * Parent/child tasks and checklist items. Subtasks are ordered by their own
+ * position among siblings, which board moves never touch, so dragging cards
+ * between columns keeps the order of an epic's steps intact.
+ */
+
+import { prisma } from './prisma';
+import { TaskValidationError } from './task-errors';
+
+export const MAX_CHECKLIST_ITEMS = 100;
+
+/**
+ * IDs of the ancestors of a task, nearest first
+ * Stops if the chain loops back on itself so corrupt data cannot hang the walk
+ */
+export function ancestorChain(parentById: Map<string, string | null>, taskId: string): string[] {
+    const chain: string[] = [];
+    let current = parentById.get(taskId) ?? null;
+    while (current !== null && !chain.includes(current)) {
+        chain.push(current);
+        current = parentById.get(current) ?? null;
+    }
+    return chain;
+}
+
+/**
+ * Check that a task can become a subtask of a parent, returning its position among the parent's subtasks
+ * The task is null when it is being created
+ */
+export async function prepareSubtaskOf(taskId: string | null, parentId: string, projectId: string): Promise<number> {
+    if (taskId === parentId) {
+        throw new TaskValidationError('A task cannot be its own subtask');
+    }
+
+    const tasks = await prisma.task.findMany({
+        where: { projectId },
+        select: { id: true, parentId: true },
+    });
+    const parentById = new Map(tasks.map((t) => [t.id, t.parentId]));
+
+    if (!parentById.has(parentId)) {
+        throw new TaskValidationError('Parent task not found in this project');
+    }
+
+    if (taskId && ancestorChain(parentById, parentId).includes(taskId)) {
+        throw new TaskValidationError('A task cannot be a subtask of its own subtask');
+    }
+
+    const lastSibling = await prisma.task.findFirst({
+        where: { parentId },
+        orderBy: { subtaskPosition: 'desc' },
+        select: { subtaskPosition: true },
+    });
+
+    return lastSibling ? lastSibling.subtaskPosition + 1 : 0;
+}
+
+export async function getSubtasks(parentId: string) {
+    return prisma.task.findMany({
+        where: { parentId },
+        select: {
+            id: true,
+            title: true,
+            status: true,
+            priority: true,
+            subtaskPosition: true,
+            assignee: {
+                select: { id: true, name: true, email: true, image: true },
+            },
+        },
+        orderBy: [{ subtaskPosition: 'asc' }, { createdAt: 'asc' }],
+    });
+}
+
+/**
+ * Reorder the subtasks of a task; the order must list every subtask exactly once
+ */
+export async function reorderSubtasks(parentId: string, order: string[]): Promise<void> {
+    const subtasks = await prisma.task.findMany({
+        where: { parentId },
+        select: { id: true },
+    });
+
+    const ids = new Set(subtasks.map((s) => s.id));
+    if (order.length !== ids.size || new Set(order).size !== order.length || !order.every((id) => ids.has(id))) {
+        throw new TaskValidationError('Order must list every subtask exactly once');
+    }
+
+    await prisma.$transaction(
+        order.map((id, index) =>
+            prisma.task.update({
+                where: { id },
+                data: { subtaskPosition: index },
+            })
+        )
+    );
+}
+
+export async function getChecklist(taskId: string) {
+    return prisma.checklistItem.findMany({
+        where: { taskId },
+        orderBy: { position: 'asc' },
+    });
+}
+
+export async function addChecklistItem(taskId: string, title: string) {
+    const [count, last] = await Promise.all([
+        prisma.checklistItem.count({ where: { taskId } }),
+        prisma.checklistItem.findFirst({
+            where: { taskId },
+            orderBy: { position: 'desc' },
+            select: { position: true },
+        }),
+    ]);
+
+    if (count >= MAX_CHECKLIST_ITEMS) {
+        throw new TaskValidationError(`A checklist can have at most ${MAX_CHECKLIST_ITEMS} items`);
+    }
+
+    return prisma.checklistItem.create({
+        data: {
+            taskId,
+            title,
+            position: last ? last.position + 1 : 0,
+        },
+    });
+}
+
+/**
+ * Update a checklist item of a task; returns null when the task has no such item
+ */
+export async function updateChecklistItem(taskId: string, itemId: string, data: { title?: string; done?: boolean }) {
+    const { count } = await prisma.checklistItem.updateMany({
+        where: { id: itemId, taskId },
+        data,
+    });
+
+    if (count === 0) {
+        return null;
+    }
+
+    return prisma.checklistItem.findUnique({ where: { id: itemId } });
+}
+
+/**
+ * Remove a checklist item of a task; returns false when the task has no such item
+ */
+export async function removeChecklistItem(taskId: string, itemId: string): Promise<boolean> {
+    const { count } = await prisma.checklistItem.deleteMany({
+        where: { id: itemId, taskId },
+    });
+
+    return count > 0;
+}
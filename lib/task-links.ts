@@ -0,0 +1,180 @@
+/**
+ * Task Link Service
+ *
+ * Links tasks to the architecture components and decision records they
+ * touch, so a component shows the work still open against it and risk
+ * analysis can count open high-priority tasks per component.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { doneStatuses, getProjectWorkflow } from './task-workflow';
+import { TaskValidationError } from './task-errors';
+
+export interface LinkedComponent {
+    id: string;
+    componentId: string;
+    name: string;
+    type: string;
+}
+
+export interface LinkedDecision {
+    id: string;
+    title: string;
+    status: string;
+}
+
+/**
+ * Validate new components and/or decisions for a task, returning the writes that replace its links
+ * The caller runs them, so they can share a transaction with the task's other changes.
+ * Lists that are not given are left unchanged; every ID must belong to the task's project
+ */
+export async function prepareTaskLinks(
+    taskId: string,
+    projectId: string,
+    links: { componentIds?: string[]; decisionIds?: string[] }
+): Promise<Prisma.PrismaPromise<unknown>[]> {
+    const componentIds = links.componentIds ? Array.from(new Set(links.componentIds)) : undefined;
+    const decisionIds = links.decisionIds ? Array.from(new Set(links.decisionIds)) : undefined;
+
+    if (componentIds && componentIds.length > 0) {
+        const count = await prisma.component.count({
+            where: { id: { in: componentIds }, canvas: { projectId } },
+        });
+        if (count !== componentIds.length) {
+            throw new TaskValidationError('Linked components must belong to the same project as the task');
+        }
+    }
+
+    if (decisionIds && decisionIds.length > 0) {
+        const count = await prisma.decisionRecord.count({
+            where: { id: { in: decisionIds }, projectId },
+        });
+        if (count !== decisionIds.length) {
+            throw new TaskValidationError('Linked decisions must belong to the same project as the task');
+        }
+    }
+
+    return [
+        ...(componentIds
+            ? [
+                prisma.taskComponent.deleteMany({ where: { taskId } }),
+                prisma.taskComponent.createMany({
+                    data: componentIds.map((componentId) => ({ taskId, componentId })),
+                }),
+            ]
+            : []),
+        ...(decisionIds
+            ? [
+                prisma.taskDecision.deleteMany({ where: { taskId } }),
+                prisma.taskDecision.createMany({
+                    data: decisionIds.map((decisionId) => ({ taskId, decisionId })),
+                }),
+            ]
+            : []),
+    ];
+}
+
+/**
+ * Get the components and decisions linked to a task
+ */
+export async function getTaskLinks(
+    taskId: string
+): Promise<{ components: LinkedComponent[]; decisions: LinkedDecision[] }> {
+    const [taskComponents, taskDecisions] = await Promise.all([
+        prisma.taskComponent.findMany({
+            where: { taskId },
+            select: {
+                component: {
+                    select: { id: true, componentId: true, name: true, type: true },
+                },
+            },
+            orderBy: { linkedAt: 'asc' },
+        }),
+        prisma.taskDecision.findMany({
+            where: { taskId },
+            select: {
+                decision: {
+                    select: { id: true, title: true, status: true },
+                },
+            },
+            orderBy: { linkedAt: 'asc' },
+        }),
+    ]);
+
+    return {
+        components: taskComponents.map((tc) => tc.component),
+        decisions: taskDecisions.map((td) => td.decision),
+    };
+}
+
+/**
+ * Open tasks linked to a component, high priority first
+ */
+export async function getOpenTasksForComponent(componentId: string, projectId: string) {
+    const workflow = await getProjectWorkflow(projectId);
+
+    const taskComponents = await prisma.taskComponent.findMany({
+        where: {
+            componentId,
+            task: { status: { notIn: doneStatuses(workflow) } },
+        },
+        select: {
+            task: {
+                select: {
+                    id: true,
+                    title: true,
+                    status: true,
+                    priority: true,
+                    dueDate: true,
+                    assignee: {
+                        select: { id: true, name: true, email: true, image: true },
+                    },
+                },
+            },
+        },
+    });
+
+    const columnNames = new Map(workflow.map((column) => [column.key, column.name]));
+    const priorityOrder = { HIGH: 0, MEDIUM: 1, LOW: 2 };
+
+    return taskComponents
+        .map(({ task }) => ({ ...task, statusName: columnNames.get(task.status) ?? task.status }))
+        .sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority]);
+}
+
+/**
+ * Count open high-priority tasks linked to one component
+ */
+export async function countOpenHighPriorityTasks(componentId: string, projectId: string): Promise<number> {
+    const workflow = await getProjectWorkflow(projectId);
+
+    return prisma.taskComponent.count({
+        where: {
+            componentId,
+            task: { priority: 'HIGH', status: { notIn: doneStatuses(workflow) } },
+        },
+    });
+}
+
+/**
+ * Count open high-priority tasks linked to each component of a canvas
+ * Components without such tasks are left out of the map
+ */
+export async function getCanvasOpenHighPriorityTaskCounts(
+    canvasId: string,
+    projectId: string
+): Promise<Map<string, number>> {
+    const workflow = await getProjectWorkflow(projectId);
+
+    const groups = await prisma.taskComponent.groupBy({
+        by: ['componentId'],
+        where: {
+            component: { canvasId },
+            task: { priority: 'HIGH', status: { notIn: doneStatuses(workflow) } },
+        },
+        _count: { _all: true },
+    });
+
+    return new Map(groups.map((g) => [g.componentId, g._count._all]));
+}
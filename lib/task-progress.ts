@@ -0,0 +1,32 @@
+/**
+ * Task Progress Roll-up
+ *
+ * Progress of a task is the share of its checklist items that are checked
+ * and of its direct subtasks that sit in a done column. Pure, so the board
+ * can recompute it from local state as cards move.
+ */
+
+import type { WorkflowColumn } from './task-workflow';
+
+export interface TaskProgress {
+    done: number;
+    total: number;
+    percent: number; // 0-100, 0 without checklist items or subtasks
+}
+
+export function rollUpProgress(
+    checklist: Array<{ done: boolean }>,
+    subtasks: Array<{ status: string }>,
+    workflow: WorkflowColumn[]
+): TaskProgress {
+    const doneKeys = new Set(workflow.filter((column) => column.isDone).map((column) => column.key));
+    const done =
+        checklist.filter((item) => item.done).length + subtasks.filter((subtask) => doneKeys.has(subtask.status)).length;
+    const total = checklist.length + subtasks.length;
+
+    return {
+        done,
+        total,
+        percent: total > 0 ? Math.round((done / total) * 100) : 0,
+    };
+}
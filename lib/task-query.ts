@@ -0,0 +1,127 @@
+/**
+ * Task Query Model
+ *
+ * The filters a board view can apply to a project's tasks: assignee,
+ * priority, sprint, linked architecture component, label, a custom field
+ * value, a due date range and a text search. Queries travel as URL search parameters to
+ * GET /api/projects/[id]/tasks, which turns them into a Prisma filter, and
+ * are stored as JSON in saved filters.
+ */
+
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// A calendar date; 2026-02-30 has the right shape but is not one
+const dateSchema = z
+    .string()
+    .regex(DATE_PATTERN, 'Dates must be YYYY-MM-DD')
+    .refine((value) => {
+        const date = new Date(`${value}T00:00:00.000Z`);
+        return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+    }, 'Not a valid date');
+
+export const UNASSIGNED = 'unassigned';
+export const BACKLOG = 'backlog';
+
+export const TASK_VIEWS = ['board', 'list', 'calendar'] as const;
+export const SWIMLANES = ['none', 'assignee', 'priority'] as const;
+
+export type TaskView = (typeof TASK_VIEWS)[number];
+export type Swimlanes = (typeof SWIMLANES)[number];
+
+export const taskQuerySchema = z.object({
+    assigneeId: z.string().min(1).optional(), // UNASSIGNED for tasks without an assignee
+    priority: z.enum(['LOW', 'MEDIUM', 'HIGH']).optional(),
+    sprintId: z.string().min(1).optional(), // BACKLOG for tasks outside every sprint
+    componentId: z.string().min(1).optional(),
+    labelId: z.string().min(1).optional(),
+    fieldId: z.string().min(1).optional(), // Alone, matches tasks with any value for the field
+    fieldValue: z.string().max(2000).optional(), // Normalized value (see lib/task-fields), needs fieldId
+    dueFrom: dateSchema.optional(),
+    dueTo: dateSchema.optional(),
+    text: z.string().trim().min(1).max(200).optional(),
+});
+
+export type TaskQuery = z.infer<typeof taskQuerySchema>;
+
+const QUERY_KEYS = Object.keys(taskQuerySchema.shape) as (keyof TaskQuery)[];
+
+/**
+ * Read a query from URL search parameters, ignoring empty and unknown ones
+ * Throws a ZodError for malformed values
+ */
+export function parseTaskQuery(params: URLSearchParams): TaskQuery {
+    const raw: Record<string, string> = {};
+    for (const key of QUERY_KEYS) {
+        const value = params.get(key)?.trim();
+        if (value) {
+            raw[key] = value;
+        }
+    }
+    return taskQuerySchema.parse(raw);
+}
+
+export function taskQueryToSearchParams(query: TaskQuery): URLSearchParams {
+    const params = new URLSearchParams();
+    for (const key of QUERY_KEYS) {
+        const value = query[key];
+        if (value) {
+            params.set(key, value);
+        }
+    }
+    return params;
+}
+
+export function isEmptyTaskQuery(query: TaskQuery): boolean {
+    return QUERY_KEYS.every((key) => !query[key]);
+}
+
+/**
+ * Prisma filter for the tasks matching a query; due dates are whole UTC days
+ */
+export function taskQueryWhere(query: TaskQuery): Prisma.TaskWhereInput {
+    const conditions: Prisma.TaskWhereInput[] = [];
+
+    if (query.assigneeId) {
+        conditions.push({ assigneeId: query.assigneeId === UNASSIGNED ? null : query.assigneeId });
+    }
+    if (query.priority) {
+        conditions.push({ priority: query.priority });
+    }
+    if (query.sprintId) {
+        conditions.push({ sprintId: query.sprintId === BACKLOG ? null : query.sprintId });
+    }
+    if (query.componentId) {
+        conditions.push({ taskComponents: { some: { componentId: query.componentId } } });
+    }
+    if (query.labelId) {
+        conditions.push({ labels: { some: { labelId: query.labelId } } });
+    }
+    if (query.fieldId) {
+        conditions.push({
+            fieldValues: {
+                some: { fieldId: query.fieldId, ...(query.fieldValue && { value: query.fieldValue }) },
+            },
+        });
+    }
+    if (query.dueFrom || query.dueTo) {
+        conditions.push({
+            dueDate: {
+                ...(query.dueFrom && { gte: new Date(`${query.dueFrom}T00:00:00.000Z`) }),
+                ...(query.dueTo && { lte: new Date(`${query.dueTo}T23:59:59.999Z`) }),
+            },
+        });
+    }
+    if (query.text) {
+        conditions.push({
+            OR: [
+                { title: { contains: query.text, mode: 'insensitive' } },
+                { description: { contains: query.text, mode: 'insensitive' } },
+            ],
+        });
+    }
+
+    return conditions.length > 0 ? { AND: conditions } : {};
+}
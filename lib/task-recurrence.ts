@@ -0,0 +1,195 @@
+/**
+ * Task Recurrence Rules
+ *
+ * When a task template recurs: daily, on chosen weekdays, on a day of the
+ * month, or on a five-field cron expression (minute hour day-of-month month
+ * day-of-week). Times are in UTC. Monthly rules are limited to days 1-28 so
+ * every month has an occurrence; cron expressions follow cron's own rules.
+ */
+
+import { z } from 'zod';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const SEARCH_DAYS = 366 * 5; // Cron expressions with no occurrence in this range are rejected
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface CronFields {
+    minutes: number[];
+    hours: number[];
+    daysOfMonth: number[];
+    months: number[]; // 1-12
+    daysOfWeek: number[]; // 0-6, Sunday first
+    dayOfMonthRestricted: boolean;
+    dayOfWeekRestricted: boolean;
+}
+
+function parseField(field: string, min: number, max: number, name: string): number[] {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+        if (!match) {
+            throw new Error(`Invalid cron ${name}: ${part}`);
+        }
+
+        const [, range, stepText] = match;
+        const step = stepText ? parseInt(stepText, 10) : 1;
+        let [start, end] = range === '*'
+            ? [min, max]
+            : range.split('-').map((value) => parseInt(value, 10));
+        if (end === undefined) {
+            end = stepText ? max : start;
+        }
+
+        if (step < 1 || start < min || end > max || start > end) {
+            throw new Error(`Invalid cron ${name}: ${part}`);
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return Array.from(values).sort((a, b) => a - b);
+}
+
+/**
+ * Parse a five-field cron expression
+ */
+export function parseCron(expression: string): CronFields {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error('A cron expression needs five fields: minute hour day-of-month month day-of-week');
+    }
+
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+
+    return {
+        minutes: parseField(minute, 0, 59, 'minute'),
+        hours: parseField(hour, 0, 23, 'hour'),
+        daysOfMonth: parseField(dayOfMonth, 1, 31, 'day of month'),
+        months: parseField(month, 1, 12, 'month'),
+        // 7 is Sunday as well
+        daysOfWeek: Array.from(new Set(parseField(dayOfWeek, 0, 7, 'day of week').map((d) => d % 7))).sort((a, b) => a - b),
+        dayOfMonthRestricted: dayOfMonth !== '*',
+        dayOfWeekRestricted: dayOfWeek !== '*',
+    };
+}
+
+function isValidCron(expression: string): boolean {
+    try {
+        return nextCronOccurrence(parseCron(expression), new Date()) !== null;
+    } catch {
+        return false;
+    }
+}
+
+export const recurrenceRuleSchema = z.discriminatedUnion('frequency', [
+    z.object({
+        frequency: z.literal('daily'),
+        time: z.string().regex(TIME_PATTERN, 'Time must be HH:MM'),
+    }),
+    z.object({
+        frequency: z.literal('weekly'),
+        weekdays: z.array(z.number().int().min(0).max(6)).min(1, 'Pick at least one weekday'),
+        time: z.string().regex(TIME_PATTERN, 'Time must be HH:MM'),
+    }),
+    z.object({
+        frequency: z.literal('monthly'),
+        dayOfMonth: z.number().int().min(1).max(28),
+        time: z.string().regex(TIME_PATTERN, 'Time must be HH:MM'),
+    }),
+    z.object({
+        frequency: z.literal('cron'),
+        expression: z.string().refine(isValidCron, 'Invalid cron expression'),
+    }),
+]);
+
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+
+/**
+ * The cron fields a rule matches
+ */
+export function ruleToCron(rule: RecurrenceRule): CronFields {
+    if (rule.frequency === 'cron') {
+        return parseCron(rule.expression);
+    }
+
+    const [hour, minute] = rule.time.split(':');
+    const days = rule.frequency === 'monthly' ? String(rule.dayOfMonth) : '*';
+    const weekdays = rule.frequency === 'weekly' ? rule.weekdays.join(',') : '*';
+
+    return parseCron(`${parseInt(minute, 10)} ${parseInt(hour, 10)} ${days} * ${weekdays}`);
+}
+
+function dayMatches(fields: CronFields, day: Date): boolean {
+    if (!fields.months.includes(day.getUTCMonth() + 1)) {
+        return false;
+    }
+
+    const dayOfMonth = fields.daysOfMonth.includes(day.getUTCDate());
+    const dayOfWeek = fields.daysOfWeek.includes(day.getUTCDay());
+
+    // Like cron, a restricted day of month and day of week match either
+    if (fields.dayOfMonthRestricted && fields.dayOfWeekRestricted) {
+        return dayOfMonth || dayOfWeek;
+    }
+    if (fields.dayOfMonthRestricted) {
+        return dayOfMonth;
+    }
+    if (fields.dayOfWeekRestricted) {
+        return dayOfWeek;
+    }
+    return true;
+}
+
+/**
+ * First time strictly after `after` matching the cron fields, or null if none within five years
+ */
+export function nextCronOccurrence(fields: CronFields, after: Date): Date | null {
+    const firstDay = Date.UTC(after.getUTCFullYear(), after.getUTCMonth(), after.getUTCDate());
+
+    for (let offset = 0; offset < SEARCH_DAYS; offset++) {
+        const day = new Date(firstDay + offset * DAY_MS);
+        if (!dayMatches(fields, day)) {
+            continue;
+        }
+
+        for (const hour of fields.hours) {
+            for (const minute of fields.minutes) {
+                const candidate = new Date(day.getTime() + (hour * 60 + minute) * 60 * 1000);
+                if (candidate.getTime() > after.getTime()) {
+                    return candidate;
+                }
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Next time a rule fires after the given time
+ */
+export function nextOccurrence(rule: RecurrenceRule, after: Date): Date | null {
+    return nextCronOccurrence(ruleToCron(rule), after);
+}
+
+/**
+ * Short human-readable summary of a rule
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+    switch (rule.frequency) {
+        case 'daily':
+            return `Daily at ${rule.time} UTC`;
+        case 'weekly':
+            return `Weekly on ${[...rule.weekdays].sort((a, b) => a - b).map((d) => WEEKDAY_LABELS[d]).join(', ')} at ${rule.time} UTC`;
+        case 'monthly':
+            return `Monthly on day ${rule.dayOfMonth} at ${rule.time} UTC`;
+        case 'cron':
+            return `Cron "${rule.expression}" (UTC)`;
+    }
+}
@@ -0,0 +1,221 @@
+/**
+ * Task Template Service
+ *
+ * Per-project task templates: title, description, priority, checklist and
+ * default assignee. A template with a recurrence rule is materialized by the
+ * scheduler, which creates its tasks through the same path as the task
+ * routes, so activity is logged the same way. Connected boards hear about
+ * scheduled tasks through the `task:create` event.
+ *
+ * Occurrences missed while the server was down are not made up: a late run
+ * creates one task and schedules the next future occurrence.
+ */
+
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { createProjectTask, type CreateTaskInput } from './task-creation';
+import { TaskValidationError } from './task-errors';
+import { nextOccurrence, recurrenceRuleSchema, type RecurrenceRule } from './task-recurrence';
+import { Prisma, type TaskTemplate } from '@prisma/client';
+
+const RECURRENCE_CHECK_INTERVAL = 60 * 1000; // 1 minute
+
+export const MAX_TEMPLATE_CHECKLIST_ITEMS = 50;
+
+type TaskCreatedHandler = (projectId: string, task: Awaited<ReturnType<typeof createProjectTask>>) => void;
+
+export const taskTemplateSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    title: z.string().trim().min(1).max(200),
+    description: z.string().max(10000).nullable().optional(),
+    priority: z.enum(['LOW', 'MEDIUM', 'HIGH']).default('MEDIUM'),
+    checklist: z.array(z.string().trim().min(1).max(200)).max(MAX_TEMPLATE_CHECKLIST_ITEMS).default([]),
+    assigneeId: z.string().nullable().optional(),
+    recurrence: recurrenceRuleSchema.nullable().optional(), // null for templates only used by hand
+});
+
+export type TaskTemplateInput = z.infer<typeof taskTemplateSchema>;
+
+/**
+ * Fields of a new task taken from a template
+ */
+export function templateTaskInput(template: TaskTemplate): CreateTaskInput {
+    return {
+        title: template.title,
+        description: template.description,
+        priority: template.priority,
+        assigneeId: template.assigneeId,
+        checklist: template.checklist,
+        templateId: template.id,
+    };
+}
+
+/**
+ * Next run of a recurrence rule, or null for templates without one
+ */
+function scheduleFrom(recurrence: RecurrenceRule | null | undefined, after: Date): Date | null {
+    return recurrence ? nextOccurrence(recurrence, after) : null;
+}
+
+/**
+ * Check that a default assignee can be assigned tasks of the project
+ */
+async function assertAssignable(projectId: string, assigneeId: string): Promise<void> {
+    const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        select: {
+            createdById: true,
+            team: {
+                select: {
+                    members: { where: { userId: assigneeId }, select: { id: true } },
+                },
+            },
+        },
+    });
+
+    const isMember = project?.team ? project.team.members.length > 0 : project?.createdById === assigneeId;
+    if (!isMember) {
+        throw new TaskValidationError('The default assignee must be a member of the project');
+    }
+}
+
+export async function getTaskTemplate(templateId: string) {
+    return prisma.taskTemplate.findUnique({ where: { id: templateId } });
+}
+
+export async function getProjectTaskTemplates(projectId: string) {
+    return prisma.taskTemplate.findMany({
+        where: { projectId },
+        include: {
+            assignee: {
+                select: { id: true, name: true, email: true, image: true },
+            },
+        },
+        orderBy: { name: 'asc' },
+    });
+}
+
+export async function createTaskTemplate(projectId: string, createdById: string, data: TaskTemplateInput) {
+    if (data.assigneeId) {
+        await assertAssignable(projectId, data.assigneeId);
+    }
+
+    return prisma.taskTemplate.create({
+        data: {
+            projectId,
+            createdById,
+            name: data.name,
+            title: data.title,
+            description: data.description || null,
+            priority: data.priority,
+            checklist: data.checklist,
+            assigneeId: data.assigneeId || null,
+            recurrence: data.recurrence ?? undefined,
+            nextRunAt: scheduleFrom(data.recurrence, new Date()),
+        },
+    });
+}
+
+/**
+ * Replace a template's fields; a changed recurrence is rescheduled from now
+ */
+export async function updateTaskTemplate(templateId: string, data: TaskTemplateInput) {
+    const template = await prisma.taskTemplate.findUnique({ where: { id: templateId } });
+    if (!template) {
+        throw new TaskValidationError('Template not found');
+    }
+
+    if (data.assigneeId) {
+        await assertAssignable(template.projectId, data.assigneeId);
+    }
+
+    const recurrenceChanged = JSON.stringify(data.recurrence ?? null) !== JSON.stringify(template.recurrence);
+
+    return prisma.taskTemplate.update({
+        where: { id: templateId },
+        data: {
+            name: data.name,
+            title: data.title,
+            description: data.description || null,
+            priority: data.priority,
+            checklist: data.checklist,
+            assigneeId: data.assigneeId || null,
+            recurrence: data.recurrence ?? Prisma.DbNull,
+            nextRunAt: recurrenceChanged ? scheduleFrom(data.recurrence, new Date()) : undefined,
+        },
+    });
+}
+
+/**
+ * Create the tasks of every template whose next run is due
+ *
+ * @param onCreate - Called with each created task, e.g. to broadcast it to connected boards
+ */
+export async function materializeDueTemplates(
+    now: Date = new Date(),
+    onCreate?: TaskCreatedHandler
+): Promise<number> {
+    const due = await prisma.taskTemplate.findMany({
+        where: { nextRunAt: { lte: now } },
+        include: {
+            createdBy: { select: { id: true, name: true, email: true } },
+        },
+    });
+
+    let created = 0;
+
+    for (const template of due) {
+        const parsed = recurrenceRuleSchema.safeParse(template.recurrence);
+        const nextRunAt = parsed.success ? nextOccurrence(parsed.data, now) : null;
+
+        // Claim the run first so overlapping checks never create the same occurrence twice
+        const claimed = await prisma.taskTemplate.updateMany({
+            where: { id: template.id, nextRunAt: template.nextRunAt },
+            data: { nextRunAt, lastRunAt: now },
+        });
+        if (claimed.count === 0 || !parsed.success) {
+            continue;
+        }
+
+        try {
+            const task = await createProjectTask(
+                template.projectId,
+                template.createdBy,
+                templateTaskInput(template),
+                true
+            );
+            created++;
+            onCreate?.(template.projectId, task);
+        } catch (error) {
+            console.error(`Failed to create recurring task from template ${template.id}:`, error);
+        }
+    }
+
+    return created;
+}
+
+// Start the recurrence scheduler if in production
+let recurrenceInterval: NodeJS.Timeout | null = null;
+
+export function startPeriodicTaskRecurrence(onCreate?: TaskCreatedHandler) {
+    if (recurrenceInterval) {
+        console.warn('Task recurrence scheduler already running');
+        return;
+    }
+
+    console.log('Starting task recurrence scheduler (every minute)');
+
+    materializeDueTemplates(new Date(), onCreate).catch(console.error);
+
+    recurrenceInterval = setInterval(() => {
+        materializeDueTemplates(new Date(), onCreate).catch(console.error);
+    }, RECURRENCE_CHECK_INTERVAL);
+}
+
+export function stopPeriodicTaskRecurrence() {
+    if (recurrenceInterval) {
+        clearInterval(recurrenceInterval);
+        recurrenceInterval = null;
+        console.log('Stopped task recurrence scheduler');
+    }
+}
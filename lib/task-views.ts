@@ -0,0 +1,110 @@
+/**
+ * Board Views
+ *
+ * Layout helpers for the views of a project's tasks: grouping the board into
+ * swimlanes by assignee or priority, and laying due dates out on a month
+ * calendar. Due dates are calendar days, stored as UTC midnight.
+ */
+
+import { addDays, endOfMonth, endOfWeek, format, startOfMonth, startOfWeek } from 'date-fns';
+import type { TaskPriority } from '@prisma/client';
+import { UNASSIGNED, type Swimlanes } from './task-query';
+
+export interface LaneTask {
+    assigneeId: string | null;
+    priority: TaskPriority;
+    dueDate: Date | string | null;
+}
+
+export interface Swimlane<T> {
+    key: string;
+    label: string;
+    tasks: T[];
+}
+
+const PRIORITY_LANES: { key: TaskPriority; label: string }[] = [
+    { key: 'HIGH', label: 'High priority' },
+    { key: 'MEDIUM', label: 'Medium priority' },
+    { key: 'LOW', label: 'Low priority' },
+];
+
+/**
+ * Group tasks into swimlanes, keeping their order within each lane
+ * Assignee lanes follow the member order with unassigned tasks last; empty lanes are left out.
+ */
+export function groupIntoSwimlanes<T extends LaneTask>(
+    tasks: T[],
+    by: Swimlanes,
+    members: { id: string; name: string | null; email: string }[] = []
+): Swimlane<T>[] {
+    if (by === 'none') {
+        return [{ key: 'all', label: 'All tasks', tasks }];
+    }
+
+    if (by === 'priority') {
+        return PRIORITY_LANES
+            .map(({ key, label }) => ({ key, label, tasks: tasks.filter((task) => task.priority === key) }))
+            .filter((lane) => lane.tasks.length > 0);
+    }
+
+    const lanes: Swimlane<T>[] = members.map((member) => ({
+        key: member.id,
+        label: member.name || member.email,
+        tasks: tasks.filter((task) => task.assigneeId === member.id),
+    }));
+
+    // Assignees who are no longer members still get a lane
+    const known = new Set(members.map((member) => member.id));
+    const others = Array.from(new Set(
+        tasks.map((task) => task.assigneeId).filter((id): id is string => !!id && !known.has(id))
+    ));
+    for (const id of others) {
+        lanes.push({ key: id, label: 'Former member', tasks: tasks.filter((task) => task.assigneeId === id) });
+    }
+
+    lanes.push({ key: UNASSIGNED, label: 'Unassigned', tasks: tasks.filter((task) => !task.assigneeId) });
+
+    return lanes.filter((lane) => lane.tasks.length > 0);
+}
+
+/**
+ * The calendar day a due date falls on, as YYYY-MM-DD
+ */
+export function dueDayKey(dueDate: Date | string): string {
+    return new Date(dueDate).toISOString().slice(0, 10);
+}
+
+/**
+ * Weeks of a month calendar, Monday first, padded with days of the neighbouring months
+ */
+export function calendarWeeks(month: Date): Date[][] {
+    const first = startOfWeek(startOfMonth(month), { weekStartsOn: 1 });
+    const last = endOfWeek(endOfMonth(month), { weekStartsOn: 1 });
+
+    const weeks: Date[][] = [];
+    for (let day = first; day <= last; day = addDays(day, 7)) {
+        weeks.push(Array.from({ length: 7 }, (_, index) => addDays(day, index)));
+    }
+    return weeks;
+}
+
+/**
+ * Tasks with a due date by the calendar day they are due, as keyed by calendarDayKey
+ */
+export function tasksByDueDay<T extends LaneTask>(tasks: T[]): Map<string, T[]> {
+    const days = new Map<string, T[]>();
+    for (const task of tasks) {
+        if (task.dueDate) {
+            const key = dueDayKey(task.dueDate);
+            days.set(key, [...(days.get(key) ?? []), task]);
+        }
+    }
+    return days;
+}
+
+/**
+ * Key of a local calendar cell, matching dueDayKey of tasks due that day
+ */
+export function calendarDayKey(day: Date): string {
+    return format(day, 'yyyy-MM-dd');
+}
@@ -0,0 +1,270 @@
+/**
+ * Task Workflow Service
+ *
+ * Per-project kanban columns: name, order, color and whether the column is in
+ * the done category. Tasks store the key of their column in `status`; keys
+ * never change once created, so renaming a column leaves its tasks in place.
+ * Projects without stored columns use the default workflow, whose keys are the
+ * statuses tasks had before workflows were configurable.
+ *
+ * Analytics treat tasks in done columns as completed, and tasks in any other
+ * column except the first not-done one as in progress. A column's WIP limit
+ * is advisory: the board warns when it is exceeded but still accepts moves.
+ */
+
+import { z } from 'zod';
+import { prisma } from './prisma';
+
+export interface WorkflowColumn {
+    key: string;
+    name: string;
+    color: string;
+    isDone: boolean;
+    wipLimit: number | null;
+}
+
+export const MAX_WORKFLOW_COLUMNS = 12;
+
+export const DEFAULT_WORKFLOW: WorkflowColumn[] = [
+    { key: 'TODO', name: 'To Do', color: '#6b7280', isDone: false, wipLimit: null },
+    { key: 'IN_PROGRESS', name: 'In Progress', color: '#3b82f6', isDone: false, wipLimit: null },
+    { key: 'UNDER_REVIEW', name: 'Under Review', color: '#eab308', isDone: false, wipLimit: null },
+    { key: 'DONE', name: 'Done', color: '#22c55e', isDone: true, wipLimit: null },
+];
+
+const COLUMN_KEY_PATTERN = /^[A-Z0-9_]+$/;
+
+export const workflowSchema = z.object({
+    columns: z
+        .array(
+            z.object({
+                key: z.string().regex(COLUMN_KEY_PATTERN).max(40).optional(), // Omitted for new columns
+                name: z.string().trim().min(1).max(40),
+                color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex color'),
+                isDone: z.boolean(),
+                wipLimit: z.number().int().min(1).max(999).nullable().optional(),
+            })
+        )
+        .min(2)
+        .max(MAX_WORKFLOW_COLUMNS)
+        .refine((columns) => columns.some((c) => c.isDone), {
+            message: 'At least one column must be in the done category',
+        })
+        .refine((columns) => columns.some((c) => !c.isDone), {
+            message: 'At least one column must be outside the done category',
+        })
+        .refine((columns) => new Set(columns.map((c) => c.name.toLowerCase())).size === columns.length, {
+            message: 'Column names must be unique',
+        })
+        .refine((columns) => {
+            const keys = columns.flatMap((c) => (c.key ? [c.key] : []));
+            return new Set(keys).size === keys.length;
+        }, {
+            message: 'Column keys must be unique',
+        }),
+});
+
+export type WorkflowInput = z.infer<typeof workflowSchema>;
+
+/**
+ * Derive an unused column key from a column name, e.g. "QA Review" -> "QA_REVIEW"
+ */
+export function columnKeyFromName(name: string, taken: Set<string>): string {
+    const base = name
+        .toUpperCase()
+        .replace(/[^A-Z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '')
+        .slice(0, 32) || 'COLUMN';
+
+    let key = base;
+    for (let suffix = 2; taken.has(key); suffix++) {
+        key = `${base}_${suffix}`;
+    }
+    return key;
+}
+
+/**
+ * Give new columns keys that do not clash with kept or current ones
+ *
+ * @param current - Columns currently stored, whose removed keys must not be reused
+ */
+export function assignColumnKeys(
+    columns: WorkflowInput['columns'],
+    current: WorkflowColumn[]
+): WorkflowColumn[] {
+    const taken = new Set([
+        ...current.map((c) => c.key),
+        ...columns.flatMap((c) => (c.key ? [c.key] : [])),
+    ]);
+
+    return columns.map((column) => {
+        const key = column.key ?? columnKeyFromName(column.name, taken);
+        taken.add(key);
+        return {
+            key,
+            name: column.name,
+            color: column.color,
+            isDone: column.isDone,
+            wipLimit: column.wipLimit ?? null,
+        };
+    });
+}
+
+/**
+ * Column new tasks start in: the first column outside the done category
+ */
+export function initialStatus(columns: WorkflowColumn[]): string {
+    return (columns.find((c) => !c.isDone) ?? columns[0]).key;
+}
+
+/**
+ * Column tasks move to when completed elsewhere (e.g. a closing commit)
+ */
+export function completedStatus(columns: WorkflowColumn[]): string {
+    return (columns.find((c) => c.isDone) ?? columns[columns.length - 1]).key;
+}
+
+export function doneStatuses(columns: WorkflowColumn[]): string[] {
+    return columns.filter((c) => c.isDone).map((c) => c.key);
+}
+
+export function isDoneStatus(columns: WorkflowColumn[], status: string): boolean {
+    return columns.some((c) => c.key === status && c.isDone);
+}
+
+/**
+ * Keys of columns whose tasks count as in progress: not done, and past the initial column
+ */
+export function inProgressStatuses(columns: WorkflowColumn[]): string[] {
+    const initial = initialStatus(columns);
+    return columns.filter((c) => !c.isDone && c.key !== initial).map((c) => c.key);
+}
+
+/**
+ * Where tasks of removed columns go: the first remaining column of the same category
+ */
+export function planColumnMoves(
+    current: WorkflowColumn[],
+    next: WorkflowColumn[]
+): Map<string, string> {
+    const kept = new Set(next.map((c) => c.key));
+    const moves = new Map<string, string>();
+
+    for (const column of current) {
+        if (kept.has(column.key)) {
+            continue;
+        }
+        const target = next.find((c) => c.isDone === column.isDone) ?? next[0];
+        moves.set(column.key, target.key);
+    }
+
+    return moves;
+}
+
+/**
+ * Get the workflow columns of a project in board order, falling back to the defaults
+ */
+export async function getProjectWorkflow(projectId: string): Promise<WorkflowColumn[]> {
+    const columns = await prisma.workflowColumn.findMany({
+        where: { projectId },
+        orderBy: { position: 'asc' },
+        select: { key: true, name: true, color: true, isDone: true, wipLimit: true },
+    });
+
+    return columns.length > 0 ? columns : DEFAULT_WORKFLOW;
+}
+
+/**
+ * Update data moving a task to another column: the end of that column and a recorded transition
+ * Every status change goes through here, whether from the board or a closing commit.
+ *
+ * @param changedById - User credited with the move, null when nobody can be
+ */
+export async function statusChangeData(
+    task: { projectId: string; status: string },
+    toStatus: string,
+    changedById: string | null
+) {
+    const lastTask = await prisma.task.findFirst({
+        where: { projectId: task.projectId, status: toStatus },
+        orderBy: { position: 'desc' },
+        select: { position: true },
+    });
+
+    return {
+        status: toStatus,
+        position: lastTask ? lastTask.position + 1 : 0,
+        transitions: {
+            create: { fromStatus: task.status, toStatus, changedById },
+        },
+    };
+}
+
+/**
+ * Replace the workflow columns of a project
+ * Tasks in removed columns move to the end of a remaining column of the same category.
+ * Also handles tasks whose status matched no column, so they show up on the board again.
+ * Moves are recorded as task transitions by the user who changed the workflow.
+ */
+export async function updateProjectWorkflow(
+    projectId: string,
+    input: WorkflowInput,
+    changedById: string
+): Promise<WorkflowColumn[]> {
+    const current = await getProjectWorkflow(projectId);
+    const columns = assignColumnKeys(input.columns, current);
+    const moves = planColumnMoves(current, columns);
+
+    const keys = columns.map((c) => c.key);
+    const orphaned = await prisma.task.findMany({
+        where: { projectId, status: { notIn: [...keys, ...Array.from(moves.keys())] } },
+        distinct: ['status'],
+        select: { status: true },
+    });
+    for (const { status } of orphaned) {
+        moves.set(status, initialStatus(columns));
+    }
+
+    // Tasks moved into a column go after its last task, keeping their own order
+    const lastPositions = await prisma.task.groupBy({
+        by: ['status'],
+        where: { projectId },
+        _max: { position: true },
+    });
+    const nextPosition = new Map(
+        lastPositions.map((group) => [group.status, (group._max.position ?? -1) + 1])
+    );
+    const offsets = Array.from(moves, ([from, to]) => {
+        const offset = nextPosition.get(to) ?? 0;
+        nextPosition.set(to, offset + (nextPosition.get(from) ?? 0));
+        return { from, to, offset };
+    });
+
+    const movedTasks = moves.size === 0 ? [] : await prisma.task.findMany({
+        where: { projectId, status: { in: Array.from(moves.keys()) } },
+        select: { id: true, status: true },
+    });
+
+    await prisma.$transaction([
+        ...offsets.map(({ from, to, offset }) =>
+            prisma.task.updateMany({
+                where: { projectId, status: from },
+                data: { status: to, position: { increment: offset } },
+            })
+        ),
+        prisma.taskTransition.createMany({
+            data: movedTasks.map((task) => ({
+                taskId: task.id,
+                fromStatus: task.status,
+                toStatus: moves.get(task.status)!,
+                changedById,
+            })),
+        }),
+        prisma.workflowColumn.deleteMany({ where: { projectId } }),
+        prisma.workflowColumn.createMany({
+            data: columns.map((column, position) => ({ projectId, position, ...column })),
+        }),
+    ]);
+
+    return columns;
+}
@@ -0,0 +1,55 @@
+#!/usr/bin/env tsx
+import { PrismaClient } from "@prisma/client";
+
+/**
+ * Convert Task.status from the TaskStatus enum to text, keeping every value.
+ *
+ * Run this BEFORE applying the schema that introduced workflow columns: Prisma
+ * otherwise drops and re-adds the column, losing each task's status. The
+ * default workflow's column keys are the old enum values (TODO, IN_PROGRESS,
+ * UNDER_REVIEW, DONE), so migrated tasks stay in their columns. Safe to re-run.
+ */
+const prisma = new PrismaClient();
+
+async function main() {
+  console.log("Starting migration: Task.status enum -> workflow column keys...");
+
+  const [column] = await prisma.$queryRaw<Array<{ data_type: string }>>`
+    SELECT data_type FROM information_schema.columns
+    WHERE table_name = 'Task' AND column_name = 'status'
+  `;
+
+  if (!column) {
+    console.log("Task.status not found; nothing to migrate.");
+    return;
+  }
+
+  if (column.data_type === "text") {
+    console.log("Task.status is already text.");
+  } else {
+    await prisma.$transaction([
+      prisma.$executeRawUnsafe(`ALTER TABLE "Task" ALTER COLUMN "status" DROP DEFAULT`),
+      prisma.$executeRawUnsafe(`ALTER TABLE "Task" ALTER COLUMN "status" TYPE TEXT USING "status"::text`),
+      prisma.$executeRawUnsafe(`DROP TYPE IF EXISTS "TaskStatus"`),
+    ]);
+    console.log("Converted Task.status to text.");
+  }
+
+  const statuses = await prisma.$queryRaw<Array<{ status: string; count: bigint }>>`
+    SELECT "status", COUNT(*) AS count FROM "Task" GROUP BY "status" ORDER BY "status"
+  `;
+  for (const { status, count } of statuses) {
+    console.log(`  ${status}: ${count} tasks`);
+  }
+
+  console.log("Migration complete. Apply the schema next (npx prisma db push).");
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
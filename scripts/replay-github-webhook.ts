@@ -0,0 +1,49 @@
+#!/usr/bin/env tsx
+import { readFileSync } from "fs";
+import { basename } from "path";
+import { createHmac, randomUUID } from "crypto";
+
+/**
+ * Replay a recorded GitHub webhook payload against a webhook endpoint,
+ * signed the same way GitHub signs deliveries.
+ *
+ * The event type defaults to the payload file name, so the fixtures in
+ * scripts/fixtures/github-webhooks can be replayed as-is.
+ */
+async function main() {
+  const url = process.argv[2];
+  const secret = process.argv[3];
+  const payloadPath = process.argv[4];
+  const event = process.argv[5] || basename(payloadPath || "", ".json");
+
+  if (!url || !secret || !payloadPath) {
+    console.error("Usage: tsx scripts/replay-github-webhook.ts <webhookUrl> <secret> <payload.json> [event]");
+    process.exit(1);
+  }
+
+  const body = readFileSync(payloadPath, "utf8");
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "GitHub-Hookshot/replay",
+      "X-GitHub-Event": event,
+      "X-GitHub-Delivery": randomUUID(),
+      "X-Hub-Signature-256": `sha256=${createHmac("sha256", secret).update(body, "utf8").digest("hex")}`,
+    },
+    body,
+  });
+
+  console.log(`${event} -> ${response.status}`);
+  console.log(await response.text());
+
+  if (!response.ok) {
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
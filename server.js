@@ -44,6 +44,9 @@ app.prepare().then(() => {
             pingInterval: 25000,
         });
 
+        // Server-side task changes (e.g. commits closing tasks) reach open boards through this, see lib/board-events
+        globalThis.boardEmitter = (projectId, event, payload) => io.to(projectId).emit(event, payload);
+
         // Store active users per project with user information
         // Map<projectId, Map<socketId, { userId, userName, userImage }>>
         projectRooms = new Map();
@@ -295,7 +298,7 @@ app.prepare().then(() => {
                 console.log(`> Socket.io server running`);
             }
 
-            // Start GitHub sync in production
+            // Start background services in production
             if (!dev) {
                 try {
                     const { startPeriodicSync } = require("./lib/github-sync");
@@ -304,6 +307,35 @@ app.prepare().then(() => {
                 } catch (error) {
                     console.error("Failed to start GitHub sync:", error);
                 }
+
+                try {
+                    const { startPeriodicRiskSnapshots } = require("./lib/risk-snapshots");
+                    startPeriodicRiskSnapshots();
+                    console.log(`> Risk snapshot service started`);
+                } catch (error) {
+                    console.error("Failed to start risk snapshots:", error);
+                }
+
+                try {
+                    const { startPeriodicTaskRecurrence } = require("./lib/task-templates");
+                    // Boards in the project see scheduled tasks as if another user created them
+                    startPeriodicTaskRecurrence((projectId, task) => {
+                        if (io) {
+                            io.to(projectId).emit("task:create", task);
+                        }
+                    });
+                    console.log(`> Task recurrence scheduler started`);
+                } catch (error) {
+                    console.error("Failed to start task recurrence scheduler:", error);
+                }
+
+                try {
+                    const { startPeriodicNotificationChecks } = require("./lib/notifications");
+                    startPeriodicNotificationChecks();
+                    console.log(`> Notification scheduler started`);
+                } catch (error) {
+                    console.error("Failed to start notification scheduler:", error);
+                }
             }
         });
 });
@@ -16,6 +16,8 @@ export interface Component {
     id: string;
     componentId: string; // Unique Component ID for referencing
     canvasId: string;
+    shapeId?: string; // Canvas shape ID this component is drawn as
+    pathPatterns: string[]; // File path globs owned by this component
     name: string;
     type: ComponentType;
     description?: string;
@@ -27,6 +29,8 @@ export interface Component {
 
 export interface CreateComponentInput {
     canvasId: string;
+    shapeId?: string;
+    pathPatterns?: string[];
     name: string;
     type: ComponentType;
     description?: string;
@@ -35,6 +39,8 @@ export interface CreateComponentInput {
 }
 
 export interface UpdateComponentInput {
+    shapeId?: string | null;
+    pathPatterns?: string[];
     name?: string;
     type?: ComponentType;
     description?: string;
@@ -52,3 +58,37 @@ export interface ArchitectureElement {
     id: string;
     [key: string]: any;
 }
+
+/**
+ * Kinds of persisted relationships between components
+ */
+export type RelationshipKind = 'DEPENDENCY' | 'DATAFLOW';
+
+export interface ComponentRelationship {
+    id: string;
+    sourceComponentId: string;
+    targetComponentId: string;
+    kind: RelationshipKind;
+    protocol?: string;
+    label?: string;
+    metadata?: Record<string, any>;
+    shapeId?: string; // Canvas arrow shape this was drawn as
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface CreateRelationshipInput {
+    sourceComponentId: string;
+    targetComponentId: string;
+    kind?: RelationshipKind;
+    protocol?: string;
+    label?: string;
+    metadata?: Record<string, any>;
+}
+
+export interface UpdateRelationshipInput {
+    kind?: RelationshipKind;
+    protocol?: string | null;
+    label?: string | null;
+    metadata?: Record<string, any>;
+}
@@ -23,8 +23,26 @@ export interface DecisionRecord {
     tags: string[];
 }
 
+export interface LinkedCommit {
+    sha: string;
+    message: string;
+    author: string;
+    committedAt: Date;
+    url: string;
+}
+
+export interface LinkedPullRequest {
+    number: number;
+    title: string;
+    state: string; // 'open', 'closed', 'merged'
+    author: string;
+    url: string;
+}
+
 export interface DecisionRecordWithRelations extends DecisionRecord {
     linkedComponentIds?: string[];
+    linkedCommits?: LinkedCommit[]; // Commits whose messages reference this decision
+    linkedPullRequests?: LinkedPullRequest[]; // Pull requests referencing or tagged with this decision
     supersededByRecord?: DecisionRecord | null;
     supersedesRecord?: DecisionRecord | null;
 }
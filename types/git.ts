@@ -0,0 +1,133 @@
+/**
+ * Git Provider Types
+ *
+ * Provider-neutral shapes returned by the GitHub, GitLab and Gitea clients,
+ * and the interface every client implements.
+ */
+
+export type GitProviderType = 'GITHUB' | 'GITLAB' | 'GITEA' | 'LOCAL'; // LOCAL: a repository on the server's filesystem
+
+export interface ProviderCommit {
+    sha: string;
+    message: string;
+    author: string;
+    authorEmail: string;
+    committedAt: Date;
+    url: string;
+}
+
+// One file of a commit's diff
+export interface ProviderFileChange {
+    path: string;
+    previousPath: string | null; // Set for renames
+    status: 'added' | 'modified' | 'removed' | 'renamed';
+    additions: number;
+    deletions: number;
+    patch: string | null; // Unified diff hunks; null for binary or oversized files
+}
+
+export interface ProviderBranch {
+    name: string;
+    sha: string;
+    protected: boolean;
+}
+
+// Pull requests on GitHub and Gitea, merge requests on GitLab
+export interface ProviderPullRequest {
+    number: number; // Per-repository number (GitLab: iid)
+    title: string;
+    state: string; // 'open' or 'closed'; merged pull requests are closed with merged set
+    author: string;
+    createdAt: Date;
+    updatedAt: Date;
+    url: string;
+    merged: boolean;
+}
+
+export interface ProviderPullRequestReview {
+    login: string;
+    state: string; // GitHub review states: APPROVED, CHANGES_REQUESTED, COMMENTED, DISMISSED, PENDING
+    submittedAt: Date | null;
+}
+
+export interface ProviderPullRequestDetails {
+    number: number;
+    title: string;
+    body: string | null;
+    state: string;
+    draft: boolean;
+    merged: boolean;
+    author: string;
+    url: string;
+    headBranch: string;
+    baseBranch: string;
+    mergeCommitSha: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+    mergedAt: Date | null;
+    closedAt: Date | null;
+    requestedReviewers: string[];
+    reviews: ProviderPullRequestReview[];
+    changedFiles: string[];
+    commitShas: string[];
+}
+
+export interface ProviderRepository {
+    id: string;
+    name: string;
+    fullName: string;
+    owner: string; // GitLab: full namespace path, including subgroups
+    description: string | null;
+    private: boolean;
+    url: string;
+}
+
+// API quota as of a provider's latest response
+export interface RateLimitInfo {
+    remaining: number;
+    limit: number | null;
+    resetAt: Date | null;
+}
+
+export interface PageOptions {
+    page?: number;
+    perPage?: number;
+}
+
+export interface GitProvider {
+    readonly type: GitProviderType;
+    readonly rateLimit: RateLimitInfo | null; // null until a response reported one
+
+    getCommits(
+        owner: string,
+        repo: string,
+        options?: PageOptions & { since?: Date; until?: Date; sha?: string }
+    ): Promise<{ commits: ProviderCommit[]; hasMore: boolean }>;
+
+    getCommitFiles(owner: string, repo: string, sha: string): Promise<string[]>;
+
+    getCommitDiff(owner: string, repo: string, sha: string): Promise<ProviderFileChange[]>;
+
+    getBranches(
+        owner: string,
+        repo: string,
+        options?: PageOptions
+    ): Promise<{ branches: ProviderBranch[]; hasMore: boolean }>;
+
+    getPullRequests(
+        owner: string,
+        repo: string,
+        options?: PageOptions & { state?: 'open' | 'closed' | 'all' }
+    ): Promise<{ pullRequests: ProviderPullRequest[]; hasMore: boolean }>;
+
+    getPullRequestDetails(owner: string, repo: string, number: number): Promise<ProviderPullRequestDetails>;
+
+    getRepository(
+        owner: string,
+        repo: string
+    ): Promise<Omit<ProviderRepository, 'owner'> & { defaultBranch: string | null }>;
+
+    listUserRepositories(
+        options?: PageOptions
+    ): Promise<{ repositories: ProviderRepository[]; hasMore: boolean }>;
+}
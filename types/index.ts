@@ -19,7 +19,6 @@ export type {
     AIMessage,
     Activity,
     Role,
-    TaskStatus,
     TaskPriority,
     ActivityType,
     InvitationStatus,